@@ -10,6 +10,8 @@ class FlibustaAppNG {
   display: any;
   progressiveLoader: any;
   enhancedSearch: any;
+  searchSuggest: any;
+  reader: any;
   static instance: FlibustaAppNG | undefined;
 
   constructor() {
@@ -23,6 +25,8 @@ class FlibustaAppNG {
     this.display = new (window as any).DisplayModule(this);
     this.progressiveLoader = new (window as any).ProgressiveLoader(this);
     this.enhancedSearch = new (window as any).EnhancedSearch(this);
+    this.searchSuggest = new (window as any).SearchSuggest(this, 'searchInput');
+    this.reader = new (window as any).ReaderModule(this);
 
         // Global admin cover precaching function
     (window as any)._adminPrecacheCovers = async () => {
@@ -236,11 +240,11 @@ class FlibustaAppNG {
     this.display.displayHome();
   }
 
-  async showBooks() {
+  async showBooks(searchParams: any = {}) {
     this.currentSection = 'books';
     this.ui.updateActiveNavigation('books');
     this.enhancedSearch.showSearchInterface('books');
-    this.progressiveLoader.start('books');
+    this.progressiveLoader.start('books', searchParams);
   }
 
   async showAuthors() {
@@ -259,6 +263,9 @@ class FlibustaAppNG {
     try {
       const data = await this.api.getAuthorBooks(authorId);
       this.display.displayBooks(data);
+      if (Array.isArray(data) && data.length) {
+        document.getElementById('contentArea')?.insertAdjacentHTML('afterbegin', `<div class="mb-6 flex justify-end">${this.display.archiveToolbar(`author/${Number(authorId)}`)}</div>`);
+      }
     } catch (error: any) {
       const msg = this.api.handleAPIError(error, 'showAuthorBooks');
       this.ui.showError(msg);
@@ -405,6 +412,41 @@ class FlibustaAppNG {
     }
   }
 
+  // Download a collection as one ZIP in the format picked next to the button
+  async downloadArchive(path: string) {
+    const format = (document.getElementById('archiveFormat') as HTMLSelectElement | null)?.value || '';
+    try {
+      await this.api.downloadArchive(path, format || null);
+      this.ui.showToast('Успех', 'Архив собирается и скоро начнёт скачиваться...', 'success');
+    } catch (error: any) {
+      const msg = this.api.handleAPIError(error, 'downloadArchive');
+      this.ui.showToast('Ошибка', msg, 'error');
+    }
+  }
+
+  async openReader(bookId: string) {
+    await this.reader.open(bookId);
+  }
+
+  // Mail a book to a device, then report the outcome once the delivery settles
+  async sendToDevice(deviceId: number, bookId: string) {
+    try {
+      const delivery = await this.api.sendToDevice(deviceId, bookId);
+      this.ui.showToast('Отправка', `Книга отправляется на ${delivery.device_name}...`, 'info');
+      for (let attempt = 0; attempt < 36; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 5000));
+        const current = ((await this.api.getDeliveries(20)) || []).find((d: any) => d.id === delivery.id);
+        if (!current || current.status === 'pending') continue;
+        if (current.status === 'sent') this.ui.showToast('Успех', `Отправлено на ${current.device_name} (${String(current.format).toUpperCase()})`, 'success');
+        else this.ui.showToast('Ошибка', `Не удалось отправить: ${current.error || 'неизвестная ошибка'}`, 'error');
+        return;
+      }
+    } catch (error: any) {
+      const msg = this.api.handleAPIError(error, 'sendToDevice');
+      this.ui.showToast('Ошибка', msg, 'error');
+    }
+  }
+
   startProgressPolling() {
     if (this.progressInterval) {
       clearInterval(this.progressInterval);
@@ -7,7 +7,7 @@ class APIModuleNG {
   isProcessing: boolean;
   rateLimitDelay: number;
   _inflight: number;
-  _aborters: { books?: AbortController; authors?: AbortController };
+  _aborters: { books?: AbortController; authors?: AbortController; suggest?: AbortController };
 
   constructor(app: any) {
     this.app = app;
@@ -104,6 +104,12 @@ class APIModuleNG {
     if (params.genre) searchParams.append('genre', params.genre);
     if (params.series) searchParams.append('series', params.series);
     if (params.year) searchParams.append('year', params.year);
+    if (params.minRating) searchParams.append('min_rating', params.minRating);
+    if (params.genreId) searchParams.append('genre_id', params.genreId);
+    if (params.authorId) searchParams.append('author_id', params.authorId);
+    if (params.decade) searchParams.append('decade', params.decade);
+    if (params.format) searchParams.append('format', params.format);
+    if (params.facets && page === 0) searchParams.append('facets', 'true');
     if (params.language) searchParams.append('language', params.language);
     const response: any = await this.apiCall(`/api/books/search?${searchParams}`, { signal: this._aborters.books.signal as any });
     if (response?.data && Array.isArray(response.data) && response.data.length === 0) {
@@ -112,9 +118,32 @@ class APIModuleNG {
     return response;
   }
 
+  // Search-as-you-type: plain fetch without the top progress bar; each call aborts the previous one
+  async suggest(query: string, limit = 10) {
+    try { this._aborters.suggest?.abort(); } catch {}
+    const controller = new AbortController();
+    this._aborters.suggest = controller;
+    const params = new URLSearchParams({ q: query, limit: String(limit) });
+    const response = await fetch(`${this.baseURL}/api/search/suggest?${params}`, { credentials: 'include', signal: controller.signal });
+    if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+    const result: any = await response.json();
+    return Array.isArray(result?.data) ? result.data : [];
+  }
+
   async getRecentBooks() { const response: any = await this.apiCall('/api/books/recent'); return response.data; }
   async getBookDetails(bookId: string) { const response: any = await this.apiCall(`/api/books/${bookId}`); return response.data; }
   async getBookFormats(bookId: string) { const response: any = await this.apiCall(`/api/files/book/${bookId}/formats`); return response.data; }
+  async getReaderBook(bookId: string) { const response: any = await this.apiCall(`/api/reader/${bookId}`, { timeoutMs: 60000 } as any); return response.data; }
+  async getReaderChapter(bookId: string, index: number) { const response: any = await this.apiCall(`/api/reader/${bookId}/chapters/${index}`, { timeoutMs: 60000 } as any); return response.data; }
+  async getReadingProgress(bookId: string) { return await this.apiCall(`/api/session/progress/${bookId}`); }
+  async saveReadingProgress(bookId: string, locator: any, device: string) { return await this.apiCall(`/api/session/progress/${bookId}`, { method: 'POST', body: JSON.stringify({ locator, device, updatedAt: new Date().toISOString() }) }); }
+  async getDevices() { const response: any = await this.apiCall('/api/devices'); return response.data; }
+  async addDevice(device: any) { const response: any = await this.apiCall('/api/devices', { method: 'POST', body: JSON.stringify(device) }); return response.data; }
+  async removeDevice(deviceId: number) { return await this.apiCall(`/api/devices/${deviceId}`, { method: 'DELETE' }); }
+  async sendToDevice(deviceId: number, bookId: string) { const response: any = await this.apiCall(`/api/devices/${deviceId}/send/${bookId}`, { method: 'POST' }); return response.data; }
+  async getDeliveries(limit = 10) { const response: any = await this.apiCall(`/api/devices/deliveries?limit=${limit}`); return response.data; }
+  async getFileNameSettings() { const response: any = await this.apiCall('/api/auth/filename-settings'); return response.data; }
+  async saveFileNameSettings(settings: any) { const response: any = await this.apiCall('/api/auth/filename-settings', { method: 'PUT', body: JSON.stringify({ settings }) }); return response.data; }
   async getAuthorBooks(authorId: string) { const response: any = await this.apiCall(`/api/authors/${authorId}/books`); return response.data; }
   async getGenreBooks(genreId: string) { const response: any = await this.apiCall(`/api/genres/${genreId}/books`); return response.data; }
   async getSeriesBooks(seriesId: string) { const response: any = await this.apiCall(`/api/series/${seriesId}/books`); return response.data; }
@@ -136,6 +165,25 @@ class APIModuleNG {
   async getAdminData() { const response: any = await this.apiCall('/api/admin/dashboard'); return response.data; }
   async getUsers() { const response: any = await this.apiCall('/api/admin/users'); return response.data; }
 
+  // Archives can be large, so the browser downloads them directly; a first request only checks the limits
+  async downloadArchive(path: string, format: string | null = null) {
+    const url = new URL(`${this.baseURL}/api/files/${path}/zip`, window.location.origin);
+    if (format) url.searchParams.set('format', format);
+    const probe = new AbortController();
+    const response = await fetch(url.toString(), { credentials: 'include' as RequestCredentials, signal: probe.signal });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error((errorData as any).error || `Download failed: ${response.status}`);
+    }
+    probe.abort();
+    const a = document.createElement('a');
+    a.href = url.toString();
+    a.download = '';
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+  }
+
   async downloadBook(bookId: string, format: string | null = null) {
     try {
       const url = new URL(`${this.baseURL}/api/files/book/${bookId}`, window.location.origin);
@@ -69,6 +69,80 @@ class AuthModule {
     } catch (error) { console.error('Update profile error:', error); errorDiv.textContent = 'Ошибка соединения'; errorDiv.classList.remove('hidden'); }
   }
 
+  // Send-to-device mailboxes shown in the profile modal
+  async loadDevices() {
+    const list = document.getElementById('profileDevices');
+    const history = document.getElementById('profileDeliveries');
+    if (!list || !history) return;
+    const esc = (v: any) => String(v ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' } as Record<string, string>)[c]!);
+    try {
+      const [info, deliveries] = await Promise.all([this.app.api.getDevices(), this.app.api.getDeliveries(5)]);
+      const devices: any[] = info?.devices || [];
+      list.innerHTML = (info?.enabled ? '' : '<div class="text-gray-400 mb-2">Отправка по почте не настроена на сервере.</div>')
+        + (devices.length ? devices.map(d => `<div class="device-row"><span>${esc(d.name)} <span class="text-gray-400">${esc(d.email)}</span></span><button type="button" class="text-gray-400 hover:text-white" title="Удалить" onclick="app.auth.removeDevice(${Number(d.id)})">&times;</button></div>`).join('')
+          : '<div class="text-gray-400">Устройства не добавлены. Не забудьте разрешить адрес отправителя в настройках устройства.</div>');
+      const statusLabels: Record<string, string> = { sent: 'отправлено', failed: 'ошибка', pending: 'отправляется' };
+      history.innerHTML = (deliveries || []).map((d: any) => `<div class="delivery-${esc(d.status)}" title="${esc(d.error || '')}">${esc(d.title || `#${d.book_id}`)} → ${esc(d.device_name)}: ${statusLabels[d.status] || esc(d.status)}${d.format ? ` (${esc(String(d.format).toUpperCase())})` : ''}</div>`).join('');
+    } catch (error) {
+      console.error('Load devices error:', error);
+      list.innerHTML = '<div class="text-gray-400">Не удалось загрузить устройства</div>';
+    }
+  }
+
+  async addDevice() {
+    const name = (document.getElementById('newDeviceName') as HTMLInputElement)?.value.trim();
+    const email = (document.getElementById('newDeviceEmail') as HTMLInputElement)?.value.trim();
+    const kind = (document.getElementById('newDeviceKind') as HTMLSelectElement)?.value;
+    if (!email) { this.app.ui.showToast('Ошибка', 'Укажите адрес устройства', 'error'); return; }
+    try {
+      await this.app.api.addDevice({ name: name || email, email, kind });
+      (document.getElementById('newDeviceName') as HTMLInputElement).value = '';
+      (document.getElementById('newDeviceEmail') as HTMLInputElement).value = '';
+      this.app.ui.showToast('Успешно', 'Устройство добавлено');
+      await this.loadDevices();
+    } catch (error: any) { this.app.ui.showToast('Ошибка', this.app.api.handleAPIError(error, 'addDevice'), 'error'); }
+  }
+
+  async removeDevice(deviceId: number) {
+    if (!confirm('Удалить это устройство?')) return;
+    try { await this.app.api.removeDevice(deviceId); await this.loadDevices(); }
+    catch (error: any) { this.app.ui.showToast('Ошибка', this.app.api.handleAPIError(error, 'removeDevice'), 'error'); }
+  }
+
+  // Download file naming: the form shows the effective settings, the template field stays empty when inherited
+  async loadFileNameSettings() {
+    const template = document.getElementById('fileNameTemplate') as HTMLInputElement | null;
+    const translit = document.getElementById('fileNameTransliterate') as HTMLSelectElement | null;
+    const safe = document.getElementById('fileNameSafeChars') as HTMLInputElement | null;
+    if (!template || !translit || !safe) return;
+    try {
+      const info = await this.app.api.getFileNameSettings();
+      template.value = info?.overrides?.template || '';
+      template.placeholder = info?.defaults?.template || template.placeholder;
+      translit.value = info?.effective?.transliterate || 'none';
+      safe.checked = !!info?.effective?.safeChars;
+    } catch (error) { console.error('Load file name settings error:', error); }
+  }
+
+  async saveFileNameSettings() {
+    const template = (document.getElementById('fileNameTemplate') as HTMLInputElement)?.value.trim();
+    const transliterate = (document.getElementById('fileNameTransliterate') as HTMLSelectElement)?.value;
+    const safeChars = !!(document.getElementById('fileNameSafeChars') as HTMLInputElement)?.checked;
+    try {
+      await this.app.api.saveFileNameSettings({ ...(template ? { template } : {}), transliterate, safeChars });
+      this.app.ui.showToast('Успешно', 'Настройки имён файлов сохранены');
+      await this.loadFileNameSettings();
+    } catch (error: any) { this.app.ui.showToast('Ошибка', this.app.api.handleAPIError(error, 'saveFileNameSettings'), 'error'); }
+  }
+
+  async resetFileNameSettings() {
+    try {
+      await this.app.api.saveFileNameSettings(null);
+      this.app.ui.showToast('Успешно', 'Используются настройки сервера');
+      await this.loadFileNameSettings();
+    } catch (error: any) { this.app.ui.showToast('Ошибка', this.app.api.handleAPIError(error, 'resetFileNameSettings'), 'error'); }
+  }
+
   async createUser() {
     const username = (document.getElementById('newUserUsername') as HTMLInputElement)?.value;
     const password = (document.getElementById('newUserPassword') as HTMLInputElement)?.value;
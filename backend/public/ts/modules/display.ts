@@ -217,6 +217,18 @@ class DisplayModuleNG {
     html += '</div>';
     this.app.ui.setContent(html);
   }
+  // "Download all" controls for collections (author, series); the ZIP is built by /api/files/.../zip
+  archiveToolbar(path: string) {
+    const formats = ['epub', 'fb2', 'mobi', 'azw3', 'pdf', 'txt'];
+    return `<div class="flex flex-wrap items-center gap-2">
+      <select id="archiveFormat" class="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm" title="Формат книг в архиве">
+        <option value="">Исходные форматы</option>
+        ${formats.map(f => `<option value="${f}">${f.toUpperCase()}</option>`).join('')}
+      </select>
+      <button class="bg-gray-800 hover:bg-gray-700 text-white font-medium py-2 px-4 rounded-lg border border-gray-700" onclick="app.downloadArchive('${path}')"><i class="fas fa-file-archive mr-2"></i>Скачать всё (ZIP)</button>
+    </div>`;
+  }
+
   displaySeriesDetails(series: any) {
     if (!series) { this.app.ui.showError('Серия не найдена'); return; }
     const safeName = String(series.seqname || series.name || 'Без названия').replace(/</g, '&lt;').replace(/>/g, '&gt;');
@@ -225,7 +237,8 @@ class DisplayModuleNG {
         <h2 class="text-2xl font-bold text-white mb-1">Серия: ${safeName}</h2>
         <p class="text-gray-400">Книг в серии: ${series.bookCount || series.book_count || (series.books?.length || 0)}</p>
       </div>
-      <div>
+      <div class="flex flex-wrap items-center gap-2">
+        ${series.seqid ? this.archiveToolbar(`series/${Number(series.seqid)}`) : ''}
         <button class="bg-gray-800 hover:bg-gray-700 text-white font-medium py-2 px-4 rounded-lg border border-gray-700" onclick="app.showSeries()">Назад</button>
       </div>
     </div>`;
@@ -543,6 +556,24 @@ class DisplayModuleNG {
       formatButtons = `<button class="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg" onclick="app.downloadBook('${book.bookid}')"><i class=\"fas fa-download mr-2\"></i>Скачать</button>`;
     }
 
+    // The built-in reader handles FB2 and EPUB originals
+    const readButton = ['fb2', 'epub'].includes(originalFormat)
+      ? `<button class="bg-gray-800 hover:bg-gray-700 border border-gray-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200" onclick="app.openReader('${book.bookid}')"><i class="fas fa-book-reader mr-2"></i>Читать</button>`
+      : '';
+
+    // Send-to-device buttons, one per registered mailbox (registered users with SMTP configured only)
+    let deviceButtons = '';
+    try {
+      const deviceInfo = await this.app.api.getDevices();
+      if (deviceInfo?.enabled) {
+        const devices: any[] = deviceInfo.devices || [];
+        const esc = (v: any) => String(v ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+        deviceButtons = devices.length
+          ? devices.map((d: any) => `<button title="Отправить на ${esc(d.email)}" class="bg-gray-800 hover:bg-gray-700 border border-gray-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200" onclick="app.sendToDevice(${Number(d.id)}, '${book.bookid}')"><i class="fas fa-paper-plane mr-2"></i>${esc(d.name)}</button>`).join('')
+          : `<button title="Добавьте адрес устройства в профиле" class="bg-gray-800 hover:bg-gray-700 border border-gray-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200" onclick="app.ui.showProfile()"><i class="fas fa-paper-plane mr-2"></i>На устройство</button>`;
+      }
+    } catch {}
+
     const html = `
       <div class="grid grid-cols-1 md:grid-cols-3 gap-8">
         <div>
@@ -562,6 +593,8 @@ class DisplayModuleNG {
           </div>
           ${formatHintHtml}
           <div class="mt-6 flex flex-wrap gap-3 items-center">
+            ${readButton}
+            ${deviceButtons}
             <div class="flex flex-wrap gap-2">${formatButtons}</div>
             <button class="bg-gray-800 hover:bg-gray-700 text-white font-medium py-2 px-4 rounded-lg border border-gray-700 transition-all duration-200" onclick="app.showBooks()"><i class="fas fa-arrow-left mr-2"></i>Назад к списку</button>
           </div>
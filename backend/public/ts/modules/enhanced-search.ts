@@ -4,6 +4,8 @@ class EnhancedSearch {
   currentFilters: any;
   currentSort: any;
   searchTimeout: any;
+  // Facet selections for books: exact filters keyed by facet name (genre, author, language, decade, format)
+  facetFilters: Record<string, { value: string; label: string }> = {};
   constructor(app: any) { this.app = app; this.currentFilters = {}; this.currentSort = {}; this.searchTimeout = null; this.init(); }
   init() { this.createSearchInterface(); this.bindEvents(); }
   createSearchInterface() { this.createBooksSearchInterface(); this.createAuthorsSearchInterface(); }
@@ -32,7 +34,16 @@ class EnhancedSearch {
             <label class="block text-sm text-gray-300 mb-1" for="books-search-year">Год</label>
             <input id="books-search-year" type="number" min="1800" max="2100" placeholder="Год" class="w-full px-3 py-3 rounded-lg bg-gray-900 border border-gray-700 text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500" />
           </div>
-          <div class="md:col-span-4">
+          <div class="md:col-span-2">
+            <label class="block text-sm text-gray-300 mb-1" for="books-min-rating">Мин. рейтинг</label>
+            <select id="books-min-rating" class="w-full px-3 py-3 rounded-lg bg-gray-900 border border-gray-700 text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500">
+              <option value="">Любой</option>
+              <option value="3">3+</option>
+              <option value="4">4+</option>
+              <option value="4.5">4.5+</option>
+            </select>
+          </div>
+          <div class="md:col-span-3">
             <label class="block text-sm text-gray-300 mb-1" for="books-sort-select">Сортировка</label>
             <select id="books-sort-select" class="w-full px-3 py-3 rounded-lg bg-gray-900 border border-gray-700 text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500">
               <option value="relevance">По релевантности</option>
@@ -47,12 +58,14 @@ class EnhancedSearch {
               <option value="rating_asc">Рейтинг ↑</option>
             </select>
           </div>
-          <div class=\"md:col-span-6 flex gap-2 md:justify-end\">
+          <div class=\"md:col-span-5 flex gap-2 md:justify-end\">
             <button id=\"books-clear-filters\" class=\"px-4 py-3 rounded-lg bg-gray-900 border border-gray-700 text-gray-100 hover:bg-gray-700 w-32\">Сброс</button>
             <button id=\"books-search-button\" class=\"px-4 py-3 rounded-lg bg-gradient-to-r from-blue-600 to-purple-600 text-white shadow hover:from-blue-700 hover:to-purple-700 w-32\" type=\"button\">Найти</button>
           </div>
         </div>
         <div class="text-sm text-gray-400 mt-2">Найдено: <span id="books-results-count">—</span></div>
+        <div id="books-search-expansion" class="text-sm text-gray-300 mt-1"></div>
+        <div id="books-facets" class="mt-3 space-y-2"></div>
       </div>`;
     const contentArea = document.getElementById('contentArea'); if (contentArea) contentArea.insertAdjacentHTML('afterbegin', booksSearchHtml);
   }
@@ -96,6 +109,7 @@ class EnhancedSearch {
           </div>
         </div>
         <div class="text-sm text-gray-400 mt-2">Найдено: <span id="authors-results-count">—</span></div>
+        <div id="authors-search-expansion" class="text-sm text-gray-300 mt-1"></div>
       </div>`;
     const contentArea = document.getElementById('contentArea'); if (contentArea) contentArea.insertAdjacentHTML('afterbegin', authorsSearchHtml);
   }
@@ -105,6 +119,7 @@ class EnhancedSearch {
     const g = document.getElementById('books-search-genre');
     const s = document.getElementById('books-search-series');
     const y = document.getElementById('books-search-year');
+    const r = document.getElementById('books-min-rating');
     const sort = document.getElementById('books-sort-select');
   const clr = document.getElementById('books-clear-filters');
   const btn = document.getElementById('books-search-button');
@@ -117,11 +132,17 @@ class EnhancedSearch {
     g?.addEventListener('keypress', enterHandler);
     s?.addEventListener('keypress', enterHandler);
     y?.addEventListener('keypress', enterHandler);
+    r?.addEventListener('keypress', enterHandler);
     sort?.addEventListener('keypress', enterHandler);
 
     // Do not auto-search on typing/change
     clr?.addEventListener('click', (e) => { e.preventDefault(); this.clearBooksFilters(); });
     btn?.addEventListener('click', (e) => { e.preventDefault(); this.performSearch('books'); });
+    this.bindExpansionEvents('books');
+    document.getElementById('books-facets')?.addEventListener('click', (e) => {
+      const chip = (e.target as HTMLElement).closest('[data-facet]') as HTMLElement | null;
+      if (chip) this.toggleFacet(chip.dataset.facet || '', chip.dataset.value || '', chip.dataset.label || '');
+    });
     // Initialize collapse state from localStorage
     const booksCollapsed = (localStorage.getItem('filtersCollapsed_books') === 'true');
     if (booksCollapsed) {
@@ -149,6 +170,7 @@ class EnhancedSearch {
     sort?.addEventListener('change', () => this.debouncedSearch('authors'));
     clr?.addEventListener('click', (e) => { e.preventDefault(); this.clearAuthorsFilters(); });
     btn?.addEventListener('click', (e) => { e.preventDefault(); this.performSearch('authors'); });
+    this.bindExpansionEvents('authors');
 
     // Initialize collapse state from localStorage
     const authorsCollapsed = (localStorage.getItem('filtersCollapsed_authors') === 'true');
@@ -169,19 +191,28 @@ class EnhancedSearch {
     });
   }
   debouncedSearch(section: string) { clearTimeout(this.searchTimeout); this.searchTimeout = setTimeout(() => this.performSearch(section), 300); }
+  // Books search parameters from the form fields and the selected facets
+  bookSearchParams() {
+    const filters: any = this.getFilters('books'); const sort = this.getSmartSortOption('books', filters, this.getSort('books'));
+    const facet = (name: string) => this.facetFilters[name]?.value || '';
+    return {
+      query: filters.query, genre: filters.genre, series: filters.series, year: filters.year, minRating: filters.minRating, sort,
+      genreId: facet('genre'), authorId: facet('author'), language: facet('language'), decade: facet('decade'), format: facet('format'), facets: true
+    };
+  }
   async performSearch(section: string) {
     const filters = this.getFilters(section); const sort = this.getSort(section); const smartSort = this.getSmartSortOption(section, filters, sort);
-    if (section === 'books') this.app.progressiveLoader.updateSearchParams({ query: filters.query, genre: filters.genre, series: filters.series, year: filters.year, sort: smartSort });
+    if (section === 'books') this.app.progressiveLoader.updateSearchParams(this.bookSearchParams());
     else if (section === 'authors') this.app.progressiveLoader.updateSearchParams({ query: filters.query, letter: filters.letter, sort: smartSort });
   }
   getSmartSortOption(section: string, filters: any, currentSort: string) {
     if (currentSort && currentSort !== 'relevance') return currentSort;
-    if (section === 'books') { if (filters.query) return 'relevance'; if (filters.genre || filters.series || filters.year) return 'date'; return 'date'; }
+    if (section === 'books') { if (filters.query) return 'relevance'; if (filters.genre || filters.series || filters.year || filters.minRating || Object.keys(this.facetFilters).length) return 'date'; return 'date'; }
     if (section === 'authors') { if (filters.query) return 'relevance'; if (filters.letter) return 'name'; return 'books'; }
     return 'relevance';
   }
   getFilters(section: string) {
-    if (section === 'books') return { query: (document.getElementById('books-search-query') as HTMLInputElement)?.value || '', genre: (document.getElementById('books-search-genre') as HTMLInputElement)?.value || '', series: (document.getElementById('books-search-series') as HTMLInputElement)?.value || '', year: (document.getElementById('books-search-year') as HTMLInputElement)?.value || '' };
+    if (section === 'books') return { query: (document.getElementById('books-search-query') as HTMLInputElement)?.value || '', genre: (document.getElementById('books-search-genre') as HTMLInputElement)?.value || '', series: (document.getElementById('books-search-series') as HTMLInputElement)?.value || '', year: (document.getElementById('books-search-year') as HTMLInputElement)?.value || '', minRating: (document.getElementById('books-min-rating') as HTMLSelectElement)?.value || '' };
     if (section === 'authors') return { query: (document.getElementById('authors-search-query') as HTMLInputElement)?.value || '', letter: (document.getElementById('authors-letter-select') as HTMLSelectElement)?.value || '' };
     return {};
   }
@@ -191,12 +222,76 @@ class EnhancedSearch {
     (document.getElementById('books-search-genre') as HTMLInputElement).value = '';
     (document.getElementById('books-search-series') as HTMLInputElement).value = '';
     (document.getElementById('books-search-year') as HTMLInputElement).value = '';
+    (document.getElementById('books-min-rating') as HTMLSelectElement).value = '';
     (document.getElementById('books-sort-select') as HTMLSelectElement).value = 'relevance';
+    this.facetFilters = {};
+    this.performSearch('books');
+  }
+  toggleFacet(name: string, value: string, label: string) {
+    if (!name) return;
+    if (this.facetFilters[name]?.value === value) delete this.facetFilters[name];
+    else this.facetFilters[name] = { value, label };
     this.performSearch('books');
   }
+  facetLabel(name: string, bucket: { value: string; label?: string }) {
+    if (name === 'decade') return `${bucket.value}-е`;
+    if (name === 'language' || name === 'format') return bucket.value.toUpperCase();
+    return bucket.label || bucket.value;
+  }
+  // Facet buckets from a books search: one row of chips per facet; selected values stay visible even without a bucket
+  renderFacets(facets: any) {
+    const container = document.getElementById('books-facets'); if (!container) return;
+    const esc = (text: string) => String(text).replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' } as Record<string, string>)[c] || c);
+    const groups: Array<[string, string]> = [['genre', 'Жанры'], ['author', 'Авторы'], ['language', 'Язык'], ['decade', 'Десятилетие'], ['format', 'Формат']];
+    let html = '';
+    for (const [name, title] of groups) {
+      const buckets: Array<{ value: string; label?: string; count?: number }> = [...(facets?.[name] || [])];
+      const selected = this.facetFilters[name];
+      if (selected && !buckets.some(b => b.value === selected.value)) buckets.unshift({ value: selected.value, label: selected.label });
+      if (!buckets.length) continue;
+      const chips = buckets.map(b => {
+        const active = selected?.value === b.value;
+        const label = this.facetLabel(name, b);
+        const cls = active ? 'bg-gradient-to-r from-blue-600 to-purple-600 text-white border-transparent' : 'bg-gray-900 text-gray-200 border-gray-700 hover:bg-gray-700';
+        return `<button type="button" class="px-2.5 py-1 rounded-full border text-xs ${cls}" data-facet="${name}" data-value="${esc(b.value)}" data-label="${esc(label)}">${esc(label)}${b.count !== undefined ? ` <span class="opacity-70">${b.count}</span>` : ''}${active ? ' ×' : ''}</button>`;
+      }).join('');
+      html += `<div class="flex flex-wrap items-center gap-1.5"><span class="text-xs text-gray-400 w-24 shrink-0">${title}</span>${chips}</div>`;
+    }
+    if (facets?.truncated) html += `<div class="text-xs text-gray-500">Счётчики приблизительные: учтены первые найденные книги</div>`;
+    container.innerHTML = html;
+  }
   clearAuthorsFilters() { (document.getElementById('authors-search-query') as HTMLInputElement).value = ''; (document.getElementById('authors-letter-select') as HTMLSelectElement).value = ''; (document.getElementById('authors-sort-select') as HTMLSelectElement).value = 'relevance'; this.performSearch('authors'); }
   showSearchInterface(section: string) { const b = document.getElementById('books-search-interface'); const a = document.getElementById('authors-search-interface'); if (b) b.style.display = 'none'; if (a) a.style.display = 'none'; if (section === 'books') { if (b) b.style.display = 'block'; } else if (section === 'authors') { if (a) a.style.display = 'block'; } }
   hideSearchInterface() { const b = document.getElementById('books-search-interface'); const a = document.getElementById('authors-search-interface'); if (b) b.style.display = 'none'; if (a) a.style.display = 'none'; }
+  // "Did you mean" links put the suggestion into the query field and search again
+  bindExpansionEvents(section: string) {
+    document.getElementById(`${section}-search-expansion`)?.addEventListener('click', (e) => {
+      const link = (e.target as HTMLElement).closest('[data-suggestion]') as HTMLElement | null;
+      const input = document.getElementById(`${section}-search-query`) as HTMLInputElement | null;
+      if (!link || !input) return;
+      e.preventDefault();
+      input.value = link.dataset.suggestion || '';
+      this.performSearch(section);
+    });
+  }
+  // Tell the user when results come from a rewritten query (transliteration, typo correction) and offer alternatives
+  showExpansion(section: string, expansion: any) {
+    const el = document.getElementById(`${section}-search-expansion`); if (!el) return;
+    const esc = (text: string) => String(text).replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' } as Record<string, string>)[c] || c);
+    const typed = (document.getElementById(`${section}-search-query`) as HTMLInputElement | null)?.value.trim() || '';
+    const link = (text: string) => `<a href="#" class="text-blue-400 hover:text-blue-300 underline" data-suggestion="${esc(text)}">${esc(text)}</a>`;
+    const others = (expansion?.suggestions || []).map((s: any) => s.text).filter((t: string) => t !== expansion?.query).slice(0, 4);
+    let html = '';
+    if (expansion?.applied === 'transliteration') {
+      html = `По запросу «${esc(typed)}» ничего не найдено, показаны результаты для «${esc(expansion.query)}»`;
+    } else if (expansion?.applied === 'did_you_mean') {
+      html = `По запросу «${esc(typed)}» ничего не найдено, показаны результаты для «${esc(expansion.query)}»`;
+      if (others.length) html += `. Другие варианты: ${others.map(link).join(', ')}`;
+    } else if (others.length) {
+      html = `Возможно, вы имели в виду: ${others.map(link).join(', ')}`;
+    }
+    el.innerHTML = html;
+  }
   updateResultsCount(section: string, count: number) { const el = document.getElementById(`${section}-results-count`); if (el) el.textContent = `${count} результатов`; }
 }
 
@@ -47,6 +47,8 @@ class ProgressiveLoaderNG {
     try { this.onContentRendered(); } catch {}
       this.updatePagination(result.pagination); this.currentPage++;
       if (result.pagination && result.pagination.total !== undefined) this.app.enhancedSearch.updateResultsCount(this.currentSection, result.pagination.total);
+      if (isFirstPage && result.facets) this.app.enhancedSearch.renderFacets(result.facets);
+      if (isFirstPage) this.app.enhancedSearch.showExpansion(this.currentSection, result.expansion);
     } catch (error) { console.error('Error loading more content:', error); this.app.ui.showToast('Ошибка', 'Не удалось загрузить данные', 'error'); }
     finally { this.isLoading = false; this.hideLoadingIndicator(); }
   }
@@ -105,8 +107,9 @@ class ProgressiveLoaderNG {
   renderBookCard(book: any) {
     const authorName = book.authors && book.authors.length > 0 ? `${book.authors[0].lastname} ${book.authors[0].firstname}`.trim() : 'Неизвестный автор';
     const formatBadge = book.filetype ? `<span class="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">${book.filetype.toUpperCase()}</span>` : '';
-    const coverUrl = book.cover_url || this.app.display.generatePlaceholderSVG(book.title);
+    const coverUrl = book.cover_url ? this.sizedCoverUrl(book.cover_url) : this.app.display.generatePlaceholderSVG(book.title);
     const fileSize = book.filesize ? (parseInt(book.filesize) / 1024 / 1024).toFixed(1) + ' MB' : '';
+    const rating = book.rating ? `<span title="Оценок: ${book.rating_count || 0}"><i class="fas fa-star text-yellow-400 mr-1"></i>${Number(book.rating).toFixed(1)}</span>` : '';
     const id = `cover-${book.bookid}`;
     // We attach a data attribute so a small script can poll for ready image and animate swap
     return `<div class="bg-gray-800 rounded-lg shadow-lg hover:shadow-xl transition-all duration-300 hover:-translate-y-1 overflow-hidden enhanced-card">
@@ -117,7 +120,7 @@ class ProgressiveLoaderNG {
       <div class="p-4">
         <h3 class="text-lg font-semibold text-white mb-2 line-clamp-2" title="${book.title}">${book.title}</h3>
         <p class="text-gray-300 text-sm mb-2">${authorName}</p>
-        <div class="flex items-center justify-between text-sm text-gray-400 mb-3"><span>${book.year || 'Год не указан'}</span><span>${fileSize}</span></div>
+        <div class="flex items-center justify-between text-sm text-gray-400 mb-3"><span>${book.year || 'Год не указан'}</span>${rating}<span>${fileSize}</span></div>
         <button class="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 transform hover:scale-105" onclick="app.showBookDetails('${book.bookid}')"><i class="fas fa-eye mr-2"></i>Подробнее</button>
       </div>
     </div>`;
@@ -157,6 +160,9 @@ class ProgressiveLoaderNG {
 
   // After content render, scan for images with ?fast=1 placeholder and set up polling to replace when ready
   // Important: do NOT clear existing intervals here; otherwise attempts reset repeatedly causing endless pending requests
+  // Covers are requested at about twice the tile width so they stay sharp on HiDPI screens
+  coverWidth() { return this.cardSize === 'sm' ? 240 : this.cardSize === 'lg' ? 480 : 320; }
+  sizedCoverUrl(url: string) { return url.startsWith('/api/files/cover/') ? `${url}${url.includes('?') ? '&' : '?'}w=${this.coverWidth()}` : url; }
   onContentRendered(container?: Element | Document) {
     const scope: Element | Document = container || document;
     const imgs = Array.from(scope.querySelectorAll('img[data-bookid][data-cover]')) as HTMLImageElement[];
@@ -192,7 +198,7 @@ class ProgressiveLoaderNG {
         clearTimeout(t);
         if (probe.ok) {
           // Real cover is ready, swap image src (without fast) to allow browser cache
-          const realUrl = `/api/files/cover/${bookId}`;
+          const realUrl = this.sizedCoverUrl(`/api/files/cover/${bookId}`);
           const fade = () => { img.classList.add('fade-in'); setTimeout(() => img.classList.remove('fade-in'), 300); };
           img.onload = () => { img.classList.remove('image-loading'); fade(); };
           img.onerror = () => { /* keep existing placeholder */ };
@@ -204,7 +210,11 @@ class ProgressiveLoaderNG {
       finally {
         this.coverInFlight = Math.max(0, this.coverInFlight - 1);
       }
-      if (attempts >= maxAttempts) { clearInterval(interval); this.coverIntervals.delete(key); img.classList.remove('image-loading'); }
+      if (attempts >= maxAttempts) {
+        clearInterval(interval); this.coverIntervals.delete(key); img.classList.remove('image-loading');
+        // Give up waiting: the cover URL answers with a generated cover for books without an image
+        img.src = this.sizedCoverUrl(`/api/files/cover/${bookId}`);
+      }
   }, 2500);
     this.coverIntervals.set(key, interval as unknown as number);
   }
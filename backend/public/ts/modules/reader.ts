@@ -0,0 +1,405 @@
+// @ts-nocheck
+// Reader Module - in-browser reading of FB2/EPUB with paginated chapters (TypeScript)
+class ReaderModuleNG {
+  app: any;
+  bookId: string | null = null;
+  book: any = null;
+  chapterIndex = 0;
+  page = 0;
+  pageCount = 1;
+  chapters: Map<number, any> = new Map();
+  root: HTMLDivElement | null = null;
+  settings = { fontSize: 18, fontFamily: 'serif', lineHeight: 1.6 };
+  private saveTimer: number | null = null;
+  private resizeTimer: number | null = null;
+  private readonly gap = 48;
+  private readonly onKey = (e: KeyboardEvent) => this.handleKey(e);
+  private readonly onResize = () => {
+    if (this.resizeTimer) clearTimeout(this.resizeTimer);
+    this.resizeTimer = setTimeout(() => this.relayout(), 150) as unknown as number;
+  };
+
+  constructor(app: any) {
+    this.app = app;
+    try {
+      const saved = JSON.parse(localStorage.getItem('flb_reader_settings') || 'null');
+      if (saved) this.settings = { ...this.settings, ...saved };
+    } catch {}
+  }
+
+  private escape(s: string) {
+    return String(s ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]));
+  }
+
+  async open(bookId: string) {
+    this.close();
+    this.bookId = String(bookId);
+    this.chapters.clear();
+    this.createOverlay();
+    this.setStatus('Загрузка книги…');
+    try {
+      this.book = await this.app.api.getReaderBook(this.bookId);
+      this.renderHeader();
+      this.renderToc();
+      let locator: any = null;
+      try { locator = (await this.app.api.getReadingProgress(this.bookId))?.locator || null; } catch {}
+      if (locator && typeof locator.chapter === 'number' && locator.chapter < this.book.chapters.length) {
+        await this.showChapter(locator.chapter, { offset: locator.offset || 0 });
+      } else if (locator) {
+        // Positions from other readers (KOReader) only share the percentage
+        await this.showChapter(...this.positionOf(locator.percentage));
+      } else {
+        await this.showChapter(0, { page: 0 });
+      }
+    } catch (error: any) {
+      const msg = this.app.api.handleAPIError ? this.app.api.handleAPIError(error, 'openReader') : (error?.message || String(error));
+      this.app.ui.showToast('Ошибка', `Не удалось открыть книгу: ${msg}`, 'error');
+      this.close();
+    }
+  }
+
+  close() {
+    if (this.root && this.bookId) this.flushSave();
+    document.removeEventListener('keydown', this.onKey);
+    window.removeEventListener('resize', this.onResize);
+    if (this.root) this.root.remove();
+    this.root = null;
+    document.body.classList.remove('reader-open');
+  }
+
+  private createOverlay() {
+    const root = document.createElement('div');
+    root.id = 'reader-overlay';
+    root.className = 'reader-overlay';
+    root.innerHTML = `
+      <div class="reader-toolbar">
+        <button class="reader-btn" data-action="close" title="Закрыть (Esc)"><i class="fas fa-times"></i></button>
+        <button class="reader-btn" data-action="toc" title="Оглавление"><i class="fas fa-list"></i></button>
+        <div class="reader-title" id="reader-title"></div>
+        <button class="reader-btn" data-action="font-smaller" title="Меньше шрифт">A−</button>
+        <button class="reader-btn" data-action="font-larger" title="Больше шрифт">A+</button>
+        <select class="reader-select" id="reader-font-family" title="Шрифт">
+          <option value="serif">С засечками</option>
+          <option value="sans-serif">Без засечек</option>
+          <option value="monospace">Моноширинный</option>
+        </select>
+        <select class="reader-select" id="reader-line-height" title="Межстрочный интервал">
+          <option value="1.3">1.3</option>
+          <option value="1.6">1.6</option>
+          <option value="2">2.0</option>
+        </select>
+      </div>
+      <div class="reader-body">
+        <aside class="reader-toc hidden" id="reader-toc"></aside>
+        <div class="reader-viewport" id="reader-viewport">
+          <div class="reader-content" id="reader-content"></div>
+        </div>
+      </div>
+      <div class="reader-footer">
+        <button class="reader-btn" data-action="prev" title="Назад"><i class="fas fa-chevron-left"></i></button>
+        <div class="reader-status" id="reader-status"></div>
+        <button class="reader-btn" data-action="next" title="Вперёд"><i class="fas fa-chevron-right"></i></button>
+      </div>`;
+    document.body.appendChild(root);
+    document.body.classList.add('reader-open');
+    this.root = root;
+
+    root.addEventListener('click', (e: MouseEvent) => this.handleClick(e));
+    const family = root.querySelector('#reader-font-family') as HTMLSelectElement;
+    const lineHeight = root.querySelector('#reader-line-height') as HTMLSelectElement;
+    family.value = this.settings.fontFamily;
+    lineHeight.value = String(this.settings.lineHeight);
+    family.addEventListener('change', () => this.updateSettings({ fontFamily: family.value }));
+    lineHeight.addEventListener('change', () => this.updateSettings({ lineHeight: parseFloat(lineHeight.value) }));
+    document.addEventListener('keydown', this.onKey);
+    window.addEventListener('resize', this.onResize);
+    this.applySettings();
+  }
+
+  private el(id: string): HTMLElement | null {
+    return this.root ? this.root.querySelector(`#${id}`) : null;
+  }
+
+  private renderHeader() {
+    const title = this.el('reader-title');
+    if (!title) return;
+    const authors = (this.book.authors || []).join(', ');
+    title.textContent = authors ? `${authors} — ${this.book.title}` : this.book.title;
+  }
+
+  private renderToc() {
+    const toc = this.el('reader-toc');
+    if (!toc) return;
+    const list = (entries: any[]): string => entries.length
+      ? `<ul>${entries.map(e => `<li><a href="?chapter=${e.chapter}${e.anchor ? `#${this.escape(e.anchor)}` : ''}">${this.escape(e.title)}</a>${list(e.children || [])}</li>`).join('')}</ul>`
+      : '';
+    const entries = this.book.toc.length
+      ? this.book.toc
+      : this.book.chapters.map((c: any) => ({ title: c.title || `Глава ${c.index + 1}`, chapter: c.index, anchor: '', children: [] }));
+    toc.innerHTML = `<h3>Оглавление</h3>${list(entries)}`;
+  }
+
+  private async loadChapter(index: number) {
+    if (!this.chapters.has(index)) {
+      this.chapters.set(index, await this.app.api.getReaderChapter(this.bookId, index));
+      // Keep a few chapters around; the server caches the parsed book
+      if (this.chapters.size > 5) this.chapters.delete(this.chapters.keys().next().value);
+    }
+    return this.chapters.get(index);
+  }
+
+  /**
+   * Show a chapter at a page, a character offset or an element id
+   */
+  async showChapter(index: number, target: { page?: number; offset?: number; anchor?: string; last?: boolean } = {}) {
+    if (!this.book || index < 0 || index >= this.book.chapters.length) return;
+    const chapter = await this.loadChapter(index);
+    const content = this.el('reader-content');
+    if (!content) return;
+    this.chapterIndex = index;
+    content.innerHTML = chapter.html;
+    this.layout();
+    if (target.anchor) this.page = this.pageOfElement(target.anchor);
+    else if (target.offset !== undefined) this.page = this.pageOfOffset(target.offset);
+    else if (target.last) this.page = this.pageCount - 1;
+    else this.page = target.page || 0;
+    this.goToPage(this.page);
+
+    // Images change the column count once loaded; stay on the same text
+    content.querySelectorAll('img').forEach((img: HTMLImageElement) => {
+      if (!img.complete) img.addEventListener('load', () => this.relayout(), { once: true });
+    });
+    if (index + 1 < this.book.chapters.length) this.loadChapter(index + 1).catch(() => {});
+  }
+
+  private layout() {
+    const viewport = this.el('reader-viewport');
+    const content = this.el('reader-content');
+    if (!viewport || !content) return;
+    const width = viewport.clientWidth;
+    content.style.width = `${width}px`;
+    content.style.columnWidth = `${width}px`;
+    content.style.columnGap = `${this.gap}px`;
+    this.pageCount = Math.max(1, Math.ceil((content.scrollWidth + this.gap) / (width + this.gap)));
+  }
+
+  private relayout() {
+    if (!this.root || !this.book) return;
+    const offset = this.currentOffset();
+    this.layout();
+    this.goToPage(this.pageOfOffset(offset));
+  }
+
+  private goToPage(page: number) {
+    const viewport = this.el('reader-viewport');
+    if (!viewport) return;
+    this.page = Math.max(0, Math.min(page, this.pageCount - 1));
+    viewport.scrollLeft = this.page * (viewport.clientWidth + this.gap);
+    this.updateStatus();
+    this.scheduleSave();
+  }
+
+  async next() {
+    if (this.page < this.pageCount - 1) return this.goToPage(this.page + 1);
+    if (this.chapterIndex + 1 < this.book.chapters.length) await this.showChapter(this.chapterIndex + 1);
+  }
+
+  async prev() {
+    if (this.page > 0) return this.goToPage(this.page - 1);
+    if (this.chapterIndex > 0) await this.showChapter(this.chapterIndex - 1, { last: true });
+  }
+
+  private textNodes(): Text[] {
+    const content = this.el('reader-content');
+    const nodes: Text[] = [];
+    if (!content) return nodes;
+    const walker = document.createTreeWalker(content, NodeFilter.SHOW_TEXT);
+    while (walker.nextNode()) nodes.push(walker.currentNode as Text);
+    return nodes;
+  }
+
+  // Page holding a rect, from its horizontal position inside the scrolled viewport
+  private pageOfRect(rect: DOMRect) {
+    const viewport = this.el('reader-viewport');
+    if (!viewport) return 0;
+    const left = rect.left - viewport.getBoundingClientRect().left + viewport.scrollLeft;
+    return Math.max(0, Math.min(this.pageCount - 1, Math.floor((left + 1) / (viewport.clientWidth + this.gap))));
+  }
+
+  private charRect(node: Text, offset: number): DOMRect | null {
+    const range = document.createRange();
+    range.setStart(node, Math.min(offset, node.length));
+    range.setEnd(node, Math.min(offset + 1, node.length));
+    const rect = range.getClientRects()[0];
+    return rect || null;
+  }
+
+  private pageOfOffset(offset: number) {
+    let seen = 0;
+    for (const node of this.textNodes()) {
+      if (seen + node.length > offset) {
+        const rect = this.charRect(node, offset - seen);
+        return rect ? this.pageOfRect(rect) : 0;
+      }
+      seen += node.length;
+    }
+    return this.pageCount - 1;
+  }
+
+  private pageOfElement(id: string) {
+    const content = this.el('reader-content');
+    const target = content ? content.querySelector(`[id="${CSS.escape(id)}"]`) : null;
+    return target ? this.pageOfRect(target.getBoundingClientRect()) : 0;
+  }
+
+  /**
+   * Character offset (in the chapter's text) of the first character shown on the current page
+   */
+  currentOffset() {
+    let seen = 0;
+    for (const node of this.textNodes()) {
+      if (!node.data.trim()) { seen += node.length; continue; }
+      const last = this.charRect(node, node.length - 1);
+      if (last && this.pageOfRect(last) >= this.page) {
+        // The node may start on an earlier page; find its first character on this one
+        let lo = 0;
+        let hi = node.length - 1;
+        while (lo < hi) {
+          const mid = (lo + hi) >> 1;
+          const rect = this.charRect(node, mid);
+          if (rect && this.pageOfRect(rect) >= this.page) hi = mid; else lo = mid + 1;
+        }
+        return seen + lo;
+      }
+      seen += node.length;
+    }
+    return seen;
+  }
+
+  // Chapter and character offset at a percentage of the whole book
+  private positionOf(percentage: number): [number, { offset: number }] {
+    let remaining = (Math.max(0, Math.min(100, percentage)) / 100) * (this.book.totalChars || 0);
+    for (const chapter of this.book.chapters) {
+      if (remaining < chapter.chars || chapter.index === this.book.chapters.length - 1) {
+        return [chapter.index, { offset: Math.floor(Math.min(remaining, chapter.chars)) }];
+      }
+      remaining -= chapter.chars;
+    }
+    return [0, { offset: 0 }];
+  }
+
+  locator() {
+    const offset = this.currentOffset();
+    const before = this.book.chapters.slice(0, this.chapterIndex).reduce((sum: number, c: any) => sum + c.chars, 0);
+    const total = this.book.totalChars || 1;
+    const percentage = Math.min(100, Math.round(((before + offset) / total) * 10000) / 100);
+    return { format: this.book.format, chapter: this.chapterIndex, offset, percentage };
+  }
+
+  private updateStatus() {
+    const chapter = this.book?.chapters[this.chapterIndex];
+    if (!chapter) return;
+    const { percentage } = this.locator();
+    this.setStatus(`${this.escape(chapter.title || `Глава ${this.chapterIndex + 1}`)} · стр. ${this.page + 1}/${this.pageCount} · ${percentage.toFixed(1)}%`);
+  }
+
+  private setStatus(html: string) {
+    const status = this.el('reader-status');
+    if (status) status.innerHTML = html;
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => this.flushSave(), 1500) as unknown as number;
+  }
+
+  private flushSave() {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    if (!this.book || !this.bookId) return;
+    this.app.api.saveReadingProgress(this.bookId, this.locator(), this.deviceName()).catch(() => { /* progress is best effort */ });
+  }
+
+  // Shown next to synced positions; users can override it via localStorage flb_device_name
+  private deviceName() {
+    try {
+      const saved = localStorage.getItem('flb_device_name');
+      if (saved) return saved;
+    } catch {}
+    const ua = navigator.userAgent;
+    const os = /Android/.test(ua) ? 'Android' : /iPhone|iPad/.test(ua) ? 'iOS' : /Windows/.test(ua) ? 'Windows' : /Mac OS/.test(ua) ? 'macOS' : /Linux/.test(ua) ? 'Linux' : 'Web';
+    const browser = /Firefox\//.test(ua) ? 'Firefox' : /Edg\//.test(ua) ? 'Edge' : /Chrome\//.test(ua) ? 'Chrome' : /Safari\//.test(ua) ? 'Safari' : 'Browser';
+    return `${browser} (${os})`;
+  }
+
+  private updateSettings(patch: any) {
+    this.settings = { ...this.settings, ...patch };
+    try { localStorage.setItem('flb_reader_settings', JSON.stringify(this.settings)); } catch {}
+    const offset = this.book ? this.currentOffset() : 0;
+    this.applySettings();
+    if (this.book) {
+      this.layout();
+      this.goToPage(this.pageOfOffset(offset));
+    }
+  }
+
+  private applySettings() {
+    const content = this.el('reader-content');
+    if (!content) return;
+    content.style.fontSize = `${this.settings.fontSize}px`;
+    content.style.fontFamily = this.settings.fontFamily;
+    content.style.lineHeight = String(this.settings.lineHeight);
+  }
+
+  private handleKey(e: KeyboardEvent) {
+    if ((e.target as HTMLElement)?.tagName === 'SELECT') return;
+    switch (e.key) {
+      case 'ArrowRight': case 'PageDown': case ' ': e.preventDefault(); this.next(); break;
+      case 'ArrowLeft': case 'PageUp': e.preventDefault(); this.prev(); break;
+      case 'Escape': this.close(); break;
+    }
+  }
+
+  private handleClick(e: MouseEvent) {
+    const target = e.target as HTMLElement;
+    const button = target.closest('[data-action]') as HTMLElement | null;
+    if (button) {
+      switch (button.dataset.action) {
+        case 'close': this.close(); break;
+        case 'toc': this.el('reader-toc')?.classList.toggle('hidden'); break;
+        case 'font-smaller': this.updateSettings({ fontSize: Math.max(12, this.settings.fontSize - 2) }); break;
+        case 'font-larger': this.updateSettings({ fontSize: Math.min(36, this.settings.fontSize + 2) }); break;
+        case 'prev': this.prev(); break;
+        case 'next': this.next(); break;
+      }
+      return;
+    }
+
+    const link = target.closest('a') as HTMLAnchorElement | null;
+    if (link) {
+      e.preventDefault();
+      const href = link.getAttribute('href') || '';
+      const m = /^\?chapter=(\d+)(?:#(.*))?$/.exec(href);
+      if (m) {
+        if (link.closest('#reader-toc')) this.el('reader-toc')?.classList.add('hidden');
+        const anchor = m[2] ? decodeURIComponent(m[2]) : '';
+        this.showChapter(parseInt(m[1], 10), anchor ? { anchor } : { page: 0 });
+      } else if (/^(https?|mailto):/i.test(href)) {
+        window.open(href, '_blank', 'noopener');
+      }
+      return;
+    }
+
+    // Click zones: left third goes back, right third goes forward
+    const viewport = this.el('reader-viewport');
+    if (viewport && viewport.contains(target)) {
+      const rect = viewport.getBoundingClientRect();
+      const x = (e.clientX - rect.left) / rect.width;
+      if (x < 1 / 3) this.prev();
+      else if (x > 2 / 3) this.next();
+    }
+  }
+}
+
+// Expose globally
+(window as unknown as Record<string, unknown>).ReaderModule = (window as unknown as Record<string, unknown>).ReaderModule || ReaderModuleNG;
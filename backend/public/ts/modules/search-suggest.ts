@@ -0,0 +1,185 @@
+// Search Suggest Module - search-as-you-type dropdown for the header search box (TypeScript)
+class SearchSuggestNG {
+  app: any;
+  input: HTMLInputElement | null;
+  list: HTMLDivElement | null = null;
+  items: any[] = [];
+  active = -1;
+  timer: any = null;
+  lastQuery = '';
+  readonly debounceMs = 150;
+
+  constructor(app: any, inputId: string) {
+    this.app = app;
+    this.input = document.getElementById(inputId) as HTMLInputElement | null;
+    if (this.input) this.init();
+  }
+
+  init() {
+    const input = this.input!;
+    this.list = document.createElement('div');
+    this.list.id = `${input.id}-suggestions`;
+    this.list.setAttribute('role', 'listbox');
+    this.list.className = 'absolute left-0 right-0 mt-1 z-50 bg-gray-800 border border-gray-700 rounded-lg shadow-xl overflow-hidden hidden';
+    input.parentElement?.appendChild(this.list);
+    input.setAttribute('role', 'combobox');
+    input.setAttribute('aria-autocomplete', 'list');
+    input.setAttribute('aria-controls', this.list.id);
+    input.setAttribute('aria-expanded', 'false');
+    input.setAttribute('autocomplete', 'off');
+
+    input.addEventListener('input', () => this.schedule());
+    input.addEventListener('keydown', (e: KeyboardEvent) => this.onKeyDown(e));
+    input.addEventListener('focus', () => { if (this.items.length && input.value.trim() === this.lastQuery) this.open(); });
+    // Delay so a click on a suggestion lands before the list disappears
+    input.addEventListener('blur', () => setTimeout(() => this.close(), 150));
+    this.list.addEventListener('mousedown', (e: MouseEvent) => {
+      const row = (e.target as HTMLElement).closest('[data-index]') as HTMLElement | null;
+      if (!row) return;
+      e.preventDefault();
+      this.choose(Number(row.dataset.index));
+    });
+    this.list.addEventListener('mousemove', (e: MouseEvent) => {
+      const row = (e.target as HTMLElement).closest('[data-index]') as HTMLElement | null;
+      if (row && Number(row.dataset.index) !== this.active) this.setActive(Number(row.dataset.index));
+    });
+  }
+
+  schedule() {
+    clearTimeout(this.timer);
+    const q = (this.input?.value || '').trim();
+    if (q.length < 2) { this.items = []; this.lastQuery = ''; this.close(); return; }
+    this.timer = setTimeout(() => this.fetch(q), this.debounceMs);
+  }
+
+  async fetch(q: string) {
+    try {
+      const items = await this.app.api.suggest(q, 10);
+      // Ignore late answers for text the user has already changed
+      if ((this.input?.value || '').trim() !== q) return;
+      this.items = items;
+      this.lastQuery = q;
+      this.active = -1;
+      this.render();
+    } catch (error: any) {
+      if (error?.name !== 'AbortError') console.warn('Suggestions failed:', error);
+    }
+  }
+
+  onKeyDown(e: KeyboardEvent) {
+    const isOpen = !!this.list && !this.list.classList.contains('hidden');
+    switch (e.key) {
+      case 'ArrowDown':
+        if (!this.items.length) return;
+        e.preventDefault();
+        if (!isOpen) this.open();
+        this.setActive(this.active + 1 >= this.items.length ? 0 : this.active + 1);
+        break;
+      case 'ArrowUp':
+        if (!isOpen || !this.items.length) return;
+        e.preventDefault();
+        this.setActive(this.active <= 0 ? this.items.length - 1 : this.active - 1);
+        break;
+      case 'Enter':
+        // Without a highlighted suggestion Enter keeps running the full search
+        if (isOpen && this.active >= 0) { e.preventDefault(); this.choose(this.active); }
+        else { clearTimeout(this.timer); this.close(); }
+        break;
+      case 'Escape':
+        if (isOpen) { e.preventDefault(); this.close(); }
+        break;
+      case 'Tab':
+        this.close();
+        break;
+    }
+  }
+
+  typeIcon(type: string) {
+    switch (type) {
+      case 'book': return 'fa-book';
+      case 'author': return 'fa-user';
+      case 'series': return 'fa-layer-group';
+      case 'genre': return 'fa-tags';
+      default: return 'fa-search';
+    }
+  }
+
+  typeLabel(item: any) {
+    switch (item.type) {
+      case 'book': return item.subtitle || 'Книга';
+      case 'author': return `Автор · книг: ${item.count}`;
+      case 'series': return `Серия · книг: ${item.count}`;
+      case 'genre': return `Жанр · книг: ${item.count}`;
+      default: return '';
+    }
+  }
+
+  // Wrap the matched part of the text in <mark>
+  highlight(text: string) {
+    const esc = (t: string) => t.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' } as Record<string, string>)[c] || c);
+    const at = text.toLowerCase().indexOf(this.lastQuery.toLowerCase());
+    if (at < 0 || !this.lastQuery) return esc(text);
+    const end = at + this.lastQuery.length;
+    return `${esc(text.slice(0, at))}<mark class="bg-transparent text-blue-300 font-semibold">${esc(text.slice(at, end))}</mark>${esc(text.slice(end))}`;
+  }
+
+  render() {
+    if (!this.list) return;
+    if (!this.items.length) {
+      this.list.innerHTML = `<div class="px-4 py-3 text-sm text-gray-400">Ничего не найдено</div>`;
+      this.open();
+      return;
+    }
+    this.list.innerHTML = this.items.map((item, i) => `
+      <div id="${this.list!.id}-${i}" role="option" aria-selected="false" data-index="${i}" class="flex items-center gap-3 px-4 py-2 cursor-pointer text-gray-100">
+        <i class="fas ${this.typeIcon(item.type)} text-gray-400 w-4 text-center"></i>
+        <div class="min-w-0">
+          <div class="truncate text-sm">${this.highlight(String(item.text || ''))}</div>
+          <div class="truncate text-xs text-gray-400">${this.highlight(this.typeLabel(item))}</div>
+        </div>
+      </div>`).join('');
+    this.open();
+  }
+
+  setActive(index: number) {
+    if (!this.list) return;
+    this.active = index;
+    this.list.querySelectorAll('[data-index]').forEach((row) => {
+      const on = Number((row as HTMLElement).dataset.index) === index;
+      row.setAttribute('aria-selected', String(on));
+      row.classList.toggle('bg-gray-700', on);
+      if (on) (row as HTMLElement).scrollIntoView({ block: 'nearest' });
+    });
+    if (index >= 0) this.input?.setAttribute('aria-activedescendant', `${this.list.id}-${index}`);
+    else this.input?.removeAttribute('aria-activedescendant');
+  }
+
+  open() { this.list?.classList.remove('hidden'); this.input?.setAttribute('aria-expanded', 'true'); }
+
+  close() {
+    this.list?.classList.add('hidden');
+    this.input?.setAttribute('aria-expanded', 'false');
+    this.input?.removeAttribute('aria-activedescendant');
+    this.active = -1;
+  }
+
+  choose(index: number) {
+    const item = this.items[index];
+    if (!item) return;
+    this.close();
+    this.input?.blur();
+    switch (item.type) {
+      case 'book': this.app.showBookDetails(String(item.id)); break;
+      case 'author': this.app.showAuthorBooks(String(item.id)); break;
+      case 'series': this.app.showSeriesDetails(item.id); break;
+      case 'genre':
+        // Genres open the books list with the exact genre facet applied
+        this.app.enhancedSearch.facetFilters = { genre: { value: String(item.id), label: item.text } };
+        this.app.showBooks(this.app.enhancedSearch.bookSearchParams());
+        break;
+    }
+  }
+}
+
+// Expose globally
+(window as unknown as Record<string, unknown>).SearchSuggest = (window as unknown as Record<string, unknown>).SearchSuggest || SearchSuggestNG;
@@ -41,6 +41,8 @@ class UIModuleNG {
     (document.getElementById('profileDisplayName') as HTMLInputElement).value = user.display_name || '';
     const el = document.getElementById('profileModal');
     if (!el) return; el.classList.remove('hidden'); el.classList.add('flex');
+    this.app.auth.loadDevices();
+    this.app.auth.loadFileNameSettings();
   }
   hideProfileModal() {
     const el = document.getElementById('profileModal');
@@ -14,19 +14,36 @@ import seriesRoutes from './routes/series';
 import favoritesRoutes from './routes/favorites';
 import authRoutes from './routes/auth';          // Now TypeScript
 import filesRoutes from './routes/files';        // Now TypeScript
+import opdsRoutes from './routes/opds';
+import opds2Routes from './routes/opds2';
+import readerRoutes from './routes/reader';
+import kosyncRoutes from './routes/kosync';
+import devicesRoutes from './routes/devices';
+import searchRoutes from './routes/search';
 import { initializeSession, addUserToLocals } from './middleware/sessionMiddleware';
-import { requireAuth, requireAdmin } from './middleware/auth';
+import { requireAuth, requireAdmin, apiTokenAuth, requireScope } from './middleware/auth';
+import { opdsAuth } from './middleware/opdsAuth';
+import { authRateLimit } from './middleware/rateLimit';
 import initSuperadmin from './database/init-superadmin';
 
 // Import remaining TypeScript modules
 import adminRoutes from './routes/admin';
 import AutomatedUpdateService from './services/AutomatedUpdateService';
 import MaintenanceScheduler from './scripts/MaintenanceScheduler';
+import ConversionJobService from './services/ConversionJobService';
+import CacheService from './services/CacheService';
 
 const app = express();
 // Use port 3000 by default to align with Docker EXPOSE
 const PORT = process.env.PORT || 3000;
 
+// Behind a reverse proxy (nginx in docker-compose) the client address comes from X-Forwarded-For;
+// TRUST_PROXY takes Express "trust proxy" values: a hop count, true or a list of addresses/subnets
+const TRUST_PROXY = process.env.TRUST_PROXY;
+if (TRUST_PROXY) {
+    app.set('trust proxy', TRUST_PROXY === 'true' ? true : /^\d+$/.test(TRUST_PROXY) ? parseInt(TRUST_PROXY, 10) : TRUST_PROXY);
+}
+
 // Flag for skipping DB-dependent features
 const SKIP_DB = process.env.SKIP_DB_INIT === '1';
 
@@ -92,15 +109,32 @@ app.use('/fonts', express.static('public/fonts'));
 app.use('/webfonts', express.static('public/webfonts'));
 
 // API Routes
-app.use('/api/books', booksRoutes);
-app.use('/api/authors', authorsRoutes);
-app.use('/api/genres', genresRoutes);
-app.use('/api/series', seriesRoutes);
-app.use('/api/favorites', favoritesRoutes);
-app.use('/api/files', filesRoutes);
+// Personal API tokens (`Authorization: Bearer`) are resolved before the API routes;
+// scopes only restrict token-authenticated requests
+app.use('/api', apiTokenAuth);
+
+app.use('/api/books', requireScope('read'), booksRoutes);
+app.use('/api/authors', requireScope('read'), authorsRoutes);
+app.use('/api/genres', requireScope('read'), genresRoutes);
+app.use('/api/series', requireScope('read'), seriesRoutes);
+app.use('/api/search', requireScope('read'), searchRoutes);
+app.use('/api/favorites', requireScope('favorites'), favoritesRoutes);
+app.use('/api/files', requireScope('download'), filesRoutes);
+app.use('/api/reader', requireScope('download'), readerRoutes);
+app.use('/api/devices', requireScope('download'), devicesRoutes);
+app.use('/api/auth/login', authRateLimit);
 app.use('/api/auth', authRoutes);
 app.use('/api/admin', adminRoutes);
-app.use('/api/session', sessionRoutes);
+app.use('/api/session', requireScope('favorites'), sessionRoutes);
+
+// OPDS catalog for e-readers; the /t/:token mounts carry a per-user feed token
+app.use('/opds/t/:token', authRateLimit, opdsAuth, opdsRoutes);
+app.use('/opds', authRateLimit, opdsAuth, opdsRoutes);
+app.use('/opds2/t/:token', authRateLimit, opdsAuth, opds2Routes);
+app.use('/opds2', authRateLimit, opdsAuth, opds2Routes);
+
+// KOReader progress sync (custom sync server URL: https://<host>/kosync)
+app.use('/kosync', kosyncRoutes);
 
 // Health check endpoint
 app.get('/health', (req: express.Request, res: express.Response) => {
@@ -200,6 +234,9 @@ app.listen(PORT, async () => {
         logger.warn('Running with SKIP_DB_INIT=1: database calls should be avoided. Health endpoint available.');
     }
     
+    // Cache eviction only touches the filesystem, so it runs without a database too
+    CacheService.start();
+
     try {
         if (SKIP_DB) {
             logger.warn('SKIP_DB_INIT=1 set: skipping database-dependent initializations (superadmin, updates, scheduler)');
@@ -212,6 +249,9 @@ app.listen(PORT, async () => {
             await automatedUpdateService.initialize();
             logger.info('Automated update service started successfully');
 
+            // Resume queued conversions and start taking new ones
+            await ConversionJobService.start();
+
             // Start maintenance scheduler if enabled
             if (maintenanceScheduler) {
                 maintenanceScheduler.start();
@@ -227,6 +267,8 @@ app.listen(PORT, async () => {
 process.on('SIGTERM', async () => {
     logger.info('SIGTERM received, shutting down gracefully...');
     await automatedUpdateService.stop();
+    ConversionJobService.stop();
+    CacheService.stop();
     if (maintenanceScheduler) {
         maintenanceScheduler.stop();
     }
@@ -236,6 +278,8 @@ process.on('SIGTERM', async () => {
 process.on('SIGINT', async () => {
     logger.info('SIGINT received, shutting down gracefully...');
     await automatedUpdateService.stop();
+    ConversionJobService.stop();
+    CacheService.stop();
     if (maintenanceScheduler) {
         maintenanceScheduler.stop();
     }
@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import runMigrations from '../migrate';
+
+// libbook rows by id: language and the configuration the vector was built with (null: not built yet)
+const mockBooks = new Map<number, { lang: string; config: string | null }>();
+const CONFIGS: Record<string, string> = { ru: 'russian', en: 'english' };
+
+jest.mock('../connection', () => ({
+  query: async (sql: string, params?: unknown[]) => {
+    if (/UPDATE libbook b SET\s+search_vector =/.test(sql)) {
+      // A batch takes a moment, so a refresh nobody waits for is still running when the migrations resolve
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const [from, to] = (params || []).map(Number) as [number, number];
+      let rowCount = 0;
+      for (const [id, book] of mockBooks) {
+        if (id >= from && id < to && book.config === null) {
+          book.config = CONFIGS[book.lang] || 'simple';
+          rowCount++;
+        }
+      }
+      return { rows: [], rowCount };
+    }
+    // book_ratings already filled: the first-run ratings refresh is skipped
+    if (sql.includes('FROM book_ratings')) return { rows: [{ '?column?': 1 }], rowCount: 1 };
+    return { rows: [], rowCount: 0 };
+  },
+  getRow: async (sql: string) => {
+    if (sql.includes('min(bookid)')) {
+      const ids = Array.from(mockBooks.keys());
+      return { lo: Math.min(...ids), hi: Math.max(...ids) };
+    }
+    return null;
+  },
+  getRows: async (sql: string) => (sql.includes('pg_ts_config') ? ['simple', 'russian', 'english'].map(cfgname => ({ cfgname })) : [])
+}));
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: () => {}, warn: () => {}, debug: () => {}, error: () => {} }
+}));
+
+describe('runMigrations', () => {
+  beforeEach(() => {
+    mockBooks.clear();
+    // Ids spread over several refresh batches
+    mockBooks.set(1, { lang: 'ru', config: null });
+    mockBooks.set(250, { lang: 'en', config: null });
+    mockBooks.set(12000, { lang: 'uk', config: null });
+  });
+
+  it('builds the per-language search vectors before it resolves', async () => {
+    const result = await runMigrations();
+    expect(result.success).toBe(true);
+    expect(Object.fromEntries(Array.from(mockBooks, ([id, book]) => [id, book.config])))
+      .toEqual({ 1: 'russian', 250: 'english', 12000: 'simple' });
+  });
+});
@@ -1,5 +1,7 @@
 import { query } from './connection';
 import logger from '../utils/logger';
+import RatingService from '../services/RatingService';
+import SearchIndexService from '../services/SearchIndexService';
 
 interface MigrationResult {
     success: boolean;
@@ -193,44 +195,336 @@ async function createUpdateSchedulesTable(): Promise<void> {
     }
 }
 
-async function createSearchVectorsColumn(): Promise<void> {
+async function createOpdsTokensTable(): Promise<void> {
     try {
-        // Add search vector column to libbook table for full-text search
+        // Per-user feed tokens for OPDS readers; only the SHA-256 of the token is stored
         await query(`
-            DO $$ 
-            BEGIN 
-                BEGIN
-                    ALTER TABLE libbook ADD COLUMN search_vector tsvector;
-                EXCEPTION
-                    WHEN duplicate_column THEN 
-                        -- Column already exists, do nothing
-                END;
-            END $$;
+            CREATE TABLE IF NOT EXISTS opds_tokens (
+                id SERIAL PRIMARY KEY,
+                user_uuid VARCHAR(36) NOT NULL REFERENCES users(user_uuid) ON DELETE CASCADE,
+                name VARCHAR(100) NOT NULL,
+                token_hash CHAR(64) UNIQUE NOT NULL,
+                token_prefix VARCHAR(12) NOT NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                last_used_at TIMESTAMP,
+                revoked_at TIMESTAMP
+            );
+        `);
+
+        await query(`
+            CREATE INDEX IF NOT EXISTS idx_opds_tokens_user ON opds_tokens(user_uuid);
+        `);
+
+        logger.info('OPDS tokens table created successfully');
+    } catch (error) {
+        logger.error('Error creating OPDS tokens table:', error);
+        throw error;
+    }
+}
+
+async function createUserActivityLogTable(): Promise<void> {
+    try {
+        await query(`
+            CREATE TABLE IF NOT EXISTS user_activity_log (
+                id SERIAL PRIMARY KEY,
+                user_uuid VARCHAR(36) REFERENCES users(user_uuid) ON DELETE CASCADE,
+                action VARCHAR(100) NOT NULL,
+                details JSONB,
+                ip_address VARCHAR(64),
+                user_agent TEXT,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            );
+        `);
+
+        await query(`
+            CREATE INDEX IF NOT EXISTS idx_user_activity_log_user ON user_activity_log(user_uuid, created_at DESC);
+        `);
+
+        logger.info('User activity log table created successfully');
+    } catch (error) {
+        logger.error('Error creating user activity log table:', error);
+        throw error;
+    }
+}
+
+async function createApiTokensTable(): Promise<void> {
+    try {
+        // Personal API tokens; only the SHA-256 of the token is stored
+        await query(`
+            CREATE TABLE IF NOT EXISTS api_tokens (
+                id SERIAL PRIMARY KEY,
+                user_uuid VARCHAR(36) NOT NULL REFERENCES users(user_uuid) ON DELETE CASCADE,
+                name VARCHAR(100) NOT NULL,
+                token_hash CHAR(64) UNIQUE NOT NULL,
+                token_prefix VARCHAR(16) NOT NULL,
+                scopes TEXT[] NOT NULL DEFAULT ARRAY['read']::TEXT[],
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                last_used_at TIMESTAMP,
+                revoked_at TIMESTAMP
+            );
+        `);
+
+        await query(`
+            CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens(user_uuid);
+        `);
+
+        logger.info('API tokens table created successfully');
+    } catch (error) {
+        logger.error('Error creating API tokens table:', error);
+        throw error;
+    }
+}
+
+async function createZipIndexTables(): Promise<void> {
+    try {
+        // Central-directory index of the book archives, rebuilt by `manage.ts index-zip-entries`
+        await query(`
+            CREATE TABLE IF NOT EXISTS zip_archives (
+                filename VARCHAR(255) PRIMARY KEY,
+                file_size BIGINT NOT NULL,
+                file_mtime TIMESTAMP NOT NULL,
+                entry_count INTEGER NOT NULL DEFAULT 0,
+                book_count INTEGER NOT NULL DEFAULT 0,
+                min_bookid INTEGER,
+                max_bookid INTEGER,
+                indexed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            );
+        `);
+
+        await query(`
+            CREATE TABLE IF NOT EXISTS zip_entries (
+                archive VARCHAR(255) NOT NULL REFERENCES zip_archives(filename) ON DELETE CASCADE,
+                entry_name TEXT NOT NULL,
+                bookid INTEGER,
+                file_ext VARCHAR(16),
+                method SMALLINT NOT NULL,
+                flags INTEGER NOT NULL DEFAULT 0,
+                crc32 BIGINT NOT NULL,
+                compressed_size BIGINT NOT NULL,
+                uncompressed_size BIGINT NOT NULL,
+                local_header_offset BIGINT NOT NULL,
+                PRIMARY KEY (archive, entry_name)
+            );
+        `);
+
+        await query(`
+            CREATE INDEX IF NOT EXISTS idx_zip_entries_bookid ON zip_entries(bookid) WHERE bookid IS NOT NULL;
+        `);
+
+        logger.info('ZIP index tables created successfully');
+    } catch (error) {
+        logger.error('Error creating ZIP index tables:', error);
+        throw error;
+    }
+}
+
+async function createConversionJobsTable(): Promise<void> {
+    try {
+        // Background conversion queue; at most one active job per book and target format
+        await query(`
+            CREATE TABLE IF NOT EXISTS conversion_jobs (
+                id UUID PRIMARY KEY,
+                book_id INTEGER NOT NULL,
+                target_format VARCHAR(10) NOT NULL,
+                status VARCHAR(10) NOT NULL DEFAULT 'queued',
+                progress SMALLINT NOT NULL DEFAULT 0,
+                message TEXT,
+                error TEXT,
+                attempts SMALLINT NOT NULL DEFAULT 0,
+                output_size BIGINT,
+                user_uuid VARCHAR(36),
+                worker_id VARCHAR(100),
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                started_at TIMESTAMP,
+                finished_at TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            );
         `);
 
         await query(`
-            CREATE INDEX IF NOT EXISTS idx_libbook_search_vector ON libbook USING gin(search_vector);
+            CREATE UNIQUE INDEX IF NOT EXISTS idx_conversion_jobs_active
+            ON conversion_jobs(book_id, target_format) WHERE status IN ('queued', 'running');
         `);
 
-        // Populate existing rows if vector is null (idempotent-ish)
-        await query(`UPDATE libbook SET search_vector = to_tsvector('simple', coalesce(title,'')) WHERE search_vector IS NULL;`);
+        await query(`
+            CREATE INDEX IF NOT EXISTS idx_conversion_jobs_queue ON conversion_jobs(status, created_at);
+        `);
+
+        logger.info('Conversion jobs table created successfully');
+    } catch (error) {
+        logger.error('Error creating conversion jobs table:', error);
+        throw error;
+    }
+}
+
+async function addProgressLocatorColumns(): Promise<void> {
+    try {
+        // Reading position sync: locator ({ format, chapter, offset, cfi }) next to the legacy percentage,
+        // plus the writing device and timestamp for last-writer-wins merges.
+        // progress comes from the library dump, so it may not exist yet
+        await query(`
+            ALTER TABLE IF EXISTS progress
+                ADD COLUMN IF NOT EXISTS locator JSONB,
+                ADD COLUMN IF NOT EXISTS device VARCHAR(100),
+                ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+        `);
 
-        // Create or replace trigger to maintain search_vector on title changes
         await query(`
-            CREATE OR REPLACE FUNCTION libbook_search_vector_refresh() RETURNS trigger AS $$
+            DO $$
             BEGIN
-                NEW.search_vector := to_tsvector('simple', coalesce(NEW.title,''));
-                RETURN NEW;
-            END;
-            $$ LANGUAGE plpgsql;
+                IF to_regclass('progress') IS NOT NULL THEN
+                    CREATE INDEX IF NOT EXISTS idx_progress_user_recent ON progress(user_uuid, updated_at DESC NULLS LAST);
+                END IF;
+            END $$;
+        `);
+
+        logger.info('Progress locator columns added successfully');
+    } catch (error) {
+        logger.error('Error adding progress locator columns:', error);
+        throw error;
+    }
+}
+
+async function createKosyncTables(): Promise<void> {
+    try {
+        // KOReader authenticates with md5(password); a bcrypt hash of that key is kept next to the password hash
+        await query(`
+            ALTER TABLE users ADD COLUMN IF NOT EXISTS kosync_key_hash VARCHAR(255);
+        `);
+
+        // kosync document ids (partial md5 of a served file, or md5 of its filename) -> book
+        await query(`
+            CREATE TABLE IF NOT EXISTS kosync_documents (
+                document VARCHAR(32) PRIMARY KEY,
+                book_id INTEGER NOT NULL,
+                format VARCHAR(10) NOT NULL,
+                method VARCHAR(10) NOT NULL DEFAULT 'binary',
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            );
+        `);
+
+        await query(`
+            CREATE INDEX IF NOT EXISTS idx_kosync_documents_book ON kosync_documents(book_id);
+        `);
+
+        logger.info('Kosync tables created successfully');
+    } catch (error) {
+        logger.error('Error creating kosync tables:', error);
+        throw error;
+    }
+}
+
+async function createDeviceTables(): Promise<void> {
+    try {
+        // Send-to-device mailboxes (Kindle, PocketBook, ...) registered by users
+        await query(`
+            CREATE TABLE IF NOT EXISTS user_devices (
+                id SERIAL PRIMARY KEY,
+                user_uuid VARCHAR(36) NOT NULL REFERENCES users(user_uuid) ON DELETE CASCADE,
+                name VARCHAR(100) NOT NULL,
+                email VARCHAR(255) NOT NULL,
+                kind VARCHAR(20) NOT NULL DEFAULT 'other',
+                preferred_format VARCHAR(10),
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE (user_uuid, email)
+            );
+        `);
+
+        // Delivery history; device name and address are copied so entries outlive the device
+        await query(`
+            CREATE TABLE IF NOT EXISTS device_deliveries (
+                id SERIAL PRIMARY KEY,
+                user_uuid VARCHAR(36) NOT NULL REFERENCES users(user_uuid) ON DELETE CASCADE,
+                device_id INTEGER REFERENCES user_devices(id) ON DELETE SET NULL,
+                device_name VARCHAR(100) NOT NULL,
+                email VARCHAR(255) NOT NULL,
+                book_id INTEGER NOT NULL,
+                title TEXT,
+                format VARCHAR(10),
+                status VARCHAR(10) NOT NULL DEFAULT 'pending',
+                error TEXT,
+                size BIGINT,
+                message_id VARCHAR(255),
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                sent_at TIMESTAMP
+            );
         `);
+
+        await query(`
+            CREATE INDEX IF NOT EXISTS idx_device_deliveries_user ON device_deliveries(user_uuid, created_at DESC);
+        `);
+
+        logger.info('Device tables created successfully');
+    } catch (error) {
+        logger.error('Error creating device tables:', error);
+        throw error;
+    }
+}
+
+async function createSettingsTables(): Promise<void> {
+    try {
+        // Server-wide settings edited from the admin panel (JSON per key)
+        await query(`
+            CREATE TABLE IF NOT EXISTS app_settings (
+                key VARCHAR(100) PRIMARY KEY,
+                value JSONB NOT NULL,
+                updated_by VARCHAR(50),
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            );
+        `);
+
+        // Per-user overrides of the download file naming defaults
+        await query(`
+            ALTER TABLE users ADD COLUMN IF NOT EXISTS filename_settings JSONB;
+        `);
+
+        logger.info('Settings tables created successfully');
+    } catch (error) {
+        logger.error('Error creating settings tables:', error);
+        throw error;
+    }
+}
+
+async function createBookRatingsTable(): Promise<void> {
+    try {
+        // Average and vote count per book, rebuilt from librate after SQL updates
+        await query(`
+            CREATE TABLE IF NOT EXISTS book_ratings (
+                bookid INTEGER PRIMARY KEY,
+                rating_avg NUMERIC(3,2) NOT NULL,
+                rating_count INTEGER NOT NULL,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            );
+        `);
+
         await query(`
-            DROP TRIGGER IF EXISTS trg_libbook_search_vector_refresh ON libbook;
-            CREATE TRIGGER trg_libbook_search_vector_refresh
-            BEFORE INSERT OR UPDATE OF title ON libbook
-            FOR EACH ROW EXECUTE FUNCTION libbook_search_vector_refresh();
+            CREATE INDEX IF NOT EXISTS idx_book_ratings_avg ON book_ratings(rating_avg DESC, rating_count DESC);
         `);
 
+        // First run on an existing library: fill the aggregate without waiting for the next update. Awaited,
+        // because `npm run migrate` exits as soon as the migrations resolve; a failed refresh only logs, the
+        // table stays empty and the next migration run tries again
+        const existing = await query('SELECT 1 FROM book_ratings LIMIT 1');
+        if (existing.rowCount === 0) {
+            await RatingService.refresh().catch(error => logger.error('Book ratings refresh failed:', error));
+        }
+
+        logger.info('Book ratings table created successfully');
+    } catch (error) {
+        logger.error('Error creating book ratings table:', error);
+        throw error;
+    }
+}
+
+async function createSearchVectorsColumn(): Promise<void> {
+    try {
+        // search_vector / search_vector_config columns, GIN index, search_config_for_lang() and the title trigger
+        await SearchIndexService.ensureSchema();
+
+        // Per-language title + author + series vectors are built in batches. Awaited, because `npm run migrate`
+        // exits as soon as the migrations resolve; an interrupted or failed run picks up where it stopped
+        await SearchIndexService.refresh().catch(error => logger.error('Search vector refresh failed:', error));
+
         logger.info('Search vectors column added successfully');
     } catch (error) {
         logger.error('Error adding search vectors column:', error);
@@ -255,6 +549,13 @@ async function createPerformanceIndexes(): Promise<void> {
         await query(`CREATE INDEX IF NOT EXISTS idx_libavtor_bookid ON libavtor(bookid);`);
         await query(`CREATE INDEX IF NOT EXISTS idx_libgenre_bookid ON libgenre(bookid);`);
         await query(`CREATE INDEX IF NOT EXISTS idx_libseq_bookid ON libseq(bookid);`);
+        // Series name trigram index and series sizes for search suggestions
+        await query(`CREATE INDEX IF NOT EXISTS idx_libseqname_seqname_trgm ON libseqname USING gin (seqname gin_trgm_ops);`);
+        await query(`CREATE INDEX IF NOT EXISTS idx_libseq_seqid ON libseq(seqid);`);
+
+        // Exact genre / author facet filters
+        await query(`CREATE INDEX IF NOT EXISTS idx_libgenre_genreid_bookid ON libgenre(genreid, bookid);`);
+        await query(`CREATE INDEX IF NOT EXISTS idx_libavtor_avtorid_bookid ON libavtor(avtorid, bookid);`);
 
         // Composite start/end index for BETWEEN lookups on book_zip (fallback if range/GiST not supported)
         await query(`CREATE INDEX IF NOT EXISTS idx_book_zip_start_end ON book_zip(start_id, end_id);`);
@@ -299,6 +600,16 @@ async function runMigrations(): Promise<MigrationResult> {
         await createBookMappingsTable();
         await createUpdateHistoryTable();
         await createUpdateSchedulesTable();
+        await createOpdsTokensTable();
+        await createUserActivityLogTable();
+        await createApiTokensTable();
+        await createZipIndexTables();
+        await createConversionJobsTable();
+        await addProgressLocatorColumns();
+        await createKosyncTables();
+        await createDeviceTables();
+        await createSettingsTables();
+        await createBookRatingsTable();
         await createSearchVectorsColumn();
     await createPerformanceIndexes();
 
@@ -1,7 +1,8 @@
 import { Response, NextFunction } from 'express';
 import { getRow, query } from '../database/connection';
 import logger from '../utils/logger';
-import { ExtendedRequest, User, RegisteredUser } from '../types';
+import ApiTokenService from '../services/ApiTokenService';
+import { ExtendedRequest, User, RegisteredUser, ApiTokenScope } from '../types';
 
 // Interface for user activity logging
 interface ActivityData {
@@ -13,14 +14,112 @@ interface ActivityData {
     statusCode: number;
     userAgent?: string | undefined;
     ipAddress?: string | undefined;
+    tokenId?: number;
+    tokenName?: string;
   };
   ip_address?: string | undefined;
   user_agent?: string | undefined;
 }
 
-// Middleware to require authentication
+// Extract the token from `Authorization: Bearer <token>`, if any
+const getBearerToken = (req: ExtendedRequest): string | null => {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get('Authorization') || '');
+  return match ? match[1]! : null;
+};
+
+// Authenticate with a personal API token; responds 401 and returns false when it is not valid
+async function authenticateApiToken(req: ExtendedRequest, res: Response, token: string): Promise<boolean> {
+  const resolved = await ApiTokenService.resolveToken(token);
+  if (!resolved) {
+    res.status(401).json({
+      success: false,
+      error: 'Invalid or revoked API token'
+    });
+    return false;
+  }
+
+  req.user = resolved.user;
+  req.apiToken = resolved.token;
+
+  // Record token use once the status code is known
+  res.on('finish', () => {
+    logUserActivity({
+      user_uuid: resolved.user.user_uuid,
+      action: 'api_token_use',
+      details: {
+        method: req.method,
+        path: req.originalUrl,
+        statusCode: res.statusCode,
+        tokenId: resolved.token.id,
+        tokenName: resolved.token.name
+      },
+      ip_address: req.ip || req.socket?.remoteAddress || undefined,
+      user_agent: req.get('User-Agent') || undefined
+    }).catch(err => {
+      logger.error('Error logging API token use:', err);
+    });
+  });
+
+  return true;
+}
+
+// Middleware to resolve an optional bearer token so that downstream routes,
+// including session-based ones, see the token's user
+const apiTokenAuth = async (req: ExtendedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const token = getBearerToken(req);
+    if (!token || req.apiToken) {
+      next();
+      return;
+    }
+    if (await authenticateApiToken(req, res, token)) next();
+  } catch (error) {
+    logger.error('API token middleware error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Authentication error'
+    });
+  }
+};
+
+// Middleware to require a scope when the request is authenticated with an API token
+const requireScope = (scope: ApiTokenScope) => {
+  return (req: ExtendedRequest, res: Response, next: NextFunction): Response | void => {
+    if (req.apiToken && !req.apiToken.scopes.includes(scope)) {
+      return res.status(403).json({
+        success: false,
+        error: `API token lacks the ${scope} scope`
+      });
+    }
+    next();
+  };
+};
+
+// Middleware to keep API tokens away from account credentials: token and download naming
+// management needs a browser session, so a leaked token cannot mint OPDS or API tokens
+const rejectApiToken = (req: ExtendedRequest, res: Response, next: NextFunction): Response | void => {
+  if (req.apiToken) {
+    return res.status(403).json({
+      success: false,
+      error: 'API tokens cannot be used to manage tokens or account settings'
+    });
+  }
+  next();
+};
+
+// Middleware to require authentication (session or `Authorization: Bearer` API token)
 const requireAuth = async (req: ExtendedRequest, res: Response, next: NextFunction): Promise<Response | void> => {
   try {
+    if (req.apiToken && req.user?.type === 'registered') {
+      return next();
+    }
+
+    const bearer = getBearerToken(req);
+    if (bearer) {
+      if (await authenticateApiToken(req, res, bearer)) next();
+      return;
+    }
+
     if (!req.session.user_uuid) {
       // Check if this is an API request
       if ((req.originalUrl || '').startsWith('/api/')) {
@@ -119,6 +218,14 @@ const requireRole = (roles: string | string[]) => {
       }
     }
 
+    // Role-protected routes are administrative; tokens need the admin scope on top of the role
+    if (req.apiToken && !req.apiToken.scopes.includes('admin')) {
+      return res.status(403).json({
+        success: false,
+        error: 'API token lacks the admin scope'
+      });
+    }
+
     next();
   };
 };
@@ -188,6 +295,9 @@ async function logUserActivity(activityData: ActivityData): Promise<void> {
 }
 
 export {
+  apiTokenAuth,
+  requireScope,
+  rejectApiToken,
   requireAuth,
   optionalAuth,
   requireRole,
@@ -0,0 +1,71 @@
+import { Response, NextFunction } from 'express';
+import OpdsTokenService from '../services/OpdsTokenService';
+import logger from '../utils/logger';
+import { buildErrorResponse } from '../types/api';
+import { ExtendedRequest } from '../types';
+
+const OPDS_REALM = 'Flibusta OPDS';
+
+/**
+ * Ask the reader for HTTP Basic credentials
+ */
+const challenge = (res: Response, error: string): void => {
+  res.setHeader('WWW-Authenticate', `Basic realm="${OPDS_REALM}", charset="UTF-8"`);
+  res.status(401).json(buildErrorResponse(error));
+};
+
+/**
+ * Resolve the OPDS client to a registered user. A feed token in the mount path
+ * (/opds/t/:token) or HTTP Basic credentials take precedence over the cookie session,
+ * so readers without cookie support reach the same user as requireAuth.
+ */
+const opdsAuth = async (req: ExtendedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const token = req.params.token;
+    if (token) {
+      const user = await OpdsTokenService.resolveToken(token);
+      if (!user) {
+        res.status(401).json(buildErrorResponse('Invalid or revoked OPDS token'));
+        return;
+      }
+      req.user = user;
+      next();
+      return;
+    }
+
+    const header = req.get('Authorization') || '';
+    if (header.startsWith('Basic ')) {
+      const decoded = Buffer.from(header.slice(6), 'base64').toString('utf8');
+      const separator = decoded.indexOf(':');
+      const user = separator > 0
+        ? await OpdsTokenService.verifyCredentials(decoded.slice(0, separator), decoded.slice(separator + 1))
+        : null;
+      if (!user) {
+        challenge(res, 'Invalid credentials');
+        return;
+      }
+      req.user = user;
+    }
+
+    next();
+  } catch (error) {
+    logger.error('OPDS auth middleware error:', error);
+    res.status(500).json(buildErrorResponse('Authentication error'));
+  }
+};
+
+/**
+ * Require a registered user on OPDS routes, challenging the reader for credentials
+ */
+const requireOpdsUser = (req: ExtendedRequest, res: Response, next: NextFunction): void => {
+  if (!req.user || req.user.type !== 'registered') {
+    challenge(res, 'Authentication required');
+    return;
+  }
+  next();
+};
+
+export {
+  opdsAuth,
+  requireOpdsUser
+};
@@ -0,0 +1,25 @@
+import { Request } from 'express';
+import rateLimit from 'express-rate-limit';
+import { buildErrorResponse } from '../types/api';
+
+const WINDOW_MS = parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10) || 900000;
+const MAX_FAILURES = parseInt(process.env.AUTH_RATE_LIMIT_MAX || '10', 10) || 10;
+
+// OPDS readers ask without credentials first and only send them after the 401 challenge
+const hasCredentials = (req: Request): boolean => !!req.get('Authorization') || typeof req.body?.password === 'string';
+
+/**
+ * Failed sign-ins per client address (web login and OPDS Basic auth). Only 401 answers count,
+ * so a reader paging a feed with the right password is never slowed down; once the limit is
+ * reached every attempt from that address gets 429 until the window passes.
+ */
+export const authRateLimit = rateLimit({
+  windowMs: WINDOW_MS,
+  limit: MAX_FAILURES,
+  standardHeaders: 'draft-7',
+  legacyHeaders: false,
+  skip: req => !hasCredentials(req),
+  skipSuccessfulRequests: true,
+  requestWasSuccessful: (_req, res) => res.statusCode !== 401,
+  message: buildErrorResponse('Too many failed sign-in attempts, try again later')
+});
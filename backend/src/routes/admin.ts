@@ -1,5 +1,5 @@
 import express from 'express';
-import { requireAuth, requireAdmin } from '../middleware/auth';
+import { requireAuth, requireAdmin, rejectApiToken } from '../middleware/auth';
 import { query } from '../database/connection';
 import logger from '../utils/logger';
 import UpdateService from '../services/UpdateService';
@@ -7,6 +7,10 @@ import AutomatedUpdateService from '../services/AutomatedUpdateService';
 import bcrypt from 'bcryptjs';
 import { v4 as uuidv4 } from 'uuid';
 import CoverCacheService from '../services/CoverCacheService';
+import OpdsTokenService from '../services/OpdsTokenService';
+import CacheService from '../services/CacheService';
+import KosyncService from '../services/KosyncService';
+import FileNameService from '../services/FileNameService';
 
 const router = express.Router();
 
@@ -39,6 +43,7 @@ router.get('/dashboard', requireAuth, requireAdmin, async (req, res) => {
         const updateStats = await automatedUpdateService.getUpdateStats();
         const schedules = await automatedUpdateService.getSchedules();
         const lastDailyUpdate = await automatedUpdateService.getLastSuccessfulUpdate('daily_books');
+        const caches = await CacheService.getUsage();
 
         res.json({
             success: true,
@@ -56,7 +61,8 @@ router.get('/dashboard', requireAuth, requireAdmin, async (req, res) => {
                     stats: updateStats,
                     schedules: schedules,
                     lastDailyUpdate: lastDailyUpdate
-                }
+                },
+                caches
             }
         });
     } catch (error) {
@@ -263,6 +269,31 @@ router.get('/covers/stats', requireAuth, requireAdmin, async (req, res) => {
     }
 });
 
+// Server-wide download file naming (users may override it in their profile)
+router.get('/settings/filenames', requireAuth, requireAdmin, async (req, res) => {
+    try {
+        res.json({ success: true, data: await FileNameService.getDefaults() });
+    } catch (error) {
+        res.status(500).json({ success: false, error: (error as Error).message });
+    }
+});
+
+router.put('/settings/filenames', requireAuth, requireAdmin, async (req, res) => {
+    try {
+        const body = req.body || {};
+        const problem = FileNameService.validate(body);
+        if (problem) {
+            res.status(400).json({ success: false, error: problem });
+            return;
+        }
+        const settings = await FileNameService.setDefaults(body, (req as any).user.username);
+        res.json({ success: true, data: settings, message: 'File name settings saved' });
+    } catch (error) {
+        logger.error('Error saving file name settings:', error);
+        res.status(500).json({ success: false, error: (error as Error).message });
+    }
+});
+
 // Update book mappings
 router.post('/updates/mappings', requireAuth, requireAdmin, async (req, res) => {
     try {
@@ -431,6 +462,7 @@ router.post('/users', requireAuth, requireAdmin, async (req, res) => {
             INSERT INTO users (user_uuid, username, email, password_hash, role, display_name, is_active)
             VALUES ($1, $2, $3, $4, $5, $6, $7)
         `, [userUuid, username, email || null, passwordHash, role, display_name || null, true]);
+        await KosyncService.rememberKey(userUuid, password);
 
         // Get created user
         const newUser = await query(`
@@ -458,6 +490,97 @@ router.post('/users', requireAuth, requireAdmin, async (req, res) => {
     }
 });
 
+// List OPDS feed tokens of a user
+router.get('/users/:userUuid/opds-tokens', requireAuth, rejectApiToken, requireAdmin, async (req, res) => {
+    try {
+        const tokens = await OpdsTokenService.listTokens(req.params.userUuid!);
+
+        res.json({
+            success: true,
+            data: tokens
+        });
+    } catch (error) {
+        logger.error('Error listing OPDS tokens:', error);
+        res.status(500).json({
+            success: false,
+            error: (error as Error).message
+        });
+    }
+});
+
+// Create an OPDS feed token on behalf of a user
+router.post('/users/:userUuid/opds-tokens', requireAuth, rejectApiToken, requireAdmin, async (req, res) => {
+    try {
+        const name = String(req.body?.name || '').trim();
+        if (!name || name.length > 100) {
+            res.status(400).json({
+                success: false,
+                error: 'Token name must be between 1 and 100 characters'
+            });
+            return;
+        }
+
+        const user = await query('SELECT user_uuid FROM users WHERE user_uuid = $1', [req.params.userUuid]);
+        if (user.rows.length === 0) {
+            res.status(404).json({
+                success: false,
+                error: 'User not found'
+            });
+            return;
+        }
+
+        const { token, record } = await OpdsTokenService.createToken(req.params.userUuid!, name);
+        const baseUrl = `${req.protocol}://${req.get('host')}`;
+
+        logger.info('OPDS token created by admin', {
+            userUuid: req.params.userUuid,
+            createdBy: (req as any).user.username
+        });
+
+        res.status(201).json({
+            success: true,
+            data: {
+                ...record,
+                token,
+                feed_url: `${baseUrl}/opds/t/${token}/`
+            }
+        });
+    } catch (error) {
+        logger.error('Error creating OPDS token:', error);
+        res.status(500).json({
+            success: false,
+            error: (error as Error).message
+        });
+    }
+});
+
+// Revoke any OPDS feed token
+router.delete('/opds-tokens/:tokenId', requireAuth, rejectApiToken, requireAdmin, async (req, res) => {
+    try {
+        const tokenId = parseInt(req.params.tokenId!);
+        const revoked = Number.isInteger(tokenId) && await OpdsTokenService.revokeToken(tokenId);
+
+        if (!revoked) {
+            res.status(404).json({
+                success: false,
+                error: 'Token not found'
+            });
+            return;
+        }
+
+        res.json({
+            success: true,
+            message: 'Token revoked successfully'
+        });
+    } catch (error) {
+        logger.error('Error revoking OPDS token:', error);
+        res.status(500).json({
+            success: false,
+            error: (error as Error).message
+        });
+    }
+});
+
 // Automated Update Management Endpoints
 
 // Get automated update history
@@ -1,12 +1,16 @@
 import express, { Response, NextFunction } from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, param, validationResult } from 'express-validator';
 import bcrypt from 'bcryptjs';
 import { v4 as uuidv4 } from 'uuid';
 import { getRow, query, getRows } from '../database/connection';
 import logger from '../utils/logger';
-import { requireAuth, requireSuperAdmin, requireAdmin } from '../middleware/auth';
+import { requireAuth, requireSuperAdmin, requireAdmin, rejectApiToken } from '../middleware/auth';
 import { buildErrorResponse } from '../types/api';
-import { ExtendedRequest, AuthenticatedRequest } from '../types';
+import OpdsTokenService from '../services/OpdsTokenService';
+import ApiTokenService, { API_TOKEN_SCOPES } from '../services/ApiTokenService';
+import KosyncService from '../services/KosyncService';
+import FileNameService from '../services/FileNameService';
+import { ExtendedRequest, AuthenticatedRequest, ApiTokenScope } from '../types';
 
 const router = express.Router();
 
@@ -55,6 +59,8 @@ router.post('/login', [
     await query(`
       UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE user_uuid = $1
     `, [user.user_uuid]);
+    // Accounts created before KOReader sync existed get their sync key on the next login
+    void KosyncService.rememberKey(user.user_uuid, password, { onlyIfMissing: true });
 
     // Store user in session
     req.session.user_uuid = user.user_uuid;
@@ -106,6 +112,8 @@ router.post('/users/:userId/reset-password', [
     await query(`
       UPDATE users SET password_hash = $1, updated_at = CURRENT_TIMESTAMP WHERE user_uuid = $2
     `, [newPasswordHash, userId]);
+    await KosyncService.rememberKey(userId!, new_password);
+    OpdsTokenService.forgetCredentials();
 
     logger.info('Password reset by admin', {
       admin: requester.username,
@@ -153,6 +161,7 @@ router.post('/register', [
       INSERT INTO users (user_uuid, username, email, password_hash, role, display_name)
       VALUES ($1, $2, $3, $4, $5, $6)
     `, [userUuid, username, email, passwordHash, role, display_name || username]);
+    await KosyncService.rememberKey(userUuid, password);
 
     // Get created user
     const newUser = await getRow(`
@@ -247,6 +256,8 @@ router.post('/change-password', [
     await query(`
       UPDATE users SET password_hash = $1, updated_at = CURRENT_TIMESTAMP WHERE user_uuid = $2
     `, [newPasswordHash, authReq.user.user_uuid]);
+    await KosyncService.rememberKey(authReq.user.user_uuid, new_password);
+    OpdsTokenService.forgetCredentials();
 
     logger.info('Password changed successfully', { username: authReq.user.username });
 
@@ -429,6 +440,7 @@ router.put('/users/:userId', [
     await query(`
       UPDATE users SET ${updates.join(', ')} WHERE user_uuid = $${paramIndex}
     `, params);
+    OpdsTokenService.forgetCredentials();
 
     // Get updated user
     const updatedUser = await getRow(`
@@ -504,6 +516,7 @@ router.delete('/users/:userId', requireAuth, requireAdmin, async (req: ExtendedR
     await query(`
       DELETE FROM users WHERE user_uuid = $1
     `, [userId]);
+    OpdsTokenService.forgetCredentials();
 
     logger.info('User deleted', { 
       deletedBy: (req as AuthenticatedRequest).user.username, 
@@ -521,6 +534,188 @@ router.delete('/users/:userId', requireAuth, requireAdmin, async (req: ExtendedR
   }
 });
 
+// List OPDS feed tokens of the current user
+router.get('/opds-tokens', requireAuth, rejectApiToken, async (req: ExtendedRequest, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const tokens = await OpdsTokenService.listTokens(authReq.user.user_uuid);
+
+    res.json({
+      success: true,
+      data: tokens
+    });
+    return;
+  } catch (error) {
+    next(error);
+    return;
+  }
+});
+
+// Create an OPDS feed token for the current user (the token is shown only once)
+router.post('/opds-tokens', [
+  body('name').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Token name must be between 1 and 100 characters')
+], validate, requireAuth, rejectApiToken, async (req: ExtendedRequest, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { token, record } = await OpdsTokenService.createToken(authReq.user.user_uuid, req.body.name);
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+
+    res.status(201).json({
+      success: true,
+      data: {
+        ...record,
+        token,
+        feed_url: `${baseUrl}/opds/t/${token}/`
+      }
+    });
+    return;
+  } catch (error) {
+    next(error);
+    return;
+  }
+});
+
+// Revoke an OPDS feed token of the current user
+router.delete('/opds-tokens/:tokenId', [
+  param('tokenId').isInt({ min: 1 }).withMessage('Token ID must be a positive integer')
+], validate, requireAuth, rejectApiToken, async (req: ExtendedRequest, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const revoked = await OpdsTokenService.revokeToken(parseInt(req.params.tokenId!), authReq.user.user_uuid);
+
+    if (!revoked) {
+      res.status(404).json(buildErrorResponse('Token not found'));
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Token revoked successfully'
+    });
+    return;
+  } catch (error) {
+    next(error);
+    return;
+  }
+});
+
+// List personal API tokens of the current user
+router.get('/api-tokens', requireAuth, rejectApiToken, async (req: ExtendedRequest, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const tokens = await ApiTokenService.listTokens(authReq.user.user_uuid);
+
+    res.json({
+      success: true,
+      data: tokens
+    });
+    return;
+  } catch (error) {
+    next(error);
+    return;
+  }
+});
+
+// Create a personal API token (the token is shown only once)
+router.post('/api-tokens', [
+  body('name').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Token name must be between 1 and 100 characters'),
+  body('scopes').isArray({ min: 1 }).withMessage('At least one scope is required'),
+  body('scopes.*').isIn(API_TOKEN_SCOPES).withMessage(`Scopes must be among: ${API_TOKEN_SCOPES.join(', ')}`)
+], validate, requireAuth, rejectApiToken, async (req: ExtendedRequest, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+
+    const scopes = Array.from(new Set(req.body.scopes as ApiTokenScope[]));
+    if (scopes.includes('admin') && !['admin', 'superadmin'].includes(authReq.user.role)) {
+      res.status(403).json(buildErrorResponse('Only administrators can create tokens with the admin scope'));
+      return;
+    }
+
+    const { token, record } = await ApiTokenService.createToken(authReq.user.user_uuid, req.body.name, scopes);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        ...record,
+        token
+      }
+    });
+    return;
+  } catch (error) {
+    next(error);
+    return;
+  }
+});
+
+// Revoke a personal API token of the current user
+router.delete('/api-tokens/:tokenId', [
+  param('tokenId').isInt({ min: 1 }).withMessage('Token ID must be a positive integer')
+], validate, requireAuth, rejectApiToken, async (req: ExtendedRequest, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const revoked = await ApiTokenService.revokeToken(parseInt(req.params.tokenId!), authReq.user.user_uuid);
+
+    if (!revoked) {
+      res.status(404).json(buildErrorResponse('Token not found'));
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Token revoked successfully'
+    });
+    return;
+  } catch (error) {
+    next(error);
+    return;
+  }
+});
+
+// Download file naming of the current user: their overrides and the effective result
+router.get('/filename-settings', requireAuth, async (req: ExtendedRequest, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const [defaults, overrides] = await Promise.all([
+      FileNameService.getDefaults(),
+      FileNameService.getUserOverrides(authReq.user.user_uuid)
+    ]);
+
+    res.json({
+      success: true,
+      data: { defaults, overrides, effective: { ...defaults, ...overrides } }
+    });
+    return;
+  } catch (error) {
+    next(error);
+    return;
+  }
+});
+
+// Override download file naming; fields left out follow the server defaults, null resets everything
+router.put('/filename-settings', requireAuth, rejectApiToken, async (req: ExtendedRequest, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const settings = req.body?.settings === null ? null : (req.body?.settings ?? req.body ?? {});
+    const problem = settings ? FileNameService.validate(settings) : null;
+    if (problem) {
+      res.status(400).json(buildErrorResponse(problem));
+      return;
+    }
+
+    const overrides = await FileNameService.setUserOverrides(authReq.user.user_uuid, settings);
+    const defaults = await FileNameService.getDefaults();
+
+    res.json({
+      success: true,
+      data: { defaults, overrides, effective: { ...defaults, ...overrides } }
+    });
+    return;
+  } catch (error) {
+    next(error);
+    return;
+  }
+});
+
 // Get user activity log (admin only)
 router.get('/activity', requireAuth, requireAdmin, async (req: ExtendedRequest, res: Response, next: NextFunction) => {
   try {
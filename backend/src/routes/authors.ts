@@ -43,7 +43,8 @@ router.get('/', [
     res.json({
       success: true,
       data: result.authors,
-      pagination: result.pagination
+      pagination: result.pagination,
+      ...(result.expansion ? { expansion: result.expansion } : {})
     });
   } catch (error) {
     next(error);
@@ -62,6 +62,13 @@ router.get('/search', [
       }
     }),
   query('sort').optional().isIn(['relevance', 'date', 'title', 'title_desc', 'author', 'author_desc', 'year', 'year_desc', 'rating', 'rating_asc']),
+  query('min_rating').optional().isFloat({ min: 1, max: 5 }),
+  // Exact facet filters (ids / values from the `facets` buckets)
+  query('genre_id').optional().isInt({ min: 1 }),
+  query('author_id').optional().isInt({ min: 1 }),
+  query('format').optional().isString().trim().matches(/^[A-Za-z0-9]{2,5}$/),
+  query('decade').optional().isInt({ min: 1000, max: 2100 }),
+  query('facets').optional().isBoolean(),
   query('page').optional().isInt({ min: 0 }),
   query('limit').optional().isInt({ min: 1, max: 100 })
 ], validate, async (req: ExtendedRequest, res: Response, next: NextFunction): Promise<void> => {
@@ -71,6 +78,10 @@ router.get('/search', [
     const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 12));
     const language = ((req.query.language as string) || 'ru').toLowerCase();
     const sort = (req.query.sort as string) || 'relevance';
+    const minRating = parseFloat(req.query.min_rating as string);
+    const genreId = parseInt(req.query.genre_id as string);
+    const authorId = parseInt(req.query.author_id as string);
+    const decade = parseInt(req.query.decade as string);
     const searchParams = {
       query: (req.query.q as string) || '',
       author: (req.query.author as string) || '',
@@ -79,6 +90,12 @@ router.get('/search', [
       year: (req.query.year as string) || '',
       language,
       sort,
+      ...(minRating > 0 ? { minRating } : {}),
+      ...(genreId > 0 ? { genreId } : {}),
+      ...(authorId > 0 ? { authorId } : {}),
+      ...(decade > 0 ? { decade: decade - decade % 10 } : {}),
+      format: (req.query.format as string) || '',
+      facets: req.query.facets === 'true' || req.query.facets === '1',
       page,
       limit
     };
@@ -88,7 +105,9 @@ router.get('/search', [
     res.json({
       success: true,
       data: result.books,
-      pagination: result.pagination
+      pagination: result.pagination,
+      ...(result.facets ? { facets: result.facets } : {}),
+      ...(result.expansion ? { expansion: result.expansion } : {})
     });
   } catch (error) {
     next(error);
@@ -0,0 +1,101 @@
+import express, { Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import logger from '../utils/logger';
+import { requireAuth } from '../middleware/auth';
+import { createTypeSafeHandler } from '../middleware/validation';
+import { buildErrorResponse, buildSuccessResponse } from '../types/api';
+import { AppError, AuthenticatedRequest, ExtendedRequest } from '../types';
+import DeviceService, { DEVICE_FORMAT_CHOICES, DEVICE_KINDS } from '../services/DeviceService';
+
+/**
+ * Send-to-device: e-reader mailboxes of the current user and books mailed to them
+ */
+const router = express.Router();
+
+// Validation middleware
+const validate = (req: ExtendedRequest, res: Response, next: NextFunction): Response | void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json(buildErrorResponse('Validation failed'));
+  }
+  next();
+};
+
+// Device errors carry their HTTP status (404 unknown device or book, 409 duplicate, 429 limit, 503 no SMTP)
+function sendDeviceError(res: Response, error: unknown, context: Record<string, unknown>): Response {
+  const { message, statusCode } = error as AppError;
+  if (!statusCode) {
+    logger.error('Device request failed', { ...context, error: message });
+    return res.status(500).json(buildErrorResponse('Device request failed'));
+  }
+  return res.status(statusCode).json(buildErrorResponse(message));
+}
+
+router.use(requireAuth);
+
+// Registered devices and whether mail delivery is available at all
+router.get('/', createTypeSafeHandler(async (req: ExtendedRequest, res: Response): Promise<Response | void> => {
+  const userUuid = (req as AuthenticatedRequest).user.user_uuid;
+  return res.json(buildSuccessResponse({
+    enabled: DeviceService.isEnabled(),
+    kinds: DEVICE_KINDS,
+    formats: DEVICE_FORMAT_CHOICES,
+    devices: await DeviceService.listDevices(userUuid)
+  }));
+}));
+
+router.post('/', [
+  body('name').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Device name must be between 1 and 100 characters'),
+  body('email').isEmail().isLength({ max: 255 }).withMessage('A valid email address is required'),
+  body('kind').optional().isIn(DEVICE_KINDS).withMessage(`Kind must be one of: ${DEVICE_KINDS.join(', ')}`),
+  body('preferredFormat').optional({ values: 'null' }).isIn(DEVICE_FORMAT_CHOICES).withMessage(`Format must be one of: ${DEVICE_FORMAT_CHOICES.join(', ')}`)
+], validate, createTypeSafeHandler(async (req: ExtendedRequest, res: Response): Promise<Response | void> => {
+  const userUuid = (req as AuthenticatedRequest).user.user_uuid;
+  try {
+    const device = await DeviceService.addDevice(userUuid, {
+      name: req.body.name,
+      email: req.body.email,
+      kind: req.body.kind || 'other',
+      preferredFormat: req.body.preferredFormat ?? null
+    });
+    return res.status(201).json(buildSuccessResponse(device));
+  } catch (error) {
+    return sendDeviceError(res, error, { userUuid });
+  }
+}));
+
+router.delete('/:deviceId', [
+  param('deviceId').isInt({ min: 1 }).withMessage('Device ID must be a positive integer')
+], validate, createTypeSafeHandler(async (req: ExtendedRequest, res: Response): Promise<Response | void> => {
+  const userUuid = (req as AuthenticatedRequest).user.user_uuid;
+  if (!(await DeviceService.removeDevice(userUuid, parseInt(req.params.deviceId!)))) {
+    return res.status(404).json(buildErrorResponse('Device not found'));
+  }
+  return res.json({ success: true, message: 'Device removed' });
+}));
+
+// Mail a book to a device; answers 202 with the pending delivery, poll /deliveries for the outcome
+router.post('/:deviceId/send/:bookId', [
+  param('deviceId').isInt({ min: 1 }).withMessage('Device ID must be a positive integer'),
+  param('bookId').isInt({ min: 1 }).withMessage('Book ID must be a positive integer')
+], validate, createTypeSafeHandler(async (req: ExtendedRequest, res: Response): Promise<Response | void> => {
+  const userUuid = (req as AuthenticatedRequest).user.user_uuid;
+  const deviceId = parseInt(req.params.deviceId!);
+  const bookId = parseInt(req.params.bookId!);
+  try {
+    return res.status(202).json(buildSuccessResponse(await DeviceService.send(userUuid, deviceId, bookId)));
+  } catch (error) {
+    return sendDeviceError(res, error, { userUuid, deviceId, bookId });
+  }
+}));
+
+// Delivery history, newest first, including failures with their reason
+router.get('/deliveries', [
+  query('limit').optional().isInt({ min: 1, max: 200 }).withMessage('Limit must be between 1 and 200')
+], validate, createTypeSafeHandler(async (req: ExtendedRequest, res: Response): Promise<Response | void> => {
+  const userUuid = (req as AuthenticatedRequest).user.user_uuid;
+  const limit = req.query.limit ? parseInt(String(req.query.limit)) : 50;
+  return res.json(buildSuccessResponse(await DeviceService.listDeliveries(userUuid, limit)));
+}));
+
+export default router;
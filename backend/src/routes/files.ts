@@ -1,10 +1,7 @@
 import express, { Response, NextFunction } from 'express';
-import { param, validationResult } from 'express-validator';
+import { param, query, validationResult } from 'express-validator';
 import path from 'path';
 import fs from 'fs/promises';
-import AdmZip from 'adm-zip';
-import { execFile } from 'child_process';
-import { promisify } from 'util';
 // const sharp = require('sharp'); // Temporarily disabled for ARM64 compatibility
 import { getRow } from '../database/connection';
 import logger from '../utils/logger';
@@ -12,32 +9,27 @@ import {
   createTypeSafeHandler
 } from '../middleware/validation';
 import { buildErrorResponse, buildSuccessResponse } from '../types/api';
-import { ExtendedRequest } from '../types';
-import ConversionService, { TargetFormat } from '../services/ConversionService';
+import { AppError, ConversionJob, ExtendedRequest } from '../types';
+import ConversionService, { ALL_TARGETS, TargetFormat } from '../services/ConversionService';
+import ConversionJobService from '../services/ConversionJobService';
 import CoverCacheService from '../services/CoverCacheService';
-import { getBookZipEntry, extractCoverFromFb2, extractCoverFromEpub } from '../utils/cover';
+import CacheService from '../services/CacheService';
+import { extractCoverFromFb2, extractCoverFromEpub } from '../utils/cover';
+import BookLocatorService, { BookLocation } from '../services/BookLocatorService';
+import { sendDownload, sendDownloadStream, strongEtag, contentEtag, isNotModified, contentDisposition } from '../utils/download';
+import { readZipEntryByName } from '../utils/zip';
+import { createPartialMd5Stream } from '../utils/partialMd5';
+import KosyncService from '../services/KosyncService';
+import { pipeline } from 'stream';
+import BulkDownloadService, { BulkBook, BulkSource } from '../services/BulkDownloadService';
+import { normalizeFileName } from '../utils/fileName';
+import FileNameService from '../services/FileNameService';
+import BookMetadataService from '../services/BookMetadataService';
+import { BookMetadata } from '../utils/bookMetadata';
+import { requireUser } from '../middleware/sessionMiddleware';
+import ThumbnailService, { COVER_SIZES, ThumbnailSize } from '../services/ThumbnailService';
 
 const router = express.Router();
-const execFileAsync = promisify(execFile);
-
-async function extractZipEntry(zipPath: string, internalPath: string): Promise<Buffer> {
-  // Prefer system unzip to stream a single entry; avoids loading huge ZIP into memory
-  // BusyBox unzip supports -p; fall back to AdmZip if unzip is missing or fails
-  try {
-    const { stdout } = await execFileAsync('unzip', ['-p', zipPath, internalPath], { encoding: 'buffer', maxBuffer: 1024 * 1024 * 100 });
-    if (stdout && (stdout as Buffer).length) {
-      return stdout as Buffer;
-    }
-  } catch {
-    // will fallback below
-  }
-  // Fallback: read using AdmZip (loads central directory and target entry only)
-  const zip = new AdmZip(zipPath);
-  const entries = zip.getEntries();
-  const target = entries.find(e => e.entryName === internalPath || e.entryName.endsWith('/' + internalPath));
-  if (!target) throw new Error(`Entry not found in zip: ${internalPath}`);
-  return target.getData();
-}
 
 // Helper: ensure directory exists
 async function ensureDir(dirPath: string): Promise<void> {
@@ -66,10 +58,66 @@ function imageContentType(ext: string): string {
     case 'png': return 'image/png';
     case 'gif': return 'image/gif';
     case 'webp': return 'image/webp';
+    case 'avif': return 'image/avif';
+    case 'svg': return 'image/svg+xml';
     default: return 'application/octet-stream';
   }
 }
 
+// Helper: serve a cached image with validators derived from the cache file's mtime
+async function sendCachedImage(req: ExtendedRequest, res: Response, filePath: string): Promise<void> {
+  const [stat, body] = await Promise.all([fs.stat(filePath), fs.readFile(filePath)]);
+  CacheService.touch(filePath);
+  const ext = path.extname(filePath).slice(1);
+  sendDownload(req, res, body, imageContentType(ext), {
+    etag: strongEtag(path.basename(filePath), stat.mtimeMs, stat.size),
+    lastModified: stat.mtime
+  });
+}
+
+// Width generated (SVG) covers are rasterized at for clients that do not take SVG
+const PLACEHOLDER_RASTER_WIDTH = 480;
+// Bump when the built-in rasterizer draws generated covers differently so cached rasters are rebuilt
+const PLACEHOLDER_RASTER_REVISION = 2;
+
+// Helper: serve a cached cover, as a resized thumbnail in the best accepted format when ?w= or ?h= is given.
+// SVG placeholders go out as SVG when the client accepts it and are rasterized otherwise: by ImageMagick when present,
+// else by the built-in renderer (JPEG, text in its bitmap font), so the image/jpeg type OPDS feeds announce holds.
+async function sendCover(req: ExtendedRequest, res: Response, key: number | string, coverPath: string): Promise<void> {
+  const size: ThumbnailSize = {};
+  if (req.query.w) size.width = Number(req.query.w);
+  if (req.query.h) size.height = Number(req.query.h);
+  const svg = coverPath.endsWith('.svg');
+  if (svg) {
+    res.setHeader('Vary', 'Accept');
+    if ((req.get('Accept') || '').includes('image/svg+xml')) return sendCachedImage(req, res, coverPath);
+    if (!size.width && !size.height) size.width = PLACEHOLDER_RASTER_WIDTH;
+  }
+  if (!size.width && !size.height) return sendCachedImage(req, res, coverPath);
+
+  res.setHeader('Vary', 'Accept');
+  let thumbnail: string | null = null;
+  try {
+    const format = await ThumbnailService.negotiate(req.get('Accept'));
+    thumbnail = await ThumbnailService.thumbnail(key, coverPath, size, format);
+  } catch (error) {
+    logger.warn('Cover thumbnail failed, serving original', { key, ...size, error: (error as Error).message });
+  }
+  return sendCachedImage(req, res, thumbnail || coverPath);
+}
+
+// Helper: serve the generated cover of a book without an image, marked with X-Cover-Generated
+async function sendPlaceholderCover(req: ExtendedRequest, res: Response, bookId: number): Promise<boolean> {
+  const placeholder = await CoverCacheService.placeholder(bookId);
+  if (!placeholder) return false;
+  res.setHeader('X-Cover-Generated', '1');
+  res.setHeader('Cache-Control', 'public, max-age=86400');
+  await sendCover(req, res, `${bookId}.placeholder.r${PLACEHOLDER_RASTER_REVISION}`, placeholder);
+  return true;
+}
+
+const coverSizeMessage = `Cover size must be one of: ${COVER_SIZES.join(', ')}`;
+
 // Helper: check cache for any supported image extension
 async function findCachedImage(baseDir: string, baseName: string): Promise<string | null> {
   const exts = ['jpg', 'jpeg', 'png', 'gif', 'webp'];
@@ -83,6 +131,27 @@ async function findCachedImage(baseDir: string, baseName: string): Promise<strin
 
 
 
+// Public shape of a conversion job with links to poll and to download the result
+function conversionJobView(req: ExtendedRequest, job: ConversionJob) {
+  const base = req.baseUrl;
+  return {
+    jobId: job.id,
+    bookId: job.book_id,
+    format: job.target_format,
+    status: job.status,
+    progress: job.progress,
+    message: job.message,
+    error: job.status === 'failed' ? job.error : null,
+    attempts: job.attempts,
+    outputSize: job.output_size === null ? null : Number(job.output_size),
+    createdAt: job.created_at,
+    startedAt: job.started_at,
+    finishedAt: job.finished_at,
+    statusUrl: `${base}/jobs/${job.id}`,
+    downloadUrl: job.status === 'done' ? `${base}/book/${job.book_id}?format=${job.target_format}` : null
+  };
+}
+
 // Validation middleware
 const validate = (req: ExtendedRequest, res: Response, next: NextFunction): Response | void => {
   const errors = validationResult(req);
@@ -92,9 +161,28 @@ const validate = (req: ExtendedRequest, res: Response, next: NextFunction): Resp
   next();
 };
 
-// Serve book file (optionally converted via ?format=epub)
+// ?metadata=1|0 overrides the server default (EMBED_METADATA)
+const metadataValidator = query('metadata').optional().isIn(['0', '1', 'true', 'false']).withMessage('Metadata must be 0 or 1');
+
+function wantsMetadata(req: ExtendedRequest): boolean {
+  const value = req.query.metadata as string | undefined;
+  return value === undefined ? BookMetadataService.enabledByDefault : ['1', 'true'].includes(value);
+}
+
+// Embedding must never break a download: on failure the file goes out as it is
+async function embedMetadata(bookId: number, format: string, meta: BookMetadata, source: () => Promise<Buffer>): Promise<Buffer> {
+  try {
+    return await BookMetadataService.embed(bookId, format, meta, source);
+  } catch (error) {
+    logger.warn('Embedding metadata failed, serving original', { bookId, format, error: (error as Error).message });
+    return source();
+  }
+}
+
+// Serve book file (optionally converted via ?format=epub, with library metadata via ?metadata=1)
 router.get('/book/:bookId', [
-  param('bookId').isInt({ min: 1 }).withMessage('Book ID must be a positive integer')
+  param('bookId').isInt({ min: 1 }).withMessage('Book ID must be a positive integer'),
+  metadataValidator
 ], validate, createTypeSafeHandler(async (req: ExtendedRequest, res: Response): Promise<Response | void> => {
   const bookId = parseInt(req.params.bookId!);
   const requestedFormatRaw = (req.query.format as string | undefined)?.toLowerCase();
@@ -104,12 +192,18 @@ router.get('/book/:bookId', [
 
     // Get book info
     const book = await getRow(`
-      SELECT b.bookid, b.title, b.filetype, lf.filename,
-             CONCAT(a.lastname, ' ', a.firstname) as author_name
+      SELECT b.bookid, b.title, b.filetype, lf.filename, b.time, b.year,
+             encode(b.md5, 'hex') as md5,
+             CONCAT(a.lastname, ' ', a.firstname) as author_name,
+             fs.seqname, fs.seqnumb
       FROM libbook b
       JOIN libavtor av ON b.bookid = av.bookid
       JOIN libavtorname a ON av.avtorid = a.avtorid
       LEFT JOIN libfilename lf ON b.bookid = lf.bookid
+      LEFT JOIN LATERAL (
+        SELECT s.seqname, seq.seqnumb FROM libseq seq JOIN libseqname s ON s.seqid = seq.seqid
+        WHERE seq.bookid = b.bookid ORDER BY seq.level, seq.seqid LIMIT 1
+      ) fs ON TRUE
       WHERE b.bookid = $1 AND b.deleted = '0'
       LIMIT 1
     `, [bookId]);
@@ -119,116 +213,62 @@ router.get('/book/:bookId', [
   }
   console.log('Book info:', { bookId, title: book.title, filetype: book.filetype, filename: book.filename });
 
-    // Determine requested type (normalized)
-    const requestedType = (book.filetype || '').toLowerCase().trim();
-
-    // Try DB mapping first; if not available or fails, fallback to scanning via getBookZipEntry
-    let entryBuffer: Buffer | null = null;
-    let entryName: string | null = null;
-    let actualExt = '';
-    try {
-      console.log('Querying book_zip table for bookId with type preference:', bookId, requestedType);
-      const fileInfo = await getRow(`
-        SELECT filename, start_id, end_id, usr
-        FROM book_zip
-        WHERE $1 BETWEEN start_id AND end_id
-        ORDER BY
-          (CASE WHEN $2 <> '' AND filename ILIKE ('f.' || $2 || '.%') THEN 1 ELSE 0 END) DESC,
-          (CASE WHEN filename ILIKE 'f.fb2.%' THEN 1 ELSE 0 END) DESC,
-          (CASE WHEN filename ILIKE 'f.epub.%' THEN 1 ELSE 0 END) DESC,
-          (CASE WHEN filename ILIKE 'f.djvu.%' THEN 1 ELSE 0 END) DESC,
-          usr ASC,
-          filename ASC
-        LIMIT 1
-      `, [bookId, requestedType]);
-
-      if (fileInfo && fileInfo.filename) {
-        console.log('File info:', { filename: fileInfo.filename, start_id: fileInfo.start_id, end_id: fileInfo.end_id });
-        const zipPath = path.join(process.env.BOOKS_PATH || '/application/flibusta', fileInfo.filename);
-        console.log('ZIP path:', zipPath);
-        try {
-          await fs.access(zipPath);
-          console.log('ZIP file exists');
-          // Extract file from ZIP
-          const zip = new AdmZip(zipPath);
-          const zipEntries = zip.getEntries();
-          console.log('ZIP entries count:', zipEntries.length);
-
-          // Find the book file in the ZIP
-          const toLower = (s: string) => (s || '').toLowerCase();
-          const entryNameMatches = (entryNameLower: string, fileNameLower: string) => {
-            return entryNameLower.endsWith(`/${fileNameLower}`) || entryNameLower === fileNameLower || entryNameLower.includes(`/${fileNameLower}`);
-          };
-
-          // Prefer exact filename
-          let found: AdmZip.IZipEntry | null = null;
-          if (book.filename) {
-            const bookFileName = toLower(book.filename);
-            found = zipEntries.find(entry => entryNameMatches(toLower(entry.entryName), bookFileName)) || null;
-          }
-          // Fallback by preferred extensions and bookId
-          const archiveTypeMatch = /^f\.(\w+)\./i.exec(fileInfo.filename || '');
-          const archiveType = archiveTypeMatch && archiveTypeMatch[1] ? archiveTypeMatch[1].toLowerCase() : '';
-          const baseExts = ['fb2', 'epub', 'djvu', 'pdf', 'mobi', 'txt', 'rtf', 'html', 'htm'];
-          const preferredExts = Array.from(new Set([archiveType, requestedType, ...baseExts].filter(Boolean)));
-          if (!found) {
-            for (const ext of preferredExts) {
-              const candidate = `${bookId}.${ext}`;
-              const f = zipEntries.find(entry => toLower(entry.entryName).endsWith(`/${candidate}`) || toLower(entry.entryName).endsWith(candidate));
-              if (f) { found = f; break; }
-            }
-          }
-          if (!found) {
-            for (const ext of preferredExts) {
-              const f = zipEntries.find(entry => toLower(entry.entryName).endsWith(`.${ext}`));
-              if (f) { found = f; break; }
-            }
-          }
-          if (found) {
-            entryName = found.entryName;
-            entryBuffer = found.getData();
-            const actualNameLower = toLower(entryName || '');
-            const actualExtMatch = /\.([a-z0-9]+)$/.exec(actualNameLower);
-            actualExt = actualExtMatch ? actualExtMatch[1] : (archiveType || requestedType || 'fb2');
-          }
-        } catch (error) {
-          console.warn('ZIP file not accessible, will fallback to scanning', { error: (error as Error).message });
-        }
-      }
-    } catch (e) {
-      console.warn('DB mapping lookup failed, will fallback to scanning', { bookId, error: (e as Error).message });
+  // Library metadata only fits FB2 and EPUB; its digest is part of the ETag so edits reach clients
+  const sourceType = (book.filetype || '').toLowerCase().trim();
+  const converting = !!requestedFormat && requestedFormat !== sourceType;
+  const servedType = converting ? requestedFormat : sourceType;
+  let meta: BookMetadata | null = null;
+  if (wantsMetadata(req) && BookMetadataService.supports(servedType)) {
+    meta = await BookMetadataService.load(bookId).catch(error => {
+      logger.warn('Loading book metadata failed', { bookId, error: (error as Error).message });
+      return null;
+    });
+  }
+  const metaVersion = meta ? [BookMetadataService.version(meta)] : [];
+
+  // Answer conditional GETs before touching the archives when the md5 gives us the ETag up front.
+  // Converted output is not byte-stable (Calibre, rebuilds after cache eviction), so it is tagged by
+  // content and only revalidated once the conversion (usually a cache hit) is in hand
+  const bookModified: Date | null = book.time ? new Date(book.time) : null;
+  if (book.md5 && !converting) {
+    const expectedEtag = strongEtag(book.md5, ...metaVersion);
+    if (isNotModified(req, { etag: expectedEtag, lastModified: bookModified })) {
+      res.setHeader('ETag', expectedEtag);
+      if (bookModified) res.setHeader('Last-Modified', bookModified.toUTCString());
+      return res.status(304).end();
     }
+  }
 
-    // If DB path failed to yield an entry, fallback to scanning
-    if (!entryBuffer || !entryName) {
-      try {
-        const fallback = await getBookZipEntry(bookId, requestedType);
-        entryName = fallback.entryName;
-        entryBuffer = fallback.entryBuffer;
-        const lower = (entryName || '').toLowerCase();
-        const m = /\.([a-z0-9]+)$/.exec(lower);
-        actualExt = m ? m[1] : (requestedType || 'fb2');
-        console.log('Fallback scanning located entry', { bookId, entryName });
-      } catch (_scanErr) {
-        const errorMsg = (_scanErr as Error).message;
-        console.error('Failed to locate book in archives', { bookId, error: errorMsg });
-        if (errorMsg.includes('File size') && errorMsg.includes('2 GiB')) {
-          return res.status(500).json(buildErrorResponse('Book archive too large to process. Please try a different format.'));
-        }
-        return res.status(404).json(buildErrorResponse('Book file not found in archive'));
-      }
+    let location: BookLocation;
+    try {
+      location = await BookLocatorService.locate(bookId, sourceType);
+    } catch (error) {
+      console.error('Failed to locate book in archives', { bookId, error: (error as Error).message });
+      return res.status(404).json(buildErrorResponse('Book file not found in archive'));
     }
-
-    // At this point we have entryBuffer/entryName and actualExt
-    const fileName = `${book.author_name} - ${book.title}.${actualExt}`;
+    const actualExt = location.format;
+
+    // Only conversion needs the whole file in memory; originals are streamed from storage
+    const nameSettings = await FileNameService.resolve(registeredUserUuid(req));
+    const nameFields = {
+      author: book.author_name, title: book.title, series: book.seqname, n: book.seqnumb, year: book.year, id: bookId
+    };
+    const fileName = FileNameService.build(nameSettings, { ...nameFields, ext: actualExt });
     if (requestedFormat && requestedFormat !== actualExt) {
       try {
-  const converted = await ConversionService.convert(bookId, actualExt, requestedFormat, entryBuffer!);
-        const convName = `${book.author_name} - ${book.title}.${requestedFormat}`;
-        res.setHeader('Content-Type', getContentType(requestedFormat));
-        res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(convName)}"`);
-        res.setHeader('Content-Length', converted.length);
-        res.send(converted);
+        const entryBuffer = await BookLocatorService.read(location);
+        let converted = await ConversionService.convert(bookId, actualExt, requestedFormat, entryBuffer);
+        if (meta && BookMetadataService.supports(requestedFormat)) {
+          const plain = converted;
+          converted = await embedMetadata(bookId, requestedFormat, meta, async () => plain);
+        }
+        const convName = FileNameService.build(nameSettings, { ...nameFields, ext: requestedFormat });
+        res.setHeader('Content-Disposition', contentDisposition(convName));
+        sendDownload(req, res, converted, getContentType(requestedFormat), {
+          etag: contentEtag(converted),
+          lastModified: (await ConversionService.cachedAt(bookId, requestedFormat)) || bookModified
+        });
+        KosyncService.recordServedFile(bookId, requestedFormat, convName, converted);
         logger.info('Book file served with conversion', { bookId, from: actualExt, to: requestedFormat });
         return;
       } catch (convErr) {
@@ -236,15 +276,37 @@ router.get('/book/:bookId', [
       }
     }
 
-    res.setHeader('Content-Type', getContentType(actualExt));
-    res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(fileName)}"`);
-    res.setHeader('Content-Length', entryBuffer!.length);
-    res.send(entryBuffer);
+    res.setHeader('Content-Disposition', contentDisposition(fileName));
+    if (meta && BookMetadataService.supports(actualExt)) {
+      const data = await embedMetadata(bookId, actualExt, meta, () => BookLocatorService.read(location));
+      sendDownload(req, res, data, getContentType(actualExt), {
+        etag: book.md5 ? strongEtag(book.md5, ...metaVersion) : contentEtag(data),
+        lastModified: bookModified
+      });
+      KosyncService.recordServedFile(bookId, actualExt, fileName, data);
+      logger.info('Book file served with library metadata', { bookId, format: actualExt, size: data.length });
+      return;
+    }
+    try {
+      await sendDownloadStream(req, res, location.size, getContentType(actualExt), {
+        etag: book.md5 ? strongEtag(book.md5) : strongEtag(location.fingerprint),
+        lastModified: bookModified
+      }, async range => {
+        const stream = await BookLocatorService.openStream(location, range);
+        if (range) return stream;
+        // Full downloads also teach the KOReader sync which book this file is
+        return pipeline(stream, createPartialMd5Stream(md5 => KosyncService.recordServedFile(bookId, actualExt, fileName, md5)), () => {});
+      });
+    } catch (error) {
+      logger.error('Book stream failed', { bookId, backend: location.backend, path: location.path, entry: location.entryName, error: (error as Error).message });
+      if (!res.headersSent) return res.status(500).json(buildErrorResponse('Failed to read book from storage'));
+      return;
+    }
     logger.info('Book file served successfully', { 
       bookId,
       title: book.title,
       fileType: book.filetype,
-      fileSize: entryBuffer!.length,
+      fileSize: location.size,
       converted: !!requestedFormat && requestedFormat === actualExt
     });
 }));
@@ -287,6 +349,102 @@ router.get('/book/:bookId/formats', [
   return res.json(buildSuccessResponse({ bookId, source, targets }));
 }));
 
+// Queue a background conversion; poll /jobs/:jobId and download via /book/:bookId?format= when done
+router.post('/book/:bookId/convert', [
+  param('bookId').isInt({ min: 1 }).withMessage('Book ID must be a positive integer'),
+  query('format').isIn(ALL_TARGETS).withMessage(`Format must be one of: ${ALL_TARGETS.join(', ')}`)
+], validate, createTypeSafeHandler(async (req: ExtendedRequest, res: Response): Promise<Response | void> => {
+  const bookId = parseInt(req.params.bookId!);
+  const format = String(req.query.format).toLowerCase() as TargetFormat;
+
+  const book = await getRow(`SELECT bookid, filetype FROM libbook WHERE bookid = $1 AND deleted = '0' LIMIT 1`, [bookId]);
+  if (!book) {
+    return res.status(404).json(buildErrorResponse('Book not found'));
+  }
+  const targets = await ConversionService.listTargetsForSource((book.filetype || '').toLowerCase().trim());
+  if (!targets.includes(format)) {
+    return res.status(400).json(buildErrorResponse(`Conversion to ${format} is not available for this book`));
+  }
+
+  const job = await ConversionJobService.enqueue(bookId, format, req.user?.user_uuid);
+  return res.status(job.status === 'done' ? 200 : 202).json(buildSuccessResponse(conversionJobView(req, job)));
+}));
+
+// Conversion job status and progress
+router.get('/jobs/:jobId', [
+  param('jobId').isUUID().withMessage('Job ID must be a UUID')
+], validate, createTypeSafeHandler(async (req: ExtendedRequest, res: Response): Promise<Response | void> => {
+  const job = await ConversionJobService.getJob(req.params.jobId!);
+  if (!job) {
+    return res.status(404).json(buildErrorResponse('Job not found'));
+  }
+  return res.json(buildSuccessResponse(conversionJobView(req, job)));
+}));
+
+// Naming overrides only exist for registered accounts
+function registeredUserUuid(req: ExtendedRequest): string | null {
+  return req.user?.type === 'registered' ? req.user.user_uuid : null;
+}
+
+// ------------------------------------------------------------
+// Bulk downloads: an author's books, a series in seqnumb order or the favorites shelf as one
+// streamed ZIP. ?format= converts each book when possible, ?template= names the files.
+// ------------------------------------------------------------
+const bulkValidators = [
+  query('format').optional().isIn(ALL_TARGETS).withMessage(`Format must be one of: ${ALL_TARGETS.join(', ')}`),
+  query('template').optional().isString().isLength({ min: 1, max: 200 }).matches(/\{title\}/).withMessage('Template must contain {title}'),
+  metadataValidator
+];
+
+async function sendBulkZip(req: ExtendedRequest, res: Response, source: BulkSource): Promise<Response | void> {
+  let collection: { name: string; books: BulkBook[] };
+  try {
+    collection = await BulkDownloadService.resolve(source);
+    BulkDownloadService.checkLimits(collection.books);
+  } catch (error) {
+    const { message, statusCode } = error as AppError;
+    if (!statusCode) throw error;
+    return res.status(statusCode).json(buildErrorResponse(message));
+  }
+
+  const format = req.query.format ? String(req.query.format).toLowerCase() as TargetFormat : undefined;
+  const settings = await FileNameService.resolve(registeredUserUuid(req));
+  // The archive is named after the collection, spelled the way its entries are
+  const zipBase = normalizeFileName(collection.name, { transliterate: settings.transliterate, safeChars: settings.safeChars });
+  const zipName = `${zipBase || 'books'}${format ? ` (${format})` : ''}.zip`;
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', contentDisposition(zipName));
+  res.setHeader('Cache-Control', 'no-store');
+  try {
+    const result = await BulkDownloadService.write(res, collection.books, {
+      format, template: req.query.template as string | undefined, settings, metadata: wantsMetadata(req)
+    });
+    logger.info('Bulk download served', { source: source.kind, books: collection.books.length, ...result, format });
+  } catch (error) {
+    logger.warn('Bulk download aborted', { source: source.kind, error: (error as Error).message });
+    if (!res.headersSent) return res.status(500).json(buildErrorResponse('Failed to build archive'));
+    res.destroy();
+  }
+}
+
+router.get('/author/:authorId/zip', [
+  param('authorId').isInt({ min: 1 }).withMessage('Author ID must be a positive integer'),
+  ...bulkValidators
+], validate, createTypeSafeHandler(async (req: ExtendedRequest, res: Response): Promise<Response | void> => {
+  return sendBulkZip(req, res, { kind: 'author', id: parseInt(req.params.authorId!) });
+}));
+
+router.get('/series/:seriesId/zip', [
+  param('seriesId').isInt({ min: 1 }).withMessage('Series ID must be a positive integer'),
+  ...bulkValidators
+], validate, createTypeSafeHandler(async (req: ExtendedRequest, res: Response): Promise<Response | void> => {
+  return sendBulkZip(req, res, { kind: 'series', id: parseInt(req.params.seriesId!) });
+}));
+
+router.get('/favorites/zip', requireUser, bulkValidators, validate, createTypeSafeHandler(async (req: ExtendedRequest, res: Response): Promise<Response | void> => {
+  return sendBulkZip(req, res, { kind: 'favorites', userUuid: req.user!.user_uuid });
+}));
+
 // Serve author image
 router.get('/author/:authorId', [
   param('authorId').isInt({ min: 1 }).withMessage('Author ID must be a positive integer')
@@ -311,8 +469,8 @@ router.get('/author/:authorId', [
       const zipPath = path.join(process.env.CACHE_PATH || '/app/cache', 'lib.a.attached.zip');
       try {
         await fs.access(zipPath);
-        // Extract exact path from archive using unzip -p to avoid >2GB zip memory issues
-        const imageBuffer = await extractZipEntry(zipPath, authorImage.file);
+        // Read the exact path from the archive's central directory; works for >2GB zips
+        const imageBuffer = await readZipEntryByName(zipPath, authorImage.file);
         // Temporarily disable sharp processing for ARM64 compatibility
         // const processedImage = await sharp(imageBuffer)
         //   .resize(200, 200, { fit: 'cover' })
@@ -339,7 +497,9 @@ router.get('/author/:authorId', [
 
 // Serve book cover
 router.get('/cover/:bookId', [
-  param('bookId').isInt({ min: 1 }).withMessage('Book ID must be a positive integer')
+  param('bookId').isInt({ min: 1 }).withMessage('Book ID must be a positive integer'),
+  query('w').optional().isIn(COVER_SIZES.map(String)).withMessage(coverSizeMessage),
+  query('h').optional().isIn(COVER_SIZES.map(String)).withMessage(coverSizeMessage)
 ], validate, createTypeSafeHandler(async (req: ExtendedRequest, res: Response): Promise<Response | void> => {
   const bookId = parseInt(req.params.bookId!);
   const fast = (req.query.fast === '1' || req.query.fast === 'true');
@@ -350,13 +510,18 @@ router.get('/cover/:bookId', [
   await ensureDir(coversCacheRoot);
   const cached = await findCachedImage(coversCacheRoot, String(bookId));
   if (cached) {
-    return res.sendFile(cached);
+    return sendCover(req, res, bookId, cached);
   }
 
-  // Extremely fast path for probes: never touch DB, never schedule
+  // Extremely fast path for probes: never touch DB, never schedule.
+  // A book already known to have no cover is "ready" too: its URL serves the generated cover.
   if (checkOnly) {
     res.setHeader('Cache-Control', 'no-store');
     res.setHeader('Connection', 'close');
+    if (CoverCacheService.isKnownMissing(bookId)) {
+      res.setHeader('X-Cover-Generated', '1');
+      return res.status(200).end();
+    }
     return res.status(404).end();
   }
 
@@ -369,6 +534,7 @@ router.get('/cover/:bookId', [
   }
 
   if (fast) {
+    if (CoverCacheService.isKnownMissing(bookId) && await sendPlaceholderCover(req, res, bookId)) return;
     // Schedule cache population only for the initial fast request, not for probes
     try { CoverCacheService.schedule(bookId); } catch {}
     res.setHeader('Content-Type', 'image/svg+xml');
@@ -388,14 +554,14 @@ router.get('/cover/:bookId', [
     try {
       await fs.access(zipPath);
       logger.info('Cover route: lib.b zip found, extracting', { bookId, zipPath, internal: bookCover.file });
-      const coverBuffer = await extractZipEntry(zipPath, bookCover.file);
+      const coverBuffer = await readZipEntryByName(zipPath, bookCover.file);
       const ext = detectImageExt(coverBuffer) || 'jpg';
       const cachePath = path.join(coversCacheRoot, `${bookId}.${ext}`);
       await fs.writeFile(cachePath, coverBuffer);
+      CacheService.noteWrite(cachePath, coverBuffer.length);
       logger.info('Cover route: extracted from lib.b and cached', { bookId, cachePath, size: coverBuffer.length, ext });
-      res.setHeader('Content-Type', imageContentType(ext));
       res.setHeader('Cache-Control', 'public, max-age=31536000');
-      return res.send(coverBuffer);
+      return sendCover(req, res, bookId, cachePath);
     } catch (_zipError) {
         logger.warn('Cover route: lib.b extraction failed, will fallback to book file', { bookId, error: (_zipError as Error).message });
       // fall through to book-file extraction
@@ -407,9 +573,10 @@ router.get('/cover/:bookId', [
     // Get book record for type hints
     const book = await getRow(`SELECT filetype FROM libbook WHERE bookid = $1 LIMIT 1`, [bookId]);
     const requestedType = (book?.filetype || '').toString();
-    const { entryName, entryBuffer } = await getBookZipEntry(bookId, requestedType);
-    logger.info('Cover route: got book entry for fallback', { bookId, entryName, requestedType });
-    const nameLower = entryName.toLowerCase();
+    const location = await BookLocatorService.locate(bookId, requestedType);
+    const entryBuffer = await BookLocatorService.read(location);
+    logger.info('Cover route: got book entry for fallback', { bookId, entryName: location.entryName, requestedType });
+    const nameLower = location.entryName.toLowerCase();
     let buf: Buffer | null = null;
     if (nameLower.endsWith('.fb2') || nameLower.endsWith('.xml')) {
       buf = extractCoverFromFb2(entryBuffer);
@@ -422,19 +589,20 @@ router.get('/cover/:bookId', [
       const ext = detectImageExt(buf) || 'jpg';
       const cachePath = path.join(coversCacheRoot, `${bookId}.${ext}`);
       await fs.writeFile(cachePath, buf);
+      CacheService.noteWrite(cachePath, buf.length);
       logger.info('Cover route: cached extracted cover', { bookId, cachePath, size: buf.length, ext });
-      res.setHeader('Content-Type', imageContentType(ext));
       res.setHeader('Cache-Control', 'public, max-age=31536000');
-      return res.send(buf);
+      return sendCover(req, res, bookId, cachePath);
     }
   } catch (_fallbackErr) {
     logger.warn('Cover route: fallback extraction failed', { bookId, error: (_fallbackErr as Error).message });
     // ignore; will 404 below
   }
 
-  logger.info('Cover route: not found', { bookId });
+  logger.info('Cover route: not found, serving generated cover', { bookId });
   try { CoverCacheService.schedule(bookId); }
   catch {}
+  if (await sendPlaceholderCover(req, res, bookId)) return;
   return res.status(404).json(buildErrorResponse('Book cover not found'));
 }));
 
@@ -0,0 +1,91 @@
+import express, { Response, NextFunction } from 'express';
+import logger from '../utils/logger';
+import { ExtendedRequest } from '../types';
+import KosyncService from '../services/KosyncService';
+
+/**
+ * KOReader progress sync (kosync protocol, as spoken by koreader-sync-server).
+ * Accounts are the library's users: KOReader logs in with the web username and password.
+ */
+const router = express.Router();
+
+type KosyncRequest = ExtendedRequest & { kosyncUser?: { user_uuid: string; username: string } };
+
+// Error bodies and statuses follow koreader-sync-server so the plugin shows sensible messages
+const ERRORS = {
+  unknown: { status: 500, code: 1000, message: 'Unknown server error.' },
+  unauthorized: { status: 401, code: 2001, message: 'Unauthorized' },
+  invalidRequest: { status: 403, code: 2003, message: 'Invalid request' },
+  documentMissing: { status: 403, code: 2004, message: "Field 'document' not provided." },
+  registrationDisabled: { status: 402, code: 2005, message: 'User registration is disabled.' },
+  unknownDocument: { status: 403, code: 2003, message: 'Document is not a file from this library.' }
+};
+
+function sendError(res: Response, error: typeof ERRORS[keyof typeof ERRORS]): Response {
+  return res.status(error.status).json({ code: error.code, message: error.message });
+}
+
+const kosyncAuth = async (req: KosyncRequest, res: Response, next: NextFunction): Promise<Response | void> => {
+  const username = req.get('x-auth-user');
+  const key = req.get('x-auth-key');
+  if (!username || !key) return sendError(res, ERRORS.unauthorized);
+  try {
+    const user = await KosyncService.authenticate(username, key);
+    if (!user) return sendError(res, ERRORS.unauthorized);
+    req.kosyncUser = user;
+    next();
+  } catch (error) {
+    logger.error('Kosync authentication failed', { username, error: (error as Error).message });
+    return sendError(res, ERRORS.unknown);
+  }
+};
+
+// Accounts are created by administrators. The answer never depends on the name, so KOReader's "Register"
+// cannot be used to find out which usernames exist
+router.post('/users/create', (req: KosyncRequest, res: Response): Response => {
+  const username = req.body?.username;
+  if (typeof username !== 'string' || !username) return sendError(res, ERRORS.invalidRequest);
+  return sendError(res, ERRORS.registrationDisabled);
+});
+
+router.get('/users/auth', kosyncAuth, (_req: KosyncRequest, res: Response): Response => {
+  return res.json({ authorized: 'OK' });
+});
+
+router.put('/syncs/progress', kosyncAuth, async (req: KosyncRequest, res: Response): Promise<Response> => {
+  const { document, progress, percentage, device, device_id: deviceId } = req.body || {};
+  if (typeof document !== 'string' || !document) return sendError(res, ERRORS.documentMissing);
+  if (typeof progress !== 'string' || typeof percentage !== 'number' || !Number.isFinite(percentage)
+    || (device !== undefined && typeof device !== 'string') || (deviceId !== undefined && typeof deviceId !== 'string')) {
+    return sendError(res, ERRORS.invalidRequest);
+  }
+
+  try {
+    const saved = await KosyncService.saveProgress(req.kosyncUser!.user_uuid, {
+      document,
+      progress: progress.slice(0, 2000),
+      percentage,
+      device: (device || '').slice(0, 100),
+      device_id: (deviceId || '').slice(0, 100)
+    });
+    if (!saved) return sendError(res, ERRORS.unknownDocument);
+    return res.json(saved);
+  } catch (error) {
+    logger.error('Kosync progress update failed', { document, error: (error as Error).message });
+    return sendError(res, ERRORS.unknown);
+  }
+});
+
+// An empty object means "no position yet", as in the reference server
+router.get('/syncs/progress/:document', kosyncAuth, async (req: KosyncRequest, res: Response): Promise<Response> => {
+  const document = req.params.document;
+  if (!document) return sendError(res, ERRORS.documentMissing);
+  try {
+    return res.json((await KosyncService.getProgress(req.kosyncUser!.user_uuid, document)) || {});
+  } catch (error) {
+    logger.error('Kosync progress lookup failed', { document, error: (error as Error).message });
+    return sendError(res, ERRORS.unknown);
+  }
+});
+
+export default router;
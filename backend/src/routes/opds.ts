@@ -1,153 +1,462 @@
 import express, { Response, NextFunction } from 'express';
-import { query, param, validationResult } from 'express-validator';
+import { query, param } from 'express-validator';
 import { getRows } from '../database/connection';
 import xml2js from 'xml2js';
-import { buildErrorResponse } from '../types/api';
 import { ExtendedRequest } from '../types';
+import BookService from '../services/BookService';
+import AuthorService from '../services/AuthorService';
+import SessionService from '../services/SessionService';
+import { requireOpdsUser } from '../middleware/opdsAuth';
+import { OpdsAuthor, authorName, feedLimit, mediaType, validate } from '../utils/opds';
 
 const router = express.Router();
 
-// Validation middleware
-const validate = (req: ExtendedRequest, res: Response, next: NextFunction): Response | void => {
-  const errors = validationResult(req);
-  if (!errors.isEmpty()) {
-    return res.status(400).json(buildErrorResponse('Validation failed'));
-  }
-  next();
+const CATALOG_TYPE = 'application/atom+xml;profile=opds-catalog';
+const NAVIGATION_TYPE = `${CATALOG_TYPE};kind=navigation`;
+const ACQUISITION_TYPE = `${CATALOG_TYPE};kind=acquisition`;
+
+const FEED_NAMESPACES = {
+  xmlns: 'http://www.w3.org/2005/Atom',
+  'xmlns:dc': 'http://purl.org/dc/terms/',
+  'xmlns:os': 'http://a9.com/-/spec/opensearch/1.1/',
+  'xmlns:opds': 'https://specs.opds.io/opds-1.2'
 };
 
+interface OpdsBook {
+  bookid: string | number;
+  title: string;
+  year?: number | string | null;
+  lang?: string | null;
+  filetype?: string | null;
+  authors?: OpdsAuthor[] | null;
+  genres?: Array<string | { genrecode?: string; genredesc?: string }> | null;
+}
+
+function sendFeed(res: Response, feed: Record<string, unknown>): void {
+  const builder = new xml2js.Builder({
+    rootName: 'feed',
+    headless: true,
+    renderOpts: { pretty: true, indent: '  ', newline: '\n' }
+  });
+
+  res.setHeader('Content-Type', `${CATALOG_TYPE};charset=utf-8`);
+  res.send(builder.buildObject({ feed: { $: FEED_NAMESPACES, ...feed } }));
+}
+
+// Readers show a plain-text body as the error message; a JSON body would be reported as a broken feed
+function sendNotFound(res: Response, message: string): void {
+  res.status(404).type('text/plain; charset=utf-8').send(message);
+}
+
+// self/start/up links plus next/previous when the feed is paginated. catalogUrl is the
+// router's mount point, so links keep a /opds/t/:token prefix when one was used
+function feedLinks(catalogUrl: string, selfPath: string, type: string, page?: number, hasNext?: boolean) {
+  const withPage = (p: number) => `${catalogUrl}${selfPath}${selfPath.includes('?') ? '&' : '?'}page=${p}`;
+  const links = [
+    { $: { href: page ? withPage(page) : `${catalogUrl}${selfPath}`, rel: 'self', type } },
+    { $: { href: `${catalogUrl}/`, rel: 'start', type: NAVIGATION_TYPE } },
+    { $: { href: `${catalogUrl}/`, rel: 'up', type: NAVIGATION_TYPE } }
+  ];
+  if (page !== undefined && page > 0) {
+    links.push({ $: { href: withPage(page - 1), rel: 'previous', type } });
+  }
+  if (page !== undefined && hasNext) {
+    links.push({ $: { href: withPage(page + 1), rel: 'next', type } });
+  }
+  return links;
+}
+
+function bookEntry(book: OpdsBook, baseUrl: string, catalogUrl: string, now: string) {
+  const authors = (book.authors || []).filter(a => authorName(a));
+  const authorNames = authors.map(authorName).join(', ');
+  const filetype = String(book.filetype || '').trim().toLowerCase();
+
+  return {
+    updated: now,
+    id: `tag:book:${book.bookid}`,
+    title: book.title,
+    content: {
+      $: { type: 'text' },
+      _: `Автор: ${authorNames}${book.year ? `, Год: ${book.year}` : ''}`
+    },
+    author: authors.map(a => ({
+      name: authorName(a),
+      ...(typeof a !== 'string' && a.avtorid && { uri: `${catalogUrl}/author/${a.avtorid}` })
+    })),
+    category: (book.genres || []).map(g => typeof g === 'string'
+      ? { $: { term: g, label: g } }
+      : { $: { term: `/subject/${g.genrecode}`, label: g.genredesc } }),
+    link: [
+      {
+        $: {
+          href: `${baseUrl}/api/files/book/${book.bookid}`,
+          rel: 'http://opds-spec.org/acquisition/open-access',
+          type: mediaType(filetype)
+        }
+      },
+      {
+        $: {
+          href: `${baseUrl}/api/files/cover/${book.bookid}`,
+          rel: 'http://opds-spec.org/image',
+          type: 'image/jpeg'
+        }
+      },
+      {
+        $: {
+          href: `${baseUrl}/api/files/cover/${book.bookid}?w=240`,
+          rel: 'http://opds-spec.org/image/thumbnail',
+          type: 'image/jpeg'
+        }
+      },
+      ...authors
+        .filter((a): a is Exclude<OpdsAuthor, string> => typeof a !== 'string' && !!a.avtorid)
+        .map(a => ({
+          $: {
+            href: `${catalogUrl}/author/${a.avtorid}`,
+            rel: 'related',
+            type: ACQUISITION_TYPE,
+            title: `Все книги автора ${authorName(a)}`
+          }
+        })),
+      {
+        $: {
+          href: `${baseUrl}/api/books/${book.bookid}`,
+          rel: 'alternate',
+          type: 'application/json'
+        }
+      }
+    ],
+    ...(book.lang && { 'dc:language': String(book.lang).trim() }),
+    ...(book.year && { 'dc:issued': book.year })
+  };
+}
+
+// Authors of many books in one round-trip, keyed by bookid
+async function getAuthorsForBooks(bookIds: Array<string | number>): Promise<Map<number, OpdsAuthor[]>> {
+  const byBook = new Map<number, OpdsAuthor[]>();
+  if (bookIds.length === 0) return byBook;
+
+  const rows = await getRows(`
+    SELECT a.bookid, a.avtorid, an.lastname, an.firstname, an.middlename, an.nickname
+    FROM libavtor a
+    LEFT JOIN libavtorname an ON a.avtorid = an.avtorid
+    WHERE a.bookid = ANY($1::int[])
+    ORDER BY a.bookid, a.pos
+  `, [bookIds.map(id => Number(id))]);
+
+  for (const row of rows) {
+    const list = byBook.get(Number(row.bookid)) || [];
+    list.push(row as Exclude<OpdsAuthor, string>);
+    byBook.set(Number(row.bookid), list);
+  }
+  return byBook;
+}
+
+// Genres of many books in one round-trip, keyed by bookid
+async function getGenresForBooks(bookIds: Array<string | number>): Promise<Map<number, Array<{ genrecode: string; genredesc: string }>>> {
+  const byBook = new Map<number, Array<{ genrecode: string; genredesc: string }>>();
+  if (bookIds.length === 0) return byBook;
+
+  const rows = await getRows(`
+    SELECT lg.bookid, g.genrecode, g.genredesc
+    FROM libgenre lg
+    JOIN libgenrelist g ON lg.genreid = g.genreid
+    WHERE lg.bookid = ANY($1::int[])
+    ORDER BY lg.bookid, g.genredesc
+  `, [bookIds.map(id => Number(id))]);
+
+  for (const row of rows) {
+    const list = byBook.get(Number(row.bookid)) || [];
+    list.push({ genrecode: row.genrecode as string, genredesc: row.genredesc as string });
+    byBook.set(Number(row.bookid), list);
+  }
+  return byBook;
+}
+
 // OPDS main catalog
 router.get('/', async (req, res, next) => {
   try {
     const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const catalogUrl = `${baseUrl}${req.baseUrl}`;
     const now = new Date().toISOString();
 
-    const opdsFeed = {
-      feed: {
-        $: {
-          xmlns: 'http://www.w3.org/2005/Atom',
-          'xmlns:dc': 'http://purl.org/dc/terms/',
-          'xmlns:os': 'http://a9.com/-/spec/opensearch/1.1/',
-          'xmlns:opds': 'https://specs.opds.io/opds-1.2'
+    sendFeed(res, {
+      id: 'tag:root',
+      title: 'Домашняя библиотека',
+      updated: now,
+      icon: `${baseUrl}/favicon.svg`,
+      link: [
+        {
+          $: {
+            href: `${baseUrl}/opds-opensearch.xml`,
+            rel: 'search',
+            type: 'application/opensearchdescription+xml'
+          }
         },
-        id: 'tag:root',
-        title: 'Домашняя библиотека',
-        updated: now,
-        icon: `${baseUrl}/favicon.svg`,
-        link: [
-          {
-            $: {
-              href: `${baseUrl}/opds-opensearch.xml`,
-              rel: 'search',
-              type: 'application/opensearchdescription+xml'
-            }
+        {
+          $: {
+            href: `${catalogUrl}/search?q={searchTerms}`,
+            rel: 'search',
+            type: 'application/atom+xml'
+          }
+        },
+        {
+          $: {
+            href: `${catalogUrl}/`,
+            rel: 'start',
+            type: NAVIGATION_TYPE
+          }
+        },
+        {
+          $: {
+            href: `${catalogUrl}/`,
+            rel: 'self',
+            type: NAVIGATION_TYPE
+          }
+        }
+      ],
+      entry: [
+        {
+          updated: now,
+          id: 'tag:root:new',
+          title: 'Новинки',
+          content: {
+            $: { type: 'text' },
+            _: 'Последние поступления в библиотеку'
           },
-          {
-            $: {
-              href: `${baseUrl}/opds/search?q={searchTerms}`,
-              rel: 'search',
-              type: 'application/atom+xml'
+          link: [
+            {
+              $: {
+                href: `${catalogUrl}/list/`,
+                rel: 'http://opds-spec.org/sort/new',
+                type: ACQUISITION_TYPE
+              }
+            },
+            {
+              $: {
+                href: `${catalogUrl}/list/`,
+                type: ACQUISITION_TYPE
+              }
             }
+          ]
+        },
+        {
+          updated: now,
+          id: 'tag:root:shelf',
+          title: 'Книжные полки',
+          content: {
+            $: { type: 'text' },
+            _: 'Избранное'
           },
-          {
+          link: {
             $: {
-              href: `${baseUrl}/opds/`,
-              rel: 'start',
-              type: 'application/atom+xml;profile=opds-catalog'
+              href: `${catalogUrl}/favs/`,
+              rel: 'http://opds-spec.org/shelf',
+              type: ACQUISITION_TYPE
             }
+          }
+        },
+        {
+          updated: now,
+          id: 'tag:root:genre',
+          title: 'По жанрам',
+          content: {
+            $: { type: 'text' },
+            _: 'Поиск книг по жанрам'
           },
-          {
+          link: {
             $: {
-              href: `${baseUrl}/opds/`,
-              rel: 'self',
-              type: 'application/atom+xml;profile=opds-catalog'
+              href: `${catalogUrl}/genres`,
+              rel: 'subsection',
+              type: NAVIGATION_TYPE
             }
           }
-        ],
-        entry: [
-          {
-            updated: now,
-            id: 'tag:root:new',
-            title: 'Новинки',
-            content: {
-              $: { type: 'text' },
-              _: 'Последние поступления в библиотеку'
-            },
-            link: [
-              {
-                $: {
-                  href: `${baseUrl}/opds/list/`,
-                  rel: 'http://opds-spec.org/sort/new',
-                  type: 'application/atom+xml;profile=opds-catalog'
-                }
-              },
-              {
-                $: {
-                  href: `${baseUrl}/opds/list/`,
-                  type: 'application/atom+xml;profile=opds-catalog'
-                }
-              }
-            ]
-          },
-          {
-            updated: now,
-            id: 'tag:root:shelf',
-            title: 'Книжные полки',
-            content: {
-              $: { type: 'text' },
-              _: 'Избранное'
-            },
-            link: {
-              $: {
-                href: `${baseUrl}/opds/favs/`,
-                type: 'application/atom+xml;profile=opds-catalog'
-              }
-            }
-          },
-          {
-            updated: now,
-            id: 'tag:root:genre',
-            title: 'По жанрам',
-            content: {
-              $: { type: 'text' },
-              _: 'Поиск книг по жанрам'
-            },
-            link: {
-              $: {
-                href: `${baseUrl}/opds/genres`,
-                type: 'application/atom+xml;profile=opds-catalog'
-              }
-            }
+        },
+        {
+          updated: now,
+          id: 'tag:root:authors',
+          title: 'По авторам',
+          content: {
+            $: { type: 'text' },
+            _: 'Поиск книг по авторам'
           },
-          {
-            updated: now,
-            id: 'tag:root:authors',
-            title: 'По авторам',
-            content: {
-              $: { type: 'text' },
-              _: 'Поиск книг по авторам'
-            },
-            link: {
-              $: {
-                href: `${baseUrl}/opds/authorsindex`,
-                type: 'application/atom+xml;profile=opds-catalog'
-              }
+          link: {
+            $: {
+              href: `${catalogUrl}/authorsindex`,
+              rel: 'subsection',
+              type: NAVIGATION_TYPE
             }
           }
-        ]
-      }
-    };
+        }
+      ]
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// OPDS new arrivals
+router.get('/list/', [
+  query('page').optional().isInt({ min: 0 })
+], validate, async (req: ExtendedRequest, res: Response, next: NextFunction) => {
+  try {
+    const page = parseInt(String(req.query.page || '0'));
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const catalogUrl = `${baseUrl}${req.baseUrl}`;
+    const now = new Date().toISOString();
+    const limit = feedLimit();
 
-    const builder = new xml2js.Builder({
-      rootName: 'feed',
-      headless: true,
-      renderOpts: { pretty: true, indent: '  ', newline: '\n' }
+    // One extra row tells us whether a next page exists without a COUNT(*)
+    const books = await BookService.getRecentBooks(limit + 1, page * limit);
+    const hasNext = books.length > limit;
+
+    sendFeed(res, {
+      id: 'tag:root:new',
+      title: 'Новинки',
+      updated: now,
+      link: feedLinks(catalogUrl, '/list/', ACQUISITION_TYPE, page, hasNext),
+      entry: books.slice(0, limit).map(book => bookEntry(book as unknown as OpdsBook, baseUrl, catalogUrl, now))
     });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// OPDS favorites shelf of the current user
+router.get('/favs/', [
+  query('page').optional().isInt({ min: 0 })
+], validate, requireOpdsUser, async (req: ExtendedRequest, res: Response, next: NextFunction) => {
+  try {
+    const page = parseInt(String(req.query.page || '0'));
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const catalogUrl = `${baseUrl}${req.baseUrl}`;
+    const now = new Date().toISOString();
+    const limit = feedLimit();
 
-    const xml = builder.buildObject(opdsFeed);
-    
-    res.setHeader('Content-Type', 'application/atom+xml;profile=opds-catalog;charset=utf-8');
-    res.send(xml);
+    const result = await SessionService.getUserFavorites(req.user!.user_uuid, page, limit);
+    const authorsByBook = await getAuthorsForBooks(result.favorites.map(f => f.bookid));
+
+    sendFeed(res, {
+      id: 'tag:root:shelf',
+      title: 'Избранное',
+      updated: now,
+      link: feedLinks(catalogUrl, '/favs/', ACQUISITION_TYPE, page, page + 1 < result.pagination.totalPages),
+      entry: result.favorites.map(fav => bookEntry({
+        ...fav,
+        authors: authorsByBook.get(Number(fav.bookid)) || fav.authors
+      }, baseUrl, catalogUrl, now))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// OPDS author index: first letters of author last names
+router.get('/authorsindex', async (req, res, next) => {
+  try {
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const catalogUrl = `${baseUrl}${req.baseUrl}`;
+    const now = new Date().toISOString();
+
+    const letters = await AuthorService.getAuthorLetters();
+
+    sendFeed(res, {
+      id: 'tag:authors',
+      title: 'По авторам',
+      updated: now,
+      link: feedLinks(catalogUrl, '/authorsindex', NAVIGATION_TYPE),
+      entry: letters.map(({ letter, count }) => ({
+        updated: now,
+        id: `tag:authors:${letter}`,
+        title: letter,
+        content: {
+          $: { type: 'text' },
+          _: `Авторов: ${count}`
+        },
+        link: {
+          $: {
+            href: `${catalogUrl}/authorsindex/${encodeURIComponent(letter)}`,
+            rel: 'subsection',
+            type: NAVIGATION_TYPE
+          }
+        }
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// OPDS authors whose last name starts with a letter
+router.get('/authorsindex/:letter', [
+  param('letter').isString().trim().matches(/^\p{L}$/u),
+  query('page').optional().isInt({ min: 0 })
+], validate, async (req: ExtendedRequest, res: Response, next: NextFunction) => {
+  try {
+    const letter = req.params.letter!;
+    const page = parseInt(String(req.query.page || '0'));
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const catalogUrl = `${baseUrl}${req.baseUrl}`;
+    const now = new Date().toISOString();
+    const limit = feedLimit();
+
+    const result = await AuthorService.getAuthorsByLetter(letter, page, limit);
+
+    sendFeed(res, {
+      id: `tag:authors:${letter}`,
+      title: `Авторы на букву ${letter}`,
+      updated: now,
+      link: feedLinks(catalogUrl, `/authorsindex/${encodeURIComponent(letter)}`, NAVIGATION_TYPE, page, page + 1 < result.pagination.pages),
+      entry: result.authors.map(author => ({
+        updated: now,
+        id: `tag:author:${author.avtorid}`,
+        title: authorName(author),
+        content: {
+          $: { type: 'text' },
+          _: `Книг: ${author.bookCount ?? 0}`
+        },
+        link: {
+          $: {
+            href: `${catalogUrl}/author/${author.avtorid}`,
+            rel: 'subsection',
+            type: ACQUISITION_TYPE
+          }
+        }
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// OPDS books of an author
+router.get('/author/:authorId', [
+  param('authorId').isInt({ min: 1 }),
+  query('page').optional().isInt({ min: 0 })
+], validate, async (req: ExtendedRequest, res: Response, next: NextFunction) => {
+  try {
+    const authorId = parseInt(req.params.authorId!);
+    const page = parseInt(String(req.query.page || '0'));
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const catalogUrl = `${baseUrl}${req.baseUrl}`;
+    const now = new Date().toISOString();
+    const limit = feedLimit();
+
+    const author = await AuthorService.getAuthorById(authorId);
+    if (!author) {
+      sendNotFound(res, 'Author not found');
+      return;
+    }
+
+    const result = await BookService.getBooksByAuthor(authorId, page, limit);
+
+    sendFeed(res, {
+      id: `tag:author:${authorId}`,
+      title: authorName(author),
+      updated: now,
+      link: feedLinks(catalogUrl, `/author/${authorId}`, ACQUISITION_TYPE, page, page + 1 < result.pagination.pages),
+      entry: result.books.map(book => bookEntry(book as unknown as OpdsBook, baseUrl, catalogUrl, now))
+    });
   } catch (error) {
     next(error);
   }
@@ -164,8 +473,9 @@ router.get('/search', [
     const searchType = String(req.query.searchType || 'books');
     const pageNumber = parseInt(String(req.query.pageNumber || '0'));
     const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const catalogUrl = `${baseUrl}${req.baseUrl}`;
     const now = new Date().toISOString();
-    const limit = parseInt(process.env.OPDS_FEED_COUNT || '100') || 100;
+    const limit = feedLimit();
     const offset = pageNumber * limit;
 
     const entries = [];
@@ -180,63 +490,16 @@ router.get('/search', [
         LIMIT $2 OFFSET $3
       `, [`%${q}%`, limit, offset]);
 
+      const bookIds = books.map(b => b.bookid as number);
+      const authorsByBook = await getAuthorsForBooks(bookIds);
+      const genresByBook = await getGenresForBooks(bookIds);
+
       for (const book of books) {
-        // Get authors
-        const authors = await getRows(`
-          SELECT a.avtorid, a.lastname, a.firstname, a.middlename, a.nickname
-          FROM libavtor a
-          LEFT JOIN libavtorname USING(avtorid)
-          WHERE a.bookid = $1
-          ORDER BY a.pos
-        `, [book.bookid]);
-
-        // Get genres
-        const genres = await getRows(`
-          SELECT g.genrecode, g.genredesc
-          FROM libgenre
-          JOIN libgenrelist g USING(genreid)
-          WHERE bookid = $1
-          ORDER BY g.genredesc
-        `, [book.bookid]);
-
-        const authorNames = authors.map(a => `${a.lastname} ${a.firstname}`).join(', ');
-        
-        entries.push({
-          updated: now,
-          id: `tag:book:${book.bookid}`,
-          title: book.title,
-          content: {
-            $: { type: 'text' },
-            _: `Автор: ${authorNames}${book.year ? `, Год: ${book.year}` : ''}`
-          },
-          author: authors.map(a => ({
-            name: `${a.lastname} ${a.firstname}`
-          })),
-          category: genres.map(g => ({
-            $: {
-              term: `/subject/${g.genrecode}`,
-              label: g.genredesc
-            }
-          })),
-          link: [
-            {
-              $: {
-                href: `${baseUrl}/api/files/book/${book.bookid}`,
-                rel: 'http://opds-spec.org/acquisition',
-                type: getOpdsContentType(book.filetype)
-              }
-            },
-            {
-              $: {
-                href: `${baseUrl}/api/books/${book.bookid}`,
-                rel: 'alternate',
-                type: 'application/json'
-              }
-            }
-          ],
-          'dc:language': book.lang,
-          ...(book.year && { 'dc:issued': book.year })
-        });
+        entries.push(bookEntry({
+          ...(book as unknown as OpdsBook),
+          authors: authorsByBook.get(Number(book.bookid)) || [],
+          genres: genresByBook.get(Number(book.bookid)) || []
+        }, baseUrl, catalogUrl, now));
       }
     } else if (searchType === 'authors' && q) {
       // Search authors
@@ -259,49 +522,30 @@ router.get('/search', [
           },
           link: {
             $: {
-              href: `${baseUrl}/opds/author/${author.avtorid}`,
+              href: `${catalogUrl}/author/${author.avtorid}`,
               rel: 'subsection',
-              type: 'application/atom+xml;profile=opds-catalog'
+              type: ACQUISITION_TYPE
             }
           }
         });
       }
     }
 
-    const opdsFeed = {
-      feed: {
-        $: {
-          xmlns: 'http://www.w3.org/2005/Atom',
-          'xmlns:dc': 'http://purl.org/dc/terms/',
-          'xmlns:os': 'http://a9.com/-/spec/opensearch/1.1/',
-          'xmlns:opds': 'https://specs.opds.io/opds-1.2'
-        },
-        id: `tag:search:${searchType}`,
-        title: `Поиск: ${q}`,
-        updated: now,
-        link: [
-          {
-            $: {
-              href: `${baseUrl}/opds/search?q=${q}&searchType=${searchType}`,
-              rel: 'self',
-              type: 'application/atom+xml;profile=opds-catalog'
-            }
+    sendFeed(res, {
+      id: `tag:search:${searchType}`,
+      title: `Поиск: ${q}`,
+      updated: now,
+      link: [
+        {
+          $: {
+            href: `${catalogUrl}/search?q=${encodeURIComponent(q)}&searchType=${searchType}`,
+            rel: 'self',
+            type: CATALOG_TYPE
           }
-        ],
-        entry: entries
-      }
-    };
-
-    const builder = new xml2js.Builder({
-      rootName: 'feed',
-      headless: true,
-      renderOpts: { pretty: true, indent: '  ', newline: '\n' }
+        }
+      ],
+      entry: entries
     });
-
-    const xml = builder.buildObject(opdsFeed);
-    
-    res.setHeader('Content-Type', 'application/atom+xml;profile=opds-catalog;charset=utf-8');
-    res.send(xml);
   } catch (error) {
     next(error);
   }
@@ -311,63 +555,35 @@ router.get('/search', [
 router.get('/genres', async (req, res, next) => {
   try {
     const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const catalogUrl = `${baseUrl}${req.baseUrl}`;
     const now = new Date().toISOString();
 
-    const genres = await getRows(`
-      SELECT DISTINCT genremeta as category
-      FROM libgenrelist
-      ORDER BY genremeta
-    `);
+    const categories = await BookService.getGenreCategories();
 
-    const entries = genres.map(genre => ({
+    const entries = categories.map(category => ({
       updated: now,
-      id: `tag:genre:${genre.category}`,
-      title: genre.category,
+      id: `tag:genre:${category}`,
+      title: category,
       content: {
         $: { type: 'text' },
-        _: `Жанр: ${genre.category}`
+        _: `Жанр: ${category}`
       },
       link: {
         $: {
-          href: `${baseUrl}/opds/genre/${genre.category}`,
+          href: `${catalogUrl}/genre/${encodeURIComponent(category)}`,
           rel: 'subsection',
-          type: 'application/atom+xml;profile=opds-catalog'
+          type: ACQUISITION_TYPE
         }
       }
     }));
 
-    const opdsFeed = {
-      feed: {
-        $: {
-          xmlns: 'http://www.w3.org/2005/Atom',
-          'xmlns:dc': 'http://purl.org/dc/terms/',
-          'xmlns:os': 'http://a9.com/-/spec/opensearch/1.1/',
-          'xmlns:opds': 'https://specs.opds.io/opds-1.2'
-        },
-        id: 'tag:genres',
-        title: 'Жанры',
-        updated: now,
-        link: {
-          $: {
-            href: `${baseUrl}/opds/genres`,
-            rel: 'self',
-            type: 'application/atom+xml;profile=opds-catalog'
-          }
-        },
-        entry: entries
-      }
-    };
-
-    const builder = new xml2js.Builder({
-      rootName: 'feed',
-      headless: true,
-      renderOpts: { pretty: true, indent: '  ', newline: '\n' }
+    sendFeed(res, {
+      id: 'tag:genres',
+      title: 'Жанры',
+      updated: now,
+      link: feedLinks(catalogUrl, '/genres', NAVIGATION_TYPE),
+      entry: entries
     });
-
-    const xml = builder.buildObject(opdsFeed);
-    
-    res.setHeader('Content-Type', 'application/atom+xml;profile=opds-catalog;charset=utf-8');
-    res.send(xml);
   } catch (error) {
     next(error);
   }
@@ -375,124 +591,29 @@ router.get('/genres', async (req, res, next) => {
 
 // OPDS genre books
 router.get('/genre/:category', [
-  param('category').isString().trim().notEmpty()
+  param('category').isString().trim().notEmpty(),
+  query('page').optional().isInt({ min: 0 })
 ], validate, async (req: ExtendedRequest, res: Response, next: NextFunction) => {
   try {
-    const category = req.params.category;
+    const category = req.params.category!;
+    const page = parseInt(String(req.query.page || '0'));
     const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const catalogUrl = `${baseUrl}${req.baseUrl}`;
     const now = new Date().toISOString();
-    const limit = parseInt(process.env.OPDS_FEED_COUNT || '100') || 100;
-
-    const books = await getRows(`
-      SELECT DISTINCT b.bookid, b.title, b.year, b.lang, b.filetype, b.filesize, b.time
-      FROM libbook b
-      JOIN libgenre g ON b.bookid = g.bookid
-      JOIN libgenrelist gl ON g.genreid = gl.genreid
-      WHERE gl.genremeta = $1 AND b.deleted = '0'
-      ORDER BY b.title
-      LIMIT $2
-    `, [category, limit]);
+    const limit = feedLimit();
 
-    const entries = [];
+    const result = await BookService.getBooksByGenreCategory(category, page, limit);
 
-    for (const book of books) {
-      // Get authors
-      const authors = await getRows(`
-        SELECT a.avtorid, a.lastname, a.firstname, a.middlename, a.nickname
-        FROM libavtor a
-        LEFT JOIN libavtorname USING(avtorid)
-        WHERE a.bookid = $1
-        ORDER BY a.pos
-      `, [book.bookid]);
-
-      const authorNames = authors.map(a => `${a.lastname} ${a.firstname}`).join(', ');
-      
-      entries.push({
-        updated: now,
-        id: `tag:book:${book.bookid}`,
-        title: book.title,
-        content: {
-          $: { type: 'text' },
-          _: `Автор: ${authorNames}${book.year ? `, Год: ${book.year}` : ''}`
-        },
-        author: authors.map(a => ({
-          name: `${a.lastname} ${a.firstname}`
-        })),
-        link: [
-          {
-            $: {
-              href: `${baseUrl}/api/files/book/${book.bookid}`,
-              rel: 'http://opds-spec.org/acquisition',
-              type: getOpdsContentType(book.filetype)
-            }
-          },
-          {
-            $: {
-              href: `${baseUrl}/api/books/${book.bookid}`,
-              rel: 'alternate',
-              type: 'application/json'
-            }
-          }
-        ],
-        'dc:language': book.lang,
-        ...(book.year && { 'dc:issued': book.year })
-      });
-    }
-
-    const opdsFeed = {
-      feed: {
-        $: {
-          xmlns: 'http://www.w3.org/2005/Atom',
-          'xmlns:dc': 'http://purl.org/dc/terms/',
-          'xmlns:os': 'http://a9.com/-/spec/opensearch/1.1/',
-          'xmlns:opds': 'https://specs.opds.io/opds-1.2'
-        },
-        id: `tag:genre:${category}`,
-        title: `Жанр: ${category}`,
-        updated: now,
-        link: {
-          $: {
-            href: `${baseUrl}/opds/genre/${category}`,
-            rel: 'self',
-            type: 'application/atom+xml;profile=opds-catalog'
-          }
-        },
-        entry: entries
-      }
-    };
-
-    const builder = new xml2js.Builder({
-      rootName: 'feed',
-      headless: true,
-      renderOpts: { pretty: true, indent: '  ', newline: '\n' }
+    sendFeed(res, {
+      id: `tag:genre:${category}`,
+      title: `Жанр: ${category}`,
+      updated: now,
+      link: feedLinks(catalogUrl, `/genre/${encodeURIComponent(category)}`, ACQUISITION_TYPE, page, page + 1 < result.pagination.pages),
+      entry: result.books.map(book => bookEntry(book as unknown as OpdsBook, baseUrl, catalogUrl, now))
     });
-
-    const xml = builder.buildObject(opdsFeed);
-    
-    res.setHeader('Content-Type', 'application/atom+xml;profile=opds-catalog;charset=utf-8');
-    res.send(xml);
   } catch (error) {
     next(error);
   }
 });
 
-// Helper function to get OPDS content type
-function getOpdsContentType(fileType: string): string {
-  const contentTypes: Record<string, string> = {
-    'fb2': 'application/x-fictionbook+xml',
-    'epub': 'application/epub+zip',
-    'pdf': 'application/pdf',
-    'mobi': 'application/x-mobipocket-ebook',
-    'txt': 'text/plain',
-    'html': 'text/html',
-    'htm': 'text/html',
-    'rtf': 'application/rtf',
-    'docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'djvu': 'image/vnd.djvu',
-    'djv': 'image/vnd.djvu'
-  };
-
-  return contentTypes[fileType.toLowerCase()] || 'application/octet-stream';
-}
-
 export default router;
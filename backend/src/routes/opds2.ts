@@ -0,0 +1,409 @@
+import express, { Response, NextFunction } from 'express';
+import { query, param } from 'express-validator';
+import { buildErrorResponse } from '../types/api';
+import { ExtendedRequest } from '../types';
+import BookService from '../services/BookService';
+import AuthorService from '../services/AuthorService';
+import SessionService from '../services/SessionService';
+import { requireOpdsUser } from '../middleware/opdsAuth';
+import { OpdsAuthor, authorName, feedLimit, mediaType, validate } from '../utils/opds';
+import ConversionService from '../services/ConversionService';
+
+const router = express.Router();
+
+const OPDS2_TYPE = 'application/opds+json';
+
+interface Opds2Book {
+  bookid: string | number;
+  title: string;
+  year?: number | string | null;
+  lang?: string | null;
+  filetype?: string | null;
+  filesize?: number | string | null;
+  time?: Date | string | null;
+  authors?: OpdsAuthor[] | null;
+  genres?: Array<string | { genrecode?: string; genredesc?: string }> | null;
+}
+
+interface Opds2Link {
+  href: string;
+  type?: string;
+  rel?: string | string[];
+  title?: string;
+  templated?: boolean;
+  properties?: Record<string, unknown>;
+}
+
+function sendCatalog(res: Response, catalog: Record<string, unknown>): void {
+  res.setHeader('Content-Type', `${OPDS2_TYPE};charset=utf-8`);
+  res.send(JSON.stringify(catalog));
+}
+
+// self/start links plus next/previous when the collection is paginated. catalogUrl is the
+// router's mount point, so links keep a /opds2/t/:token prefix when one was used
+function collectionLinks(catalogUrl: string, selfPath: string, page?: number, hasNext?: boolean): Opds2Link[] {
+  const withPage = (p: number) => `${catalogUrl}${selfPath}${selfPath.includes('?') ? '&' : '?'}page=${p}`;
+  const links: Opds2Link[] = [
+    { rel: 'self', href: page ? withPage(page) : `${catalogUrl}${selfPath}`, type: OPDS2_TYPE },
+    { rel: 'start', href: `${catalogUrl}/`, type: OPDS2_TYPE },
+    { rel: 'search', href: `${catalogUrl}/search{?query}`, type: OPDS2_TYPE, templated: true }
+  ];
+  if (page !== undefined && page > 0) {
+    links.push({ rel: 'previous', href: withPage(page - 1), type: OPDS2_TYPE });
+  }
+  if (page !== undefined && hasNext) {
+    links.push({ rel: 'next', href: withPage(page + 1), type: OPDS2_TYPE });
+  }
+  return links;
+}
+
+/**
+ * Build OPDS 2.0 publications, resolving conversion targets once per source type.
+ */
+async function buildPublications(books: Opds2Book[], baseUrl: string, catalogUrl: string): Promise<Record<string, unknown>[]> {
+  const targetsBySource = new Map<string, string[]>();
+  for (const book of books) {
+    const source = String(book.filetype || '').trim().toLowerCase();
+    if (!targetsBySource.has(source)) {
+      targetsBySource.set(source, await ConversionService.listTargetsForSource(source));
+    }
+  }
+
+  return books.map(book => {
+    const source = String(book.filetype || '').trim().toLowerCase();
+    const authors = (book.authors || []).filter(a => authorName(a));
+    const subjects = (book.genres || []).map(g => typeof g === 'string'
+      ? { name: g }
+      : { name: g.genredesc, ...(g.genrecode && { code: g.genrecode }) });
+
+    const acquisitions: Opds2Link[] = [
+      {
+        rel: 'http://opds-spec.org/acquisition/open-access',
+        href: `${baseUrl}/api/files/book/${book.bookid}`,
+        type: mediaType(source)
+      },
+      ...(targetsBySource.get(source) || []).map(target => ({
+        rel: 'http://opds-spec.org/acquisition/open-access',
+        href: `${baseUrl}/api/files/book/${book.bookid}?format=${target}`,
+        type: mediaType(target)
+      }))
+    ];
+
+    return {
+      metadata: {
+        '@type': 'http://schema.org/Book',
+        identifier: `urn:flibusta:book:${book.bookid}`,
+        title: book.title,
+        ...(authors.length && {
+          author: authors.map(a => ({
+            name: authorName(a),
+            ...(typeof a !== 'string' && a.avtorid && {
+              links: [{ href: `${catalogUrl}/author/${a.avtorid}`, type: OPDS2_TYPE }]
+            })
+          }))
+        }),
+        ...(book.lang && String(book.lang).trim() && { language: String(book.lang).trim() }),
+        ...(book.year && { published: String(book.year) }),
+        ...(book.time && { modified: new Date(book.time).toISOString() }),
+        ...(subjects.length && { subject: subjects })
+      },
+      links: [
+        { rel: 'self', href: `${baseUrl}/api/books/${book.bookid}`, type: 'application/json' },
+        ...acquisitions
+      ],
+      images: [
+        { href: `${baseUrl}/api/files/cover/${book.bookid}`, type: 'image/jpeg' },
+        { href: `${baseUrl}/api/files/cover/${book.bookid}?w=240`, type: 'image/jpeg', rel: 'thumbnail' }
+      ]
+    };
+  });
+}
+
+/**
+ * Language and genre facets for the new arrivals collection. Each facet link keeps
+ * the other active filter so the two can be combined.
+ */
+async function buildFacets(catalogUrl: string, lang?: string, genre?: string): Promise<Record<string, unknown>[]> {
+  const [languages, categories] = await Promise.all([
+    BookService.getLanguageCounts(),
+    BookService.getGenreCategories()
+  ]);
+
+  const href = (l?: string, g?: string) => {
+    const params = new URLSearchParams();
+    if (l) params.set('lang', l);
+    if (g) params.set('genre', g);
+    const qs = params.toString();
+    return `${catalogUrl}/publications${qs ? `?${qs}` : ''}`;
+  };
+
+  return [
+    {
+      metadata: { title: 'Язык' },
+      links: [
+        { href: href(undefined, genre), type: OPDS2_TYPE, title: 'Все языки', ...(!lang && { rel: 'self' }) },
+        ...languages.map(({ lang: code, count }) => ({
+          href: href(code, genre),
+          type: OPDS2_TYPE,
+          title: code,
+          properties: { numberOfItems: count },
+          ...(lang === code && { rel: 'self' })
+        }))
+      ]
+    },
+    {
+      metadata: { title: 'Жанр' },
+      links: [
+        { href: href(lang, undefined), type: OPDS2_TYPE, title: 'Все жанры', ...(!genre && { rel: 'self' }) },
+        ...categories.map(category => ({
+          href: href(lang, category),
+          type: OPDS2_TYPE,
+          title: category,
+          ...(genre === category && { rel: 'self' })
+        }))
+      ]
+    }
+  ];
+}
+
+// OPDS 2.0 main catalog
+router.get('/', async (req, res, next) => {
+  try {
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const catalogUrl = `${baseUrl}${req.baseUrl}`;
+    const recent = await BookService.getRecentBooks(20);
+
+    sendCatalog(res, {
+      metadata: { title: 'Домашняя библиотека' },
+      links: collectionLinks(catalogUrl, '/'),
+      navigation: [
+        { href: `${catalogUrl}/publications`, title: 'Новинки', type: OPDS2_TYPE, rel: 'http://opds-spec.org/sort/new' },
+        { href: `${catalogUrl}/favs`, title: 'Избранное', type: OPDS2_TYPE, rel: 'http://opds-spec.org/shelf' },
+        { href: `${catalogUrl}/genres`, title: 'По жанрам', type: OPDS2_TYPE },
+        { href: `${catalogUrl}/authorsindex`, title: 'По авторам', type: OPDS2_TYPE }
+      ],
+      groups: [
+        {
+          metadata: { title: 'Новинки' },
+          links: [{ rel: 'self', href: `${catalogUrl}/publications`, type: OPDS2_TYPE }],
+          publications: await buildPublications(recent as unknown as Opds2Book[], baseUrl, catalogUrl)
+        }
+      ]
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// OPDS 2.0 new arrivals with language/genre facets
+router.get('/publications', [
+  query('lang').optional().isString().trim().isLength({ min: 1, max: 3 }),
+  query('genre').optional().isString().trim().notEmpty(),
+  query('page').optional().isInt({ min: 0 })
+], validate, async (req: ExtendedRequest, res: Response, next: NextFunction) => {
+  try {
+    const lang = req.query.lang ? String(req.query.lang).toLowerCase() : undefined;
+    const genre = req.query.genre ? String(req.query.genre) : undefined;
+    const page = parseInt(String(req.query.page || '0'));
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const catalogUrl = `${baseUrl}${req.baseUrl}`;
+    const limit = feedLimit();
+
+    // One extra row tells us whether a next page exists without a COUNT(*)
+    const books = await BookService.getRecentBooks(limit + 1, page * limit, {
+      ...(lang && { language: lang }),
+      ...(genre && { genreCategory: genre })
+    });
+    const hasNext = books.length > limit;
+
+    const params = new URLSearchParams();
+    if (lang) params.set('lang', lang);
+    if (genre) params.set('genre', genre);
+    const qs = params.toString();
+
+    sendCatalog(res, {
+      metadata: { title: 'Новинки', itemsPerPage: limit, currentPage: page + 1 },
+      links: collectionLinks(catalogUrl, `/publications${qs ? `?${qs}` : ''}`, page, hasNext),
+      facets: await buildFacets(catalogUrl, lang, genre),
+      publications: await buildPublications(books.slice(0, limit) as unknown as Opds2Book[], baseUrl, catalogUrl)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// OPDS 2.0 favorites of the current user
+router.get('/favs', [
+  query('page').optional().isInt({ min: 0 })
+], validate, requireOpdsUser, async (req: ExtendedRequest, res: Response, next: NextFunction) => {
+  try {
+    const page = parseInt(String(req.query.page || '0'));
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const catalogUrl = `${baseUrl}${req.baseUrl}`;
+    const limit = feedLimit();
+
+    const result = await SessionService.getUserFavorites(req.user!.user_uuid, page, limit);
+
+    sendCatalog(res, {
+      metadata: { title: 'Избранное', numberOfItems: result.pagination.total, itemsPerPage: limit, currentPage: page + 1 },
+      links: collectionLinks(catalogUrl, '/favs', page, page + 1 < result.pagination.totalPages),
+      publications: await buildPublications(result.favorites as unknown as Opds2Book[], baseUrl, catalogUrl)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// OPDS 2.0 genre navigation
+router.get('/genres', async (req, res, next) => {
+  try {
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const catalogUrl = `${baseUrl}${req.baseUrl}`;
+    const categories = await BookService.getGenreCategories();
+
+    sendCatalog(res, {
+      metadata: { title: 'Жанры' },
+      links: collectionLinks(catalogUrl, '/genres'),
+      navigation: categories.map(category => ({
+        href: `${catalogUrl}/genre/${encodeURIComponent(category)}`,
+        title: category,
+        type: OPDS2_TYPE
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// OPDS 2.0 books of a genre category
+router.get('/genre/:category', [
+  param('category').isString().trim().notEmpty(),
+  query('page').optional().isInt({ min: 0 })
+], validate, async (req: ExtendedRequest, res: Response, next: NextFunction) => {
+  try {
+    const category = req.params.category!;
+    const page = parseInt(String(req.query.page || '0'));
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const catalogUrl = `${baseUrl}${req.baseUrl}`;
+    const limit = feedLimit();
+
+    const result = await BookService.getBooksByGenreCategory(category, page, limit);
+
+    sendCatalog(res, {
+      metadata: { title: `Жанр: ${category}`, numberOfItems: result.pagination.total, itemsPerPage: limit, currentPage: page + 1 },
+      links: collectionLinks(catalogUrl, `/genre/${encodeURIComponent(category)}`, page, page + 1 < result.pagination.pages),
+      publications: await buildPublications(result.books as unknown as Opds2Book[], baseUrl, catalogUrl)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// OPDS 2.0 author index: first letters of author last names
+router.get('/authorsindex', async (req, res, next) => {
+  try {
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const catalogUrl = `${baseUrl}${req.baseUrl}`;
+    const letters = await AuthorService.getAuthorLetters();
+
+    sendCatalog(res, {
+      metadata: { title: 'По авторам' },
+      links: collectionLinks(catalogUrl, '/authorsindex'),
+      navigation: letters.map(({ letter, count }) => ({
+        href: `${catalogUrl}/authorsindex/${encodeURIComponent(letter)}`,
+        title: letter,
+        type: OPDS2_TYPE,
+        properties: { numberOfItems: count }
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// OPDS 2.0 authors whose last name starts with a letter
+router.get('/authorsindex/:letter', [
+  param('letter').isString().trim().matches(/^\p{L}$/u),
+  query('page').optional().isInt({ min: 0 })
+], validate, async (req: ExtendedRequest, res: Response, next: NextFunction) => {
+  try {
+    const letter = req.params.letter!;
+    const page = parseInt(String(req.query.page || '0'));
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const catalogUrl = `${baseUrl}${req.baseUrl}`;
+    const limit = feedLimit();
+
+    const result = await AuthorService.getAuthorsByLetter(letter, page, limit);
+
+    sendCatalog(res, {
+      metadata: { title: `Авторы на букву ${letter}`, numberOfItems: result.pagination.total, itemsPerPage: limit, currentPage: page + 1 },
+      links: collectionLinks(catalogUrl, `/authorsindex/${encodeURIComponent(letter)}`, page, page + 1 < result.pagination.pages),
+      navigation: result.authors.map(author => ({
+        href: `${catalogUrl}/author/${author.avtorid}`,
+        title: authorName(author),
+        type: OPDS2_TYPE,
+        properties: { numberOfItems: author.bookCount ?? 0 }
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// OPDS 2.0 books of an author
+router.get('/author/:authorId', [
+  param('authorId').isInt({ min: 1 }),
+  query('page').optional().isInt({ min: 0 })
+], validate, async (req: ExtendedRequest, res: Response, next: NextFunction) => {
+  try {
+    const authorId = parseInt(req.params.authorId!);
+    const page = parseInt(String(req.query.page || '0'));
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const catalogUrl = `${baseUrl}${req.baseUrl}`;
+    const limit = feedLimit();
+
+    const author = await AuthorService.getAuthorById(authorId);
+    if (!author) {
+      res.status(404).json(buildErrorResponse('Author not found'));
+      return;
+    }
+
+    const result = await BookService.getBooksByAuthor(authorId, page, limit);
+
+    sendCatalog(res, {
+      metadata: { title: authorName(author), numberOfItems: result.pagination.total, itemsPerPage: limit, currentPage: page + 1 },
+      links: collectionLinks(catalogUrl, `/author/${authorId}`, page, page + 1 < result.pagination.pages),
+      publications: await buildPublications(result.books as unknown as Opds2Book[], baseUrl, catalogUrl)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// OPDS 2.0 search
+router.get('/search', [
+  query('query').optional().isString().trim(),
+  query('page').optional().isInt({ min: 0 })
+], validate, async (req: ExtendedRequest, res: Response, next: NextFunction) => {
+  try {
+    const q = String(req.query.query || '');
+    const page = parseInt(String(req.query.page || '0'));
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const catalogUrl = `${baseUrl}${req.baseUrl}`;
+    const limit = feedLimit();
+
+    const result = q
+      ? await BookService.searchBooks({ query: q, language: '', sort: 'relevance', page, limit })
+      : { books: [], pagination: { hasNext: false } };
+
+    sendCatalog(res, {
+      metadata: { title: `Поиск: ${q}`, itemsPerPage: limit, currentPage: page + 1 },
+      links: collectionLinks(catalogUrl, `/search?query=${encodeURIComponent(q)}`, page, !!result.pagination.hasNext),
+      publications: await buildPublications(result.books as unknown as Opds2Book[], baseUrl, catalogUrl)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
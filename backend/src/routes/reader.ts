@@ -0,0 +1,74 @@
+import express, { Response, NextFunction } from 'express';
+import { param, validationResult } from 'express-validator';
+import logger from '../utils/logger';
+import { createTypeSafeHandler } from '../middleware/validation';
+import { buildErrorResponse, buildSuccessResponse } from '../types/api';
+import { AppError, ExtendedRequest } from '../types';
+import ReaderService from '../services/ReaderService';
+import { sendDownload, strongEtag } from '../utils/download';
+
+const router = express.Router();
+
+// Validation middleware
+const validate = (req: ExtendedRequest, res: Response, next: NextFunction): Response | void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json(buildErrorResponse('Validation failed'));
+  }
+  next();
+};
+
+// Reader errors carry their HTTP status (404 missing, 415 unsupported format, 422 unparsable)
+function sendReaderError(res: Response, error: unknown, context: Record<string, unknown>): Response {
+  const { message, statusCode } = error as AppError;
+  if (!statusCode) {
+    logger.error('Reader request failed', { ...context, error: message });
+    return res.status(500).json(buildErrorResponse('Failed to open book'));
+  }
+  return res.status(statusCode).json(buildErrorResponse(message));
+}
+
+// Book outline: metadata, table of contents and chapter sizes for locators
+router.get('/:bookId', [
+  param('bookId').isInt({ min: 1 }).withMessage('Book ID must be a positive integer')
+], validate, createTypeSafeHandler(async (req: ExtendedRequest, res: Response): Promise<Response | void> => {
+  const bookId = parseInt(req.params.bookId!);
+  try {
+    return res.json(buildSuccessResponse(await ReaderService.getBook(bookId)));
+  } catch (error) {
+    return sendReaderError(res, error, { bookId });
+  }
+}));
+
+// One chapter as sanitized HTML
+router.get('/:bookId/chapters/:index', [
+  param('bookId').isInt({ min: 1 }).withMessage('Book ID must be a positive integer'),
+  param('index').isInt({ min: 0 }).withMessage('Chapter index must be a non-negative integer')
+], validate, createTypeSafeHandler(async (req: ExtendedRequest, res: Response): Promise<Response | void> => {
+  const bookId = parseInt(req.params.bookId!);
+  const index = parseInt(req.params.index!);
+  try {
+    return res.json(buildSuccessResponse(await ReaderService.getChapter(bookId, index)));
+  } catch (error) {
+    return sendReaderError(res, error, { bookId, index });
+  }
+}));
+
+// Images referenced by chapters (FB2 binary id or EPUB manifest path)
+router.get('/:bookId/images/:imageId', [
+  param('bookId').isInt({ min: 1 }).withMessage('Book ID must be a positive integer'),
+  param('imageId').isLength({ min: 1, max: 512 }).withMessage('Image ID is required')
+], validate, createTypeSafeHandler(async (req: ExtendedRequest, res: Response): Promise<Response | void> => {
+  const bookId = parseInt(req.params.bookId!);
+  const imageId = req.params.imageId!;
+  try {
+    const image = await ReaderService.getImage(bookId, imageId);
+    res.setHeader('Cache-Control', 'private, max-age=86400');
+    sendDownload(req, res, image.data, image.contentType, { etag: strongEtag(image.fingerprint, imageId) });
+    return;
+  } catch (error) {
+    return sendReaderError(res, error, { bookId, imageId });
+  }
+}));
+
+export default router;
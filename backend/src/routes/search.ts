@@ -0,0 +1,41 @@
+import express, { Response, NextFunction } from 'express';
+import { query, validationResult } from 'express-validator';
+import SearchService from '../services/SearchService';
+import { ExtendedRequest } from '../types';
+
+const router = express.Router();
+
+// Validation middleware
+const validate = (req: ExtendedRequest, res: Response, next: NextFunction): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({
+      success: false,
+      errors: errors.array()
+    });
+    return;
+  }
+  next();
+};
+
+// Search-as-you-type suggestions: books, authors, series and genres in one ranked list
+router.get('/suggest', [
+  query('q').optional().isString().trim().isLength({ max: 100 }),
+  query('limit').optional().isInt({ min: 1, max: 20 })
+], validate, async (req: ExtendedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const limit = Math.min(20, Math.max(1, parseInt(req.query.limit as string) || 10));
+    const suggestions = await SearchService.suggest((req.query.q as string) || '', limit);
+
+    // Short private caching smooths over repeated keystrokes (backspace, retyping)
+    res.set('Cache-Control', 'private, max-age=60');
+    res.json({
+      success: true,
+      data: suggestions
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
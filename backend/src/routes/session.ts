@@ -2,7 +2,8 @@ import express from 'express';
 import SessionService from '../services/SessionService';
 import { requireUser } from '../middleware/sessionMiddleware';
 import logger from '../utils/logger';
-import { ExtendedRequest, RegisteredUser } from '../types';
+import { buildErrorResponse } from '../types/api';
+import { ExtendedRequest, RegisteredUser, StoredLocator } from '../types';
 
 const router = express.Router();
 
@@ -216,34 +217,85 @@ router.get('/progress', requireUser, async (req: ExtendedRequest, res: express.R
 });
 
 /**
- * Save reading progress for a book
+ * Save reading progress for a book.
+ * Body: { position } (0-100, legacy) and/or { locator: { format, chapter, offset, cfi?, percentage } },
+ * where an EPUB locator may carry only a cfi instead of chapter/offset,
+ * with optional { device, updatedAt }. Concurrent devices resolve last-writer-wins by updatedAt;
+ * the response carries the position that was kept.
  */
 router.post('/progress/:bookId', requireUser, async (req: ExtendedRequest, res: express.Response): Promise<void> => {
   try {
     const bookId = parseInt(req.params.bookId || '0');
-    const { position } = req.body;
+    const { position, locator } = req.body;
     
     if (!bookId || bookId <= 0) {
-      res.status(400).json({ error: 'Invalid book ID' });
+      res.status(400).json(buildErrorResponse('Invalid book ID'));
       return;
     }
 
-    if (position === undefined || position === null) {
-      res.status(400).json({ error: 'Position is required' });
+    let readingLocator: StoredLocator | null = null;
+    let percentage: number | null = null;
+    if (locator !== undefined && locator !== null) {
+      if (locator.cfi !== undefined && (typeof locator.cfi !== 'string' || !/^epubcfi\(.{1,1000}\)$/.test(locator.cfi))) {
+        res.status(400).json(buildErrorResponse('Locator cfi must be an epubcfi(...) string'));
+        return;
+      }
+      // A cfi pins the position on its own; chapter/offset are then optional but still validated
+      const hasCfi = typeof locator.cfi === 'string';
+      const isIndex = (value: unknown): boolean => Number.isInteger(Number(value)) && Number(value) >= 0;
+      const hasChapter = locator.chapter !== undefined && locator.chapter !== null;
+      const hasOffset = locator.offset !== undefined && locator.offset !== null;
+      percentage = Number(locator.percentage);
+      if ((hasChapter && !isIndex(locator.chapter)) || (hasOffset && !isIndex(locator.offset))
+        || (!hasCfi && (!hasChapter || !hasOffset))
+        || isNaN(percentage) || percentage < 0 || percentage > 100) {
+        res.status(400).json(buildErrorResponse(
+          'Locator must have a chapter index and a character offset (or a cfi) and a percentage between 0 and 100'
+        ));
+        return;
+      }
+      readingLocator = { format: String(locator.format || 'unknown').toLowerCase().slice(0, 10) };
+      if (hasChapter) readingLocator.chapter = Number(locator.chapter);
+      if (hasOffset) readingLocator.offset = Number(locator.offset);
+      if (hasCfi) readingLocator.cfi = locator.cfi;
+    }
+
+    if ((position === undefined || position === null) && !readingLocator) {
+      res.status(400).json(buildErrorResponse('Position is required'));
       return;
     }
 
-    const pos = parseFloat(position);
+    const pos = position === undefined || position === null ? percentage! : parseFloat(position);
     if (isNaN(pos) || pos < 0 || pos > 100) {
-      res.status(400).json({ error: 'Position must be between 0 and 100' });
+      res.status(400).json(buildErrorResponse('Position must be between 0 and 100'));
       return;
     }
 
-    await SessionService.saveProgress(req.user!.user_uuid, bookId, pos);
-    res.json({ success: true, message: 'Progress saved successfully' });
+    const rawUpdatedAt = req.body.updatedAt ?? locator?.updatedAt;
+    let updatedAt = new Date();
+    if (rawUpdatedAt !== undefined && rawUpdatedAt !== null) {
+      const parsed = new Date(rawUpdatedAt);
+      if (isNaN(parsed.getTime())) {
+        res.status(400).json(buildErrorResponse('updatedAt must be an ISO date or a timestamp in milliseconds'));
+        return;
+      }
+      // A device with its clock running ahead must not pin its position forever
+      if (parsed < updatedAt) updatedAt = parsed;
+    }
+    const device = req.body.device ?? locator?.device;
+
+    const result = await SessionService.saveProgress(req.user!.user_uuid, bookId, pos, {
+      locator: readingLocator,
+      device: typeof device === 'string' && device.trim() ? device.trim().slice(0, 100) : null,
+      updatedAt
+    });
+    res.json({
+      ...result,
+      message: result.applied ? 'Progress saved successfully' : 'A newer position from another device was kept'
+    });
   } catch (error) {
     logger.error('Error saving progress:', error);
-    res.status(500).json({ error: 'Failed to save progress' });
+    res.status(500).json(buildErrorResponse('Failed to save progress'));
   }
 });
 
@@ -259,8 +311,11 @@ router.get('/progress/:bookId', requireUser, async (req: ExtendedRequest, res: e
       return;
     }
 
-    const progress = await SessionService.getProgress(req.user!.user_uuid, bookId);
-    res.json({ progress });
+    const [progress, locator] = await Promise.all([
+      SessionService.getProgress(req.user!.user_uuid, bookId),
+      SessionService.getProgressLocator(req.user!.user_uuid, bookId)
+    ]);
+    res.json({ progress, locator });
   } catch (error) {
     logger.error('Error getting book progress:', error);
     res.status(500).json({ error: 'Failed to get progress' });
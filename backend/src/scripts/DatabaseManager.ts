@@ -5,6 +5,7 @@ import { getRow, query } from '../database/connection';
 import logger from '../utils/logger';
 import { DatabaseStats, HealthCheckResult } from '../types/index';
 import UpdateService from '../services/UpdateService';
+import SearchIndexService from '../services/SearchIndexService';
 
 interface DownloadResult {
     success: boolean;
@@ -219,31 +220,21 @@ class DatabaseManager {
     }
 
     /**
-     * Update search vectors for full-text search
+     * Update search vectors for full-text search: per-language configuration (libbook.lang), built in
+     * bookid batches. Incremental by default (new, retitled or re-languaged books); `full` rebuilds all.
      */
-    async updateSearchVectors(): Promise<UpdateResult> {
-        logger.info('Updating search vectors...');
+    async updateSearchVectors(opts: { full?: boolean } = {}): Promise<UpdateResult> {
+        logger.info('Updating search vectors...', { full: !!opts.full });
         
         try {
-            await query(`
-                UPDATE libbook 
-                SET search_vector = to_tsvector('russian', 
-                    coalesce(Title, '') || ' ' || 
-                    coalesce((SELECT string_agg(a.FirstName || ' ' || a.LastName, ' ') 
-                              FROM libavtor la 
-                              JOIN libavtorname a ON la.AvtorId = a.AvtorId 
-                              WHERE la.BookId = libbook.BookId), '') || ' ' ||
-                    coalesce((SELECT string_agg(s.SeqName, ' ') 
-                              FROM libseq ls 
-                              JOIN libseqname s ON ls.SeqId = s.SeqId 
-                              WHERE ls.BookId = libbook.BookId), '')
-                )
-                WHERE search_vector IS NULL OR updated_at > search_vector_updated_at
-            `);
+            // A reloaded dump recreates libbook without the columns and trigger
+            await SearchIndexService.ensureSchema();
+            const result = await SearchIndexService.refresh(opts);
 
             return {
                 success: true,
-                message: 'Search vectors updated successfully'
+                message: `Search vectors updated successfully (${result.updated} books)`,
+                recordsProcessed: result.updated
             };
         } catch (error) {
             logger.error('Search vectors update failed:', error);
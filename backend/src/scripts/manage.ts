@@ -7,6 +7,10 @@ import dotenv from 'dotenv';
 import DatabaseManager from './DatabaseManager';
 import UpdateService from '../services/UpdateService';
 import CoverCacheService from '../services/CoverCacheService';
+import ZipIndexService from '../services/ZipIndexService';
+import CacheService from '../services/CacheService';
+import KosyncService from '../services/KosyncService';
+import RatingService from '../services/RatingService';
 
 // Load environment variables
 dotenv.config({ path: path.join(__dirname, '../../.env') });
@@ -97,16 +101,29 @@ const argv = yargs(hideBin(process.argv))
       process.exit(1);
     }
   })
-  .command('update-search-vectors', 'Update search vectors for full-text search', {}, async () => {
+  .command('update-search-vectors', 'Update search vectors for full-text search', y => y
+    .option('full', { type: 'boolean', default: false, describe: 'Rebuild every vector, not only new or stale ones' })
+  , async (args) => {
     try {
-      await dbManager.updateSearchVectors();
-      console.log('✅ Search vectors updated successfully');
+      const result = await dbManager.updateSearchVectors({ full: !!args.full });
+      if (!result.success) throw new Error(result.message);
+      console.log(`✅ ${result.message}`);
       process.exit(0);
     } catch (_error) {
       console.error('❌ Search vectors update failed:', (_error as Error).message);
       process.exit(1);
     }
   })
+  .command('refresh-ratings', 'Rebuild book rating averages from librate', {}, async () => {
+    try {
+      const books = await RatingService.refresh();
+      console.log(`✅ Ratings refreshed for ${books} books`);
+      process.exit(0);
+    } catch (_error) {
+      console.error('❌ Ratings refresh failed:', (_error as Error).message);
+      process.exit(1);
+    }
+  })
   .command('health-check', 'Perform database health check', {}, async () => {
     try {
       const health = await dbManager.healthCheck();
@@ -138,13 +155,27 @@ const argv = yargs(hideBin(process.argv))
       process.exit(1);
     }
   })
+  .command('index-zip-entries', 'Build or refresh the ZIP central-directory index used for book lookups', y => y
+    .option('force', { type: 'boolean', default: false, describe: 'Re-read archives even if size and mtime are unchanged' })
+    .option('pattern', { type: 'string', describe: 'Optional filename regex filter (e.g. ^f\\.fb2\\.)' })
+  , async (args) => {
+    try {
+      const result = await ZipIndexService.refresh({
+        force: !!args.force,
+        ...(args.pattern ? { pattern: new RegExp(args.pattern) } : {})
+      });
+      console.log(`✅ ZIP index refreshed: scanned=${result.scanned}, indexed=${result.indexed}, unchanged=${result.unchanged}, removed=${result.removed}, errors=${result.errors.length}`);
+      result.errors.slice(0, 20).forEach(e => console.log(`  ${e.filename}: ${e.error}`));
+      process.exit(result.errors.length ? 3 : 0);
+    } catch (_error) {
+      console.error('❌ ZIP index refresh failed:', (_error as Error).message);
+      process.exit(1);
+    }
+  })
   .command('audit-archives', 'Audit DB book_zip ranges against physical ZIP files to find missing or truncated archives', {}, async () => {
     try {
       const root = process.env.BOOKS_PATH || '/app/flibusta';
   const { readdir } = await import('fs/promises');
-      const { exec } = await import('child_process');
-      const { promisify } = await import('util');
-      const pexec = promisify(exec);
     // Disable no-inner-declarations warning for large restructuring
     const pathModule = await import('path'); // Used for joining paths
     const db = (await import('../database/connection')); // Database connection
@@ -202,30 +233,16 @@ const argv = yargs(hideBin(process.argv))
   const sampleMappings = await getRows(`SELECT filename, start_id, end_id, usr FROM book_zip ORDER BY end_id DESC LIMIT 60`);
       interface MappingIssue { filename:string; start_id:number; end_id:number; issue:string; details?:any }
       const mappingIssues: MappingIssue[] = [];
-      const zipInfoCache: Record<string,{maxId:number, count:number}|null> = {};
-
-      async function inspectZip(fullPath: string): Promise<{maxId:number, count:number}|null> {
-        if (zipInfoCache[fullPath] !== undefined) return zipInfoCache[fullPath];
-        try {
-          // Use unzip -l to avoid loading whole archive into memory
-          const { stdout } = await pexec(`unzip -l "${fullPath}"`);
-          let maxId = -1; let count = 0;
-            for (const line of stdout.split(/\r?\n/)) {
-              // lines contain: size date time name
-              const parts = line.trim().split(/\s+/);
-              if (parts.length >= 4) {
-                const name = parts[3];
-                const m = /^(\d+)\.(fb2|epub|djvu|pdf|mobi|txt)$/i.exec(name || '');
-                if (m && m[1]) { const id = parseInt(m[1], 10); if (!Number.isNaN(id)) { if (id > maxId) maxId = id; count++; } }
-              }
-            }
-          const res = { maxId, count };
-          zipInfoCache[fullPath] = res;
-          return res;
-        } catch {
-          zipInfoCache[fullPath] = null;
-          return null;
-        }
+      // Archive contents come from the ZIP entry index; refreshing it only re-reads archives that changed
+      const sampledArcs = arcs.filter(a => sampleMappings.some(m => m.filename === a.name));
+      const indexRefresh = await ZipIndexService.refresh({ filenames: sampledArcs.map(a => a.name) });
+      const unreadable = new Set(indexRefresh.errors.map(e => e.filename));
+      const summaries = await ZipIndexService.getArchiveSummaries(sampledArcs.map(a => a.name));
+
+      function inspectZip(name: string): {maxId:number, count:number}|null {
+        const summary = summaries.get(name);
+        if (!summary || unreadable.has(name)) return null;
+        return { maxId: summary.max_bookid ?? -1, count: summary.book_count };
       }
 
       for (const m of sampleMappings) {
@@ -235,7 +252,7 @@ const argv = yargs(hideBin(process.argv))
           mappingIssues.push({ filename: fname, start_id: m.start_id, end_id: m.end_id, issue: 'file_missing' });
           continue;
         }
-        const inspected = await inspectZip(arc.fullPath);
+        const inspected = inspectZip(arc.name);
         if (!inspected) {
           mappingIssues.push({ filename: fname, start_id: m.start_id, end_id: m.end_id, issue: 'cannot_read_zip' });
           continue;
@@ -286,9 +303,6 @@ const argv = yargs(hideBin(process.argv))
       const root = process.env.BOOKS_PATH || '/app/flibusta';
       console.log(`🛠  Reconciling archive ranges in ${root}`);
       const { readdir } = await import('fs/promises');
-      const { exec } = await import('child_process');
-      const { promisify } = await import('util');
-      const pexec = promisify(exec);
       const pathModule = await import('path');
   const db = (await import('../database/connection'));
   const getRows = db.getRows as (sql:string, params?:any[])=>Promise<any[]>;
@@ -337,47 +351,31 @@ const argv = yargs(hideBin(process.argv))
       }
 
       console.log(`Found ${scans.length} candidate archives (processing...)`);
-      // Inspect each archive for actual min/max
+      // Inspect each archive for actual min/max via the ZIP entry index (re-reads only changed archives)
+      const indexRefresh = await ZipIndexService.refresh({ filenames: scans.map(s => s.filename) });
+      const unreadable = new Set(indexRefresh.errors.map(e => e.filename));
+      const summaries = await ZipIndexService.getArchiveSummaries(scans.map(s => s.filename));
       for (const s of scans) {
-        try {
-          const { stdout } = await pexec(`unzip -l "${s.fullPath}"`);
-          let minId = Number.MAX_SAFE_INTEGER;
-          let maxId = -1;
-          let count = 0;
-          for (const line of stdout.split(/\r?\n/)) {
-            const parts = line.trim().split(/\s+/);
-            if (parts.length >= 4) {
-              const name = parts[3];
-              const mm = /^(\d+)\.(fb2|epub|djvu|pdf|mobi|txt)$/i.exec(name || '');
-              if (mm && mm[1]) {
-                const id = parseInt(mm[1]!,10);
-                if (id < minId) minId = id;
-                if (id > maxId) maxId = id;
-                count++;
-              }
-            }
+        const summary = unreadable.has(s.filename) ? undefined : summaries.get(s.filename);
+        const count = summary?.book_count || 0;
+        if (summary && count > 0 && summary.min_bookid !== null && summary.max_bookid !== null) {
+          const minId = summary.min_bookid;
+          const maxId = summary.max_bookid;
+          s.actualStart = (s.mode==='range' && s.declaredStart !== -1) ? Math.min(s.declaredStart, minId) : minId;
+          s.actualEnd = (s.mode==='range' && s.declaredEnd !== -1) ? Math.min(maxId, s.declaredEnd) : maxId;
+          s.count = count;
+          if (s.mode==='range' && s.declaredEnd !== -1 && maxId < s.declaredEnd) {
+            s.truncated = true;
+            s.actualEnd = maxId;
           }
-          if (count > 0) {
-            s.actualStart = (s.mode==='range' && s.declaredStart !== -1) ? Math.min(s.declaredStart, minId) : minId;
-            s.actualEnd = (s.mode==='range' && s.declaredEnd !== -1) ? Math.min(maxId, s.declaredEnd) : maxId;
-            s.count = count;
-            if (s.mode==='range' && s.declaredEnd !== -1 && maxId < s.declaredEnd) {
-              s.truncated = true;
-              s.actualEnd = maxId;
-            }
-            if (s.mode==='date' && s.actualStart !== null && s.actualEnd !== null) {
-              s.declaredStart = s.actualStart;
-              s.declaredEnd = s.actualEnd;
-            }
-          } else {
-            s.actualStart = null;
-            s.actualEnd = null;
-            s.count = 0;
+          if (s.mode==='date' && s.actualStart !== null && s.actualEnd !== null) {
+            s.declaredStart = s.actualStart;
+            s.declaredEnd = s.actualEnd;
           }
-        } catch {
-          s.count = 0;
+        } else {
           s.actualStart = null;
           s.actualEnd = null;
+          s.count = 0;
         }
       }
 
@@ -445,6 +443,49 @@ const argv = yargs(hideBin(process.argv))
       process.exit(1);
     }
   })
+  .command('cache-prune', 'Evict expired and least recently used files from the conversion and cover caches', y => y
+    .option('dry-run', { type: 'boolean', default: false, describe: 'Only report what would be evicted' })
+    .option('cache', { type: 'string', choices: ['conversions', 'covers', 'metadata', 'thumbnails'] as const, describe: 'Prune only this cache' })
+  , async (args) => {
+    try {
+      const reports = await CacheService.prune({
+        dryRun: !!args.dryRun,
+        ...(args.cache ? { cache: args.cache } : {})
+      });
+      const mb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+      for (const r of reports) {
+        const budget = r.maxBytes > 0 ? `${mb(r.maxBytes)} MB` : 'unlimited';
+        console.log(`${r.dryRun ? '🔍' : '🧹'} ${r.name} (${r.path}): ${r.before.files} files, ${mb(r.before.bytes)} MB of ${budget}`);
+        console.log(`  ${r.dryRun ? 'would evict' : 'evicted'} ${r.evicted.files} files (${mb(r.evicted.bytes)} MB), leaving ${r.after.files} files (${mb(r.after.bytes)} MB)`);
+      }
+      process.exit(0);
+    } catch (_error) {
+      console.error('❌ Cache prune failed:', (_error as Error).message);
+      process.exit(1);
+    }
+  })
+  .command('kosync-index', 'Compute KOReader document ids (partial md5) of original book files for progress sync', y => y
+    .option('from-id', { type: 'number', default: 0, describe: 'Start after this book id' })
+    .option('limit', { type: 'number', default: 1000, describe: 'Books per batch' })
+    .option('all', { type: 'boolean', default: false, describe: 'Keep going in batches until every book is indexed' })
+  , async (args) => {
+    try {
+      let fromId = args.fromId;
+      let total = { indexed: 0, failed: 0 };
+      for (;;) {
+        const batch = await KosyncService.indexBooks({ fromId, limit: args.limit });
+        total = { indexed: total.indexed + batch.indexed, failed: total.failed + batch.failed };
+        console.log(`📚 Indexed ${batch.indexed} books (${batch.failed} skipped) up to id ${batch.lastId}`);
+        if (!args.all || batch.indexed + batch.failed === 0) break;
+        fromId = batch.lastId;
+      }
+      console.log(`✅ Kosync index done: ${total.indexed} indexed, ${total.failed} skipped`);
+      process.exit(0);
+    } catch (_error) {
+      console.error('❌ Kosync indexing failed:', (_error as Error).message);
+      process.exit(1);
+    }
+  })
   .command('purge-orphan-zip-mappings', 'Delete book_zip rows whose filename does not exist on disk', y => y
     .option('apply', { type: 'boolean', default: true, describe: 'Actually perform deletions (set false for dry run)' })
     .option('pattern', { type: 'string', describe: 'Optional filename regex filter (e.g. ^f\\.fb2\\.)' })
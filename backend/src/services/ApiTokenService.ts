@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import { getRow, getRows, query } from '../database/connection';
+import logger from '../utils/logger';
+import { ApiToken, ApiTokenScope, RegisteredUser, User } from '../types';
+
+export const API_TOKEN_SCOPES: ApiTokenScope[] = ['read', 'download', 'favorites', 'admin'];
+
+// Recognizable prefix so leaked tokens are easy to grep for
+const TOKEN_PREFIX = 'flb_';
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+class ApiTokenService {
+
+  /**
+   * Create a named token with scopes. The plain token is returned once and never stored.
+   */
+  async createToken(userUuid: string, name: string, scopes: ApiTokenScope[]): Promise<{ token: string; record: ApiToken }> {
+    try {
+      const token = `${TOKEN_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+      const record = await getRow(`
+        INSERT INTO api_tokens (user_uuid, name, token_hash, token_prefix, scopes)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING id, user_uuid, name, token_prefix, scopes, created_at, last_used_at, revoked_at
+      `, [userUuid, name, hashToken(token), token.slice(0, 12), scopes]) as ApiToken;
+
+      logger.info('API token created', { userUuid, tokenId: record.id, scopes });
+      return { token, record };
+    } catch (error) {
+      logger.error('Error creating API token:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List tokens of a user, newest first, including revoked ones
+   */
+  async listTokens(userUuid: string): Promise<ApiToken[]> {
+    try {
+      const tokens = await getRows(`
+        SELECT id, user_uuid, name, token_prefix, scopes, created_at, last_used_at, revoked_at
+        FROM api_tokens
+        WHERE user_uuid = $1
+        ORDER BY created_at DESC
+      `, [userUuid]);
+
+      return tokens as unknown as ApiToken[];
+    } catch (error) {
+      logger.error('Error listing API tokens:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a token. When userUuid is given the token must belong to that user.
+   */
+  async revokeToken(tokenId: number, userUuid?: string): Promise<boolean> {
+    try {
+      const result = await query(`
+        UPDATE api_tokens SET revoked_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND revoked_at IS NULL
+          AND ($2::text IS NULL OR user_uuid = $2::text)
+      `, [tokenId, userUuid ?? null]);
+
+      return (result.rowCount || 0) > 0;
+    } catch (error) {
+      logger.error('Error revoking API token:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve a bearer token to its active owner and the token's scopes, recording the use
+   */
+  async resolveToken(token: string): Promise<{ user: RegisteredUser; token: Pick<ApiToken, 'id' | 'name' | 'scopes'> } | null> {
+    try {
+      if (!token.startsWith(TOKEN_PREFIX)) return null;
+
+      const row = await getRow(`
+        UPDATE api_tokens t SET last_used_at = CURRENT_TIMESTAMP
+        FROM users u
+        WHERE t.token_hash = $1 AND t.revoked_at IS NULL
+          AND u.user_uuid = t.user_uuid AND u.is_active = true
+        RETURNING t.id as token_id, t.name as token_name, t.scopes,
+                  u.user_uuid, u.username, u.email, u.role, u.is_active, u.display_name, u.avatar_url
+      `, [hashToken(token)]);
+
+      if (!row) return null;
+
+      const { token_id, token_name, scopes, ...user } = row;
+      return {
+        user: { ...(user as unknown as User), type: 'registered' } as RegisteredUser,
+        token: { id: token_id as number, name: token_name as string, scopes: scopes as ApiTokenScope[] }
+      };
+    } catch (error) {
+      logger.error('Error resolving API token:', error);
+      throw error;
+    }
+  }
+}
+
+export default new ApiTokenService();
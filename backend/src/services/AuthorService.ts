@@ -1,5 +1,7 @@
 import { getRow, getRows } from '../database/connection';
 import logger from '../utils/logger';
+import SearchService, { SpellingSuggestion } from './SearchService';
+import { transliterationVariant, yoInsensitiveRegex } from '../utils/searchText';
 
 interface Author {
   avtorid: number;
@@ -34,6 +36,11 @@ interface AuthorSearchResult {
     hasNext?: boolean;
     hasPrev?: boolean;
   };
+  expansion?: {
+    applied: 'none' | 'transliteration' | 'did_you_mean';
+    query: string;
+    suggestions?: SpellingSuggestion[];
+  };
 }
 
 class AuthorService {
@@ -83,7 +90,31 @@ class AuthorService {
     }
   }
 
+  /**
+   * Name search with the same fallbacks as book search: transliteration, then the closest author name.
+   */
   async searchAuthors(searchParams: AuthorSearchParams): Promise<AuthorSearchResult> {
+    const result = await this.runSearch(searchParams);
+    const query = (searchParams.query || '').trim();
+    if (!query) return result;
+    if (result.pagination.total !== 0) return { ...result, expansion: { applied: 'none', query } };
+
+    const variant = transliterationVariant(query);
+    if (variant) {
+      const transliterated = await this.runSearch({ ...searchParams, query: variant });
+      if (transliterated.pagination.total) return { ...transliterated, expansion: { applied: 'transliteration', query: variant } };
+    }
+
+    const suggestions = await SearchService.didYouMean(variant ? [query, variant] : [query], ['author']);
+    const best = suggestions[0];
+    if (best) {
+      const corrected = await this.runSearch({ ...searchParams, query: best.text });
+      if (corrected.pagination.total) return { ...corrected, expansion: { applied: 'did_you_mean', query: best.text, suggestions } };
+    }
+    return { ...result, expansion: { applied: 'none', query, suggestions } };
+  }
+
+  private async runSearch(searchParams: AuthorSearchParams): Promise<AuthorSearchResult> {
     try {
       const {
         query = '',
@@ -97,18 +128,22 @@ class AuthorService {
       const params = [];
       let paramIndex = 1;
 
+      // Names with е/ё match either spelling (regex instead of ILIKE)
+      const yo = /[её]/i.test(query);
+      const op = yo ? '~*' : 'ILIKE';
+
       // Enhanced search by name with better partial matching
       if (query) {
         conditions.push(`(
-          a.lastname ILIKE $${paramIndex} OR 
-          a.firstname ILIKE $${paramIndex} OR 
-          a.middlename ILIKE $${paramIndex} OR
-          a.nickname ILIKE $${paramIndex} OR
-          CONCAT(a.lastname, ' ', a.firstname) ILIKE $${paramIndex} OR
-          CONCAT(a.firstname, ' ', a.lastname) ILIKE $${paramIndex} OR
-          CONCAT(a.lastname, ' ', a.firstname, ' ', a.middlename) ILIKE $${paramIndex}
+          a.lastname ${op} $${paramIndex} OR 
+          a.firstname ${op} $${paramIndex} OR 
+          a.middlename ${op} $${paramIndex} OR
+          a.nickname ${op} $${paramIndex} OR
+          CONCAT(a.lastname, ' ', a.firstname) ${op} $${paramIndex} OR
+          CONCAT(a.firstname, ' ', a.lastname) ${op} $${paramIndex} OR
+          CONCAT(a.lastname, ' ', a.firstname, ' ', a.middlename) ${op} $${paramIndex}
         )`);
-        params.push(`%${query}%`);
+        params.push(yo ? yoInsensitiveRegex(query) : `%${query}%`);
         paramIndex++;
       }
 
@@ -134,7 +169,11 @@ class AuthorService {
           // For relevance, prioritize exact matches and popular authors
           if (query) {
             orderBy = 'relevance_score ASC, book_count DESC, a.lastname ASC';
-            orderByParams = [
+            orderByParams = yo ? [
+              yoInsensitiveRegex(query, 'exact'),
+              yoInsensitiveRegex(query, 'prefix'),
+              yoInsensitiveRegex(query)
+            ] : [
               query,                    // exact match
               query + '%',              // starts with
               '%' + query + '%'         // contains
@@ -195,12 +234,12 @@ class AuthorService {
                COALESCE(book_counts.count, 0) as book_count
                ${sort === 'relevance' && query ? `,
                CASE 
-                 WHEN a.lastname ILIKE $${params.length + 1} THEN 1
-                 WHEN a.firstname ILIKE $${params.length + 1} THEN 2
-                 WHEN a.lastname ILIKE $${params.length + 2} THEN 3
-                 WHEN a.firstname ILIKE $${params.length + 2} THEN 4
-                 WHEN a.lastname ILIKE $${params.length + 3} THEN 5
-                 WHEN a.firstname ILIKE $${params.length + 3} THEN 6
+                 WHEN a.lastname ${op} $${params.length + 1} THEN 1
+                 WHEN a.firstname ${op} $${params.length + 1} THEN 2
+                 WHEN a.lastname ${op} $${params.length + 2} THEN 3
+                 WHEN a.firstname ${op} $${params.length + 2} THEN 4
+                 WHEN a.lastname ${op} $${params.length + 3} THEN 5
+                 WHEN a.firstname ${op} $${params.length + 3} THEN 6
                  ELSE 7
                END as relevance_score` : ''}
         FROM libavtorname a
@@ -288,6 +327,26 @@ class AuthorService {
     }
   }
 
+  async getAuthorLetters(): Promise<Array<{ letter: string; count: number }>> {
+    try {
+      const letters = await getRows(`
+        SELECT UPPER(LEFT(lastname, 1)) as letter, COUNT(*) as count
+        FROM libavtorname
+        WHERE lastname ~ '^[[:alpha:]]'
+        GROUP BY UPPER(LEFT(lastname, 1))
+        ORDER BY letter
+      `);
+
+      return letters.map(row => ({
+        letter: row.letter as string,
+        count: parseInt((row.count as string) || '0')
+      }));
+    } catch (error) {
+      logger.error('Error getting author letters', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
   async getAuthorStatistics(): Promise<Record<string, unknown> | null> {
     try {
       const stats = await getRow(`
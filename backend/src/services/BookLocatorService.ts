@@ -0,0 +1,383 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { getRow, getRows } from '../database/connection';
+import logger from '../utils/logger';
+import { createZipEntryStream, readZipDirectory, readZipEntry, ZipEntryInfo } from '../utils/zip';
+import ZipIndexService from './ZipIndexService';
+
+// Archive names carrying a book id range: f.fb2.123-456.zip, f.fb2-123-456.zip, d.djvu.1-2.zip
+const RANGE_ARCHIVE_RX = /^(?:[fd])\.(\w+)[.-](\d+)-(\d+)\.zip$/i;
+// Formats tried, in order, after the requested one when guessing entry names
+const BASE_FORMATS = ['fb2', 'epub', 'djvu', 'pdf', 'mobi', 'txt', 'rtf', 'html', 'htm'];
+
+/**
+ * Where a book's file lives. `kind: 'zip'` points at an entry inside an archive,
+ * `kind: 'file'` at a loose file on an extracted-files backend.
+ */
+export interface BookLocation {
+  backend: string;
+  kind: 'zip' | 'file';
+  path: string;
+  entry: ZipEntryInfo | null;
+  entryName: string;
+  format: string;
+  size: number;
+  // Stable identity of the stored bytes, for ETags when the database has no md5
+  fingerprint: string;
+}
+
+/**
+ * A place book files can be read from. Archive backends answer resolveArchive/listArchives,
+ * extracted-file backends answer findFile; the rest return null/empty.
+ */
+export interface BookStorageBackend {
+  readonly name: string;
+  resolveArchive(filename: string): Promise<{ path: string; size: number } | null>;
+  listArchives(): Promise<string[]>;
+  findFile(candidates: string[]): Promise<{ path: string; size: number; mtimeMs: number } | null>;
+}
+
+// Archives in a local directory (BOOKS_PATH)
+export class LocalDirectoryBackend implements BookStorageBackend {
+  readonly name: string = 'local';
+
+  constructor(protected root: string) {}
+
+  protected async statFile(fullPath: string): Promise<fs.Stats | null> {
+    try {
+      const stat = await fsp.stat(fullPath);
+      return stat.isFile() ? stat : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async resolveArchive(filename: string): Promise<{ path: string; size: number } | null> {
+    const fullPath = path.join(this.root, filename);
+    const stat = await this.statFile(fullPath);
+    return stat ? { path: fullPath, size: stat.size } : null;
+  }
+
+  async listArchives(): Promise<string[]> {
+    try {
+      return (await fsp.readdir(this.root)).filter(f => f.toLowerCase().endsWith('.zip'));
+    } catch {
+      return [];
+    }
+  }
+
+  async findFile(_candidates: string[]): Promise<{ path: string; size: number; mtimeMs: number } | null> {
+    return null;
+  }
+}
+
+// Archives on an SMB/CIFS mount: same layout as a local directory, but a stalled mount
+// must not hang downloads, so every filesystem call is bounded and failures back off
+export class SmbMountBackend extends LocalDirectoryBackend {
+  override readonly name = 'smb';
+  private unavailableUntil = 0;
+
+  constructor(root: string, private timeoutMs = 5000, private backoffMs = 30_000) {
+    super(root);
+  }
+
+  private async bounded<T>(op: () => Promise<T>, fallback: T): Promise<T> {
+    if (Date.now() < this.unavailableUntil) return fallback;
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<'timeout'>(resolve => { timer = setTimeout(() => resolve('timeout'), this.timeoutMs); });
+    try {
+      const result = await Promise.race([op(), timeout]);
+      if (result === 'timeout') {
+        this.unavailableUntil = Date.now() + this.backoffMs;
+        logger.warn('SMB mount not responding, skipping it for a while', { root: this.root, backoffMs: this.backoffMs });
+        return fallback;
+      }
+      return result;
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+  }
+
+  override async resolveArchive(filename: string): Promise<{ path: string; size: number } | null> {
+    return this.bounded(() => super.resolveArchive(filename), null);
+  }
+
+  override async listArchives(): Promise<string[]> {
+    return this.bounded(() => super.listArchives(), []);
+  }
+}
+
+// Books already extracted to plain files, flat or sharded by thousands (12/12345.fb2)
+export class ExtractedFilesBackend implements BookStorageBackend {
+  readonly name = 'extracted';
+
+  constructor(private root: string) {}
+
+  async resolveArchive(_filename: string): Promise<{ path: string; size: number } | null> {
+    return null;
+  }
+
+  async listArchives(): Promise<string[]> {
+    return [];
+  }
+
+  async findFile(candidates: string[]): Promise<{ path: string; size: number; mtimeMs: number } | null> {
+    for (const name of candidates) {
+      const id = /^(\d+)\./.exec(name);
+      const paths = [path.join(this.root, name)];
+      if (id && id[1]) paths.push(path.join(this.root, String(Math.floor(parseInt(id[1], 10) / 1000)), name));
+      for (const p of paths) {
+        try {
+          const stat = await fsp.stat(p);
+          if (stat.isFile()) return { path: p, size: stat.size, mtimeMs: stat.mtimeMs };
+        } catch {
+          // try next candidate
+        }
+      }
+    }
+    return null;
+  }
+}
+
+function archiveFormat(filename: string): string {
+  const m = /^[fd]\.(\w+)[.-]/i.exec(filename);
+  return m && m[1] ? m[1].toLowerCase() : '';
+}
+
+function formatOf(name: string, fallback: string): string {
+  const m = /\.([a-z0-9]+)$/i.exec(name);
+  return m && m[1] ? m[1].toLowerCase() : fallback;
+}
+
+class BookLocatorService {
+  private backends: BookStorageBackend[] = [];
+
+  constructor() {
+    this.backends.push(new LocalDirectoryBackend(process.env.BOOKS_PATH || '/application/flibusta'));
+    if (process.env.BOOKS_SMB_PATH) {
+      this.backends.push(new SmbMountBackend(process.env.BOOKS_SMB_PATH, parseInt(process.env.BOOKS_SMB_TIMEOUT_MS || '5000', 10)));
+    }
+    if (process.env.BOOKS_EXTRACTED_PATH) {
+      this.backends.push(new ExtractedFilesBackend(process.env.BOOKS_EXTRACTED_PATH));
+    }
+  }
+
+  /**
+   * Replace the configured backends (tried in order)
+   */
+  setBackends(backends: BookStorageBackend[]): void {
+    this.backends = backends;
+  }
+
+  getBackends(): BookStorageBackend[] {
+    return this.backends;
+  }
+
+  /**
+   * Find a book's file. Tries the ZIP entry index, then extracted files, then archives named by
+   * book_zip and finally archives whose filename range covers the id. Throws when nothing matches.
+   */
+  async locate(bookId: number, requestedType?: string): Promise<BookLocation> {
+    const requested = (requestedType || '').toLowerCase().trim();
+
+    const indexed = await this.locateFromIndex(bookId, requested);
+    if (indexed) return indexed;
+
+    const libFilename = await this.getLibFilename(bookId);
+    const formats = Array.from(new Set([requested, ...BASE_FORMATS].filter(Boolean)));
+
+    const looseNames = [libFilename, ...formats.map(f => `${bookId}.${f}`)].filter((n): n is string => !!n);
+    for (const backend of this.backends) {
+      const file = await backend.findFile(looseNames);
+      if (file) {
+        const entryName = path.basename(file.path);
+        return {
+          backend: backend.name,
+          kind: 'file',
+          path: file.path,
+          entry: null,
+          entryName,
+          format: formatOf(entryName, requested || 'fb2'),
+          size: file.size,
+          fingerprint: `${file.path}:${file.mtimeMs}:${file.size}`
+        };
+      }
+    }
+
+    let mapped: string[] = [];
+    try {
+      mapped = await this.getMappedArchives(bookId, requested);
+    } catch (e) {
+      logger.warn('book_zip lookup failed, scanning archive names instead', { bookId, error: (e as Error).message });
+    }
+    const tried = new Set<string>();
+    for (const filename of mapped) {
+      tried.add(filename);
+      const found = await this.locateInArchive(filename, bookId, requested, libFilename);
+      if (found) return found;
+    }
+    for (const filename of await this.scanArchives(bookId, requested)) {
+      if (tried.has(filename)) continue;
+      const found = await this.locateInArchive(filename, bookId, requested, libFilename);
+      if (found) return found;
+    }
+
+    throw new Error('Book file not found in archive');
+  }
+
+  /**
+   * The format a book will be served in, answered from the database only (no disk access)
+   */
+  async getAvailableFormat(bookId: number, requestedType?: string): Promise<string> {
+    const requested = (requestedType || '').toLowerCase().trim();
+    try {
+      const indexed = await ZipIndexService.findBookEntry(bookId, requested);
+      if (indexed) return formatOf(indexed.entry.name, archiveFormat(indexed.archive) || requested || 'unknown');
+    } catch {
+      // Index not built yet
+    }
+    try {
+      const [first] = await this.getMappedArchives(bookId, requested);
+      return (first && archiveFormat(first)) || requested || 'unknown';
+    } catch (e) {
+      logger.warn('getAvailableFormat failed, falling back', { bookId, requestedType, error: (e as Error).message });
+      return requested || 'unknown';
+    }
+  }
+
+  /**
+   * Stream a located book, optionally limited to an inclusive byte range
+   */
+  async openStream(location: BookLocation, range?: { start: number; end: number }): Promise<Readable> {
+    if (location.kind === 'zip') return createZipEntryStream(location.path, location.entry!, range);
+    if (location.size === 0) return Readable.from([]);
+    return fs.createReadStream(location.path, range ? { start: range.start, end: range.end } : {});
+  }
+
+  /**
+   * Read a whole located book into memory (conversion, cover extraction)
+   */
+  async read(location: BookLocation): Promise<Buffer> {
+    if (location.kind === 'zip') return readZipEntry(location.path, location.entry!);
+    return fsp.readFile(location.path);
+  }
+
+  private zipLocation(backend: string, zipPath: string, entry: ZipEntryInfo, fallbackFormat: string): BookLocation {
+    return {
+      backend,
+      kind: 'zip',
+      path: zipPath,
+      entry,
+      entryName: entry.name,
+      format: formatOf(entry.name, fallbackFormat),
+      size: entry.uncompressedSize,
+      fingerprint: `${entry.crc32}:${entry.uncompressedSize}:${entry.name}`
+    };
+  }
+
+  // One indexed query; the hit is only trusted while the archive still has the indexed size
+  private async locateFromIndex(bookId: number, requested: string): Promise<BookLocation | null> {
+    try {
+      const indexed = await ZipIndexService.findBookEntry(bookId, requested);
+      if (!indexed) return null;
+      for (const backend of this.backends) {
+        const archive = await backend.resolveArchive(indexed.archive);
+        if (archive && archive.size === indexed.fileSize) {
+          return this.zipLocation(backend.name, archive.path, indexed.entry, archiveFormat(indexed.archive) || requested);
+        }
+      }
+    } catch (e) {
+      logger.debug('ZIP index lookup failed, falling back to archive scan', { bookId, error: (e as Error).message });
+    }
+    return null;
+  }
+
+  private async getLibFilename(bookId: number): Promise<string | null> {
+    try {
+      const row = await getRow(`SELECT filename FROM libfilename WHERE bookid = $1 LIMIT 1`, [bookId]);
+      return row && row.filename ? String(row.filename) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // book_zip rows covering the id, best first
+  private async getMappedArchives(bookId: number, requested: string): Promise<string[]> {
+    const rows = await getRows(`
+      SELECT filename
+      FROM book_zip
+      WHERE $1 BETWEEN start_id AND end_id
+      ORDER BY
+        (CASE WHEN $2 <> '' AND filename ILIKE ('f.' || $2 || '.%') THEN 1 ELSE 0 END) DESC,
+        (CASE WHEN filename ILIKE 'f.fb2.%' THEN 1 ELSE 0 END) DESC,
+        (CASE WHEN filename ILIKE 'f.epub.%' THEN 1 ELSE 0 END) DESC,
+        (CASE WHEN filename ILIKE 'f.djvu.%' THEN 1 ELSE 0 END) DESC,
+        usr ASC,
+        filename ASC
+    `, [bookId, requested]);
+    return rows.map(r => String(r.filename)).filter(Boolean);
+  }
+
+  // Archives whose filename range covers the id: requested format first, then narrowest range
+  private async scanArchives(bookId: number, requested: string): Promise<string[]> {
+    const prefOrder = (ext: string) => {
+      if (requested && ext === requested) return 0;
+      if (ext === 'fb2') return 1;
+      if (ext === 'epub') return 2;
+      return 3;
+    };
+    const candidates: Array<{ name: string; ext: string; start: number; end: number }> = [];
+    const seen = new Set<string>();
+    for (const backend of this.backends) {
+      for (const name of await backend.listArchives()) {
+        const m = RANGE_ARCHIVE_RX.exec(name);
+        if (!m || !m[1] || !m[2] || !m[3] || seen.has(name)) continue;
+        const start = parseInt(m[2], 10);
+        const end = parseInt(m[3], 10);
+        if (start <= bookId && bookId <= end) {
+          seen.add(name);
+          candidates.push({ name, ext: m[1].toLowerCase(), start, end });
+        }
+      }
+    }
+    candidates.sort((a, b) => (prefOrder(a.ext) - prefOrder(b.ext)) || ((a.end - a.start) - (b.end - b.start)) || (a.start - b.start));
+    return candidates.map(c => c.name);
+  }
+
+  // Match by libfilename, then by `<bookId>.<format>` as the entry's basename
+  private async locateInArchive(filename: string, bookId: number, requested: string, libFilename: string | null): Promise<BookLocation | null> {
+    for (const backend of this.backends) {
+      const archive = await backend.resolveArchive(filename);
+      if (!archive) continue;
+
+      let entries: ZipEntryInfo[];
+      try {
+        entries = await readZipDirectory(archive.path);
+      } catch (e) {
+        logger.warn('Cannot read ZIP directory', { archive: archive.path, error: (e as Error).message });
+        continue;
+      }
+
+      const baseName = (name: string) => (name.split('/').pop() || '').toLowerCase();
+      let found: ZipEntryInfo | undefined;
+      if (libFilename) {
+        const wanted = libFilename.toLowerCase();
+        found = entries.find(e => baseName(e.name) === wanted);
+      }
+      if (!found) {
+        const formats = Array.from(new Set([archiveFormat(filename), requested, ...BASE_FORMATS].filter(Boolean)));
+        for (const format of formats) {
+          const candidate = `${bookId}.${format}`;
+          found = entries.find(e => baseName(e.name) === candidate);
+          if (found) break;
+        }
+      }
+      if (found) return this.zipLocation(backend.name, archive.path, found, archiveFormat(filename) || requested);
+    }
+    return null;
+  }
+}
+
+export default new BookLocatorService();
@@ -0,0 +1,152 @@
+import path from 'path';
+import fs from 'fs/promises';
+import crypto from 'crypto';
+import { getRow, getRows } from '../database/connection';
+import logger from '../utils/logger';
+import {
+  BookMetadata, MetadataCover, annotationParagraphs, embedEpubMetadata, embedFb2Metadata, hasEmbeddedCover
+} from '../utils/bookMetadata';
+import CacheService from './CacheService';
+import CoverCacheService, { imageContentType } from './CoverCacheService';
+
+// Bump when the rewriting changes so cached files are rebuilt
+const EMBED_REVISION = 2;
+const EMBED_FORMATS = ['fb2', 'xml', 'epub'];
+
+function metadataCachePath(bookId: number, version: string, format: string): string {
+  const base = process.env.METADATA_CACHE_PATH || '/app/cache/metadata';
+  return path.join(base, `${bookId}.${version}.${format}`);
+}
+
+class BookMetadataService {
+  private inProgress: Map<string, Promise<Buffer>> = new Map();
+
+  /** Whether downloads embed metadata when the request does not ask (?metadata=1|0) */
+  get enabledByDefault(): boolean {
+    return ['1', 'true'].includes((process.env.EMBED_METADATA || '').toLowerCase());
+  }
+
+  supports(format: string): boolean {
+    return EMBED_FORMATS.includes(format);
+  }
+
+  /** Curated metadata of a book from the library tables, or null when the book does not exist */
+  async load(bookId: number): Promise<BookMetadata | null> {
+    const book = await getRow(`
+      SELECT b.title, b.lang,
+             (SELECT body FROM libbannotations WHERE bookid = b.bookid LIMIT 1) AS annotation
+      FROM libbook b
+      WHERE b.bookid = $1 AND b.deleted = '0'
+    `, [bookId]);
+    if (!book) return null;
+
+    const [authors, genres, series] = await Promise.all([
+      getRows(`
+        SELECT an.firstname, an.middlename, an.lastname, an.nickname
+        FROM libavtor a
+        JOIN libavtorname an ON a.avtorid = an.avtorid
+        WHERE a.bookid = $1
+        ORDER BY a.pos, a.avtorid
+      `, [bookId]),
+      getRows(`
+        SELECT g.genrecode, g.genredesc
+        FROM libgenre
+        JOIN libgenrelist g USING(genreid)
+        WHERE bookid = $1
+        ORDER BY g.genreid
+      `, [bookId]),
+      getRows(`
+        SELECT s.seqname, seq.seqnumb
+        FROM libseq seq
+        JOIN libseqname s ON seq.seqid = s.seqid
+        WHERE seq.bookid = $1
+        ORDER BY seq.level, seq.seqid
+      `, [bookId])
+    ]);
+
+    const clean = (value: unknown) => String(value ?? '').replace(/\s+/g, ' ').trim();
+    return {
+      bookId,
+      title: clean(book.title),
+      authors: authors.map(a => {
+        const author: BookMetadata['authors'][number] = {};
+        if (clean(a.firstname)) author.firstName = clean(a.firstname);
+        if (clean(a.middlename)) author.middleName = clean(a.middlename);
+        if (clean(a.lastname)) author.lastName = clean(a.lastname);
+        if (clean(a.nickname)) author.nickname = clean(a.nickname);
+        return author;
+      }).filter(a => Object.keys(a).length),
+      series: series.filter(s => clean(s.seqname)).map(s => ({ name: clean(s.seqname), number: Number(s.seqnumb) > 0 ? Number(s.seqnumb) : null })),
+      genres: genres.filter(g => clean(g.genrecode)).map(g => ({ code: clean(g.genrecode), name: clean(g.genredesc) })),
+      lang: clean(book.lang).toLowerCase(),
+      annotation: annotationParagraphs(book.annotation)
+    };
+  }
+
+  /** Short digest of the metadata; part of cache names and ETags so edits in the library show up */
+  version(meta: BookMetadata): string {
+    return crypto.createHash('sha1').update(`${EMBED_REVISION}:${JSON.stringify(meta)}`).digest('hex').slice(0, 12);
+  }
+
+  /**
+   * The book file in `format` with the metadata written in, cached like conversions.
+   * `source` is only called on a cache miss.
+   */
+  async embed(bookId: number, format: string, meta: BookMetadata, source: () => Promise<Buffer>): Promise<Buffer> {
+    const cacheFile = metadataCachePath(bookId, this.version(meta), format);
+    try {
+      const cached = await fs.readFile(cacheFile);
+      CacheService.touch(cacheFile);
+      return cached;
+    } catch {}
+
+    const key = `${bookId}:${format}`;
+    if (this.inProgress.has(key)) return this.inProgress.get(key)!;
+    const promise = (async () => {
+      try {
+        const raw = await source();
+        const cover = hasEmbeddedCover(raw, format) ? null : await this.libraryCover(bookId);
+        const out = format === 'epub' ? embedEpubMetadata(raw, meta, cover) : embedFb2Metadata(raw, meta, cover);
+        try {
+          await fs.mkdir(path.dirname(cacheFile), { recursive: true });
+          await fs.writeFile(cacheFile, out);
+          CacheService.noteWrite(cacheFile, out.length);
+        } catch (e) {
+          logger.warn('Failed to write metadata cache', { bookId, format, error: (e as Error).message });
+        }
+        logger.info('Library metadata embedded', { bookId, format, coverAdded: !!cover, size: out.length });
+        return out;
+      } finally { this.inProgress.delete(key); }
+    })();
+    this.inProgress.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Embed metadata into an in-memory file when the format allows it; any failure returns the file unchanged
+   */
+  async apply(bookId: number, format: string, data: Buffer): Promise<Buffer> {
+    if (!this.supports(format)) return data;
+    try {
+      const meta = await this.load(bookId);
+      return meta ? await this.embed(bookId, format, meta, async () => data) : data;
+    } catch (error) {
+      logger.warn('Embedding metadata failed, serving original', { bookId, format, error: (error as Error).message });
+      return data;
+    }
+  }
+
+  // Cover from the library's own covers (lib.b.attached.zip) for books that have none inside
+  private async libraryCover(bookId: number): Promise<MetadataCover | null> {
+    try {
+      const file = await CoverCacheService.ensureCached(bookId);
+      if (!file) return null;
+      return { data: await fs.readFile(file), contentType: imageContentType(path.extname(file).slice(1)) };
+    } catch (error) {
+      logger.debug('No library cover to embed', { bookId, error: (error as Error).message });
+      return null;
+    }
+  }
+}
+
+export default new BookMetadataService();
@@ -1,5 +1,9 @@
 import { getRow, getRows } from '../database/connection';
 import logger from '../utils/logger';
+import BookLocatorService from './BookLocatorService';
+import SearchService, { SpellingSuggestion } from './SearchService';
+import SearchIndexService from './SearchIndexService';
+import { foldYo, transliterationVariant, yoInsensitiveRegex } from '../utils/searchText';
 
 interface Book {
   bookid: number;
@@ -12,6 +16,8 @@ interface Book {
   reviews?: Review[];
   isFavorite?: boolean;
   readingProgress?: number;
+  rating?: number | null;
+  rating_count?: number;
 }
 
 interface Author {
@@ -54,10 +60,40 @@ interface SearchParams {
   year?: string;
   language?: string;
   sort?: string;
+  minRating?: number;
+  genreId?: number;
+  authorId?: number;
+  format?: string;
+  decade?: number;
+  facets?: boolean;
   page?: number;
   limit?: number;
 }
 
+type FacetName = 'genre' | 'author' | 'language' | 'decade' | 'format';
+
+interface FacetBucket {
+  value: string;
+  label?: string;
+  count: number;
+}
+
+type SearchFacets = Record<FacetName, FacetBucket[]> & {
+  // Counts were taken over the first FACET_SCAN_LIMIT matches only
+  truncated: boolean;
+};
+
+// A filter on a libbook column, rendered for a given table alias (facet queries reuse it on their CTE)
+interface ColumnFilter {
+  facet: FacetName;
+  sql: (alias: string) => string;
+}
+
+interface RecentBooksFilters {
+  language?: string;
+  genreCategory?: string;
+}
+
 interface SearchResult {
   books: Book[];
   pagination: {
@@ -68,8 +104,21 @@ interface SearchResult {
     hasNext?: boolean;
     hasPrev?: boolean;
   };
+  facets?: SearchFacets;
+  expansion?: QueryExpansion;
+}
+
+// Which rewrite of the query produced the results; suggestions are listed when the query had no hits as typed
+interface QueryExpansion {
+  applied: 'none' | 'transliteration' | 'did_you_mean';
+  query: string;
+  suggestions?: SpellingSuggestion[];
 }
 
+// Facets are counted over at most this many matching books so broad queries stay fast on the full catalog
+const FACET_SCAN_LIMIT = Math.max(1000, parseInt(process.env.SEARCH_FACET_SCAN_LIMIT || '50000', 10) || 50000);
+const FACET_BUCKETS: Record<FacetName, number> = { genre: 20, author: 10, language: 15, decade: 20, format: 10 };
+
 class BookService {
   private recordsPerPage: number;
   // Simple in-memory LRU-ish cache (time + size constrained)
@@ -81,40 +130,20 @@ class BookService {
     this.recordsPerPage = parseInt(process.env.RECORDS_PER_PAGE || '10');
   }
 
-  // Determine the actually available filetype for a book by consulting book_zip
+  // Determine the actually available filetype for a book (ZIP index, then book_zip)
   private async getAvailableFiletype(bookId: number, requestedType?: string): Promise<string> {
-    try {
-      const requested = (requestedType || '').toLowerCase().trim();
-      const row = await getRow(`
-        SELECT filename
-        FROM book_zip
-        WHERE $1 BETWEEN start_id AND end_id
-        ORDER BY
-          (CASE WHEN $2 <> '' AND filename ILIKE ('f.' || $2 || '.%') THEN 1 ELSE 0 END) DESC,
-          (CASE WHEN filename ILIKE 'f.fb2.%' THEN 1 ELSE 0 END) DESC,
-          (CASE WHEN filename ILIKE 'f.epub.%' THEN 1 ELSE 0 END) DESC,
-          (CASE WHEN filename ILIKE 'f.djvu.%' THEN 1 ELSE 0 END) DESC,
-          usr ASC,
-          filename ASC
-        LIMIT 1
-      `, [bookId, requested]);
-      if (!row || !row.filename) {
-        return requested || 'unknown';
-      }
-      const m = /^f\.(\w+)\./i.exec(row.filename as string);
-      return (m && m[1]) ? m[1].toLowerCase() : (requested || 'unknown');
-    } catch (e) {
-      logger.warn('getAvailableFiletype failed, falling back', { bookId, requestedType, error: (e as Error).message });
-      return (requestedType || 'unknown');
-    }
+    return BookLocatorService.getAvailableFormat(bookId, requestedType);
   }
 
   async getBookById(bookId: number): Promise<Book | null> {
     try {
       const book = await getRow(`
         SELECT b.*,
-               (SELECT body FROM libbannotations WHERE bookid = b.bookid LIMIT 1) as annotation
+               (SELECT body FROM libbannotations WHERE bookid = b.bookid LIMIT 1) as annotation,
+               rt.rating_avg::float AS rating,
+               coalesce(rt.rating_count, 0) AS rating_count
         FROM libbook b 
+        LEFT JOIN book_ratings rt ON rt.bookid = b.bookid
         WHERE b.bookid = $1 AND b.deleted = '0'
       `, [bookId]);
 
@@ -176,7 +205,32 @@ class BookService {
     }
   }
 
+  /**
+   * Search with fallbacks for queries that find nothing: the query transliterated into the other script,
+   * then the closest title or author name ("did you mean"). `expansion` tells which one produced the hits.
+   */
   async searchBooks(searchParams: SearchParams): Promise<SearchResult> {
+    const result = await this.runSearch(searchParams);
+    const query = (searchParams.query || '').trim();
+    if (!query) return result;
+    if (result.pagination.total !== 0) return { ...result, expansion: { applied: 'none', query } };
+
+    const variant = transliterationVariant(query);
+    if (variant) {
+      const transliterated = await this.runSearch({ ...searchParams, query: variant });
+      if (transliterated.pagination.total) return { ...transliterated, expansion: { applied: 'transliteration', query: variant } };
+    }
+
+    const suggestions = await SearchService.didYouMean(variant ? [query, variant] : [query]);
+    const best = suggestions[0];
+    if (best) {
+      const corrected = await this.runSearch({ ...searchParams, query: best.text });
+      if (corrected.pagination.total) return { ...corrected, expansion: { applied: 'did_you_mean', query: best.text, suggestions } };
+    }
+    return { ...result, expansion: { applied: 'none', query, suggestions } };
+  }
+
+  private async runSearch(searchParams: SearchParams): Promise<SearchResult> {
     try {
       const {
         query = '',
@@ -186,12 +240,18 @@ class BookService {
         year = '',
         language = 'ru',
         sort = 'date',
+        minRating,
+        genreId,
+        authorId,
+        format = '',
+        decade,
+        facets = false,
         page = 0,
         limit = this.recordsPerPage
       } = searchParams;
 
   // Build cache key (avoid caching pages with high page index to limit memory)
-  const cacheKey = JSON.stringify({ q: query, author, genre, series, year, language, sort, page, limit, v: 4 });
+  const cacheKey = JSON.stringify({ q: query, author, genre, series, year, language, sort, minRating, genreId, authorId, format, decade, facets, page, limit, v: 7 });
       if (page < 5) { // only cache early pages
         const cached = this.searchCache.get(cacheKey);
         if (cached && (Date.now() - cached.time) < this.cacheTTLms) {
@@ -204,13 +264,17 @@ class BookService {
   const params: any[] = ['0'];
     let p = 2; // next param index
     let ftsParamIndex: number | null = null;
+    // tsquery for the language filter's text search configuration (all configurations without one)
+    let ftsQuery = '';
 
       // Combined title + author logic (keep semantics of previous implementation)
       // Full-text search for title if query provided. Fallback to trigram ILIKE if short or no lexemes.
       if (query) {
-        // Russian FTS primary match + tokenized fallback across title and author names
+        // FTS primary match + tokenized fallback across title and author names.
+        // Vectors are built per libbook.lang with ё folded to е, so the query is parsed the same way
         ftsParamIndex = p;
-        params.push(query); p++;
+        ftsQuery = SearchIndexService.tsQuerySql(await SearchIndexService.queryConfigs(language), ftsParamIndex);
+        params.push(foldYo(query)); p++;
 
         // Tokenize query to handle cases like "Война и мир толстой":
         // require that each token appears either in title or any author field
@@ -224,17 +288,20 @@ class BookService {
         const tokenConds: string[] = [];
         for (const _t of tokens) {
           const likeIdx = p;
-          params.push(`%${_t}%`); p++;
+          // Tokens with е/ё match either spelling through a regex (trigram-indexed like ILIKE)
+          const yo = /[её]/i.test(_t);
+          const op = yo ? '~*' : 'ILIKE';
+          params.push(yo ? yoInsensitiveRegex(_t) : `%${_t}%`); p++;
           tokenConds.push(`(
-            b.title ILIKE $${likeIdx}
+            b.title ${op} $${likeIdx}
             OR EXISTS (
               SELECT 1 FROM libavtor a
               JOIN libavtorname an ON a.avtorid = an.avtorid
               WHERE a.bookid = b.bookid AND (
-                an.lastname ILIKE $${likeIdx}
-                OR an.firstname ILIKE $${likeIdx}
-                OR an.nickname ILIKE $${likeIdx}
-                OR (an.lastname || ' ' || an.firstname) ILIKE $${likeIdx}
+                an.lastname ${op} $${likeIdx}
+                OR an.firstname ${op} $${likeIdx}
+                OR an.nickname ${op} $${likeIdx}
+                OR (an.lastname || ' ' || an.firstname) ${op} $${likeIdx}
               )
             )
           )`);
@@ -243,7 +310,7 @@ class BookService {
         // Combine FTS and tokenized fallback (AND across tokens)
         const fallback = tokenConds.length ? tokenConds.join(' AND ') : '';
         const combined = fallback ? `(${fallback})` : 'TRUE';
-  conditions.push(`(b.search_vector @@ websearch_to_tsquery('russian', $${ftsParamIndex}) OR ${combined})`);
+  conditions.push(`(b.search_vector @@ ${ftsQuery} OR ${combined})`);
       }
       if (author) {
         // Use trigram index on concatenated author fields via expression index (already created)
@@ -271,14 +338,44 @@ class BookService {
         )`);
         params.push(`%${series}%`); p++;
       }
+      if (minRating) {
+        conditions.push(`EXISTS (
+          SELECT 1 FROM book_ratings br
+          WHERE br.bookid = b.bookid AND br.rating_avg >= $${p}
+        )`);
+        params.push(minRating); p++;
+      }
+      if (genreId) {
+        conditions.push(`EXISTS (SELECT 1 FROM libgenre g WHERE g.bookid = b.bookid AND g.genreid = $${p})`);
+        params.push(genreId); p++;
+      }
+      if (authorId) {
+        conditions.push(`EXISTS (SELECT 1 FROM libavtor a WHERE a.bookid = b.bookid AND a.avtorid = $${p})`);
+        params.push(authorId); p++;
+      }
       if (year) {
         conditions.push(`b.year = $${p}`);
         params.push(year); p++;
       }
+      // Column filters double as facets: each facet is counted without its own filter
+      const columnFilters: ColumnFilter[] = [];
       if (language) {
-        conditions.push(`LOWER(TRIM(b.lang)) = LOWER($${p})`);
+        const idx = p;
+        columnFilters.push({ facet: 'language', sql: (t) => `LOWER(TRIM(${t}.lang)) = LOWER($${idx})` });
         params.push(language.trim()); p++;
       }
+      if (format) {
+        const idx = p;
+        columnFilters.push({ facet: 'format', sql: (t) => `LOWER(TRIM(${t}.filetype)) = LOWER($${idx})` });
+        params.push(format.trim()); p++;
+      }
+      if (decade) {
+        const idx = p;
+        columnFilters.push({ facet: 'decade', sql: (t) => `${t}.year BETWEEN $${idx}::int AND $${idx}::int + 9` });
+        params.push(decade); p++;
+      }
+      const facetConditions = [...conditions];
+      conditions.push(...columnFilters.map(f => f.sql('b')));
 
       // Sorting logic
       // Use aliases available in the outer SELECT:
@@ -299,8 +396,9 @@ class BookService {
           case 'author_desc': orderBy = 'primary_author_lastname DESC NULLS LAST, primary_author_firstname DESC NULLS LAST'; break;
           case 'year': orderBy = 'year ASC NULLS LAST'; break;
           case 'year_desc': orderBy = 'year DESC NULLS FIRST'; break;
-          case 'rating': orderBy = 'bookid DESC'; break; // fallback: no rating column in schema
-          case 'rating_asc': orderBy = 'bookid ASC'; break; // fallback
+          // Unrated books go last either way; among equal averages, more votes first
+          case 'rating': orderBy = 'rating DESC NULLS LAST, rating_count DESC, bookid DESC'; break;
+          case 'rating_asc': orderBy = 'rating ASC NULLS LAST, rating_count DESC, bookid ASC'; break;
           case 'date':
           default: orderBy = 'bookid DESC'; break;
         }
@@ -313,19 +411,21 @@ class BookService {
   const listParams = [...params];
 
       const relevanceSelect = (hasRelevance && ftsParamIndex)
-        ? ", ts_rank(b.search_vector, websearch_to_tsquery('russian', $" + (ftsParamIndex as number) + ")) AS relevance_score"
+        ? `, ts_rank(b.search_vector, ${ftsQuery}) AS relevance_score`
         : '';
 
       const listSql = `
-        SELECT base.bookid, base.title, base.year, base.lang, base.filetype, base.filesize, base.time${sort === 'relevance' && query ? ', base.relevance_score' : ''},
+        SELECT base.bookid, base.title, base.year, base.lang, base.filetype, base.filesize, base.time, base.rating, base.rating_count${sort === 'relevance' && query ? ', base.relevance_score' : ''},
                pa.lastname AS primary_author_lastname,
                pa.firstname AS primary_author_firstname,
                pa.nickname AS primary_author_nickname,
                g3.genres AS genres_array,
                ef.effective_filetype
         FROM (
-          SELECT b.bookid, b.title, b.year, b.lang, b.filetype, b.filesize, b.time${relevanceSelect}
+          SELECT b.bookid, b.title, b.year, b.lang, b.filetype, b.filesize, b.time,
+                 rt.rating_avg::float AS rating, coalesce(rt.rating_count, 0) AS rating_count${relevanceSelect}
           FROM libbook b
+          LEFT JOIN book_ratings rt ON rt.bookid = b.bookid
           WHERE ${conditions.join(' AND ')}
           ORDER BY ${orderBy}
           LIMIT ${safeLimit} OFFSET ${safeOffset}
@@ -395,7 +495,7 @@ class BookService {
 
       // Conditionally compute total count only for real queries/filters (to avoid slow full scans on initial load)
       let totalCount: number | undefined = undefined;
-      const hasFilters = !!(query || author || genre || series || year);
+      const hasFilters = !!(query || author || genre || series || year || minRating || genreId || authorId || format || decade);
       if (hasFilters) {
         const countSql = `SELECT COUNT(*)::int AS total FROM libbook b WHERE ${conditions.join(' AND ')}`;
         // Compute the highest $N placeholder used in the SQL; if extra params were appended for
@@ -427,6 +527,7 @@ class BookService {
           hasPrev: page > 0
         } as any
       };
+      if (facets && page === 0) result.facets = await this.searchFacets(facetConditions, columnFilters, params);
 
       // Insert into cache (LRU-ish eviction)
       if (page < 5) {
@@ -449,15 +550,86 @@ class BookService {
     }
   }
 
-  async getRecentBooks(limit: number = 20): Promise<Book[]> {
+  /**
+   * Facet buckets (genre, author, language, decade, format) for the books matching a search.
+   * Counts come from one pass over at most FACET_SCAN_LIMIT matches; column facets ignore their own filter
+   * so the other values stay selectable.
+   */
+  private async searchFacets(conditions: string[], columnFilters: ColumnFilter[], params: unknown[]): Promise<SearchFacets> {
+    const others = (facet?: FacetName) => {
+      const sql = columnFilters.filter(f => f.facet !== facet).map(f => f.sql('m'));
+      return sql.length ? sql.join(' AND ') : 'TRUE';
+    };
+    const rows = await getRows(`
+      WITH matched AS MATERIALIZED (
+        SELECT b.bookid, b.lang, b.year, b.filetype
+        FROM libbook b
+        WHERE ${conditions.join(' AND ')}
+        LIMIT ${FACET_SCAN_LIMIT + 1}
+      )
+      (SELECT 'genre' AS facet, g.genreid::text AS value, max(gl.genredesc)::text AS label, count(*)::int AS count
+         FROM matched m
+         JOIN libgenre g ON g.bookid = m.bookid
+         JOIN libgenrelist gl ON gl.genreid = g.genreid
+        WHERE ${others()}
+        GROUP BY g.genreid ORDER BY 4 DESC LIMIT ${FACET_BUCKETS.genre})
+      UNION ALL
+      (SELECT 'author', a.avtorid::text, max(concat_ws(' ', an.lastname, an.firstname, nullif(an.nickname, '')))::text, count(*)::int
+         FROM matched m
+         JOIN libavtor a ON a.bookid = m.bookid
+         JOIN libavtorname an ON an.avtorid = a.avtorid
+        WHERE ${others()}
+        GROUP BY a.avtorid ORDER BY 4 DESC LIMIT ${FACET_BUCKETS.author})
+      UNION ALL
+      (SELECT 'language', lower(trim(m.lang)), NULL, count(*)::int
+         FROM matched m WHERE trim(m.lang) <> '' AND ${others('language')}
+        GROUP BY 2 ORDER BY 4 DESC LIMIT ${FACET_BUCKETS.language})
+      UNION ALL
+      (SELECT 'decade', ((m.year / 10) * 10)::text, NULL, count(*)::int
+         FROM matched m WHERE m.year > 0 AND ${others('decade')}
+        GROUP BY m.year / 10 ORDER BY m.year / 10 DESC LIMIT ${FACET_BUCKETS.decade})
+      UNION ALL
+      (SELECT 'format', lower(trim(m.filetype)), NULL, count(*)::int
+         FROM matched m WHERE trim(m.filetype) <> '' AND ${others('format')}
+        GROUP BY 2 ORDER BY 4 DESC LIMIT ${FACET_BUCKETS.format})
+      UNION ALL
+      (SELECT 'scanned', NULL, NULL, count(*)::int FROM matched)
+    `, params);
+
+    const result: SearchFacets = { genre: [], author: [], language: [], decade: [], format: [], truncated: false };
+    for (const row of rows) {
+      if (row.facet === 'scanned') { result.truncated = row.count > FACET_SCAN_LIMIT; continue; }
+      const bucket: FacetBucket = { value: String(row.value), count: row.count };
+      if (row.label) bucket.label = row.label;
+      result[row.facet as FacetName].push(bucket);
+    }
+    return result;
+  }
+
+  async getRecentBooks(limit: number = 20, offset: number = 0, filters: RecentBooksFilters = {}): Promise<Book[]> {
     try {
+      const conditions: string[] = [`b.deleted = '0'`];
+      const params: unknown[] = [limit, offset];
+      if (filters.language) {
+        params.push(filters.language.trim());
+        conditions.push(`LOWER(TRIM(b.lang)) = LOWER($${params.length})`);
+      }
+      if (filters.genreCategory) {
+        params.push(filters.genreCategory);
+        conditions.push(`EXISTS (
+          SELECT 1 FROM libgenre g
+          JOIN libgenrelist gl ON g.genreid = gl.genreid
+          WHERE g.bookid = b.bookid AND gl.genremeta = $${params.length}
+        )`);
+      }
+
       const books = await getRows(`
         SELECT b.bookid, b.title, b.year, b.lang, b.filetype, b.filesize, b.time
         FROM libbook b
-        WHERE b.deleted = '0'
+        WHERE ${conditions.join(' AND ')}
         ORDER BY b.time DESC
-        LIMIT $1
-      `, [limit]);
+        LIMIT $1 OFFSET $2
+      `, params);
 
       // Get authors for each book
       for (const book of books) {
@@ -592,6 +764,98 @@ class BookService {
     }
   }
 
+  async getBooksByGenreCategory(category: string, page: number = 0, limit: number = this.recordsPerPage): Promise<SearchResult> {
+    try {
+      const offset = page * limit;
+
+      // Get total count
+      const countResult = await getRow(`
+        SELECT COUNT(DISTINCT b.bookid) as total
+        FROM libbook b
+        JOIN libgenre g ON b.bookid = g.bookid
+        JOIN libgenrelist gl ON g.genreid = gl.genreid
+        WHERE gl.genremeta = $1 AND b.deleted = '0'
+      `, [category]);
+
+      const total = parseInt((countResult?.total as string) || '0');
+
+      // Get books
+      const books = await getRows(`
+        SELECT DISTINCT b.bookid, b.title, b.year, b.lang, b.filetype, b.filesize, b.time
+        FROM libbook b
+        JOIN libgenre g ON b.bookid = g.bookid
+        JOIN libgenrelist gl ON g.genreid = gl.genreid
+        WHERE gl.genremeta = $1 AND b.deleted = '0'
+        ORDER BY b.title
+        LIMIT $2 OFFSET $3
+      `, [category, limit, offset]);
+
+      // Get authors for each book
+      for (const book of books) {
+        const authors = await getRows(`
+          SELECT a.avtorid, an.lastname, an.firstname, an.middlename, an.nickname
+          FROM libavtor a
+          LEFT JOIN libavtorname an ON a.avtorid = an.avtorid
+          WHERE a.bookid = $1
+          ORDER BY a.pos
+        `, [book.bookid]);
+        book.authors = authors;
+        const effectiveType = await this.getAvailableFiletype(book.bookid, book.filetype);
+        (book as any).filetype = effectiveType || book.filetype;
+        (book as any).cover_url = `/api/files/cover/${book.bookid}?fast=1`;
+      }
+
+      return {
+        books: books as any,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      };
+    } catch (error) {
+      logger.error('Error getting books by genre category', { category, error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  async getGenreCategories(): Promise<string[]> {
+    try {
+      const rows = await getRows(`
+        SELECT DISTINCT genremeta as category
+        FROM libgenrelist
+        ORDER BY genremeta
+      `);
+
+      return rows.map(row => row.category as string);
+    } catch (error) {
+      logger.error('Error getting genre categories', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  async getLanguageCounts(limit: number = 20): Promise<Array<{ lang: string; count: number }>> {
+    try {
+      const rows = await getRows(`
+        SELECT LOWER(TRIM(lang)) as lang, COUNT(*) as count
+        FROM libbook
+        WHERE deleted = '0' AND TRIM(lang) <> ''
+        GROUP BY LOWER(TRIM(lang))
+        ORDER BY count DESC
+        LIMIT $1
+      `, [limit]);
+
+      return rows.map(row => ({
+        lang: row.lang as string,
+        count: parseInt((row.count as string) || '0')
+      }));
+    } catch (error) {
+      logger.error('Error getting language counts', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
   async getBookFileInfo(bookId: number): Promise<Record<string, unknown> | null> {
     try {
       const fileInfo = await getRow(`
@@ -0,0 +1,190 @@
+import { Writable } from 'stream';
+import { getRow, getRows } from '../database/connection';
+import logger from '../utils/logger';
+import { ZipStreamWriter } from '../utils/zip';
+import { uniqueFileName } from '../utils/fileName';
+import { AppError, FileNameSettings } from '../types';
+import BookLocatorService from './BookLocatorService';
+import ConversionService, { TargetFormat } from './ConversionService';
+import FileNameService from './FileNameService';
+import BookMetadataService from './BookMetadataService';
+
+export type BulkSource =
+  | { kind: 'author'; id: number }
+  | { kind: 'series'; id: number }
+  | { kind: 'favorites'; userUuid: string };
+
+export interface BulkBook {
+  bookId: number;
+  title: string;
+  fileType: string;
+  fileSize: number;
+  author: string | null;
+  series: string | null;
+  seqnumb: number | null;
+  year: number | null;
+}
+
+export interface BulkDownloadOptions {
+  format?: TargetFormat | undefined;
+  template?: string | undefined;
+  /** Naming settings of the requesting user; server defaults when omitted */
+  settings?: FileNameSettings | undefined;
+  /** Write library metadata into FB2 and EPUB files */
+  metadata?: boolean | undefined;
+}
+
+// Text formats shrink a lot; EPUB, PDF and the Kindle formats are already compressed
+const DEFLATE_FORMATS = ['fb2', 'xml', 'txt', 'html', 'htm', 'rtf'];
+
+// First author (the requested one for author exports) and first series of each book, for file names
+const BOOK_FIELDS = `
+  b.bookid, b.title, b.filetype, b.filesize, b.year,
+  (SELECT CONCAT(a.lastname, ' ', a.firstname) FROM libavtor av
+    JOIN libavtorname a ON a.avtorid = av.avtorid
+    WHERE av.bookid = b.bookid ORDER BY (av.avtorid = $2) DESC, av.avtorid LIMIT 1) AS author_name,
+  fs.seqname, fs.seqnumb`;
+const FIRST_SERIES = `
+  LEFT JOIN LATERAL (
+    SELECT s.seqname, seq.seqnumb FROM libseq seq JOIN libseqname s ON s.seqid = seq.seqid
+    WHERE seq.bookid = b.bookid ORDER BY seq.level, seq.seqid LIMIT 1
+  ) fs ON TRUE`;
+
+function bulkError(message: string, statusCode: number): AppError {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+function toBulkBook(row: Record<string, any>): BulkBook {
+  return {
+    bookId: Number(row.bookid),
+    title: row.title || '',
+    fileType: (row.filetype || '').toLowerCase().trim(),
+    fileSize: Number(row.filesize) || 0,
+    author: row.author_name ? String(row.author_name).trim() : null,
+    series: row.seqname || null,
+    seqnumb: row.seqnumb === null || row.seqnumb === undefined ? null : Number(row.seqnumb),
+    year: row.year ? Number(row.year) : null
+  };
+}
+
+class BulkDownloadService {
+  private get maxBooks(): number {
+    return parseInt(process.env.BULK_DOWNLOAD_MAX_BOOKS || '200');
+  }
+
+  private get maxBytes(): number {
+    return parseInt(process.env.BULK_DOWNLOAD_MAX_MB || '1024') * 1024 * 1024;
+  }
+
+  /**
+   * Books of a collection in download order, with the archive's base name; 404 when the collection does not exist
+   */
+  async resolve(source: BulkSource): Promise<{ name: string; books: BulkBook[] }> {
+    if (source.kind === 'author') {
+      const author = await getRow(`SELECT lastname, firstname FROM libavtorname WHERE avtorid = $1`, [source.id]);
+      if (!author) throw bulkError('Author not found', 404);
+      const rows = await getRows(`
+        SELECT ${BOOK_FIELDS}
+        FROM libbook b ${FIRST_SERIES}
+        WHERE b.deleted = '0' AND EXISTS (SELECT 1 FROM libavtor av WHERE av.bookid = b.bookid AND av.avtorid = $1)
+        ORDER BY fs.seqname NULLS LAST, fs.seqnumb, b.title
+      `, [source.id, source.id]);
+      return { name: `${author.lastname || ''} ${author.firstname || ''}`.trim() || `author-${source.id}`, books: rows.map(toBulkBook) };
+    }
+
+    if (source.kind === 'series') {
+      const series = await getRow(`SELECT seqname FROM libseqname WHERE seqid = $1`, [source.id]);
+      if (!series) throw bulkError('Series not found', 404);
+      // The series itself rather than each book's first one, in seqnumb order
+      const rows = await getRows(`
+        SELECT b.bookid, b.title, b.filetype, b.filesize, b.year,
+               (SELECT CONCAT(a.lastname, ' ', a.firstname) FROM libavtor av
+                 JOIN libavtorname a ON a.avtorid = av.avtorid
+                 WHERE av.bookid = b.bookid ORDER BY av.avtorid LIMIT 1) AS author_name,
+               $2::text AS seqname, seq.seqnumb
+        FROM libseq seq
+        JOIN libbook b ON b.bookid = seq.bookid
+        WHERE seq.seqid = $1 AND b.deleted = '0'
+        ORDER BY seq.seqnumb, b.title
+      `, [source.id, series.seqname]);
+      return { name: series.seqname || `series-${source.id}`, books: rows.map(toBulkBook) };
+    }
+
+    const rows = await getRows(`
+      SELECT ${BOOK_FIELDS}
+      FROM fav f
+      JOIN libbook b ON b.bookid = f.bookid ${FIRST_SERIES}
+      WHERE f.user_uuid = $1 AND b.deleted = '0'
+      ORDER BY f.id DESC
+    `, [source.userUuid, 0]);
+    return { name: 'Избранное', books: rows.map(toBulkBook) };
+  }
+
+  /**
+   * Refuse collections over the book-count or size limit before any byte is sent
+   */
+  checkLimits(books: BulkBook[]): void {
+    if (!books.length) throw bulkError('No books to download', 404);
+    if (books.length > this.maxBooks) {
+      throw bulkError(`Too many books: ${books.length} (limit ${this.maxBooks})`, 413);
+    }
+    const total = books.reduce((sum, book) => sum + book.fileSize, 0);
+    if (total > this.maxBytes) {
+      throw bulkError(`Collection is too large: ${Math.ceil(total / 1048576)} MB (limit ${Math.floor(this.maxBytes / 1048576)} MB)`, 413);
+    }
+  }
+
+  /**
+   * Stream the books as a ZIP. Books that cannot be read are skipped and listed in `_skipped.txt`;
+   * conversions that fail fall back to the original file. Stops early when the client goes away.
+   */
+  async write(out: Writable, books: BulkBook[], options: BulkDownloadOptions = {}): Promise<{ added: number; skipped: number }> {
+    const zip = new ZipStreamWriter(out);
+    const settings = options.settings || await FileNameService.getDefaults();
+    const names = new Set<string>();
+    const skipped: string[] = [];
+
+    for (const book of books) {
+      if (out.destroyed) break;
+      let data: Buffer;
+      let ext: string;
+      try {
+        const location = await BookLocatorService.locate(book.bookId, book.fileType);
+        data = await BookLocatorService.read(location);
+        ext = location.format;
+        if (options.format && options.format !== ext && (await ConversionService.listTargetsForSource(ext)).includes(options.format)) {
+          try {
+            data = await ConversionService.convert(book.bookId, ext, options.format, data);
+            ext = options.format;
+          } catch (error) {
+            logger.warn('Bulk download conversion failed, adding original', { bookId: book.bookId, target: options.format, error: (error as Error).message });
+          }
+        }
+        if (options.metadata) data = await BookMetadataService.apply(book.bookId, ext, data);
+      } catch (error) {
+        skipped.push(`${book.bookId}\t${book.title}\t${(error as Error).message}`);
+        continue;
+      }
+
+      if (zip.size + data.length > this.maxBytes) {
+        skipped.push(`${book.bookId}\t${book.title}\tsize limit reached`);
+        continue;
+      }
+
+      const name = uniqueFileName(FileNameService.build(settings, {
+        author: book.author, title: book.title, series: book.series, n: book.seqnumb, year: book.year, id: book.bookId, ext
+      }, options.template), names);
+      await zip.add({ name, data, store: !DEFLATE_FORMATS.includes(ext) });
+    }
+
+    if (out.destroyed) return { added: zip.count, skipped: skipped.length };
+    if (skipped.length) {
+      await zip.add({ name: '_skipped.txt', data: Buffer.from(`${skipped.join('\n')}\n`, 'utf8') });
+    }
+    const added = zip.count - (skipped.length ? 1 : 0);
+    await zip.finish();
+    return { added, skipped: skipped.length };
+  }
+}
+
+export default new BulkDownloadService();
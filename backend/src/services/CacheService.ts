@@ -0,0 +1,249 @@
+import fs from 'fs/promises';
+import path from 'path';
+import logger from '../utils/logger';
+import { CachePruneReport, CacheUsage } from '../types';
+
+interface CacheConfig {
+  name: string;
+  root: string;
+  maxBytes: number;
+  maxAgeMs: number;
+}
+
+interface CachedFile {
+  path: string;
+  size: number;
+  accessedMs: number;
+}
+
+const MB = 1024 * 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Eviction frees space down to this share of the budget so the next few writes don't trigger it again
+const LOW_WATERMARK = 0.9;
+// Access times are refreshed at most this often per file to keep hits cheap
+const TOUCH_INTERVAL_MS = 10 * 60 * 1000;
+const USAGE_TTL_MS = 60 * 1000;
+
+function envNumber(name: string, fallback: number): number {
+  const v = Number(process.env[name]);
+  return Number.isFinite(v) && v >= 0 ? v : fallback;
+}
+
+class CacheService {
+  private caches: CacheConfig[];
+  private lastTouched: Map<string, number> = new Map();
+  private usage: Map<string, { at: number; usage: CacheUsage }> = new Map();
+  private estimatedBytes: Map<string, number> = new Map();
+  private pruning: Promise<CachePruneReport[]> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    // Budgets are in MB and days; 0 disables that limit
+    this.caches = [
+      {
+        name: 'conversions',
+        root: process.env.CONVERSIONS_CACHE_PATH || '/app/cache/converted',
+        maxBytes: envNumber('CONVERSIONS_CACHE_MAX_MB', 2048) * MB,
+        maxAgeMs: envNumber('CONVERSIONS_CACHE_MAX_AGE_DAYS', 30) * DAY_MS
+      },
+      {
+        name: 'covers',
+        root: process.env.COVERS_CACHE_PATH || '/app/cache/covers',
+        maxBytes: envNumber('COVERS_CACHE_MAX_MB', 1024) * MB,
+        maxAgeMs: envNumber('COVERS_CACHE_MAX_AGE_DAYS', 0) * DAY_MS
+      },
+      {
+        name: 'metadata',
+        root: process.env.METADATA_CACHE_PATH || '/app/cache/metadata',
+        maxBytes: envNumber('METADATA_CACHE_MAX_MB', 1024) * MB,
+        maxAgeMs: envNumber('METADATA_CACHE_MAX_AGE_DAYS', 30) * DAY_MS
+      },
+      {
+        name: 'thumbnails',
+        root: process.env.THUMBNAILS_CACHE_PATH || '/app/cache/thumbnails',
+        maxBytes: envNumber('THUMBNAILS_CACHE_MAX_MB', 512) * MB,
+        maxAgeMs: envNumber('THUMBNAILS_CACHE_MAX_AGE_DAYS', 0) * DAY_MS
+      }
+    ];
+  }
+
+  /**
+   * Start periodic pruning (CACHE_PRUNE_INTERVAL_MINUTES, default 60; 0 disables)
+   */
+  start(): void {
+    const minutes = envNumber('CACHE_PRUNE_INTERVAL_MINUTES', 60);
+    if (this.timer || minutes === 0) return;
+    this.timer = setInterval(() => {
+      this.prune().catch(e => logger.warn('Scheduled cache prune failed', { error: (e as Error).message }));
+    }, minutes * 60 * 1000);
+    this.timer.unref();
+    // Initial scan seeds the size estimates used by noteWrite
+    this.getUsage().catch(e => logger.warn('Initial cache scan failed', { error: (e as Error).message }));
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private cacheFor(filePath: string): CacheConfig | undefined {
+    const resolved = path.resolve(filePath);
+    return this.caches.find(c => resolved.startsWith(path.resolve(c.root) + path.sep));
+  }
+
+  /**
+   * Record a cache hit so LRU eviction keeps the file. Paths outside managed caches are ignored.
+   */
+  touch(filePath: string): void {
+    if (!this.cacheFor(filePath)) return;
+    const now = Date.now();
+    if (now - (this.lastTouched.get(filePath) || 0) < TOUCH_INTERVAL_MS) return;
+    this.lastTouched.set(filePath, now);
+    if (this.lastTouched.size > 10000) this.lastTouched.clear();
+    // Explicit utimes works on noatime mounts too; mtime is kept for validators
+    fs.stat(filePath)
+      .then(st => fs.utimes(filePath, new Date(now), st.mtime))
+      .catch(() => {});
+  }
+
+  /**
+   * Record a new cache file; prunes in the background once the estimated size passes the budget.
+   */
+  noteWrite(filePath: string, bytes: number): void {
+    const cache = this.cacheFor(filePath);
+    if (!cache) return;
+    this.lastTouched.set(filePath, Date.now());
+    const estimate = this.estimatedBytes.get(cache.name);
+    if (estimate === undefined) return; // unknown until the first scan
+    this.estimatedBytes.set(cache.name, estimate + bytes);
+    if (cache.maxBytes > 0 && estimate + bytes > cache.maxBytes) {
+      this.prune({ cache: cache.name }).catch(e => logger.warn('Cache prune failed', { cache: cache.name, error: (e as Error).message }));
+    }
+  }
+
+  private async scan(cache: CacheConfig): Promise<CachedFile[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(cache.root);
+    } catch {
+      return [];
+    }
+    const files: CachedFile[] = [];
+    for (const name of names) {
+      const full = path.join(cache.root, name);
+      try {
+        const st = await fs.stat(full);
+        if (!st.isFile()) continue;
+        // Never-read files count from their creation
+        files.push({ path: full, size: st.size, accessedMs: Math.max(st.atimeMs, st.mtimeMs) });
+      } catch {
+        // removed concurrently
+      }
+    }
+    return files;
+  }
+
+  private summarize(cache: CacheConfig, files: CachedFile[]): CacheUsage {
+    const bytes = files.reduce((sum, f) => sum + f.size, 0);
+    const oldest = files.reduce((min, f) => Math.min(min, f.accessedMs), Infinity);
+    return {
+      name: cache.name,
+      path: cache.root,
+      files: files.length,
+      bytes,
+      maxBytes: cache.maxBytes,
+      maxAgeDays: cache.maxAgeMs / DAY_MS,
+      usedPercent: cache.maxBytes > 0 ? Math.round((bytes / cache.maxBytes) * 1000) / 10 : null,
+      oldestAccess: Number.isFinite(oldest) ? new Date(oldest).toISOString() : null
+    };
+  }
+
+  /**
+   * Size and budget of each managed cache (scans are reused for a minute)
+   */
+  async getUsage(): Promise<CacheUsage[]> {
+    const result: CacheUsage[] = [];
+    for (const cache of this.caches) {
+      const cached = this.usage.get(cache.name);
+      if (cached && Date.now() - cached.at < USAGE_TTL_MS) {
+        result.push(cached.usage);
+        continue;
+      }
+      const usage = this.summarize(cache, await this.scan(cache));
+      this.usage.set(cache.name, { at: Date.now(), usage });
+      this.estimatedBytes.set(cache.name, usage.bytes);
+      result.push(usage);
+    }
+    return result;
+  }
+
+  /**
+   * Evict files not accessed within the age budget, then least recently accessed files
+   * until each cache is back under its size budget. With dryRun nothing is deleted.
+   */
+  async prune(options: { dryRun?: boolean; cache?: string } = {}): Promise<CachePruneReport[]> {
+    if (this.pruning && !options.dryRun) return this.pruning;
+    const run = this.runPrune(options);
+    if (!options.dryRun) {
+      this.pruning = run.finally(() => { this.pruning = null; });
+    }
+    return run;
+  }
+
+  private async runPrune(options: { dryRun?: boolean; cache?: string }): Promise<CachePruneReport[]> {
+    const reports: CachePruneReport[] = [];
+    const now = Date.now();
+    for (const cache of this.caches) {
+      if (options.cache && options.cache !== cache.name) continue;
+
+      const files = (await this.scan(cache)).sort((a, b) => a.accessedMs - b.accessedMs);
+      const victims: CachedFile[] = [];
+      let remaining = files.reduce((sum, f) => sum + f.size, 0);
+      const before = { files: files.length, bytes: remaining };
+      const exceeded = cache.maxBytes > 0 && before.bytes > cache.maxBytes;
+
+      for (const file of files) {
+        const expired = cache.maxAgeMs > 0 && now - file.accessedMs > cache.maxAgeMs;
+        const overBudget = exceeded && remaining > cache.maxBytes * LOW_WATERMARK;
+        if (!expired && !overBudget) continue;
+        victims.push(file);
+        remaining -= file.size;
+      }
+
+      let evictedBytes = 0;
+      let evictedFiles = 0;
+      if (!options.dryRun) {
+        for (const victim of victims) {
+          try {
+            await fs.unlink(victim.path);
+            this.lastTouched.delete(victim.path);
+            evictedBytes += victim.size;
+            evictedFiles++;
+          } catch (e) {
+            logger.debug('Cache eviction skipped file', { path: victim.path, error: (e as Error).message });
+          }
+        }
+        this.usage.delete(cache.name);
+        this.estimatedBytes.set(cache.name, before.bytes - evictedBytes);
+        if (evictedFiles) logger.info('Cache pruned', { cache: cache.name, evictedFiles, evictedBytes });
+      } else {
+        evictedFiles = victims.length;
+        evictedBytes = victims.reduce((sum, f) => sum + f.size, 0);
+      }
+
+      reports.push({
+        name: cache.name,
+        path: cache.root,
+        dryRun: !!options.dryRun,
+        before,
+        evicted: { files: evictedFiles, bytes: evictedBytes },
+        after: { files: before.files - evictedFiles, bytes: before.bytes - evictedBytes },
+        maxBytes: cache.maxBytes,
+        maxAgeDays: cache.maxAgeMs / DAY_MS
+      });
+    }
+    return reports;
+  }
+}
+
+export default new CacheService();
@@ -0,0 +1,200 @@
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { getRow, query } from '../database/connection';
+import logger from '../utils/logger';
+import { ConversionJob } from '../types';
+import ConversionService, { TargetFormat } from './ConversionService';
+import BookLocatorService from './BookLocatorService';
+
+const JOB_COLUMNS = `id, book_id, target_format, status, progress, message, error, attempts, output_size,
+  created_at, started_at, finished_at`;
+// Attempts per job before it is marked failed
+const MAX_ATTEMPTS = 2;
+// Running jobs without a progress heartbeat for this long are assumed orphaned by a dead worker
+const STALE_AFTER_MS = 15 * 60 * 1000;
+// Running jobs touch their row this often even when Calibre reports no progress
+const HEARTBEAT_MS = 60 * 1000;
+// How often the worker loop looks for jobs orphaned by workers on other hosts
+const RECLAIM_EVERY_MS = 60 * 1000;
+// Queued conversions may run far longer than a browser request would wait (30 min default)
+const JOB_TIMEOUT_MS = Math.max(60_000, parseInt(process.env.CONVERSION_JOB_TIMEOUT_MS || '1800000', 10) || 1_800_000);
+
+class ConversionJobService {
+  private concurrency: number;
+  private pollMs: number;
+  private workerId: string;
+  private running = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private lastReclaim = 0;
+
+  constructor() {
+    this.concurrency = Math.max(1, parseInt(process.env.CONVERSION_CONCURRENCY || '2', 10));
+    this.pollMs = Math.max(500, parseInt(process.env.CONVERSION_POLL_MS || '3000', 10));
+    this.workerId = `${os.hostname()}:${process.pid}`;
+  }
+
+  /**
+   * Start the worker loop. Jobs left running by a previous process on this host (or stale elsewhere) are requeued.
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+    await this.reclaim(true);
+    this.lastReclaim = Date.now();
+
+    this.timer = setInterval(() => { void this.tick(); }, this.pollMs);
+    void this.tick();
+    logger.info('Conversion job worker started', { workerId: this.workerId, concurrency: this.concurrency });
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Queue a conversion. Returns the active job for the same book and format if there is one,
+   * or an already finished job when the conversion is cached.
+   */
+  async enqueue(bookId: number, target: TargetFormat, userUuid?: string): Promise<ConversionJob> {
+    if (await ConversionService.cachedAt(bookId, target)) {
+      const done = await getRow(`
+        INSERT INTO conversion_jobs (id, book_id, target_format, status, progress, message, user_uuid, finished_at)
+        VALUES ($1, $2, $3, 'done', 100, 'Served from cache', $4, CURRENT_TIMESTAMP)
+        RETURNING ${JOB_COLUMNS}
+      `, [uuidv4(), bookId, target, userUuid || null]);
+      return done as unknown as ConversionJob;
+    }
+
+    const created = await getRow(`
+      INSERT INTO conversion_jobs (id, book_id, target_format, user_uuid)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (book_id, target_format) WHERE status IN ('queued', 'running') DO NOTHING
+      RETURNING ${JOB_COLUMNS}
+    `, [uuidv4(), bookId, target, userUuid || null]);
+
+    const job = created || await getRow(`
+      SELECT ${JOB_COLUMNS} FROM conversion_jobs
+      WHERE book_id = $1 AND target_format = $2 AND status IN ('queued', 'running')
+      LIMIT 1
+    `, [bookId, target]);
+    if (!job) throw new Error('Failed to enqueue conversion job');
+
+    if (created) logger.info('Conversion job queued', { jobId: job.id, bookId, target });
+    void this.tick();
+    return job as unknown as ConversionJob;
+  }
+
+  async getJob(jobId: string): Promise<ConversionJob | null> {
+    const job = await getRow(`SELECT ${JOB_COLUMNS} FROM conversion_jobs WHERE id = $1`, [jobId]);
+    return job as unknown as ConversionJob | null;
+  }
+
+  /**
+   * Requeue running jobs whose worker stopped sending heartbeats; on startup also every job this host
+   * was running, since the previous process is gone. Jobs out of attempts are failed instead.
+   */
+  private async reclaim(ownHost: boolean): Promise<void> {
+    const reclaimed = await query(`
+      UPDATE conversion_jobs
+      SET status = CASE WHEN attempts >= $4 THEN 'failed' ELSE 'queued' END,
+          error = CASE WHEN attempts >= $4 THEN 'Worker stopped while converting' ELSE error END,
+          finished_at = CASE WHEN attempts >= $4 THEN CURRENT_TIMESTAMP ELSE NULL END,
+          worker_id = NULL, message = $5, updated_at = CURRENT_TIMESTAMP
+      WHERE status = 'running'
+        AND (($3::boolean AND worker_id LIKE $1) OR updated_at < CURRENT_TIMESTAMP - ($2 || ' milliseconds')::interval)
+    `, [`${os.hostname()}:%`, String(STALE_AFTER_MS), ownHost, MAX_ATTEMPTS, ownHost ? 'Requeued after restart' : 'Requeued from a stalled worker']);
+    if (reclaimed.rowCount) logger.info('Reclaimed interrupted conversion jobs', { count: reclaimed.rowCount, ownHost });
+  }
+
+  // Claim queued jobs up to the concurrency limit; SKIP LOCKED lets several backends share the queue
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      if (Date.now() - this.lastReclaim >= RECLAIM_EVERY_MS) {
+        this.lastReclaim = Date.now();
+        await this.reclaim(false);
+      }
+      while (this.running < this.concurrency) {
+        const job = await getRow(`
+          UPDATE conversion_jobs
+          SET status = 'running', worker_id = $1, attempts = attempts + 1,
+              started_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP, message = 'Starting'
+          WHERE id = (
+            SELECT id FROM conversion_jobs
+            WHERE status = 'queued'
+            ORDER BY created_at
+            FOR UPDATE SKIP LOCKED
+            LIMIT 1
+          )
+          RETURNING ${JOB_COLUMNS}
+        `, [this.workerId]);
+        if (!job) break;
+
+        this.running++;
+        void this.runJob(job as unknown as ConversionJob).finally(() => {
+          this.running--;
+          void this.tick();
+        });
+      }
+    } catch (error) {
+      logger.error('Conversion queue poll failed', { error: (error as Error).message });
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async runJob(job: ConversionJob): Promise<void> {
+    const target = job.target_format as TargetFormat;
+    let lastReported = 0;
+    let lastReportAt = 0;
+    const reportProgress = (percent: number, message?: string) => {
+      // Throttle heartbeat writes; each one also keeps the job from being considered stale
+      const now = Date.now();
+      if (percent - lastReported < 5 && now - lastReportAt < 2000) return;
+      lastReported = percent;
+      lastReportAt = now;
+      query(`
+        UPDATE conversion_jobs SET progress = $2, message = $3, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND status = 'running'
+      `, [job.id, percent, message || null]).catch(() => {});
+    };
+
+    // Keep the job fresh for stale detection while a long conversion reports nothing
+    const heartbeat = setInterval(() => {
+      query(`UPDATE conversion_jobs SET updated_at = CURRENT_TIMESTAMP WHERE id = $1 AND status = 'running'`, [job.id]).catch(() => {});
+    }, HEARTBEAT_MS);
+
+    try {
+      reportProgress(1, 'Reading book');
+      const location = await BookLocatorService.locate(job.book_id);
+      const raw = await BookLocatorService.read(location);
+      const out = await ConversionService.convert(job.book_id, location.format, target, raw, reportProgress, { timeoutMs: JOB_TIMEOUT_MS });
+
+      await query(`
+        UPDATE conversion_jobs
+        SET status = 'done', progress = 100, message = NULL, error = NULL, output_size = $2,
+            finished_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `, [job.id, out.length]);
+      logger.info('Conversion job finished', { jobId: job.id, bookId: job.book_id, target, size: out.length });
+    } catch (error) {
+      const message = (error as Error).message;
+      const retry = job.attempts < MAX_ATTEMPTS;
+      await query(`
+        UPDATE conversion_jobs
+        SET status = $2::varchar, error = $3, worker_id = NULL, updated_at = CURRENT_TIMESTAMP,
+            finished_at = CASE WHEN $2::varchar = 'failed' THEN CURRENT_TIMESTAMP ELSE NULL END
+        WHERE id = $1
+      `, [job.id, retry ? 'queued' : 'failed', message]).catch(e => {
+        logger.error('Failed to record conversion job failure', { jobId: job.id, error: (e as Error).message });
+      });
+      logger.warn('Conversion job failed', { jobId: job.id, bookId: job.book_id, target, attempt: job.attempts, retry, error: message });
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+}
+
+export default new ConversionJobService();
@@ -2,10 +2,15 @@ import path from 'path';
 import fs from 'fs/promises';
 import logger from '../utils/logger';
 import { getRow, getRows } from '../database/connection';
-import { getBookZipEntry, extractCoverFromFb2, extractCoverFromEpub } from '../utils/cover';
+import { extractCoverFromFb2, extractCoverFromEpub } from '../utils/cover';
+import BookLocatorService from './BookLocatorService';
+import { readZipEntryByName } from '../utils/zip';
+import CacheService from './CacheService';
+import ThumbnailService from './ThumbnailService';
+import { renderPlaceholderCover } from '../utils/placeholderCover';
 
 function imageContentType(ext: string): string {
-  const t: Record<string, string> = { jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', gif: 'image/gif', webp: 'image/webp' };
+  const t: Record<string, string> = { jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', gif: 'image/gif', webp: 'image/webp', avif: 'image/avif', svg: 'image/svg+xml' };
   return t[ext.toLowerCase()] || 'application/octet-stream';
 }
 
@@ -25,11 +30,18 @@ async function ensureDir(p: string) {
 
 function coversRoot() { return process.env.COVERS_CACHE_PATH || '/app/cache/covers'; }
 
+// Generated placeholders live with the thumbnails: they are derived data and cheap to rebuild
+function placeholdersRoot() { return process.env.THUMBNAILS_CACHE_PATH || '/app/cache/thumbnails'; }
+
+// Upper bound for the in-memory list of books known to have no cover
+const MAX_KNOWN_MISSING = 100000;
+
 class CoverCacheService {
   private inFlight: Map<number, Promise<string | null>> = new Map();
   private queue: number[] = [];
   private running = 0;
   private concurrency = Math.max(1, Math.min(8, Number(process.env.COVERS_CONCURRENCY || 3)));
+  private knownMissing: Set<number> = new Set();
   private progress: {
     active: boolean;
     mode: 'recent'|'missing'|'all';
@@ -70,7 +82,7 @@ class CoverCacheService {
     const exts = ['jpg','jpeg','png','gif','webp'];
     for (const ext of exts) {
       const p = path.join(root, `${bookId}.${ext}`);
-      try { await fs.access(p); return p; }
+      try { await fs.access(p); CacheService.touch(p); return p; }
       catch {}
     }
     return null;
@@ -93,7 +105,65 @@ class CoverCacheService {
     }
   }
 
+  /** Whether a lookup already found no cover for this book (since startup) */
+  isKnownMissing(bookId: number): boolean {
+    return this.knownMissing.has(bookId);
+  }
+
   async ensureCached(bookId: number): Promise<string | null> {
+    const found = await this.findOrExtract(bookId);
+    if (found) this.knownMissing.delete(bookId);
+    else {
+      if (this.knownMissing.size >= MAX_KNOWN_MISSING) this.knownMissing.clear();
+      this.knownMissing.add(bookId);
+    }
+    return found;
+  }
+
+  /**
+   * Path of a generated SVG cover (title, author, series number, genre colours) for a book without an image;
+   * null when the book does not exist. The file is only rewritten when its content changes, keeping ETags stable.
+   */
+  async placeholder(bookId: number): Promise<string | null> {
+    const book = await getRow(`
+      SELECT b.title,
+             (SELECT concat_ws(' ', an.firstname, an.lastname) FROM libavtor a
+                JOIN libavtorname an ON a.avtorid = an.avtorid
+               WHERE a.bookid = b.bookid ORDER BY a.pos, a.avtorid LIMIT 1) AS author,
+             (SELECT g.genrecode FROM libgenre lg
+                JOIN libgenrelist g ON lg.genreid = g.genreid
+               WHERE lg.bookid = b.bookid ORDER BY g.genreid LIMIT 1) AS genre,
+             s.seqname, s.seqnumb
+      FROM libbook b
+      LEFT JOIN LATERAL (
+        SELECT sn.seqname, seq.seqnumb FROM libseq seq
+        JOIN libseqname sn ON seq.seqid = sn.seqid
+        WHERE seq.bookid = b.bookid ORDER BY seq.level, seq.seqid LIMIT 1
+      ) s ON true
+      WHERE b.bookid = $1
+    `, [bookId]);
+    if (!book) return null;
+
+    const svg = renderPlaceholderCover({
+      title: String(book.title || ''),
+      author: String(book.author || '').trim() || null,
+      series: book.seqname || null,
+      seriesNumber: Number(book.seqnumb) > 0 ? Number(book.seqnumb) : null,
+      genre: book.genre || null
+    });
+    const out = path.join(placeholdersRoot(), `${bookId}.placeholder.svg`);
+    const current = await fs.readFile(out, 'utf8').catch(() => null);
+    if (current !== svg) {
+      await ensureDir(placeholdersRoot());
+      await fs.writeFile(out, svg);
+      CacheService.noteWrite(out, Buffer.byteLength(svg));
+    } else {
+      CacheService.touch(out);
+    }
+    return out;
+  }
+
+  private async findOrExtract(bookId: number): Promise<string | null> {
     // Already cached
     const cached = await this.isCached(bookId);
     if (cached) return cached;
@@ -106,17 +176,14 @@ class CoverCacheService {
       const row = await getRow(`SELECT file FROM libbpics WHERE bookid=$1 LIMIT 1`, [bookId]);
       if (row && row.file) {
         const zipPath = path.join(process.env.CACHE_PATH || '/app/cache', 'lib.b.attached.zip');
-        const { execFile } = await import('child_process');
-        const { promisify } = await import('util');
-        const execFileAsync = promisify(execFile);
         try {
           await fs.access(zipPath);
-          const { stdout } = await execFileAsync('unzip', ['-p', zipPath, row.file], { encoding: 'buffer', maxBuffer: 1024 * 1024 * 50 });
-          const buf: Buffer = stdout as unknown as Buffer;
+          const buf = await readZipEntryByName(zipPath, row.file);
           if (buf && buf.length > 32) {
             const ext = detectImageExt(buf) || 'jpg';
             const out = path.join(root, `${bookId}.${ext}`);
             await fs.writeFile(out, buf);
+        CacheService.noteWrite(out, buf.length);
             return out;
           }
         } catch (_e) {
@@ -129,9 +196,9 @@ class CoverCacheService {
 
     // Fallback: open the book file and extract cover (fb2/epub)
     try {
-      const requestedType = '';
-      const { entryName, entryBuffer } = await getBookZipEntry(bookId, requestedType);
-      const lower = (entryName || '').toLowerCase();
+      const location = await BookLocatorService.locate(bookId);
+      const entryBuffer = await BookLocatorService.read(location);
+      const lower = location.entryName.toLowerCase();
       let buf: Buffer | null = null;
       if (lower.endsWith('.fb2') || lower.endsWith('.xml')) buf = extractCoverFromFb2(entryBuffer);
       else if (lower.endsWith('.epub')) buf = extractCoverFromEpub(entryBuffer);
@@ -139,6 +206,7 @@ class CoverCacheService {
         const ext = detectImageExt(buf) || 'jpg';
         const out = path.join(root, `${bookId}.${ext}`);
         await fs.writeFile(out, buf);
+        CacheService.noteWrite(out, buf.length);
         return out;
       }
     } catch (_e) {
@@ -200,13 +268,17 @@ class CoverCacheService {
       try {
         const is = await this.isCached(id);
         if (mode === 'missing' && is) {
-          // skip already cached in missing mode
+          // skip already cached in missing mode, but fill in thumbnails that are still missing
+          await ThumbnailService.pregenerate(id, is);
           this.progress.lastUpdatedAt = new Date().toISOString();
           continue;
         }
         processed++;
         const out = await this.ensureCached(id);
-        if (out) cached++;
+        if (out) {
+          cached++;
+          await ThumbnailService.pregenerate(id, out);
+        }
       } catch { errors++; }
       
       // update progress snapshot
@@ -0,0 +1,192 @@
+import { getRow, getRows, query } from '../database/connection';
+import logger from '../utils/logger';
+import { sendMail, smtpConfigFromEnv } from '../utils/smtp';
+import { AppError, DeviceDelivery, DeviceKind, UserDevice } from '../types';
+import BookLocatorService from './BookLocatorService';
+import ConversionService, { TargetFormat } from './ConversionService';
+import FileNameService from './FileNameService';
+import BookMetadataService from './BookMetadataService';
+
+export const DEVICE_KINDS: DeviceKind[] = ['kindle', 'kindle_legacy', 'pocketbook', 'other'];
+
+// Formats each kind of device reads from mail, best first. Send to Kindle takes EPUB since 2022;
+// older Kindles only get Kindle formats. PocketBook reads FB2 natively.
+const DEVICE_FORMATS: Record<DeviceKind, string[]> = {
+  kindle: ['epub', 'azw3', 'mobi', 'pdf'],
+  kindle_legacy: ['azw3', 'mobi', 'pdf'],
+  pocketbook: ['fb2', 'epub', 'mobi', 'pdf'],
+  other: ['epub', 'fb2', 'pdf']
+};
+
+export const DEVICE_FORMAT_CHOICES = Array.from(new Set(Object.values(DEVICE_FORMATS).flat()));
+
+const CONTENT_TYPES: Record<string, string> = {
+  epub: 'application/epub+zip',
+  azw3: 'application/vnd.amazon.ebook',
+  mobi: 'application/x-mobipocket-ebook',
+  fb2: 'application/x-fictionbook+xml',
+  pdf: 'application/pdf'
+};
+
+const MAX_DEVICES_PER_USER = 10;
+
+const DEVICE_COLUMNS = 'id, user_uuid, name, email, kind, preferred_format, created_at';
+const DELIVERY_COLUMNS = 'id, user_uuid, device_id, device_name, email, book_id, title, format, status, error, size, message_id, created_at, sent_at';
+
+function deviceError(message: string, statusCode: number): AppError {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+/**
+ * Pick the format to mail: the device's preference first, then its kind's list; the original
+ * file wins over a conversion to the same format
+ */
+export function chooseDeviceFormat(kind: DeviceKind, preferred: string | null, source: string, targets: string[]): { format: string; convert: boolean } | null {
+  const candidates = preferred ? [preferred, ...DEVICE_FORMATS[kind]] : DEVICE_FORMATS[kind];
+  for (const format of candidates) {
+    if (format === source) return { format, convert: false };
+    if (targets.includes(format)) return { format, convert: true };
+  }
+  return null;
+}
+
+class DeviceService {
+
+  /** Whether an SMTP relay is configured */
+  isEnabled(): boolean {
+    return smtpConfigFromEnv() !== null;
+  }
+
+  async listDevices(userUuid: string): Promise<UserDevice[]> {
+    const rows = await getRows(`SELECT ${DEVICE_COLUMNS} FROM user_devices WHERE user_uuid = $1 ORDER BY created_at, id`, [userUuid]);
+    return rows as unknown as UserDevice[];
+  }
+
+  async addDevice(userUuid: string, device: { name: string; email: string; kind: DeviceKind; preferredFormat?: string | null }): Promise<UserDevice> {
+    const count = await getRow(`SELECT COUNT(*)::int AS count FROM user_devices WHERE user_uuid = $1`, [userUuid]);
+    if ((count?.count || 0) >= MAX_DEVICES_PER_USER) {
+      throw deviceError(`At most ${MAX_DEVICES_PER_USER} devices can be registered`, 400);
+    }
+    const row = await getRow(`
+      INSERT INTO user_devices (user_uuid, name, email, kind, preferred_format)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (user_uuid, email) DO NOTHING
+      RETURNING ${DEVICE_COLUMNS}
+    `, [userUuid, device.name, device.email.toLowerCase(), device.kind, device.preferredFormat || null]);
+    if (!row) throw deviceError('This address is already registered', 409);
+    logger.info('Device registered', { userUuid, deviceId: row.id, kind: device.kind });
+    return row as unknown as UserDevice;
+  }
+
+  async removeDevice(userUuid: string, deviceId: number): Promise<boolean> {
+    const result = await query(`DELETE FROM user_devices WHERE id = $1 AND user_uuid = $2`, [deviceId, userUuid]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  async listDeliveries(userUuid: string, limit = 50): Promise<DeviceDelivery[]> {
+    const rows = await getRows(`
+      SELECT ${DELIVERY_COLUMNS} FROM device_deliveries
+      WHERE user_uuid = $1
+      ORDER BY created_at DESC, id DESC
+      LIMIT $2
+    `, [userUuid, limit]);
+    return rows.map(row => ({ ...row, size: row.size === null ? null : Number(row.size) })) as unknown as DeviceDelivery[];
+  }
+
+  /**
+   * Queue a book for a device. The delivery is recorded as pending and mailed in the background;
+   * its outcome lands in the history.
+   */
+  async send(userUuid: string, deviceId: number, bookId: number): Promise<DeviceDelivery> {
+    const config = smtpConfigFromEnv();
+    if (!config) throw deviceError('Sending to devices is not configured on this server', 503);
+
+    const device = await getRow(`SELECT ${DEVICE_COLUMNS} FROM user_devices WHERE id = $1 AND user_uuid = $2`, [deviceId, userUuid]) as UserDevice | null;
+    if (!device) throw deviceError('Device not found', 404);
+
+    const book = await getRow(`
+      SELECT b.bookid, b.title, b.filetype, b.year,
+             CONCAT(fa.firstname, ' ', fa.lastname) AS author_name,
+             CONCAT(fa.lastname, ' ', fa.firstname) AS author_sort_name,
+             fs.seqname, fs.seqnumb
+      FROM libbook b
+      LEFT JOIN LATERAL (
+        SELECT a.firstname, a.lastname FROM libavtor av JOIN libavtorname a ON a.avtorid = av.avtorid
+        WHERE av.bookid = b.bookid LIMIT 1
+      ) fa ON TRUE
+      LEFT JOIN LATERAL (
+        SELECT s.seqname, seq.seqnumb FROM libseq seq JOIN libseqname s ON s.seqid = seq.seqid
+        WHERE seq.bookid = b.bookid ORDER BY seq.level, seq.seqid LIMIT 1
+      ) fs ON TRUE
+      WHERE b.bookid = $1 AND b.deleted = '0'
+    `, [bookId]);
+    if (!book) throw deviceError('Book not found', 404);
+
+    const dailyLimit = parseInt(process.env.DEVICE_SEND_DAILY_LIMIT || '50');
+    const sentToday = await getRow(`
+      SELECT COUNT(*)::int AS count FROM device_deliveries
+      WHERE user_uuid = $1 AND created_at > CURRENT_TIMESTAMP - INTERVAL '1 day'
+    `, [userUuid]);
+    if ((sentToday?.count || 0) >= dailyLimit) throw deviceError('Daily sending limit reached', 429);
+
+    const delivery = await getRow(`
+      INSERT INTO device_deliveries (user_uuid, device_id, device_name, email, book_id, title)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING ${DELIVERY_COLUMNS}
+    `, [userUuid, device.id, device.name, device.email, bookId, book.title || null]) as unknown as DeviceDelivery;
+
+    const author = String(book.author_name || '').trim();
+    const title = String(book.title || `Book ${bookId}`);
+    // The attachment follows the owner's download naming, so the file looks the same on the device
+    const nameSettings = await FileNameService.resolve(userUuid);
+    const fileNameFor = (ext: string): string => FileNameService.build(nameSettings, {
+      author: book.author_sort_name, title: book.title, series: book.seqname, n: book.seqnumb, year: book.year, id: bookId, ext
+    });
+    this.deliver(delivery.id, device, bookId, (book.filetype || '').toLowerCase().trim(), author ? `${author} - ${title}` : title, fileNameFor)
+      .catch(error => logger.error('Device delivery bookkeeping failed', { deliveryId: delivery.id, error: (error as Error).message }));
+    return delivery;
+  }
+
+  private async deliver(deliveryId: number, device: UserDevice, bookId: number, fileType: string, displayName: string,
+    fileNameFor: (ext: string) => string): Promise<void> {
+    let format: string | null = null;
+    try {
+      const location = await BookLocatorService.locate(bookId, fileType);
+      const choice = chooseDeviceFormat(device.kind, device.preferred_format, location.format,
+        await ConversionService.listTargetsForSource(location.format));
+      if (!choice) throw new Error(`No format suitable for ${device.kind} (source ${location.format})`);
+      format = choice.format;
+
+      const raw = await BookLocatorService.read(location);
+      let file = choice.convert ? await ConversionService.convert(bookId, location.format, choice.format as TargetFormat, raw) : raw;
+      if (BookMetadataService.enabledByDefault) file = await BookMetadataService.apply(bookId, format, file);
+
+      const maxBytes = parseInt(process.env.DEVICE_SEND_MAX_MB || '25') * 1024 * 1024;
+      if (file.length > maxBytes) throw new Error(`File of ${file.length} bytes exceeds the ${maxBytes} byte mail limit`);
+
+      const fileName = fileNameFor(format);
+      const config = smtpConfigFromEnv();
+      if (!config) throw new Error('SMTP is no longer configured');
+      const { messageId } = await sendMail(config, {
+        from: config.from,
+        to: device.email,
+        subject: displayName,
+        text: `${displayName}\n`,
+        attachments: [{ filename: fileName, contentType: CONTENT_TYPES[format] || 'application/octet-stream', content: file }]
+      });
+
+      await query(`
+        UPDATE device_deliveries SET status = 'sent', format = $2, size = $3, message_id = $4, sent_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `, [deliveryId, format, file.length, messageId]);
+      logger.info('Book sent to device', { deliveryId, bookId, deviceId: device.id, format, size: file.length });
+    } catch (error) {
+      const message = (error as Error).message;
+      logger.warn('Sending book to device failed', { deliveryId, bookId, deviceId: device.id, error: message });
+      await query(`UPDATE device_deliveries SET status = 'failed', format = $2, error = $3 WHERE id = $1`,
+        [deliveryId, format, message.slice(0, 1000)]);
+    }
+  }
+}
+
+export default new DeviceService();
@@ -0,0 +1,110 @@
+import { getRow, query } from '../database/connection';
+import logger from '../utils/logger';
+import { DEFAULT_FILENAME_TEMPLATE, FileNameFields, TRANSLITERATIONS, Transliteration, renderFileName } from '../utils/fileName';
+import { FileNameSettings } from '../types';
+
+const SETTINGS_KEY = 'filenames';
+const DEFAULTS_TTL_MS = 60 * 1000;
+
+// Fallbacks when the admin has not saved defaults yet
+function envDefaults(): FileNameSettings {
+  const transliterate = (process.env.FILENAME_TRANSLITERATE || 'none') as Transliteration;
+  return {
+    template: process.env.FILENAME_TEMPLATE || DEFAULT_FILENAME_TEMPLATE,
+    transliterate: TRANSLITERATIONS.includes(transliterate) ? transliterate : 'none',
+    safeChars: process.env.FILENAME_SAFE_CHARS === 'true'
+  };
+}
+
+// Keep only known, well-typed fields of a stored or submitted settings object
+function pickSettings(value: unknown): Partial<FileNameSettings> {
+  const source = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const result: Partial<FileNameSettings> = {};
+  if (typeof source.template === 'string' && source.template.trim()) result.template = source.template.trim();
+  if (TRANSLITERATIONS.includes(source.transliterate as Transliteration)) result.transliterate = source.transliterate as Transliteration;
+  if (typeof source.safeChars === 'boolean') result.safeChars = source.safeChars;
+  return result;
+}
+
+const MAX_TEMPLATE_LENGTH = 200;
+
+class FileNameService {
+  private defaults: { value: FileNameSettings; until: number } | null = null;
+
+  /** Server-wide naming defaults (admin settings over environment) */
+  async getDefaults(): Promise<FileNameSettings> {
+    if (this.defaults && this.defaults.until > Date.now()) return this.defaults.value;
+    let value = envDefaults();
+    try {
+      const row = await getRow(`SELECT value FROM app_settings WHERE key = $1`, [SETTINGS_KEY]);
+      value = { ...value, ...pickSettings(row?.value) };
+    } catch (error) {
+      logger.debug('File name defaults unavailable, using environment', { error: (error as Error).message });
+    }
+    this.defaults = { value, until: Date.now() + DEFAULTS_TTL_MS };
+    return value;
+  }
+
+  async setDefaults(settings: Partial<FileNameSettings>, updatedBy: string): Promise<FileNameSettings> {
+    const value = { ...(await this.getDefaults()), ...pickSettings(settings) };
+    await query(`
+      INSERT INTO app_settings (key, value, updated_by, updated_at)
+      VALUES ($1, $2, $3, CURRENT_TIMESTAMP)
+      ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_by = EXCLUDED.updated_by, updated_at = CURRENT_TIMESTAMP
+    `, [SETTINGS_KEY, JSON.stringify(value), updatedBy]);
+    this.defaults = null;
+    logger.info('File name defaults updated', { updatedBy, ...value });
+    return value;
+  }
+
+  /** A user's own overrides (only the fields they changed) */
+  async getUserOverrides(userUuid: string): Promise<Partial<FileNameSettings>> {
+    const row = await getRow(`SELECT filename_settings FROM users WHERE user_uuid = $1`, [userUuid]);
+    return pickSettings(row?.filename_settings);
+  }
+
+  /** Save a user's overrides; null clears them so the server defaults apply again */
+  async setUserOverrides(userUuid: string, settings: Partial<FileNameSettings> | null): Promise<Partial<FileNameSettings>> {
+    const overrides = settings ? pickSettings(settings) : {};
+    await query(`UPDATE users SET filename_settings = $1 WHERE user_uuid = $2`,
+      [Object.keys(overrides).length ? JSON.stringify(overrides) : null, userUuid]);
+    return overrides;
+  }
+
+  /**
+   * Check submitted settings; returns the problem or null. A template must identify the book by {title} or {id}.
+   */
+  validate(settings: Record<string, unknown>): string | null {
+    const { template, transliterate, safeChars } = settings;
+    if (template !== undefined) {
+      if (typeof template !== 'string' || !template.trim() || template.length > MAX_TEMPLATE_LENGTH) {
+        return `Template must be a string of 1 to ${MAX_TEMPLATE_LENGTH} characters`;
+      }
+      if (!/\{(title|id|bookid)\}/.test(template)) return 'Template must contain {title}, {id} or {bookid}';
+    }
+    if (transliterate !== undefined && !TRANSLITERATIONS.includes(transliterate as Transliteration)) {
+      return `Transliteration must be one of: ${TRANSLITERATIONS.join(', ')}`;
+    }
+    if (safeChars !== undefined && typeof safeChars !== 'boolean') return 'safeChars must be a boolean';
+    return null;
+  }
+
+  /** Effective settings for a request: defaults, then the registered user's overrides */
+  async resolve(userUuid?: string | null): Promise<FileNameSettings> {
+    const defaults = await this.getDefaults();
+    if (!userUuid) return defaults;
+    try {
+      return { ...defaults, ...(await this.getUserOverrides(userUuid)) };
+    } catch (error) {
+      logger.debug('File name overrides unavailable', { userUuid, error: (error as Error).message });
+      return defaults;
+    }
+  }
+
+  /** Render a download name with the given settings; a template override (e.g. ?template=) wins */
+  build(settings: FileNameSettings, fields: FileNameFields, template?: string): string {
+    return renderFileName(template || settings.template, fields, { transliterate: settings.transliterate, safeChars: settings.safeChars });
+  }
+}
+
+export default new FileNameService();
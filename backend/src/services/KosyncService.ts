@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { getRow, getRows, query } from '../database/connection';
+import logger from '../utils/logger';
+import { partialMd5 } from '../utils/partialMd5';
+import { KosyncProgress } from '../types';
+import BookLocatorService from './BookLocatorService';
+import SessionService from './SessionService';
+
+interface KosyncUser {
+  user_uuid: string;
+  username: string;
+}
+
+// KOReader syncs on every page turn batch; successful logins are remembered briefly to spare bcrypt
+const AUTH_CACHE_TTL_MS = 5 * 60 * 1000;
+
+function md5(value: string): string {
+  return crypto.createHash('md5').update(value).digest('hex');
+}
+
+class KosyncService {
+  private authCache: Map<string, { user: KosyncUser; until: number }> = new Map();
+
+  /**
+   * Store the kosync key (md5 of the password, as KOReader sends it) for a user.
+   * Called wherever the plain password is known: login, password changes, user creation.
+   */
+  async rememberKey(userUuid: string, password: string, options: { onlyIfMissing?: boolean } = {}): Promise<void> {
+    try {
+      if (options.onlyIfMissing) {
+        const row = await getRow(`SELECT kosync_key_hash FROM users WHERE user_uuid = $1`, [userUuid]);
+        if (!row || row.kosync_key_hash) return;
+      }
+      const keyHash = await bcrypt.hash(md5(password), 12);
+      await query(`UPDATE users SET kosync_key_hash = $1 WHERE user_uuid = $2`, [keyHash, userUuid]);
+      this.authCache.clear();
+    } catch (error) {
+      logger.warn('Failed to store kosync key', { userUuid, error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Check KOReader credentials (x-auth-user / x-auth-key headers)
+   */
+  async authenticate(username: string, key: string): Promise<KosyncUser | null> {
+    const normalizedKey = key.trim().toLowerCase();
+    const cacheKey = crypto.createHash('sha256').update(`${username}\n${normalizedKey}`).digest('hex');
+    const cached = this.authCache.get(cacheKey);
+    if (cached && cached.until > Date.now()) return cached.user;
+
+    const user = await getRow(`
+      SELECT user_uuid, username, kosync_key_hash
+      FROM users WHERE username = $1 AND is_active = true
+    `, [username]);
+    if (!user || !user.kosync_key_hash) return null;
+    if (!(await bcrypt.compare(normalizedKey, user.kosync_key_hash))) return null;
+
+    const result: KosyncUser = { user_uuid: user.user_uuid, username: user.username };
+    if (this.authCache.size > 1000) this.authCache.clear();
+    this.authCache.set(cacheKey, { user: result, until: Date.now() + AUTH_CACHE_TTL_MS });
+    return result;
+  }
+
+  /**
+   * Map a kosync document id to a book. `method` is 'binary' for KOReader's partial md5
+   * and 'filename' for the md5 of the downloaded file name.
+   */
+  async registerDocument(document: string, bookId: number, format: string, method: 'binary' | 'filename'): Promise<void> {
+    await query(`
+      INSERT INTO kosync_documents (document, book_id, format, method)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (document) DO NOTHING
+    `, [document, bookId, format, method]);
+  }
+
+  /**
+   * Remember the ids KOReader will compute for a file we just served. Best effort.
+   */
+  recordServedFile(bookId: number, format: string, fileName: string, digest: string | Buffer): void {
+    const binary = typeof digest === 'string' ? digest : partialMd5(digest);
+    Promise.all([
+      this.registerDocument(binary, bookId, format, 'binary'),
+      this.registerDocument(md5(fileName), bookId, format, 'filename')
+    ]).catch(error => logger.debug('Failed to record kosync document', { bookId, error: (error as Error).message }));
+  }
+
+  async findBook(document: string): Promise<{ bookId: number; format: string } | null> {
+    const row = await getRow(`SELECT book_id, format FROM kosync_documents WHERE document = $1`, [document.toLowerCase()]);
+    return row ? { bookId: Number(row.book_id), format: row.format } : null;
+  }
+
+  /**
+   * Position last pushed by a KOReader device. Positions saved by other readers carry no
+   * XPointer KOReader could jump to, so they are not offered.
+   */
+  async getProgress(userUuid: string, document: string): Promise<KosyncProgress | null> {
+    const book = await this.findBook(document);
+    if (!book) return null;
+    const locator = await SessionService.getProgressLocator(userUuid, book.bookId);
+    if (!locator || locator.xpointer === undefined) return null;
+    return {
+      document,
+      progress: locator.xpointer,
+      percentage: locator.percentage / 100,
+      device: locator.device || '',
+      device_id: locator.deviceId || '',
+      timestamp: Math.floor(new Date(locator.updatedAt).getTime() / 1000)
+    };
+  }
+
+  /**
+   * Save a KOReader position; returns null when the document is not a known library file
+   */
+  async saveProgress(userUuid: string, update: Omit<KosyncProgress, 'timestamp'>): Promise<{ document: string; timestamp: number } | null> {
+    const book = await this.findBook(update.document);
+    if (!book) return null;
+    const updatedAt = new Date();
+    await SessionService.saveProgress(userUuid, book.bookId, Math.min(100, Math.max(0, update.percentage * 100)), {
+      locator: { format: book.format, xpointer: update.progress, deviceId: update.device_id },
+      device: update.device || null,
+      updatedAt
+    });
+    return { document: update.document, timestamp: Math.floor(updatedAt.getTime() / 1000) };
+  }
+
+  /**
+   * Precompute partial md5 ids of original book files, so books downloaded before kosync
+   * was enabled (or copied from the archives directly) can sync too
+   */
+  async indexBooks(options: { fromId?: number; limit?: number } = {}): Promise<{ indexed: number; failed: number; lastId: number }> {
+    const books = await getRows(`
+      SELECT b.bookid FROM libbook b
+      WHERE b.deleted = '0' AND b.bookid > $1
+        AND NOT EXISTS (SELECT 1 FROM kosync_documents d WHERE d.book_id = b.bookid AND d.method = 'binary')
+      ORDER BY b.bookid
+      LIMIT $2
+    `, [options.fromId || 0, options.limit || 1000]);
+
+    let indexed = 0;
+    let failed = 0;
+    let lastId = options.fromId || 0;
+    for (const { bookid } of books) {
+      lastId = Number(bookid);
+      try {
+        const location = await BookLocatorService.locate(lastId);
+        await this.registerDocument(partialMd5(await BookLocatorService.read(location)), lastId, location.format, 'binary');
+        indexed++;
+      } catch (error) {
+        failed++;
+        logger.debug('Kosync indexing skipped book', { bookId: lastId, error: (error as Error).message });
+      }
+    }
+    return { indexed, failed, lastId };
+  }
+}
+
+export default new KosyncService();
@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { getRow, getRows, query } from '../database/connection';
+import logger from '../utils/logger';
+import { OpdsToken, RegisteredUser, User } from '../types';
+
+// Readers send Basic credentials with every feed page and cover; verified ones are remembered briefly to spare bcrypt
+const CREDENTIALS_CACHE_TTL_MS = 5 * 60 * 1000;
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+class OpdsTokenService {
+  private credentialsCache: Map<string, { user: RegisteredUser; until: number }> = new Map();
+  // Compared against when the user is unknown, so the answer takes as long as for a wrong password
+  private dummyHash: Promise<string> | null = null;
+
+  /**
+   * Create a feed token for a user. The plain token is returned once and never stored.
+   */
+  async createToken(userUuid: string, name: string): Promise<{ token: string; record: OpdsToken }> {
+    try {
+      const token = crypto.randomBytes(24).toString('hex');
+      const record = await getRow(`
+        INSERT INTO opds_tokens (user_uuid, name, token_hash, token_prefix)
+        VALUES ($1, $2, $3, $4)
+        RETURNING id, user_uuid, name, token_prefix, created_at, last_used_at, revoked_at
+      `, [userUuid, name, hashToken(token), token.slice(0, 8)]) as OpdsToken;
+
+      logger.info('OPDS token created', { userUuid, tokenId: record.id });
+      return { token, record };
+    } catch (error) {
+      logger.error('Error creating OPDS token:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List tokens of a user, newest first, including revoked ones
+   */
+  async listTokens(userUuid: string): Promise<OpdsToken[]> {
+    try {
+      const tokens = await getRows(`
+        SELECT id, user_uuid, name, token_prefix, created_at, last_used_at, revoked_at
+        FROM opds_tokens
+        WHERE user_uuid = $1
+        ORDER BY created_at DESC
+      `, [userUuid]);
+
+      return tokens as unknown as OpdsToken[];
+    } catch (error) {
+      logger.error('Error listing OPDS tokens:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a token. When userUuid is given the token must belong to that user.
+   */
+  async revokeToken(tokenId: number, userUuid?: string): Promise<boolean> {
+    try {
+      const result = await query(`
+        UPDATE opds_tokens SET revoked_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND revoked_at IS NULL
+          AND ($2::text IS NULL OR user_uuid = $2::text)
+      `, [tokenId, userUuid ?? null]);
+
+      return (result.rowCount || 0) > 0;
+    } catch (error) {
+      logger.error('Error revoking OPDS token:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve a feed token to its active owner and record the use
+   */
+  async resolveToken(token: string): Promise<RegisteredUser | null> {
+    try {
+      const user = await getRow(`
+        UPDATE opds_tokens t SET last_used_at = CURRENT_TIMESTAMP
+        FROM users u
+        WHERE t.token_hash = $1 AND t.revoked_at IS NULL
+          AND u.user_uuid = t.user_uuid AND u.is_active = true
+        RETURNING u.user_uuid, u.username, u.email, u.role, u.is_active, u.display_name, u.avatar_url
+      `, [hashToken(token)]) as User | null;
+
+      return user ? { ...user, type: 'registered' } as RegisteredUser : null;
+    } catch (error) {
+      logger.error('Error resolving OPDS token:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Verify HTTP Basic credentials against the users table
+   */
+  async verifyCredentials(username: string, password: string): Promise<RegisteredUser | null> {
+    try {
+      const cacheKey = crypto.createHash('sha256').update(`${username}\n${password}`).digest('hex');
+      const cached = this.credentialsCache.get(cacheKey);
+      if (cached && cached.until > Date.now()) return cached.user;
+
+      const user = await getRow(`
+        SELECT user_uuid, username, email, password_hash, role, is_active, display_name, avatar_url
+        FROM users WHERE username = $1
+      `, [username]) as User | null;
+
+      if (!user || !user.is_active || !user.password_hash) {
+        if (!this.dummyHash) this.dummyHash = bcrypt.hash(crypto.randomBytes(16).toString('hex'), 12);
+        await bcrypt.compare(password, await this.dummyHash);
+        return null;
+      }
+      if (!(await bcrypt.compare(password, user.password_hash))) return null;
+
+      delete user.password_hash;
+      const result = { ...user, type: 'registered' } as RegisteredUser;
+      if (this.credentialsCache.size > 1000) this.credentialsCache.clear();
+      this.credentialsCache.set(cacheKey, { user: result, until: Date.now() + CREDENTIALS_CACHE_TTL_MS });
+      return result;
+    } catch (error) {
+      logger.error('Error verifying OPDS credentials:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Drop remembered Basic credentials; called when a password, role or account state changes
+   */
+  forgetCredentials(): void {
+    this.credentialsCache.clear();
+  }
+}
+
+export default new OpdsTokenService();
@@ -0,0 +1,43 @@
+import { getRow, transaction } from '../database/connection';
+import logger from '../utils/logger';
+
+/**
+ * Per-book rating aggregate (book_ratings) built from the Flibusta `librate` table,
+ * where every row is one reader's vote from '1' to '5'.
+ */
+class RatingService {
+  private refreshing: Promise<number> | null = null;
+
+  /**
+   * Rebuild book_ratings from librate; returns the number of rated books.
+   * Runs after SQL updates and from `manage refresh-ratings`; a no-op when librate is not imported.
+   */
+  async refresh(): Promise<number> {
+    if (this.refreshing) return this.refreshing;
+    this.refreshing = (async () => {
+      const source = await getRow(`SELECT to_regclass('public.librate') IS NOT NULL AS present`);
+      if (!source?.present) {
+        logger.info('librate table not found, book ratings left unchanged');
+        return 0;
+      }
+      const started = Date.now();
+      const count = await transaction(async (client) => {
+        await client.query('DELETE FROM book_ratings');
+        // rate is a "char"; anything outside 1..5 is a malformed vote
+        const result = await client.query(`
+          INSERT INTO book_ratings (bookid, rating_avg, rating_count, updated_at)
+          SELECT bookid, round(avg(rate::text::int), 2), count(*), CURRENT_TIMESTAMP
+          FROM librate
+          WHERE rate::text ~ '^[1-5]$'
+          GROUP BY bookid
+        `);
+        return result.rowCount || 0;
+      });
+      logger.info('Book ratings refreshed', { books: count, ms: Date.now() - started });
+      return count;
+    })().finally(() => { this.refreshing = null; });
+    return this.refreshing;
+  }
+}
+
+export default new RatingService();
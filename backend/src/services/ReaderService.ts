@@ -0,0 +1,325 @@
+import path from 'path';
+import AdmZip from 'adm-zip';
+import logger from '../utils/logger';
+import { AppError, ReaderBookInfo, ReaderChapterInfo, ReaderTocEntry } from '../types';
+import BookLocatorService from './BookLocatorService';
+import { Fb2Binary, XmlElement, fb2AuthorName, parseFb2, parseXml, xmlAttr, xmlChild, xmlChildren, xmlText } from '../utils/fb2';
+import { Fb2HtmlRenderer, Fb2TocEntry, buildOutline, escapeHtml } from '../utils/fb2Render';
+import { sanitizeNodes } from '../utils/sanitizeHtml';
+
+export interface ReaderChapter extends ReaderChapterInfo {
+  html: string;
+}
+
+interface ReaderBook {
+  fingerprint: string;
+  info: ReaderBookInfo;
+  chapters: ReaderChapter[];
+  image(id: string): Fb2Binary | null;
+}
+
+interface EpubManifestItem {
+  id: string;
+  path: string;
+  mediaType: string;
+  properties: string[];
+}
+
+const READER_FORMATS = ['fb2', 'epub'];
+// Parsed books kept in memory; readers page through one book at a time
+const MAX_CACHED_BOOKS = Math.max(1, parseInt(process.env.READER_CACHE_BOOKS || '4', 10));
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function readerError(message: string, statusCode: number): AppError {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+/** Length of the text a browser shows for this HTML (its textContent), used for character locators */
+export function htmlTextLength(html: string): number {
+  return html
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (whole, ref: string) => {
+      if (ref[0] !== '#') return HTML_ENTITIES[ref.toLowerCase()] ?? whole;
+      const code = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : whole;
+    })
+    .length;
+}
+
+function chapterView(index: number, title: string, html: string): ReaderChapter {
+  return { index, title, html, chars: htmlTextLength(html) };
+}
+
+function findElement(node: XmlElement, match: (el: XmlElement) => boolean): XmlElement | undefined {
+  for (const child of node.children) {
+    if (typeof child === 'string') continue;
+    if (match(child)) return child;
+    const found = findElement(child, match);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function splitHref(href: string): { file: string; fragment: string } {
+  const hash = href.indexOf('#');
+  return hash < 0 ? { file: href, fragment: '' } : { file: href.slice(0, hash), fragment: href.slice(hash + 1) };
+}
+
+// Resolve a relative reference inside the archive; null for external or escaping paths
+function resolveEntry(baseFile: string, ref: string): string | null {
+  if (!ref || /^[a-z][a-z0-9+.-]*:/i.test(ref)) return null;
+  let decoded = ref;
+  try {
+    decoded = decodeURIComponent(ref);
+  } catch {
+    // keep as is
+  }
+  const resolved = path.posix.normalize(path.posix.join(path.posix.dirname(baseFile), decoded));
+  return resolved.startsWith('../') ? null : resolved.replace(/^\.\//, '');
+}
+
+class ReaderService {
+  private books: Map<number, ReaderBook> = new Map();
+
+  /**
+   * Table of contents and chapter list of a book (FB2 or EPUB)
+   */
+  async getBook(bookId: number): Promise<ReaderBookInfo> {
+    return (await this.load(bookId)).info;
+  }
+
+  /**
+   * Sanitized HTML of one chapter. Links between chapters use `?chapter=N#anchor`,
+   * images point at /api/reader/:bookId/images/:imageId.
+   */
+  async getChapter(bookId: number, index: number): Promise<ReaderChapter> {
+    const chapter = (await this.load(bookId)).chapters[index];
+    if (!chapter) throw readerError('Chapter not found', 404);
+    return chapter;
+  }
+
+  async getImage(bookId: number, imageId: string): Promise<Fb2Binary & { fingerprint: string }> {
+    const book = await this.load(bookId);
+    const image = book.image(imageId);
+    if (!image) throw readerError('Image not found', 404);
+    return { ...image, fingerprint: book.fingerprint };
+  }
+
+  private async load(bookId: number): Promise<ReaderBook> {
+    let location;
+    try {
+      location = await BookLocatorService.locate(bookId);
+    } catch {
+      throw readerError('Book file not found in archive', 404);
+    }
+    if (!READER_FORMATS.includes(location.format)) {
+      throw readerError(`The reader supports FB2 and EPUB, this book is ${location.format}`, 415);
+    }
+
+    const cached = this.books.get(bookId);
+    if (cached && cached.fingerprint === location.fingerprint) {
+      // Re-insert to mark as most recently used
+      this.books.delete(bookId);
+      this.books.set(bookId, cached);
+      return cached;
+    }
+
+    const raw = await BookLocatorService.read(location);
+    const started = Date.now();
+    let book: ReaderBook;
+    try {
+      book = location.format === 'epub'
+        ? this.parseEpub(bookId, raw, location.fingerprint)
+        : this.parseFb2Book(bookId, raw, location.fingerprint);
+    } catch (error) {
+      logger.warn('Reader failed to parse book', { bookId, format: location.format, error: (error as Error).message });
+      throw readerError('Book could not be parsed', 422);
+    }
+    logger.debug('Book prepared for reader', { bookId, format: location.format, chapters: book.chapters.length, ms: Date.now() - started });
+
+    this.books.set(bookId, book);
+    while (this.books.size > MAX_CACHED_BOOKS) {
+      this.books.delete(this.books.keys().next().value as number);
+    }
+    return book;
+  }
+
+  private imageUrl(bookId: number, imageId: string): string {
+    return `/api/reader/${bookId}/images/${encodeURIComponent(imageId)}`;
+  }
+
+  private finish(bookId: number, format: 'fb2' | 'epub', fingerprint: string, meta: { title: string; authors: string[]; lang: string },
+    toc: ReaderTocEntry[], chapters: ReaderChapter[], image: (id: string) => Fb2Binary | null): ReaderBook {
+    return {
+      fingerprint,
+      image,
+      chapters,
+      info: {
+        bookId,
+        format,
+        ...meta,
+        toc,
+        chapters: chapters.map(({ index, title, chars }) => ({ index, title, chars })),
+        totalChars: chapters.reduce((sum, c) => sum + c.chars, 0)
+      }
+    };
+  }
+
+  private parseFb2Book(bookId: number, raw: Buffer, fingerprint: string): ReaderBook {
+    const doc = parseFb2(raw);
+    const outline = buildOutline(doc);
+    // Footnotes become one extra chapter after the text
+    const notesIndex = outline.chapters.length;
+    const renderer = new Fb2HtmlRenderer(doc, outline, {
+      imageSrc: id => {
+        const bin = doc.binaries.get(id);
+        return bin && bin.contentType.startsWith('image/') ? this.imageUrl(bookId, id) : null;
+      },
+      chapterHref: i => `?chapter=${i}`,
+      notesHref: `?chapter=${notesIndex}`
+    });
+
+    // Chapters first: note back-links only exist for references already rendered
+    const chapters = outline.chapters.map(c => chapterView(c.index, c.title, renderer.chapter(c.index)));
+    const toc: ReaderTocEntry[] = outline.toc.map(function copy(e: Fb2TocEntry): ReaderTocEntry {
+      return { title: e.title, chapter: e.chapter, anchor: e.anchor, children: e.children.map(copy) };
+    });
+    if (doc.notes.size) {
+      const title = doc.notesTitle || 'Примечания';
+      chapters.push(chapterView(notesIndex, title, `<section class="notes">\n<h2>${escapeHtml(title)}</h2>\n${renderer.notes()}\n</section>`));
+      toc.push({ title, chapter: notesIndex, anchor: '', children: [] });
+    }
+
+    return this.finish(bookId, 'fb2', fingerprint, {
+      title: doc.meta.title || '',
+      authors: doc.meta.authors.map(fb2AuthorName).filter(Boolean),
+      lang: doc.meta.lang || ''
+    }, toc, chapters, id => {
+      const bin = doc.binaries.get(id);
+      return bin && bin.contentType.startsWith('image/') ? bin : null;
+    });
+  }
+
+  private parseEpub(bookId: number, raw: Buffer, fingerprint: string): ReaderBook {
+    const zip = new AdmZip(raw);
+    const readText = (name: string): string | null => {
+      const entry = zip.getEntry(name);
+      return entry ? entry.getData().toString('utf8') : null;
+    };
+
+    const container = readText('META-INF/container.xml');
+    const rootfile = container ? findElement(parseXml(container), el => el.name === 'rootfile') : undefined;
+    const opfPath = rootfile && xmlAttr(rootfile, 'full-path');
+    const opfText = opfPath ? readText(opfPath) : null;
+    if (!opfPath || !opfText) throw new Error('EPUB package document not found');
+
+    const opf = parseXml(opfText);
+    const pkg = xmlChild(opf, 'package');
+    const metadata = xmlChild(pkg, 'metadata');
+    const manifest = new Map<string, EpubManifestItem>();
+    for (const item of xmlChildren(xmlChild(pkg, 'manifest'), 'item')) {
+      const id = xmlAttr(item, 'id');
+      const href = xmlAttr(item, 'href');
+      const resolved = href ? resolveEntry(opfPath, href) : null;
+      if (!id || !resolved) continue;
+      manifest.set(id, {
+        id,
+        path: resolved,
+        mediaType: (xmlAttr(item, 'media-type') || '').toLowerCase(),
+        properties: (xmlAttr(item, 'properties') || '').split(/\s+/).filter(Boolean)
+      });
+    }
+    const spineEl = xmlChild(pkg, 'spine');
+    // Non-linear items (footnotes, mostly) stay in spine order so links into them keep working
+    const spine = xmlChildren(spineEl, 'itemref')
+      .map(ref => manifest.get(xmlAttr(ref, 'idref') || ''))
+      .filter((item): item is EpubManifestItem => !!item && /x?html/.test(item.mediaType));
+    const spineIndex = new Map(spine.map((item, i) => [item.path, i]));
+    const images = new Map([...manifest.values()].filter(i => i.mediaType.startsWith('image/')).map(i => [i.path, i]));
+
+    const linkTarget = (baseFile: string, href: string): { chapter: number; anchor: string } | null => {
+      const { file, fragment } = splitHref(href);
+      const resolved = file ? resolveEntry(baseFile, file) : baseFile;
+      const chapter = resolved === null ? undefined : spineIndex.get(resolved);
+      return chapter === undefined ? null : { chapter, anchor: fragment };
+    };
+
+    const toc = this.epubToc(manifest, spineEl, readText, linkTarget);
+    const titles = new Map<number, string>();
+    const collectTitles = (entries: ReaderTocEntry[]): void => entries.forEach(e => {
+      if (!titles.has(e.chapter)) titles.set(e.chapter, e.title);
+      collectTitles(e.children);
+    });
+    collectTitles(toc);
+
+    const chapters = spine.map((item, index) => {
+      const source = readText(item.path);
+      const doc = source ? parseXml(source) : undefined;
+      const body = doc && findElement(doc, el => el.name === 'body');
+      const html = body ? sanitizeNodes(body.children, {
+        rewriteHref: href => {
+          if (/^(https?|mailto):/i.test(href)) return href;
+          const target = linkTarget(item.path, href);
+          return target ? `?chapter=${target.chapter}${target.anchor ? `#${target.anchor}` : ''}` : null;
+        },
+        rewriteSrc: src => {
+          const resolved = resolveEntry(item.path, src);
+          return resolved && images.has(resolved) ? this.imageUrl(bookId, resolved) : null;
+        }
+      }) : '';
+      const docTitle = doc ? xmlText(findElement(doc, el => el.name === 'title')).trim() : '';
+      return chapterView(index, titles.get(index) || docTitle, html);
+    });
+
+    const dc = (name: string): XmlElement[] => xmlChildren(metadata, name);
+    return this.finish(bookId, 'epub', fingerprint, {
+      title: xmlText(dc('title')[0]).trim(),
+      authors: dc('creator').map(el => xmlText(el).trim()).filter(Boolean),
+      lang: xmlText(dc('language')[0]).trim()
+    }, toc, chapters, id => {
+      const item = images.get(id);
+      const entry = item && zip.getEntry(item.path);
+      return item && entry ? { contentType: item.mediaType, data: entry.getData() } : null;
+    });
+  }
+
+  // EPUB 3 navigation document, falling back to the EPUB 2 NCX
+  private epubToc(manifest: Map<string, EpubManifestItem>, spineEl: XmlElement | undefined,
+    readText: (name: string) => string | null,
+    linkTarget: (baseFile: string, href: string) => { chapter: number; anchor: string } | null): ReaderTocEntry[] {
+    const navItem = [...manifest.values()].find(i => i.properties.includes('nav'));
+    const navText = navItem ? readText(navItem.path) : null;
+    if (navItem && navText) {
+      const navDoc = parseXml(navText);
+      const nav = findElement(navDoc, el => el.name === 'nav' && (xmlAttr(el, 'type') || '').split(/\s+/).includes('toc'))
+        || findElement(navDoc, el => el.name === 'nav');
+      const walkList = (list: XmlElement | undefined): ReaderTocEntry[] => xmlChildren(list, 'li').flatMap(li => {
+        const link = xmlChild(li, 'a') || xmlChild(li, 'span');
+        const children = walkList(xmlChild(li, 'ol'));
+        const href = link && xmlAttr(link, 'href');
+        const target = href ? linkTarget(navItem.path, href) : null;
+        if (!target) return children;
+        return [{ title: xmlText(link).replace(/\s+/g, ' ').trim(), chapter: target.chapter, anchor: target.anchor, children }];
+      });
+      const entries = nav ? walkList(xmlChild(nav, 'ol')) : [];
+      if (entries.length) return entries;
+    }
+
+    const ncxItem = manifest.get((spineEl && xmlAttr(spineEl, 'toc')) || '')
+      || [...manifest.values()].find(i => i.mediaType === 'application/x-dtbncx+xml');
+    const ncxText = ncxItem ? readText(ncxItem.path) : null;
+    if (!ncxItem || !ncxText) return [];
+    const walkPoints = (parent: XmlElement | undefined): ReaderTocEntry[] => xmlChildren(parent, 'navpoint').flatMap(point => {
+      const children = walkPoints(point);
+      const content = xmlChild(point, 'content');
+      const src = content && xmlAttr(content, 'src');
+      const target = src ? linkTarget(ncxItem.path, src) : null;
+      if (!target) return children;
+      const label = xmlText(xmlChild(xmlChild(point, 'navlabel'), 'text'));
+      return [{ title: label.replace(/\s+/g, ' ').trim(), chapter: target.chapter, anchor: target.anchor, children }];
+    });
+    return walkPoints(findElement(parseXml(ncxText), el => el.name === 'navmap'));
+  }
+}
+
+export default new ReaderService();
@@ -0,0 +1,139 @@
+import { getRow, getRows, query } from '../database/connection';
+import logger from '../utils/logger';
+
+/**
+ * Text search configuration per libbook.lang. Languages without a stemmer in PostgreSQL
+ * (Ukrainian, Belarusian, ...) and configurations missing on the server fall back to `simple`.
+ */
+export const LANGUAGE_CONFIGS: Record<string, string> = {
+  ru: 'russian', en: 'english', de: 'german', fr: 'french', es: 'spanish', it: 'italian', pt: 'portuguese',
+  nl: 'dutch', sv: 'swedish', no: 'norwegian', nb: 'norwegian', nn: 'norwegian', da: 'danish', fi: 'finnish',
+  hu: 'hungarian', ro: 'romanian', tr: 'turkish', el: 'greek', lt: 'lithuanian', id: 'indonesian', hy: 'armenian',
+  ar: 'arabic', ga: 'irish', ne: 'nepali', ta: 'tamil', sr: 'serbian', yi: 'yiddish', ca: 'catalan', eu: 'basque'
+};
+
+const BATCH_SIZE = Math.max(100, parseInt(process.env.SEARCH_VECTOR_BATCH_SIZE || '5000', 10) || 5000);
+
+// Vector text with ё folded into е, matching the query side (see utils/searchText)
+const fold = (expr: string) => `translate(coalesce(${expr}, ''), 'Ёё', 'Ее')`;
+
+export interface SearchVectorRefreshResult {
+  updated: number;
+  full: boolean;
+  ms: number;
+}
+
+class SearchIndexService {
+  private configs: Set<string> | null = null;
+  private refreshing: Promise<SearchVectorRefreshResult> | null = null;
+
+  /** Text search configurations installed on the server */
+  private async availableConfigs(): Promise<Set<string>> {
+    if (!this.configs) {
+      const rows = await getRows(`SELECT cfgname FROM pg_ts_config`);
+      this.configs = new Set(rows.map(r => String(r.cfgname)));
+    }
+    return this.configs;
+  }
+
+  /**
+   * Configurations a query has to be parsed with: the one for the language filter, or every configuration
+   * in use when the search spans all languages (each book's vector was built with its own).
+   */
+  async queryConfigs(language?: string): Promise<string[]> {
+    const available = await this.availableConfigs();
+    const usable = (cfg: string | undefined) => (cfg && available.has(cfg) ? cfg : 'simple');
+    const lang = (language || '').trim().toLowerCase();
+    if (lang) return [usable(LANGUAGE_CONFIGS[lang])];
+    return Array.from(new Set(['simple', ...Object.values(LANGUAGE_CONFIGS).map(usable)]));
+  }
+
+  /** SQL tsquery for parameter $n under the given configurations (names come from LANGUAGE_CONFIGS only) */
+  tsQuerySql(configs: string[], paramIndex: number): string {
+    const parts = configs.map(cfg => `websearch_to_tsquery('${cfg}'::regconfig, $${paramIndex})`);
+    return parts.length === 1 ? parts[0]! : `(${parts.join(' || ')})`;
+  }
+
+  /**
+   * Columns, index, the language -> configuration function and the title trigger on libbook.
+   * Idempotent; runs in migrations and again after SQL updates, which recreate libbook.
+   */
+  async ensureSchema(): Promise<void> {
+    await query(`ALTER TABLE libbook ADD COLUMN IF NOT EXISTS search_vector tsvector`);
+    // Configuration the vector was fully built with; NULL marks vectors the refresh still has to (re)build
+    await query(`ALTER TABLE libbook ADD COLUMN IF NOT EXISTS search_vector_config regconfig`);
+    await query(`CREATE INDEX IF NOT EXISTS idx_libbook_search_vector ON libbook USING gin(search_vector)`);
+
+    const available = await this.availableConfigs();
+    const cases = Object.entries(LANGUAGE_CONFIGS)
+      .filter(([, cfg]) => available.has(cfg))
+      .map(([lang, cfg]) => `WHEN '${lang}' THEN '${cfg}'::regconfig`)
+      .join(' ');
+    await query(`
+      CREATE OR REPLACE FUNCTION search_config_for_lang(lang text) RETURNS regconfig AS $$
+        SELECT CASE lower(trim(coalesce(lang, ''))) ${cases} ELSE 'simple'::regconfig END
+      $$ LANGUAGE sql IMMUTABLE
+    `);
+
+    // New and retitled books get a title-only vector at once; authors and series come with the next refresh
+    await query(`
+      CREATE OR REPLACE FUNCTION libbook_search_vector_refresh() RETURNS trigger AS $$
+      BEGIN
+        NEW.search_vector := setweight(to_tsvector(search_config_for_lang(NEW.lang), ${fold('NEW.title')}), 'A');
+        NEW.search_vector_config := NULL;
+        RETURN NEW;
+      END;
+      $$ LANGUAGE plpgsql
+    `);
+    await query(`
+      DROP TRIGGER IF EXISTS trg_libbook_search_vector_refresh ON libbook;
+      CREATE TRIGGER trg_libbook_search_vector_refresh
+      BEFORE INSERT OR UPDATE OF title, lang ON libbook
+      FOR EACH ROW EXECUTE FUNCTION libbook_search_vector_refresh();
+    `);
+  }
+
+  /**
+   * Build title + author + series vectors with each book's language configuration, in bookid batches
+   * (one short transaction each, so an interrupted run resumes where it stopped).
+   * Incremental by default: only books without a vector, with a title-only one, or whose language maps
+   * to another configuration now. `full` rebuilds everything, e.g. after author or series tables changed.
+   */
+  async refresh(opts: { full?: boolean } = {}): Promise<SearchVectorRefreshResult> {
+    if (this.refreshing) return this.refreshing;
+    this.refreshing = (async () => {
+      const full = !!opts.full;
+      const started = Date.now();
+      const range = await getRow(`SELECT min(bookid)::bigint AS lo, max(bookid)::bigint AS hi FROM libbook`);
+      const lo = Number(range?.lo), hi = Number(range?.hi);
+      let updated = 0;
+      if (Number.isFinite(lo) && Number.isFinite(hi) && range?.lo !== null) {
+        const stale = full ? '' : `AND (b.search_vector IS NULL OR b.search_vector_config IS DISTINCT FROM search_config_for_lang(b.lang))`;
+        for (let from = lo; from <= hi; from += BATCH_SIZE) {
+          const result = await query(`
+            UPDATE libbook b SET
+              search_vector =
+                setweight(to_tsvector(search_config_for_lang(b.lang), ${fold('b.title')}), 'A') ||
+                setweight(to_tsvector(search_config_for_lang(b.lang), ${fold(`(
+                  SELECT string_agg(concat_ws(' ', an.firstname, an.middlename, an.lastname, an.nickname), ' ')
+                  FROM libavtor a JOIN libavtorname an ON an.avtorid = a.avtorid
+                  WHERE a.bookid = b.bookid)`)}), 'B') ||
+                setweight(to_tsvector(search_config_for_lang(b.lang), ${fold(`(
+                  SELECT string_agg(s.seqname, ' ')
+                  FROM libseq ls JOIN libseqname s ON s.seqid = ls.seqid
+                  WHERE ls.bookid = b.bookid)`)}), 'C'),
+              search_vector_config = search_config_for_lang(b.lang)
+            WHERE b.bookid >= $1 AND b.bookid < $2 ${stale}
+          `, [from, from + BATCH_SIZE]);
+          updated += result.rowCount || 0;
+        }
+      }
+      const ms = Date.now() - started;
+      logger.info('Search vectors refreshed', { updated, full, ms });
+      return { updated, full, ms };
+    })().finally(() => { this.refreshing = null; });
+    return this.refreshing;
+  }
+}
+
+export default new SearchIndexService();
@@ -0,0 +1,234 @@
+import { getRows } from '../database/connection';
+import logger from '../utils/logger';
+import { foldYo } from '../utils/searchText';
+
+export type SuggestionType = 'book' | 'author' | 'series' | 'genre';
+
+export interface Suggestion {
+  type: SuggestionType;
+  id: number;
+  text: string;
+  subtitle?: string;
+  // Books per author / series / genre, votes per book
+  count: number;
+}
+
+export interface SpellingSuggestion {
+  kind: 'title' | 'author';
+  text: string;
+  similarity: number;
+}
+
+interface Candidate extends Suggestion {
+  score: number;
+}
+
+// How many suggestions of each kind make it into the mixed list
+const TYPE_LIMITS: Record<SuggestionType, number> = { book: 5, author: 4, series: 3, genre: 2 };
+// Rows fetched per kind (and per match mode) before ranking
+const CANDIDATES = 60;
+const CACHE_TTL_MS = 60_000;
+const CACHE_MAX_ENTRIES = 500;
+const GENRES_TTL_MS = 60 * 60_000;
+
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, c => `\\${c}`);
+}
+
+/**
+ * Rank a candidate: exact match, then whole-text prefix, then word prefix, then substring;
+ * popularity (log-scaled) and shorter texts break ties within a tier.
+ */
+function score(text: string, q: string, popularity: number): number {
+  const t = text.toLowerCase().trim();
+  let match = 0;
+  if (t === q) match = 3;
+  else if (t.startsWith(q)) match = 2;
+  else if (t.split(/[\s\-.,:«»"()]+/).some(word => word.startsWith(q))) match = 1;
+  return match + Math.min(1, Math.log10(1 + popularity) / 4) - Math.min(0.2, t.length / 1000);
+}
+
+class SearchService {
+  private cache: Map<string, { time: number; data: Suggestion[] }> = new Map();
+  private genres: { time: number; rows: Array<{ genreid: number; genredesc: string; genremeta: string; books: number }> } | null = null;
+
+  /**
+   * Mixed search-as-you-type suggestions for books, authors, series and genres.
+   * Candidates come from the trigram indexes (substring match; prefix match for 1–2 characters,
+   * where trigrams of a substring pattern would not narrow anything down).
+   */
+  async suggest(rawQuery: string, limit = 10): Promise<Suggestion[]> {
+    const q = rawQuery.replace(/\s+/g, ' ').trim().toLowerCase();
+    if (q.length < 2) return [];
+    const cacheKey = `${q}|${limit}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached && Date.now() - cached.time < CACHE_TTL_MS) return cached.data;
+
+    const prefix = `${escapeLike(q)}%`;
+    const pattern = q.length < 3 ? prefix : `%${escapeLike(q)}%`;
+    const [books, authors, series, genres] = await Promise.all([
+      this.books(prefix, pattern),
+      this.authors(prefix, pattern),
+      this.series(prefix, pattern),
+      this.matchingGenres(q)
+    ]);
+
+    const ranked: Candidate[] = [];
+    const groups: Array<[SuggestionType, Suggestion[]]> = [['book', books], ['author', authors], ['series', series], ['genre', genres]];
+    for (const [type, group] of groups) {
+      const scored = group.map(s => ({ ...s, score: score(s.text, q, s.count) }));
+      scored.sort((a, b) => b.score - a.score);
+      // The same title often exists in several editions: keep the best-ranked one
+      const seen = new Set<string>();
+      const unique = scored.filter(s => {
+        const key = `${s.text.toLowerCase()}|${s.subtitle || ''}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+      ranked.push(...unique.slice(0, TYPE_LIMITS[type]));
+    }
+    ranked.sort((a, b) => b.score - a.score);
+    const data = ranked.slice(0, limit).map(({ score: _score, ...s }) => s);
+
+    this.cache.set(cacheKey, { time: Date.now(), data });
+    if (this.cache.size > CACHE_MAX_ENTRIES) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+    return data;
+  }
+
+  /**
+   * "Did you mean": titles and author names closest to a query that found nothing, by pg_trgm word similarity
+   * (`<%` is served by the same trigram indexes). Best match first.
+   */
+  async didYouMean(queries: string[], kinds: Array<'title' | 'author'> = ['title', 'author'], limit = 5): Promise<SpellingSuggestion[]> {
+    const found = new Map<string, SpellingSuggestion>();
+    for (const raw of queries) {
+      const q = foldYo(raw.replace(/\s+/g, ' ').trim());
+      if (q.length < 3) continue;
+      const parts: string[] = [];
+      if (kinds.includes('title')) {
+        parts.push(`(SELECT 'title' AS kind, title AS text, word_similarity($1, title) AS similarity
+           FROM libbook WHERE deleted = '0' AND $1 <% title
+           ORDER BY similarity DESC LIMIT ${limit})`);
+      }
+      if (kinds.includes('author')) {
+        parts.push(`(SELECT 'author', trim(concat_ws(' ', lastname, firstname)),
+                word_similarity($1, coalesce(lastname,'') || ' ' || coalesce(firstname,'') || ' ' || coalesce(nickname,'')) AS similarity
+           FROM libavtorname
+          WHERE $1 <% (coalesce(lastname,'') || ' ' || coalesce(firstname,'') || ' ' || coalesce(nickname,''))
+          ORDER BY similarity DESC LIMIT ${limit})`);
+      }
+      if (!parts.length) break;
+      const rows = await getRows(parts.join(' UNION ALL '), [q]);
+      for (const row of rows) {
+        const text = String(row.text || '').trim();
+        const key = `${row.kind}|${foldYo(text).toLowerCase()}`;
+        if (!text || foldYo(text).toLowerCase() === q.toLowerCase()) continue;
+        const similarity = Math.round(Number(row.similarity) * 100) / 100;
+        if (!found.has(key) || found.get(key)!.similarity < similarity) found.set(key, { kind: row.kind, text, similarity });
+      }
+    }
+    return Array.from(found.values()).sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+  }
+
+  // Title matches (idx_libbook_title_trgm); popularity is the number of reader votes
+  private async books(prefix: string, pattern: string): Promise<Suggestion[]> {
+    const rows = await getRows(`
+      WITH c AS (
+        (SELECT bookid, title FROM libbook WHERE deleted = '0' AND title ILIKE $1 LIMIT ${CANDIDATES})
+        UNION
+        (SELECT bookid, title FROM libbook WHERE deleted = '0' AND title ILIKE $2 LIMIT ${CANDIDATES})
+      )
+      SELECT c.bookid, c.title, coalesce(rt.rating_count, 0) AS votes,
+             (SELECT concat_ws(' ', an.firstname, an.lastname) FROM libavtor a
+                JOIN libavtorname an ON a.avtorid = an.avtorid
+               WHERE a.bookid = c.bookid ORDER BY a.pos LIMIT 1) AS author
+      FROM c
+      LEFT JOIN book_ratings rt ON rt.bookid = c.bookid
+    `, [prefix, pattern]);
+    return rows.map(r => ({
+      type: 'book' as const,
+      id: Number(r.bookid),
+      text: String(r.title),
+      ...(String(r.author || '').trim() ? { subtitle: String(r.author).trim() } : {}),
+      count: Number(r.votes) || 0
+    }));
+  }
+
+  // Name matches on the same expression as idx_libavtorname_full_trgm; popularity is the number of books
+  private async authors(prefix: string, pattern: string): Promise<Suggestion[]> {
+    const rows = await getRows(`
+      WITH c AS (
+        (SELECT avtorid FROM libavtorname
+          WHERE (coalesce(lastname,'') || ' ' || coalesce(firstname,'') || ' ' || coalesce(nickname,'')) ILIKE $1
+          LIMIT ${CANDIDATES})
+        UNION
+        (SELECT avtorid FROM libavtorname
+          WHERE (coalesce(lastname,'') || ' ' || coalesce(firstname,'') || ' ' || coalesce(nickname,'')) ILIKE $2
+          LIMIT ${CANDIDATES})
+      )
+      SELECT an.avtorid, an.lastname, an.firstname, an.middlename, an.nickname,
+             (SELECT count(*) FROM libavtor a WHERE a.avtorid = an.avtorid)::int AS books
+      FROM c
+      JOIN libavtorname an ON an.avtorid = c.avtorid
+    `, [prefix, pattern]);
+    return rows.map(r => {
+      const name = [r.lastname, r.firstname, r.middlename].filter(Boolean).join(' ').trim() || String(r.nickname || '');
+      return {
+        type: 'author' as const,
+        id: Number(r.avtorid),
+        text: name,
+        ...(r.nickname && name !== r.nickname ? { subtitle: String(r.nickname) } : {}),
+        count: Number(r.books) || 0
+      };
+    }).filter(s => s.text && s.count > 0);
+  }
+
+  // Series names (idx_libseqname_seqname_trgm); popularity is the number of books in the series
+  private async series(prefix: string, pattern: string): Promise<Suggestion[]> {
+    const rows = await getRows(`
+      WITH c AS (
+        (SELECT seqid, seqname FROM libseqname WHERE seqname ILIKE $1 LIMIT ${CANDIDATES})
+        UNION
+        (SELECT seqid, seqname FROM libseqname WHERE seqname ILIKE $2 LIMIT ${CANDIDATES})
+      )
+      SELECT c.seqid, c.seqname, (SELECT count(*) FROM libseq s WHERE s.seqid = c.seqid)::int AS books
+      FROM c
+    `, [prefix, pattern]);
+    return rows
+      .map(r => ({ type: 'series' as const, id: Number(r.seqid), text: String(r.seqname), count: Number(r.books) || 0 }))
+      .filter(s => s.count > 0);
+  }
+
+  // The genre list is small: keep it with book counts in memory and match here
+  private async matchingGenres(q: string): Promise<Suggestion[]> {
+    if (!this.genres || Date.now() - this.genres.time > GENRES_TTL_MS) {
+      try {
+        const rows = await getRows(`
+          SELECT gl.genreid, gl.genredesc, gl.genremeta, count(g.bookid)::int AS books
+          FROM libgenrelist gl
+          LEFT JOIN libgenre g ON g.genreid = gl.genreid
+          GROUP BY gl.genreid, gl.genredesc, gl.genremeta
+        `);
+        this.genres = { time: Date.now(), rows: rows as any };
+      } catch (error) {
+        logger.warn('Genre list for suggestions unavailable', { error: (error as Error).message });
+        if (!this.genres) return [];
+      }
+    }
+    return this.genres!.rows
+      .filter(g => g.books > 0 && g.genredesc.toLowerCase().includes(q))
+      .map(g => ({
+        type: 'genre' as const,
+        id: Number(g.genreid),
+        text: g.genredesc,
+        ...(g.genremeta ? { subtitle: g.genremeta } : {}),
+        count: g.books
+      }));
+  }
+}
+
+export default new SearchService();
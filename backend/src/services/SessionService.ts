@@ -6,9 +6,16 @@ import {
   SessionUser, 
   AnonymousUser, 
   FavoritesResponse,
-  ProgressResponse 
+  ProgressResponse,
+  ReadingLocator,
+  SaveProgressResult,
+  StoredLocator
 } from '../types';
 
+// Upsert condition for progress rows: the incoming row wins unless the stored one is strictly newer
+const PROGRESS_NEWER_THAN_STORED = `progress.updated_at IS NULL
+          OR (EXCLUDED.updated_at IS NOT NULL AND EXCLUDED.updated_at >= progress.updated_at)`;
+
 class SessionService {
   
   /**
@@ -196,26 +203,36 @@ class SessionService {
   }
 
   /**
-   * Save reading progress
+   * Save reading progress. Saves carrying a timestamp are merged last-writer-wins, so a device
+   * syncing an older position cannot overwrite a newer one; the stored position is returned either way.
    */
-  async saveProgress(userUuid: string, bookId: string | number, position: number | null): Promise<{ success: boolean }> {
+  async saveProgress(
+    userUuid: string,
+    bookId: string | number,
+    position: number | null,
+    update: { locator?: StoredLocator | null; device?: string | null; updatedAt?: Date } = {}
+  ): Promise<SaveProgressResult> {
     try {
-      if (position === 0 || position === null) {
+      if ((position === 0 || position === null) && !update.locator) {
         // Remove progress if position is 0
         await query(`
           DELETE FROM progress WHERE user_uuid = $1 AND bookid = $2
         `, [userUuid, bookId]);
-      } else {
-        // Save or update progress
-        await query(`
-          INSERT INTO progress (user_uuid, bookid, pos) 
-          VALUES ($1, $2, $3) 
-          ON CONFLICT(user_uuid, bookid) 
-          DO UPDATE SET pos = $3
-        `, [userUuid, bookId, position]);
+        return { success: true, applied: true, locator: null };
       }
 
-      return { success: true };
+      // Save or update progress unless the stored one is newer
+      const saved = await getRow(`
+        INSERT INTO progress (user_uuid, bookid, pos, locator, device, updated_at) 
+        VALUES ($1, $2, $3, $4, $5, $6) 
+        ON CONFLICT(user_uuid, bookid) 
+        DO UPDATE SET pos = EXCLUDED.pos, locator = EXCLUDED.locator, device = EXCLUDED.device, updated_at = EXCLUDED.updated_at
+        WHERE ${PROGRESS_NEWER_THAN_STORED}
+        RETURNING bookid
+      `, [userUuid, bookId, position || 0, update.locator ? JSON.stringify(update.locator) : null,
+        update.device || null, update.updatedAt || new Date()]);
+
+      return { success: true, applied: !!saved, locator: await this.getProgressLocator(userUuid, bookId) };
     } catch (error) {
       logger.error('Error saving progress:', error);
       throw error;
@@ -238,6 +255,33 @@ class SessionService {
     }
   }
 
+  /**
+   * Get the stored locator for a book; null for legacy percentage-only progress
+   */
+  async getProgressLocator(userUuid: string, bookId: string | number): Promise<ReadingLocator | null> {
+    try {
+      const result = await getRow(`
+        SELECT pos, locator, device, updated_at FROM progress WHERE user_uuid = $1 AND bookid = $2
+      `, [userUuid, bookId]);
+
+      return result ? this.toLocator(result) : null;
+    } catch (error) {
+      logger.error('Error getting progress locator:', error);
+      return null;
+    }
+  }
+
+  private toLocator(row: Record<string, any>): ReadingLocator | null {
+    if (!row.locator) return null;
+    const locator: ReadingLocator = {
+      ...(row.locator as StoredLocator),
+      percentage: parseFloat(row.pos),
+      updatedAt: row.updated_at ? new Date(row.updated_at).toISOString() : new Date(0).toISOString()
+    };
+    if (row.device) locator.device = row.device;
+    return locator;
+  }
+
   /**
    * Get user's reading progress with book details
    */
@@ -245,8 +289,9 @@ class SessionService {
     try {
       const offset = page * limit;
       
+      // Most recently read first: the "continue reading" list
       const progress = await getRows(`
-        SELECT p.bookid, p.pos,
+        SELECT p.bookid, p.pos, p.locator, p.device, p.updated_at,
                b.title, b.year, b.lang, b.filetype,
                array_agg(DISTINCT an.lastname || COALESCE(' ' || an.firstname, '')) FILTER (WHERE an.lastname IS NOT NULL) as authors
         FROM progress p
@@ -254,8 +299,8 @@ class SessionService {
         LEFT JOIN libavtor av ON b.bookid = av.bookid
         LEFT JOIN libavtorname an ON av.avtorid = an.avtorid
         WHERE p.user_uuid = $1 AND b.deleted = '0'
-        GROUP BY p.bookid, p.pos, b.title, b.year, b.lang, b.filetype
-        ORDER BY p.pos DESC
+        GROUP BY p.bookid, p.pos, p.locator, p.device, p.updated_at, b.title, b.year, b.lang, b.filetype
+        ORDER BY p.updated_at DESC NULLS LAST, p.bookid DESC
         LIMIT $2 OFFSET $3
       `, [userUuid, limit, offset]);
 
@@ -268,7 +313,7 @@ class SessionService {
       `, [userUuid]);
 
       return {
-        progress: progress as any,
+        progress: progress.map(row => ({ ...row, locator: this.toLocator(row) })) as any,
         pagination: {
           page,
           limit,
@@ -356,11 +401,17 @@ class SessionService {
         WHERE user_uuid = $2
       `, [registeredUuid, anonymousUuid]);
 
-      // Transfer progress
+      // Transfer progress; books read on both accounts keep the newer position
       await query(`
-        UPDATE progress SET user_uuid = $1 
-        WHERE user_uuid = $2
+        INSERT INTO progress (user_uuid, bookid, pos, locator, device, updated_at)
+        SELECT $1, bookid, pos, locator, device, updated_at FROM progress WHERE user_uuid = $2
+        ON CONFLICT(user_uuid, bookid)
+        DO UPDATE SET pos = EXCLUDED.pos, locator = EXCLUDED.locator, device = EXCLUDED.device, updated_at = EXCLUDED.updated_at
+        WHERE ${PROGRESS_NEWER_THAN_STORED}
       `, [registeredUuid, anonymousUuid]);
+      await query(`
+        DELETE FROM progress WHERE user_uuid = $1
+      `, [anonymousUuid]);
 
       // Remove anonymous user entry
       await query(`
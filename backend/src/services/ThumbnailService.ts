@@ -0,0 +1,234 @@
+import path from 'path';
+import os from 'os';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import { spawn } from 'child_process';
+import { Worker } from 'worker_threads';
+import logger from '../utils/logger';
+import { ThumbnailJob, ThumbnailResult, renderJpegThumbnail } from '../utils/thumbnailWorker';
+import CacheService from './CacheService';
+
+/** Widths and heights a cover may be requested at (?w= / ?h=); a fixed set keeps the cache bounded */
+export const COVER_SIZES = [120, 160, 240, 320, 480, 640];
+
+export type ThumbnailFormat = 'avif' | 'webp' | 'jpeg';
+
+export interface ThumbnailSize {
+  width?: number;
+  height?: number;
+}
+
+const FORMAT_EXT: Record<ThumbnailFormat, string> = { avif: 'avif', webp: 'webp', jpeg: 'jpg' };
+const RENDER_TIMEOUT_MS = 30000;
+// Compiled worker script; when running from the TypeScript sources (dev, tests) built-in renders run inline
+const WORKER_SCRIPT = path.join(__dirname, '..', 'utils', 'thumbnailWorker.js');
+
+function thumbnailsRoot() { return process.env.THUMBNAILS_CACHE_PATH || '/app/cache/thumbnails'; }
+
+function quality(): number {
+  const q = Number(process.env.THUMBNAIL_QUALITY || 80);
+  return Number.isFinite(q) ? Math.min(100, Math.max(1, Math.round(q))) : 80;
+}
+
+// Media types the client accepts with a non-zero q
+function acceptedTypes(accept: string | undefined): Set<string> {
+  const types = new Set<string>();
+  for (const part of (accept || '').split(',')) {
+    const [type, ...params] = part.trim().toLowerCase().split(';');
+    const q = params.map(p => p.trim()).find(p => p.startsWith('q='));
+    if (type && !(q && Number(q.slice(2)) === 0)) types.add(type.trim());
+  }
+  return types;
+}
+
+// Built-in renders at a time (THUMBNAIL_WORKERS); each takes one worker thread
+function builtInConcurrency(): number {
+  const workers = Number(process.env.THUMBNAIL_WORKERS || Math.min(2, os.cpus().length - 1));
+  return Number.isFinite(workers) ? Math.max(1, Math.round(workers)) : 1;
+}
+
+class ThumbnailService {
+  private magick: { command: string; formats: ThumbnailFormat[] } | null | undefined;
+  private detecting: Promise<void> | null = null;
+  private inProgress: Map<string, Promise<string | null>> = new Map();
+  private useWorkers: boolean | undefined;
+  private idleWorkers: Worker[] = [];
+  private rendering = 0;
+  private waiting: Array<() => void> = [];
+
+  /**
+   * Find ImageMagick (IMAGEMAGICK_COMMAND, else `magick`, else `convert`) and the formats it can write.
+   * ENABLE_IMAGEMAGICK=0 forces the built-in JPEG resizer.
+   */
+  private async detectMagick(): Promise<void> {
+    if (this.magick !== undefined) return;
+    if (this.detecting) return this.detecting;
+    this.detecting = (async () => {
+      if (process.env.ENABLE_IMAGEMAGICK === '0') { this.magick = null; return; }
+      const candidates = process.env.IMAGEMAGICK_COMMAND ? [process.env.IMAGEMAGICK_COMMAND] : ['magick', 'convert'];
+      for (const command of candidates) {
+        const listing = await this.run(command, ['-list', 'format'], 5000).catch(() => null);
+        if (!listing) continue;
+        const text = listing.toString('utf8');
+        const formats = (['avif', 'webp'] as const).filter(f => new RegExp(`^\\s*${f}\\*?\\s+\\S+\\s+[r-]w`, 'mi').test(text));
+        this.magick = { command, formats: [...formats, 'jpeg'] };
+        logger.info('ImageMagick found for cover thumbnails', { command, formats: this.magick.formats });
+        return;
+      }
+      this.magick = null;
+      logger.info('ImageMagick not found, cover thumbnails use the built-in JPEG resizer');
+    })().finally(() => { this.detecting = null; });
+    return this.detecting;
+  }
+
+  /** Output formats this server can produce, best first */
+  async availableFormats(): Promise<ThumbnailFormat[]> {
+    await this.detectMagick();
+    return this.magick ? this.magick.formats : ['jpeg'];
+  }
+
+  /** Best format for an Accept header: AVIF, then WebP, then JPEG */
+  async negotiate(accept: string | undefined): Promise<ThumbnailFormat> {
+    const accepted = acceptedTypes(accept);
+    const formats = await this.availableFormats();
+    return formats.find(f => f === 'jpeg' || accepted.has(`image/${f}`)) || 'jpeg';
+  }
+
+  /**
+   * Path of a cached thumbnail of a cover, rendering it on first use (or when the cover changed).
+   * `key` names the cache entry (a book id, or e.g. `123.placeholder.r2` for generated covers).
+   * Returns null when the cover cannot be resized here and should be served as is.
+   */
+  async thumbnail(key: number | string, sourcePath: string, size: ThumbnailSize, format: ThumbnailFormat): Promise<string | null> {
+    const name = `${key}.${size.width ? `w${size.width}` : ''}${size.height ? `h${size.height}` : ''}.${FORMAT_EXT[format]}`;
+    const target = path.join(thumbnailsRoot(), name);
+    const [source, existing] = await Promise.all([fs.stat(sourcePath), fs.stat(target).catch(() => null)]);
+    if (existing && existing.mtimeMs >= source.mtimeMs) {
+      CacheService.touch(target);
+      return target;
+    }
+
+    if (this.inProgress.has(target)) return this.inProgress.get(target)!;
+    const promise = (async () => {
+      try {
+        await this.detectMagick();
+        const data = this.magick
+          ? await this.renderWithMagick(sourcePath, size, format)
+          : format === 'jpeg' ? await this.renderBuiltIn(sourcePath, size) : null;
+        if (!data) return null;
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, data);
+        CacheService.noteWrite(target, data.length);
+        logger.debug('Cover thumbnail rendered', { key, name, size: data.length, source: source.size });
+        return target;
+      } finally { this.inProgress.delete(target); }
+    })();
+    this.inProgress.set(target, promise);
+    return promise;
+  }
+
+  /**
+   * Render the thumbnails listed in THUMBNAIL_PRECACHE_SIZES (widths, default 320) in every available format.
+   * Used by cover precaching so grids never wait for a resize.
+   */
+  async pregenerate(bookId: number, sourcePath: string): Promise<number> {
+    const widths = (process.env.THUMBNAIL_PRECACHE_SIZES ?? '320').split(',')
+      .map(s => Number(s.trim())).filter(w => COVER_SIZES.includes(w));
+    let rendered = 0;
+    for (const format of await this.availableFormats()) {
+      for (const width of widths) {
+        try {
+          if (await this.thumbnail(bookId, sourcePath, { width }, format)) rendered++;
+        } catch (error) {
+          logger.debug('Cover thumbnail pregeneration failed', { bookId, width, format, error: (error as Error).message });
+        }
+      }
+    }
+    return rendered;
+  }
+
+  private renderWithMagick(sourcePath: string, size: ThumbnailSize, format: ThumbnailFormat): Promise<Buffer> {
+    // `>` only ever shrinks; [0] takes the first frame of animated images
+    const geometry = `${size.width || ''}x${size.height || ''}>`;
+    return this.run(this.magick!.command, [
+      `${sourcePath}[0]`, '-auto-orient', '-thumbnail', geometry, '-strip', '-quality', String(quality()), `${format}:-`
+    ], RENDER_TIMEOUT_MS);
+  }
+
+  // Pure-TypeScript path for hosts without ImageMagick (and without native modules); JPEG and PNG sources and
+  // generated SVG covers only.
+  // Decoding a large cover takes a while, so renders go to worker threads, a few at a time.
+  private async renderBuiltIn(sourcePath: string, size: ThumbnailSize): Promise<Buffer | null> {
+    const job: ThumbnailJob = { data: await fs.readFile(sourcePath), width: size.width, height: size.height, quality: quality() };
+    if (this.rendering >= builtInConcurrency()) await new Promise<void>(resolve => this.waiting.push(resolve));
+    this.rendering++;
+    try {
+      if (this.useWorkers === undefined) this.useWorkers = existsSync(WORKER_SCRIPT);
+      if (this.useWorkers) return await this.renderInWorker(job);
+      // Inline fallback: at least let pending I/O run between covers
+      await new Promise(resolve => setImmediate(resolve));
+      return renderJpegThumbnail(job);
+    } finally {
+      this.rendering--;
+      this.waiting.shift()?.();
+    }
+  }
+
+  private renderInWorker(job: ThumbnailJob): Promise<Buffer | null> {
+    const worker = this.idleWorkers.pop() || this.spawnWorker();
+    worker.ref();
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        done();
+        worker.terminate().catch(() => undefined);
+        reject(new Error('Built-in thumbnail render timed out'));
+      }, RENDER_TIMEOUT_MS);
+      const onMessage = (result: ThumbnailResult) => {
+        done();
+        // Idle workers must not keep one-off scripts (manage.ts) alive
+        worker.unref();
+        this.idleWorkers.push(worker);
+        if ('error' in result) reject(new Error(result.error));
+        else resolve(result.data ? Buffer.from(result.data.buffer, result.data.byteOffset, result.data.byteLength) : null);
+      };
+      const onExit = (code: number) => {
+        done();
+        reject(new Error(`Thumbnail worker exited with ${code}`));
+      };
+      const done = () => {
+        clearTimeout(timer);
+        worker.off('message', onMessage);
+        worker.off('exit', onExit);
+      };
+      worker.on('message', onMessage);
+      worker.on('exit', onExit);
+      worker.postMessage(job);
+    });
+  }
+
+  private spawnWorker(): Worker {
+    const worker = new Worker(WORKER_SCRIPT);
+    worker.on('error', error => logger.warn('Thumbnail worker failed', { error: error.message }));
+    worker.on('exit', () => { this.idleWorkers = this.idleWorkers.filter(w => w !== worker); });
+    return worker;
+  }
+
+  private run(command: string, args: string[], timeoutMs: number): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+      const out: Buffer[] = [];
+      let stderr = '';
+      const timer = setTimeout(() => { try { child.kill('SIGKILL'); } catch {} }, timeoutMs);
+      child.stdout.on('data', (chunk: Buffer) => out.push(chunk));
+      child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+      child.on('error', (error) => { clearTimeout(timer); reject(error); });
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        if (code === 0 && out.length) resolve(Buffer.concat(out));
+        else reject(new Error(`${command} exited with ${code}: ${stderr.trim().slice(0, 300)}`));
+      });
+    });
+  }
+}
+
+export default new ThumbnailService();
@@ -8,6 +8,9 @@ import { promisify } from 'util';
 import logger from '../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
 import CoverCacheService from './CoverCacheService';
+import ZipIndexService from './ZipIndexService';
+import RatingService from './RatingService';
+import SearchIndexService from './SearchIndexService';
 
 const execAsync = promisify(exec);
 
@@ -249,7 +252,40 @@ class UpdateService {
             this.progress!.currentIndex += 1;
             this.progress!.updatedAt = new Date().toISOString();
         }
-        
+
+        // Votes changed: rebuild the per-book rating aggregate used for sorting and filtering
+        if (results.some(r => r.file === 'lib.librate.sql.gz' && r.status === 'success')) {
+            this.progress!.step = 'Ratings';
+            this.progress!.message = 'Refreshing book ratings';
+            this.progress!.updatedAt = new Date().toISOString();
+            try {
+                const books = await RatingService.refresh();
+                results.push({ file: 'book_ratings', status: 'success', message: `Ratings refreshed for ${books} books` });
+            } catch (error) {
+                logger.error('Book ratings refresh failed:', error);
+                results.push({ file: 'book_ratings', status: 'error', message: (error as Error).message });
+            }
+        }
+
+        // Search vectors: a reloaded libbook comes back without them (incremental rebuild covers it);
+        // changed author or series names alone need every vector rebuilt
+        const reloaded = (file: string) => results.some(r => r.file === file && r.status === 'success');
+        const bookReloaded = reloaded('lib.libbook.sql.gz');
+        const namesReloaded = ['lib.libavtor.sql.gz', 'lib.libavtorname.sql.gz', 'lib.libseq.sql.gz', 'lib.libseqname.sql.gz'].some(reloaded);
+        if (bookReloaded || namesReloaded) {
+            this.progress!.step = 'Search vectors';
+            this.progress!.message = 'Rebuilding search vectors';
+            this.progress!.updatedAt = new Date().toISOString();
+            try {
+                await SearchIndexService.ensureSchema();
+                const result = await SearchIndexService.refresh({ full: !bookReloaded });
+                results.push({ file: 'search_vectors', status: 'success', message: `Search vectors updated for ${result.updated} books` });
+            } catch (error) {
+                logger.error('Search vectors refresh failed:', error);
+                results.push({ file: 'search_vectors', status: 'error', message: (error as Error).message });
+            }
+        }
+
         this.isRunning = false;
         this.currentOperation = '';
         if (this.progress) {
@@ -309,6 +345,20 @@ class UpdateService {
                 this.progress!.currentIndex += 1;
                 this.progress!.updatedAt = new Date().toISOString();
             }
+
+            // Keep the ZIP entry index in step with the archives we just replaced
+            const downloaded = results.filter(r => r.status === 'success').map(r => r.file);
+            if (downloaded.length) {
+                this.progress!.step = 'Indexing';
+                this.progress!.message = `Indexing ${downloaded.length} archives`;
+                this.progress!.updatedAt = new Date().toISOString();
+                try {
+                    const indexResult = await ZipIndexService.refresh({ filenames: downloaded });
+                    logger.info('ZIP index refreshed after daily update', indexResult);
+                } catch (error) {
+                    logger.warn('ZIP index refresh after daily update failed', { error: (error as Error).message });
+                }
+            }
             
             this.isRunning = false;
             this.currentOperation = '';
@@ -0,0 +1,187 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { getRow, getRows, query, transaction } from '../database/connection';
+import logger from '../utils/logger';
+import { readZipDirectory, ZipEntryInfo } from '../utils/zip';
+import { ZipArchiveSummary, ZipIndexRefreshResult } from '../types';
+
+// Book archives (f.fb2.123-456.zip, f.fb2.20240101.zip, d.djvu-1-2.zip, f.n.1-2.zip ...)
+const ARCHIVE_RX = /^[fd]\..+\.zip$/i;
+// Entries named after their book id, e.g. 123456.fb2
+const BOOK_ENTRY_RX = /^(\d+)\.([a-z0-9]+)$/i;
+const INSERT_BATCH_SIZE = 5000;
+
+export interface IndexedBookEntry {
+  archive: string;
+  fileSize: number;
+  entry: ZipEntryInfo;
+}
+
+class ZipIndexService {
+  private booksDir: string;
+
+  constructor() {
+    this.booksDir = process.env.BOOKS_PATH || '/app/flibusta';
+  }
+
+  /**
+   * Index one archive's central directory. Unchanged archives (same size and mtime) are skipped unless forced.
+   */
+  async indexArchive(filename: string, force = false): Promise<{ indexed: boolean; entries: number }> {
+    const fullPath = path.join(this.booksDir, filename);
+    const stat = await fs.stat(fullPath);
+
+    if (!force) {
+      const existing = await getRow(`
+        SELECT file_size, file_mtime, entry_count FROM zip_archives WHERE filename = $1
+      `, [filename]);
+      if (existing && Number(existing.file_size) === stat.size
+        && new Date(existing.file_mtime).getTime() === Math.floor(stat.mtimeMs)) {
+        return { indexed: false, entries: Number(existing.entry_count) };
+      }
+    }
+
+    const entries = (await readZipDirectory(fullPath)).filter(e => !e.name.endsWith('/'));
+
+    await transaction(async client => {
+      await client.query(`
+        INSERT INTO zip_archives (filename, file_size, file_mtime, entry_count, indexed_at)
+        VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)
+        ON CONFLICT (filename) DO UPDATE SET
+          file_size = EXCLUDED.file_size, file_mtime = EXCLUDED.file_mtime,
+          entry_count = EXCLUDED.entry_count, indexed_at = EXCLUDED.indexed_at
+      `, [filename, stat.size, new Date(Math.floor(stat.mtimeMs)), entries.length]);
+      await client.query(`DELETE FROM zip_entries WHERE archive = $1`, [filename]);
+
+      for (let i = 0; i < entries.length; i += INSERT_BATCH_SIZE) {
+        const batch = entries.slice(i, i + INSERT_BATCH_SIZE);
+        const parsed = batch.map(e => BOOK_ENTRY_RX.exec(e.name.split('/').pop() || ''));
+        await client.query(`
+          INSERT INTO zip_entries (archive, entry_name, bookid, file_ext, method, flags, crc32,
+            compressed_size, uncompressed_size, local_header_offset)
+          SELECT $1::varchar, * FROM UNNEST($2::text[], $3::int[], $4::text[], $5::smallint[], $6::int[], $7::bigint[],
+            $8::bigint[], $9::bigint[], $10::bigint[])
+          ON CONFLICT (archive, entry_name) DO NOTHING
+        `, [
+          filename,
+          batch.map(e => e.name),
+          parsed.map(m => (m && m[1]!.length <= 9 ? parseInt(m[1]!, 10) : null)),
+          batch.map(e => path.extname(e.name).slice(1).toLowerCase() || null),
+          batch.map(e => e.method),
+          batch.map(e => e.flags),
+          batch.map(e => e.crc32),
+          batch.map(e => e.compressedSize),
+          batch.map(e => e.uncompressedSize),
+          batch.map(e => e.localHeaderOffset)
+        ]);
+      }
+
+      // Books stored under a custom name are matched through libfilename
+      await client.query(`
+        UPDATE zip_entries z SET bookid = lf.bookid
+        FROM libfilename lf
+        WHERE z.archive = $1 AND z.bookid IS NULL
+          AND lower(regexp_replace(z.entry_name, '^.*/', '')) = lower(lf.filename)
+      `, [filename]);
+
+      await client.query(`
+        UPDATE zip_archives a SET book_count = s.cnt, min_bookid = s.min_id, max_bookid = s.max_id
+        FROM (
+          SELECT COUNT(bookid) AS cnt, MIN(bookid) AS min_id, MAX(bookid) AS max_id
+          FROM zip_entries WHERE archive = $1
+        ) s
+        WHERE a.filename = $1
+      `, [filename]);
+    });
+
+    logger.info('ZIP archive indexed', { filename, entries: entries.length });
+    return { indexed: true, entries: entries.length };
+  }
+
+  /**
+   * Index the given archives, or every book archive in BOOKS_PATH when none are given.
+   * A full scan also drops index rows of archives that no longer exist on disk.
+   */
+  async refresh(options: { filenames?: string[]; force?: boolean; pattern?: RegExp } = {}): Promise<ZipIndexRefreshResult> {
+    const fullScan = !options.filenames;
+    let filenames = options.filenames
+      || (await fs.readdir(this.booksDir)).filter(f => ARCHIVE_RX.test(f));
+    if (options.pattern) filenames = filenames.filter(f => options.pattern!.test(f));
+
+    const result: ZipIndexRefreshResult = { scanned: filenames.length, indexed: 0, unchanged: 0, removed: 0, errors: [] };
+    for (const filename of filenames.sort()) {
+      try {
+        const { indexed } = await this.indexArchive(filename, options.force);
+        if (indexed) result.indexed++;
+        else result.unchanged++;
+      } catch (error) {
+        logger.warn('Failed to index ZIP archive', { filename, error: (error as Error).message });
+        result.errors.push({ filename, error: (error as Error).message });
+      }
+    }
+
+    if (fullScan && !options.pattern) {
+      const removed = await query(`DELETE FROM zip_archives WHERE NOT (filename = ANY($1::text[]))`, [filenames]);
+      result.removed = removed.rowCount || 0;
+    }
+    return result;
+  }
+
+  /**
+   * Find the best indexed entry for a book: requested type first, then fb2/epub/djvu, newest archive wins.
+   */
+  async findBookEntry(bookId: number, requestedType = ''): Promise<IndexedBookEntry | null> {
+    const row = await getRow(`
+      SELECT z.archive, z.entry_name, z.method, z.flags, z.crc32, z.compressed_size,
+             z.uncompressed_size, z.local_header_offset, a.file_size
+      FROM zip_entries z
+      JOIN zip_archives a ON a.filename = z.archive
+      WHERE z.bookid = $1
+      ORDER BY
+        (CASE WHEN $2 <> '' AND z.file_ext = $2 THEN 1 ELSE 0 END) DESC,
+        (CASE WHEN z.file_ext = 'fb2' THEN 1 ELSE 0 END) DESC,
+        (CASE WHEN z.file_ext = 'epub' THEN 1 ELSE 0 END) DESC,
+        (CASE WHEN z.file_ext = 'djvu' THEN 1 ELSE 0 END) DESC,
+        a.file_mtime DESC
+      LIMIT 1
+    `, [bookId, requestedType.toLowerCase().trim()]);
+    if (!row) return null;
+
+    return {
+      archive: row.archive,
+      fileSize: Number(row.file_size),
+      entry: {
+        name: row.entry_name,
+        method: Number(row.method),
+        flags: Number(row.flags),
+        crc32: Number(row.crc32),
+        compressedSize: Number(row.compressed_size),
+        uncompressedSize: Number(row.uncompressed_size),
+        localHeaderOffset: Number(row.local_header_offset)
+      }
+    };
+  }
+
+  /**
+   * Per-archive entry counts and book id bounds, keyed by filename
+   */
+  async getArchiveSummaries(filenames?: string[]): Promise<Map<string, ZipArchiveSummary>> {
+    const rows = await getRows(`
+      SELECT filename, file_size, entry_count, book_count, min_bookid, max_bookid, indexed_at
+      FROM zip_archives
+      WHERE $1::text[] IS NULL OR filename = ANY($1::text[])
+    `, [filenames || null]);
+
+    return new Map(rows.map(r => [r.filename as string, {
+      filename: r.filename,
+      file_size: Number(r.file_size),
+      entry_count: r.entry_count,
+      book_count: r.book_count,
+      min_bookid: r.min_bookid,
+      max_bookid: r.max_bookid,
+      indexed_at: r.indexed_at
+    }]));
+  }
+}
+
+export default new ZipIndexService();
@@ -0,0 +1,130 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import BookLocatorService, { ExtractedFilesBackend, LocalDirectoryBackend } from '../BookLocatorService';
+import { IndexedBookEntry } from '../ZipIndexService';
+import { readZipDirectory } from '../../utils/zip';
+
+// libfilename rows by book id; book_zip is empty, so archives are found by their id range
+const mockLibFilenames = new Map<number, string>();
+const mockFindBookEntry = jest.fn<(bookId: number, requestedType?: string) => Promise<IndexedBookEntry | null>>();
+
+jest.mock('../../database/connection', () => ({
+  getRow: async (_sql: string, params?: unknown[]) => {
+    const filename = mockLibFilenames.get(Number(params?.[0]));
+    return filename ? { filename } : null;
+  },
+  getRows: async () => []
+}));
+jest.mock('../ZipIndexService', () => ({
+  __esModule: true,
+  default: { findBookEntry: (bookId: number, requestedType?: string) => mockFindBookEntry(bookId, requestedType) }
+}));
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: () => {}, warn: () => {}, debug: () => {}, error: () => {} }
+}));
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'locator');
+const ARCHIVES = path.join(FIXTURES, 'archives');
+const EXTRACTED = path.join(FIXTURES, 'extracted');
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk as Buffer));
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+describe('BookLocatorService', () => {
+  beforeEach(() => {
+    mockLibFilenames.clear();
+    mockFindBookEntry.mockReset();
+    mockFindBookEntry.mockResolvedValue(null);
+    BookLocatorService.setBackends([new LocalDirectoryBackend(ARCHIVES)]);
+  });
+
+  describe('local archives', () => {
+    it('matches the exact <id>.<ext> entry in the archive covering the id', async () => {
+      const location = await BookLocatorService.locate(100, 'fb2');
+      expect(location).toMatchObject({ backend: 'local', kind: 'zip', entryName: '100.fb2', format: 'fb2' });
+      expect(path.basename(location.path)).toBe('f.fb2.100-199.zip');
+      expect((await BookLocatorService.read(location)).toString()).toBe('<FictionBook>book 100</FictionBook>\n');
+    });
+
+    it('matches entries by basename inside folders', async () => {
+      const location = await BookLocatorService.locate(101, 'fb2');
+      expect(location.entryName).toBe('sub/101.fb2');
+      expect(location.size).toBe('<FictionBook>book 101 in a folder</FictionBook>\n'.length);
+    });
+
+    it('prefers the archive of the requested format', async () => {
+      const location = await BookLocatorService.locate(100, 'epub');
+      expect(path.basename(location.path)).toBe('f.epub.100-199.zip');
+      expect(location).toMatchObject({ entryName: '100.epub', format: 'epub' });
+    });
+
+    it('falls back to another extension when the requested one is missing', async () => {
+      const location = await BookLocatorService.locate(102, 'fb2');
+      expect(location).toMatchObject({ entryName: '102.epub', format: 'epub' });
+      expect((await BookLocatorService.read(location)).toString()).toBe('epub bytes of 102\n');
+    });
+
+    it('matches the libfilename name before guessing', async () => {
+      mockLibFilenames.set(103, 'Author - Title.fb2');
+      const location = await BookLocatorService.locate(103, 'fb2');
+      expect(location.entryName).toBe('Author - Title.fb2');
+    });
+
+    it('throws when no entry matches the id', async () => {
+      await expect(BookLocatorService.locate(199, 'fb2')).rejects.toThrow('Book file not found in archive');
+      await expect(BookLocatorService.locate(5000, 'fb2')).rejects.toThrow('Book file not found in archive');
+    });
+
+    it('streams whole entries and byte ranges', async () => {
+      const location = await BookLocatorService.locate(100, 'fb2');
+      expect(await readAll(await BookLocatorService.openStream(location))).toBe('<FictionBook>book 100</FictionBook>\n');
+      expect(await readAll(await BookLocatorService.openStream(location, { start: 13, end: 20 }))).toBe('book 100');
+    });
+
+    it('uses the ZIP index while the archive keeps the indexed size', async () => {
+      const archive = path.join(ARCHIVES, 'f.fb2.100-199.zip');
+      const entry = (await readZipDirectory(archive)).find(e => e.name === '100.fb2')!;
+      const { size } = fs.statSync(archive);
+
+      mockFindBookEntry.mockResolvedValue({ archive: 'f.fb2.100-199.zip', fileSize: size, entry: { ...entry, name: 'indexed/100.fb2' } });
+      expect((await BookLocatorService.locate(100, 'fb2')).entryName).toBe('indexed/100.fb2');
+
+      // A rewritten archive invalidates the hit: the directory is read again
+      mockFindBookEntry.mockResolvedValue({ archive: 'f.fb2.100-199.zip', fileSize: size + 1, entry: { ...entry, name: 'indexed/100.fb2' } });
+      expect((await BookLocatorService.locate(100, 'fb2')).entryName).toBe('100.fb2');
+    });
+  });
+
+  describe('extracted files', () => {
+    beforeEach(() => {
+      BookLocatorService.setBackends([new ExtractedFilesBackend(EXTRACTED), new LocalDirectoryBackend(ARCHIVES)]);
+    });
+
+    it('finds flat <id>.<ext> files', async () => {
+      const location = await BookLocatorService.locate(150, 'fb2');
+      expect(location).toMatchObject({ backend: 'extracted', kind: 'file', entry: null, entryName: '150.fb2', format: 'fb2' });
+      expect((await BookLocatorService.read(location)).toString()).toBe('<FictionBook>book 150 extracted</FictionBook>\n');
+      expect(await readAll(await BookLocatorService.openStream(location, { start: 13, end: 20 }))).toBe('book 150');
+    });
+
+    it('finds files sharded by thousands', async () => {
+      const location = await BookLocatorService.locate(2345, 'fb2');
+      expect(location.path).toBe(path.join(EXTRACTED, '2', '2345.fb2'));
+    });
+
+    it('falls through to archives for books that were not extracted', async () => {
+      const location = await BookLocatorService.locate(100, 'fb2');
+      expect(location).toMatchObject({ backend: 'local', kind: 'zip', entryName: '100.fb2' });
+    });
+
+    it('throws when neither backend has the book', async () => {
+      await expect(BookLocatorService.locate(151, 'fb2')).rejects.toThrow('Book file not found in archive');
+    });
+  });
+});
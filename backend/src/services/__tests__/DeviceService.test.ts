@@ -0,0 +1,49 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { DEVICE_FORMAT_CHOICES, chooseDeviceFormat } from '../DeviceService';
+
+jest.mock('../../database/connection', () => ({
+  getRow: async () => null,
+  getRows: async () => [],
+  query: async () => ({ rowCount: 0, rows: [] })
+}));
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: () => {}, warn: () => {}, debug: () => {}, error: () => {} }
+}));
+
+const CALIBRE_TARGETS = ['epub', 'azw3', 'mobi', 'pdf', 'txt'];
+
+describe('chooseDeviceFormat', () => {
+  it('sends the original file when the device reads it', () => {
+    expect(chooseDeviceFormat('pocketbook', null, 'fb2', CALIBRE_TARGETS)).toEqual({ format: 'fb2', convert: false });
+    expect(chooseDeviceFormat('kindle', null, 'epub', CALIBRE_TARGETS)).toEqual({ format: 'epub', convert: false });
+  });
+
+  it('converts to the best format of the device kind', () => {
+    expect(chooseDeviceFormat('kindle', null, 'fb2', CALIBRE_TARGETS)).toEqual({ format: 'epub', convert: true });
+    expect(chooseDeviceFormat('kindle_legacy', null, 'fb2', CALIBRE_TARGETS)).toEqual({ format: 'azw3', convert: true });
+    expect(chooseDeviceFormat('kindle_legacy', null, 'epub', ['mobi'])).toEqual({ format: 'mobi', convert: true });
+  });
+
+  it('puts the device preference first', () => {
+    expect(chooseDeviceFormat('pocketbook', 'epub', 'fb2', CALIBRE_TARGETS)).toEqual({ format: 'epub', convert: true });
+    expect(chooseDeviceFormat('kindle', 'mobi', 'epub', CALIBRE_TARGETS)).toEqual({ format: 'mobi', convert: true });
+  });
+
+  it('prefers the original over a conversion to the same format', () => {
+    expect(chooseDeviceFormat('other', 'pdf', 'pdf', CALIBRE_TARGETS)).toEqual({ format: 'pdf', convert: false });
+  });
+
+  it('skips a preference that cannot be produced', () => {
+    expect(chooseDeviceFormat('kindle', 'azw3', 'fb2', ['epub'])).toEqual({ format: 'epub', convert: true });
+  });
+
+  it('returns null when nothing suits the device', () => {
+    expect(chooseDeviceFormat('kindle_legacy', null, 'djvu', [])).toBeNull();
+    expect(chooseDeviceFormat('other', null, 'fb2', [])).toEqual({ format: 'fb2', convert: false });
+  });
+
+  it('offers every format some device kind accepts as a preference', () => {
+    expect(DEVICE_FORMAT_CHOICES.sort()).toEqual(['azw3', 'epub', 'fb2', 'mobi', 'pdf']);
+  });
+});
@@ -0,0 +1,56 @@
+import bcrypt from 'bcryptjs';
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import OpdsTokenService from '../OpdsTokenService';
+
+// users rows by username
+const mockUsers = new Map<string, Record<string, unknown>>();
+const mockGetRow = jest.fn(async (_sql: string, params?: unknown[]) => mockUsers.get(String(params?.[0])) ?? null);
+
+jest.mock('../../database/connection', () => ({
+  getRow: (sql: string, params?: unknown[]) => mockGetRow(sql, params),
+  getRows: async () => [],
+  query: async () => ({ rowCount: 0, rows: [] })
+}));
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: { info: () => {}, warn: () => {}, debug: () => {}, error: () => {} }
+}));
+
+describe('OpdsTokenService.verifyCredentials', () => {
+  beforeAll(async () => {
+    mockUsers.set('reader', {
+      user_uuid: 'u1', username: 'reader', email: null, role: 'user', is_active: true,
+      display_name: 'Reader', avatar_url: null, password_hash: await bcrypt.hash('secret', 4)
+    });
+  });
+
+  beforeEach(() => {
+    OpdsTokenService.forgetCredentials();
+    mockGetRow.mockClear();
+  });
+
+  it('remembers verified credentials', async () => {
+    const user = await OpdsTokenService.verifyCredentials('reader', 'secret');
+    expect(user).toMatchObject({ user_uuid: 'u1', type: 'registered' });
+    expect(user).not.toHaveProperty('password_hash');
+    expect(await OpdsTokenService.verifyCredentials('reader', 'secret')).toEqual(user);
+    expect(mockGetRow).toHaveBeenCalledTimes(1);
+
+    OpdsTokenService.forgetCredentials();
+    await OpdsTokenService.verifyCredentials('reader', 'secret');
+    expect(mockGetRow).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not remember wrong passwords', async () => {
+    expect(await OpdsTokenService.verifyCredentials('reader', 'guess')).toBeNull();
+    expect(await OpdsTokenService.verifyCredentials('reader', 'guess')).toBeNull();
+    expect(mockGetRow).toHaveBeenCalledTimes(2);
+  });
+
+  it('runs bcrypt for unknown users too', async () => {
+    const compare = jest.spyOn(bcrypt, 'compare');
+    expect(await OpdsTokenService.verifyCredentials('nobody', 'secret')).toBeNull();
+    expect(compare).toHaveBeenCalledTimes(1);
+    compare.mockRestore();
+  });
+});
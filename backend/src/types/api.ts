@@ -22,6 +22,8 @@ export interface Book {
   series?: Series[];
   isFavorite?: boolean;
   readingProgress?: number;
+  rating?: number | null;
+  rating_count?: number;
   coverUrl?: string;
 }
 
@@ -360,6 +362,9 @@ export function buildPaginatedResponse<T>(
  * - GET /api/series/:id - Get series details
  * - GET /api/series/:id/books - Get books in series
  * 
+ * Search API:
+ * - GET /api/search/suggest?q= - Search-as-you-type suggestions (books, authors, series, genres)
+ * 
  * Favorites API:
  * - GET /api/favorites - Get user favorites
  * - POST /api/favorites/books/:bookId - Add book to favorites
@@ -27,6 +27,193 @@ export interface RegisteredUser extends Omit<User, 'password_hash'> {
 
 export type SessionUser = AnonymousUser | RegisteredUser;
 
+// OPDS feed token as listed to its owner (the token itself is only returned on creation)
+export interface OpdsToken {
+  id: number;
+  user_uuid: string;
+  name: string;
+  token_prefix: string;
+  created_at: Date;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+}
+
+// Personal API token scopes and listing shape
+export type ApiTokenScope = 'read' | 'download' | 'favorites' | 'admin';
+
+export interface ApiToken {
+  id: number;
+  user_uuid: string;
+  name: string;
+  token_prefix: string;
+  scopes: ApiTokenScope[];
+  created_at: Date;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+}
+
+// E-reader mailboxes for send-to-device; the kind decides which formats are mailed
+export type DeviceKind = 'kindle' | 'kindle_legacy' | 'pocketbook' | 'other';
+
+export interface UserDevice {
+  id: number;
+  user_uuid: string;
+  name: string;
+  email: string;
+  kind: DeviceKind;
+  preferred_format: string | null;
+  created_at: Date;
+}
+
+export type DeviceDeliveryStatus = 'pending' | 'sent' | 'failed';
+
+export interface DeviceDelivery {
+  id: number;
+  user_uuid: string;
+  device_id: number | null;
+  device_name: string;
+  email: string;
+  book_id: number;
+  title: string | null;
+  format: string | null;
+  status: DeviceDeliveryStatus;
+  error: string | null;
+  size: number | null;
+  message_id: string | null;
+  created_at: Date;
+  sent_at: Date | null;
+}
+
+// Download file naming: server default set by admins, optionally overridden per user
+export interface FileNameSettings {
+  template: string;
+  transliterate: 'none' | 'gost' | 'icao';
+  safeChars: boolean;
+}
+
+// Per-archive row of the ZIP central-directory index
+export interface ZipArchiveSummary {
+  filename: string;
+  file_size: number;
+  entry_count: number;
+  book_count: number;
+  min_bookid: number | null;
+  max_bookid: number | null;
+  indexed_at: Date;
+}
+
+export interface ZipIndexRefreshResult {
+  scanned: number;
+  indexed: number;
+  unchanged: number;
+  removed: number;
+  errors: Array<{ filename: string; error: string }>;
+}
+
+// Background conversion job as returned by the status API
+export type ConversionJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface ConversionJob {
+  id: string;
+  book_id: number;
+  target_format: string;
+  status: ConversionJobStatus;
+  progress: number;
+  message: string | null;
+  error: string | null;
+  attempts: number;
+  output_size: number | null;
+  created_at: Date;
+  started_at: Date | null;
+  finished_at: Date | null;
+}
+
+// Disk cache usage and eviction results (conversions, covers)
+export interface CacheUsage {
+  name: string;
+  path: string;
+  files: number;
+  bytes: number;
+  maxBytes: number;
+  maxAgeDays: number;
+  usedPercent: number | null;
+  oldestAccess: string | null;
+}
+
+export interface CachePruneReport {
+  name: string;
+  path: string;
+  dryRun: boolean;
+  before: { files: number; bytes: number };
+  evicted: { files: number; bytes: number };
+  after: { files: number; bytes: number };
+  maxBytes: number;
+  maxAgeDays: number;
+}
+
+// Web reader
+export interface ReaderTocEntry {
+  title: string;
+  chapter: number;
+  anchor: string;
+  children: ReaderTocEntry[];
+}
+
+export interface ReaderChapterInfo {
+  index: number;
+  title: string;
+  /** Length of the chapter's text content, for character-offset locators */
+  chars: number;
+}
+
+export interface ReaderBookInfo {
+  bookId: number;
+  format: 'fb2' | 'epub';
+  title: string;
+  authors: string[];
+  lang: string;
+  toc: ReaderTocEntry[];
+  chapters: ReaderChapterInfo[];
+  totalChars: number;
+}
+
+/**
+ * Reading position. `chapter` is the reader chapter (FB2 section / EPUB spine item) index and
+ * `offset` a character offset in its text; `cfi` is set by EPUB clients that track one.
+ * Positions synced from KOReader carry its own `xpointer` (or page number) instead of chapter/offset.
+ */
+export interface ReadingLocator {
+  format: string;
+  chapter?: number;
+  offset?: number;
+  cfi?: string;
+  xpointer?: string;
+  percentage: number;
+  device?: string;
+  deviceId?: string;
+  updatedAt: string;
+}
+
+/** Stored part of a locator; percentage, device and timestamp live in their own progress columns */
+export type StoredLocator = Pick<ReadingLocator, 'format' | 'chapter' | 'offset' | 'cfi' | 'xpointer' | 'deviceId'>;
+
+export interface SaveProgressResult {
+  success: boolean;
+  /** False when a newer position from another device was kept (last writer wins) */
+  applied: boolean;
+  locator: ReadingLocator | null;
+}
+
+/** Progress document of the KOReader sync (kosync) protocol; percentage is 0..1, timestamp in seconds */
+export interface KosyncProgress {
+  document: string;
+  progress: string;
+  percentage: number;
+  device: string;
+  device_id: string;
+  timestamp: number;
+}
+
 // Book Types
 export interface Book {
   bookid: string | number;
@@ -61,6 +248,9 @@ export interface ReadingProgress {
   lang: string;
   filetype: string;
   authors: string[];
+  locator?: ReadingLocator | null;
+  device?: string | null;
+  updated_at?: string | null;
 }
 
 // Session Types
@@ -77,6 +267,8 @@ export interface SessionData {
 export interface ExtendedRequest extends Request {
   user?: SessionUser;
   session: Session & SessionData;
+  // Set when the request was authenticated with `Authorization: Bearer`
+  apiToken?: Pick<ApiToken, 'id' | 'name' | 'scopes'>;
 }
 
 export interface AuthenticatedRequest extends Request {
@@ -0,0 +1,30 @@
+import { describe, expect, it } from '@jest/globals';
+import { GLYPH_ROWS, glyphRows, glyphText } from '../bitmapFont';
+
+describe('glyphRows', () => {
+  it('has a cell for every letter of the Russian and English alphabets', () => {
+    const letters = 'АБВГДЕЁЖЗИЙКЛМНОПРСТУФХЦЧШЩЪЫЬЭЮЯабвгдеёжзийклмнопрстуфхцчшщъыьэюяABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    const unknown = glyphRows('?');
+    for (const letter of letters) {
+      const rows = glyphRows(letter);
+      expect(rows).toHaveLength(GLYPH_ROWS);
+      expect(rows).not.toEqual(unknown);
+    }
+    expect(glyphRows(' ').every(row => row === 0)).toBe(true);
+  });
+
+  it('draws Cyrillic letters like their Latin twins and accented ones like the base letter', () => {
+    expect(glyphRows('А')).toEqual(glyphRows('A'));
+    expect(glyphRows('р')).toEqual(glyphRows('p'));
+    expect(glyphRows('é')).toEqual(glyphRows('e'));
+    expect(glyphRows('ї')).toEqual(glyphRows('i'));
+    expect(glyphRows('й')).not.toEqual(glyphRows('и'));
+    expect(glyphRows('✓')).toEqual(glyphRows('?'));
+  });
+});
+
+describe('glyphText', () => {
+  it('spells out the number sign', () => {
+    expect(glyphText('Том № 2').join('')).toBe('Том No 2');
+  });
+});
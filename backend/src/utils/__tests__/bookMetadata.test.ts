@@ -0,0 +1,70 @@
+import fs from 'fs';
+import path from 'path';
+import AdmZip from 'adm-zip';
+import { describe, expect, it } from '@jest/globals';
+import { BookMetadata, embedEpubMetadata, embedFb2Metadata } from '../bookMetadata';
+import { parseFb2 } from '../fb2';
+import { fb2ToEpub } from '../fb2Render';
+
+const SAMPLE = fs.readFileSync(path.join(__dirname, 'fixtures', 'fb2', 'sample.fb2'));
+const SOURCE_DATE = new Date(2020, 4, 6, 7, 8, 10);
+const EPUB = fb2ToEpub(parseFb2(SAMPLE), { identifier: 'urn:flibusta:book:1', modified: SOURCE_DATE });
+
+const META: BookMetadata = {
+  bookId: 1,
+  title: 'Повести Белкина',
+  authors: [{ firstName: 'Александр', middleName: 'Сергеевич', lastName: 'Пушкин' }],
+  series: [{ name: 'Собрание', number: 3 }],
+  genres: [{ code: 'prose_rus_classic', name: 'Русская классика' }],
+  lang: 'ru',
+  annotation: ['Пять повестей.']
+};
+
+describe('embedEpubMetadata', () => {
+  it('rewrites the OPF metadata and keeps the other entries', () => {
+    const out = new AdmZip(embedEpubMetadata(EPUB, META));
+    const opf = out.getEntry('OEBPS/content.opf')!.getData().toString('utf8');
+    expect(opf).toContain('<dc:title id="flb-title">Повести Белкина</dc:title>');
+    expect(opf).not.toContain('Пробная книга');
+    expect(opf).toContain('<dc:creator id="flb-creator1">Александр Сергеевич Пушкин</dc:creator>');
+    expect(opf).toContain('<meta refines="#flb-creator1" property="file-as">Пушкин, Александр Сергеевич</meta>');
+    expect(opf).toContain('<meta name="calibre:series" content="Собрание"/>');
+    expect(opf).toContain('<meta refines="#flb-series1" property="group-position">3</meta>');
+    expect(opf).not.toContain('Повести</meta>');
+    expect(opf).toContain('<dc:identifier id="BookId">urn:flibusta:book:1</dc:identifier>');
+
+    const source = new AdmZip(EPUB);
+    expect(out.getEntries().map(e => e.entryName)).toEqual(source.getEntries().map(e => e.entryName));
+    expect(out.getEntry('OEBPS/chapter-002.xhtml')!.getData().equals(source.getEntry('OEBPS/chapter-002.xhtml')!.getData())).toBe(true);
+  });
+
+  it('repacks the same input to the same bytes, dated by the source package', () => {
+    const first = embedEpubMetadata(EPUB, META);
+    const second = embedEpubMetadata(EPUB, META);
+    expect(second.equals(first)).toBe(true);
+    expect(new AdmZip(first).getEntries().every(e => e.header.time.getTime() === SOURCE_DATE.getTime())).toBe(true);
+    // mimetype stays first and stored
+    expect(first.subarray(30, 38).toString()).toBe('mimetype');
+    expect(first.readUInt16LE(8)).toBe(0);
+  });
+
+  it('adds the library cover only when the book has none', () => {
+    const cover = { data: Buffer.from('jpeg'), contentType: 'image/jpeg' };
+    expect(new AdmZip(embedEpubMetadata(EPUB, META, cover)).getEntry('OEBPS/flibusta-cover.jpg')).toBeNull();
+
+    const plain = fb2ToEpub(parseFb2(fs.readFileSync(path.join(__dirname, 'fixtures', 'fb2', 'windows-1251.fb2'))), { identifier: 'x' });
+    const out = new AdmZip(embedEpubMetadata(plain, META, cover));
+    expect(out.getEntry('OEBPS/flibusta-cover.jpg')!.getData().toString()).toBe('jpeg');
+    expect(out.getEntry('OEBPS/content.opf')!.getData().toString('utf8'))
+      .toContain('<item id="flb-cover" href="flibusta-cover.jpg" media-type="image/jpeg" properties="cover-image"/>');
+  });
+});
+
+describe('embedFb2Metadata', () => {
+  it('replaces the title-info and keeps the body', () => {
+    const out = parseFb2(embedFb2Metadata(SAMPLE, META));
+    expect(out.meta.title).toBe('Повести Белкина');
+    expect(out.meta.sequences).toEqual([{ name: 'Собрание', number: '3' }]);
+    expect(out.bodies[0]!.sections.map(s => s.id)).toEqual(['ch1', 'ch2']);
+  });
+});
@@ -0,0 +1,87 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from '@jest/globals';
+import { Fb2Block, Fb2Section, fb2AuthorName, fb2TitleText, inlineText, parseFb2 } from '../fb2';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'fb2');
+const load = (name: string) => parseFb2(fs.readFileSync(path.join(FIXTURES, name)));
+
+function blocksOf(section: Fb2Section): Fb2Block[] {
+  return section.children.filter((c): c is Fb2Block => c.type !== 'section');
+}
+
+describe('parseFb2', () => {
+  const doc = load('sample.fb2');
+
+  it('reads the title-info metadata', () => {
+    expect(doc.meta.title).toBe('Пробная книга');
+    expect(doc.meta.authors.map(fb2AuthorName)).toEqual(['Иван Петрович Белкин']);
+    expect(doc.meta.genres).toEqual(['sf', 'poetry']);
+    expect(doc.meta.lang).toBe('ru');
+    expect(doc.meta.sequences).toEqual([{ name: 'Повести', number: '2' }]);
+    expect(doc.meta.coverImage).toBe('cover.png');
+    expect(doc.meta.documentId).toBe('sample-fb2-0001');
+    expect(doc.meta.annotation).toHaveLength(1);
+  });
+
+  it('keeps the body title, epigraphs and nested sections', () => {
+    expect(doc.bodies).toHaveLength(1);
+    const body = doc.bodies[0]!;
+    expect(fb2TitleText(body.title)).toBe('Пробная книга');
+    expect(body.epigraphs).toHaveLength(1);
+    expect(body.sections.map(s => s.id)).toEqual(['ch1', 'ch2']);
+
+    const [ch1] = body.sections;
+    expect(fb2TitleText(ch1!.title)).toBe('Глава первая');
+    expect(ch1!.epigraphs[0]).toMatchObject({ type: 'epigraph' });
+    const nested = ch1!.children.filter((c): c is Fb2Section => c.type === 'section');
+    expect(nested.map(s => s.id)).toEqual(['ch1-1']);
+    expect(blocksOf(nested[0]!).some(b => b.type === 'image' && b.href === '#pic.png')).toBe(true);
+  });
+
+  it('parses poems and tables', () => {
+    const blocks = blocksOf(doc.bodies[0]!.sections[1]!);
+    const poem = blocks.find(b => b.type === 'poem');
+    expect(poem).toBeDefined();
+    if (poem?.type !== 'poem') return;
+    expect(fb2TitleText(poem.title)).toBe('Стихи');
+    expect(poem.stanzas.map(s => s.lines.map(inlineText))).toEqual([['Первая строка,', 'вторая строка.'], ['Вторая строфа.']]);
+    expect(poem.authors.map(inlineText)).toEqual(['Поэт']);
+    expect(poem.date).toBe('1830');
+
+    const table = blocks.find(b => b.type === 'table');
+    if (table?.type !== 'table') throw new Error('table not parsed');
+    expect(table.rows).toHaveLength(3);
+    expect(table.rows[0]!.every(c => c.header)).toBe(true);
+    expect(table.rows[1]![1]).toMatchObject({ align: 'right' });
+    expect(table.rows[2]![0]).toMatchObject({ colspan: 2 });
+  });
+
+  it('collects footnotes and marks the links to them', () => {
+    expect(doc.notesTitle).toBe('Примечания');
+    expect([...doc.notes.keys()]).toEqual(['n1', 'n2']);
+    expect(doc.notes.get('n1')).toMatchObject({ title: '1' });
+    const first = blocksOf(doc.bodies[0]!.sections[0]!)[0];
+    if (first?.type !== 'p') throw new Error('paragraph not parsed');
+    expect(first.children.some(n => n.type === 'link' && n.note && n.href === '#n1')).toBe(true);
+  });
+
+  it('decodes base64 binaries, ignoring whitespace', () => {
+    const cover = doc.binaries.get('cover.png');
+    const pic = doc.binaries.get('pic.png');
+    expect(cover?.contentType).toBe('image/png');
+    expect(cover!.data.subarray(1, 4).toString('latin1')).toBe('PNG');
+    expect(pic!.data.equals(cover!.data)).toBe(true);
+  });
+
+  it('decodes the declared encoding and wraps loose body content into a section', () => {
+    const legacy = load('windows-1251.fb2');
+    expect(legacy.meta.title).toBe('Книга без глав');
+    const section = legacy.bodies[0]!.sections[0]!;
+    const paragraphs = blocksOf(section).flatMap(b => (b.type === 'p' ? [inlineText(b.children)] : []));
+    expect(paragraphs).toEqual([
+      'Текст прямо в теле книги, в кодировке windows-1251.',
+      'Второй абзац — с HTML-сущностями.'
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+import fs from 'fs';
+import path from 'path';
+import AdmZip from 'adm-zip';
+import { describe, expect, it } from '@jest/globals';
+import { parseFb2 } from '../fb2';
+import { buildOutline, fb2ToEpub, fb2ToHtml, fb2ToText } from '../fb2Render';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'fb2');
+const load = (name: string) => parseFb2(fs.readFileSync(path.join(FIXTURES, name)));
+const MODIFIED = new Date(Date.UTC(2024, 0, 2, 3, 4, 5));
+
+describe('buildOutline', () => {
+  it('splits sections into chapters and keeps the TOC nested', () => {
+    const outline = buildOutline(load('sample.fb2'));
+    // Body title page first, then one chapter per section, nested ones included
+    expect(outline.chapters.map(c => c.title)).toEqual(['Пробная книга', 'Глава первая', 'Часть 1.1', 'Глава вторая']);
+    expect(outline.toc.map(e => e.title)).toEqual(['Глава первая', 'Глава вторая']);
+    expect(outline.toc[0]!.children.map(e => e.title)).toEqual(['Часть 1.1']);
+    expect(outline.targets.get('ch1-1')).toBe(2);
+    expect(outline.targets.get('ch2')).toBe(3);
+  });
+});
+
+describe('fb2ToEpub', () => {
+  const doc = load('sample.fb2');
+  const epub = fb2ToEpub(doc, { identifier: 'urn:flibusta:book:1', modified: MODIFIED });
+  const zip = new AdmZip(epub);
+  const text = (name: string) => {
+    const entry = zip.getEntry(name);
+    if (!entry) throw new Error(`${name} missing from the EPUB`);
+    return entry.getData().toString('utf8');
+  };
+
+  it('stores the mimetype uncompressed as the first entry', () => {
+    expect(epub.readUInt32LE(0)).toBe(0x04034b50);
+    // Compression method 0 (stored), name "mimetype", then the content right after the local header
+    expect(epub.readUInt16LE(8)).toBe(0);
+    const nameLength = epub.readUInt16LE(26);
+    const extraLength = epub.readUInt16LE(28);
+    expect(epub.subarray(30, 30 + nameLength).toString()).toBe('mimetype');
+    const start = 30 + nameLength + extraLength;
+    expect(epub.subarray(start, start + 20).toString()).toBe('application/epub+zip');
+    expect(zip.getEntries()[0]!.entryName).toBe('mimetype');
+  });
+
+  it('points the container at the OPF package', () => {
+    expect(text('META-INF/container.xml')).toContain('full-path="OEBPS/content.opf"');
+  });
+
+  it('lists every file in the OPF manifest and spine', () => {
+    const opf = text('OEBPS/content.opf');
+    expect(opf).toContain('<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="BookId"');
+    expect(opf).toContain('<dc:identifier id="BookId">urn:flibusta:book:1</dc:identifier>');
+    expect(opf).toContain('<dc:title>Пробная книга</dc:title>');
+    expect(opf).toContain('<dc:creator id="creator1">Иван Петрович Белкин</dc:creator>');
+    expect(opf).toContain('<dc:date>1830-09-09</dc:date>');
+    expect(opf).toContain('<meta property="dcterms:modified">2024-01-02T03:04:05Z</meta>');
+    expect(opf).toContain('<meta property="belongs-to-collection" id="series1">Повести</meta>');
+    expect(opf).toContain('<meta refines="#series1" property="group-position">2</meta>');
+
+    const hrefs = [...opf.matchAll(/<item [^>]*href="([^"]+)"/g)].map(m => m[1]!);
+    expect(hrefs).toEqual(expect.arrayContaining(['nav.xhtml', 'toc.ncx', 'style.css', 'title.xhtml', 'cover.xhtml', 'notes.xhtml']));
+    for (const href of hrefs) expect(zip.getEntry(`OEBPS/${href}`)).toBeTruthy();
+    expect(opf).toMatch(/<item id="nav" href="nav.xhtml" [^>]*properties="nav"\/>/);
+    expect(opf).toMatch(/<item id="img\d+" href="images\/img-\d+\.png" media-type="image\/png" properties="cover-image"\/>/);
+    expect(opf).toContain('<spine toc="ncx">');
+    expect(opf).toContain('<itemref idref="notes" linear="no"/>');
+  });
+
+  it('builds the nav document and the NCX from the section titles', () => {
+    const nav = text('OEBPS/nav.xhtml');
+    expect(nav).toContain('<nav epub:type="toc" id="toc">');
+    expect(nav).toContain('<a href="chapter-002.xhtml#ch1">Глава первая</a>');
+    expect(nav).toContain('<a href="chapter-003.xhtml#ch1-1">Часть 1.1</a>');
+    expect(nav).toContain('<a href="notes.xhtml">Примечания</a>');
+
+    const ncx = text('OEBPS/toc.ncx');
+    expect(ncx).toContain('<meta name="dtb:uid" content="urn:flibusta:book:1"/>');
+    expect(ncx).toContain('<navPoint id="np1" playOrder="1"><navLabel><text>Глава первая</text></navLabel><content src="chapter-002.xhtml#ch1"/>');
+  });
+
+  it('renders epigraphs, poems, tables and footnotes as XHTML', () => {
+    const ch1 = text('OEBPS/chapter-002.xhtml');
+    expect(ch1).toContain('<blockquote class="epigraph">');
+    expect(ch1).toContain('<p class="text-author">Неизвестный автор</p>');
+    expect(ch1).toContain('<a class="noteref" id="ref-n1" epub:type="noteref" href="notes.xhtml#n1">1</a>');
+    expect(ch1).toContain('<a href="chapter-004.xhtml#ch2">вторую главу</a>');
+    expect(text('OEBPS/chapter-003.xhtml')).toMatch(/<img src="images\/img-\d+\.png" alt="Рисунок" \/>/);
+
+    const ch2 = text('OEBPS/chapter-004.xhtml');
+    expect(ch2).toContain('<div class="poem">');
+    expect(ch2).toContain('<p>Первая строка,</p>');
+    expect(ch2).toContain('<p class="date">1830</p>');
+    expect(ch2).toContain('<th style="text-align: right">Число</th>');
+    expect(ch2).toContain('<td colspan="2">итого</td>');
+
+    const notes = text('OEBPS/notes.xhtml');
+    expect(notes).toContain('<aside class="note" id="n1" epub:type="footnote">');
+    expect(notes).toContain('<a href="chapter-002.xhtml#ref-n1">↩</a>');
+    expect(notes).toContain('<p>Текст второй сноски.</p>');
+  });
+
+  it('embeds the binaries as images and is byte-stable for a fixed date', () => {
+    const images = zip.getEntries().filter(e => e.entryName.startsWith('OEBPS/images/'));
+    expect(images).toHaveLength(2);
+    expect(images[0]!.getData().equals(doc.binaries.get('cover.png')!.data)).toBe(true);
+    expect(fb2ToEpub(load('sample.fb2'), { identifier: 'urn:flibusta:book:1', modified: MODIFIED }).equals(epub)).toBe(true);
+  });
+});
+
+describe('fb2ToHtml', () => {
+  const html = fb2ToHtml(load('sample.fb2'));
+
+  it('is a single document with inline images, TOC and notes', () => {
+    expect(html.startsWith('<!DOCTYPE html>\n<html lang="ru">')).toBe(true);
+    expect(html).toContain('<title>Пробная книга</title>');
+    expect(html).toContain('<meta name="author" content="Иван Петрович Белкин">');
+    expect(html).toContain('<p>Повести #2</p>');
+    expect(html).toContain('<nav class="toc">');
+    expect(html).toContain('<a href="#ch1">Глава первая</a>');
+    expect(html).toMatch(/<img src="data:image\/png;base64,iVBORw0KGgo[^"]+" alt="Рисунок">/);
+    expect(html).toContain('<a class="noteref" id="ref-n1" href="#n1">1</a>');
+    expect(html).toContain('<div class="note" id="n1">');
+    expect(html).toContain('<a href="#ref-n1">↩</a>');
+    // HTML, not XHTML: no self-closed void elements
+    expect(html).not.toContain(' />');
+  });
+
+  it('escapes text content', () => {
+    expect(html).toContain('Книга для проверки конвертера &amp; его краёв.');
+  });
+});
+
+describe('fb2ToText', () => {
+  const txt = fb2ToText(load('sample.fb2'));
+
+  it('starts with the author, title and series', () => {
+    expect(txt.split('\n').slice(0, 3)).toEqual(['Иван Петрович Белкин', 'Пробная книга', '(Повести #2)']);
+  });
+
+  it('indents epigraphs and verse and lays out tables', () => {
+    expect(txt).toContain('\n    Эпиграф к главе.\n');
+    expect(txt).toContain('\n        Неизвестный автор\n');
+    expect(txt).toContain('\n    Первая строка,\n    вторая строка.\n');
+    expect(txt).toContain('\nИмя | Число\nодин | 1\nитого\n');
+  });
+
+  it('collects footnotes at the end', () => {
+    const notes = txt.slice(txt.lastIndexOf('Примечания'));
+    expect(notes).toContain('[1] Текст первой сноски.');
+    expect(notes).toContain('[2] Текст второй сноски.');
+    expect(txt).not.toMatch(/\n{3,}/);
+    expect(txt.endsWith('\n')).toBe(true);
+  });
+
+  it('handles books without sections', () => {
+    const legacy = fb2ToText(load('windows-1251.fb2'));
+    expect(legacy).toContain('Анна Старая\nКнига без глав\n');
+    expect(legacy).toContain('Текст прямо в теле книги, в кодировке windows-1251.');
+  });
+});
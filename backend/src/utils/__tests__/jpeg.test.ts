@@ -0,0 +1,109 @@
+import { describe, expect, it } from '@jest/globals';
+import { RgbImage, decodeImage } from '../image';
+import { decodeJpeg, encodeJpeg } from '../jpeg';
+import { renderJpegThumbnail } from '../thumbnailWorker';
+
+// Smooth ramps (4 levels a pixel) that JPEG keeps close to the original at any size
+function gradient(width: number, height: number): RgbImage {
+  const data = new Uint8Array(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 3;
+      data[o] = Math.min(255, x * 4);
+      data[o + 1] = Math.min(255, y * 4);
+      data[o + 2] = 128;
+    }
+  }
+  return { width, height, data };
+}
+
+function solid(width: number, height: number, rgb: number[]): RgbImage {
+  const data = new Uint8Array(width * height * 3);
+  for (let i = 0; i < data.length; i++) data[i] = rgb[i % 3]!;
+  return { width, height, data };
+}
+
+function meanError(a: RgbImage, b: RgbImage): number {
+  let sum = 0;
+  for (let i = 0; i < a.data.length; i++) sum += Math.abs(a.data[i]! - b.data[i]!);
+  return sum / a.data.length;
+}
+
+// Offset of the first marker segment of the given type
+function markerAt(jpeg: Buffer, marker: number): number {
+  for (let pos = 2; pos < jpeg.length;) {
+    if (jpeg[pos + 1] === marker) return pos;
+    pos += 2 + jpeg.readUInt16BE(pos + 2);
+  }
+  throw new Error(`marker ${marker.toString(16)} not found`);
+}
+
+describe('encodeJpeg', () => {
+  it('writes a baseline JFIF file', () => {
+    const jpeg = encodeJpeg(gradient(32, 16));
+    expect(jpeg.subarray(0, 2)).toEqual(Buffer.from([0xff, 0xd8]));
+    expect(jpeg.subarray(6, 11).toString('latin1')).toBe('JFIF\0');
+    expect(jpeg.subarray(-2)).toEqual(Buffer.from([0xff, 0xd9]));
+    const sof = markerAt(jpeg, 0xc0);
+    expect([jpeg.readUInt16BE(sof + 5), jpeg.readUInt16BE(sof + 7), jpeg[sof + 9]]).toEqual([16, 32, 3]);
+    // 4:2:0: luma sampled 2x2, chroma 1x1
+    expect([jpeg[sof + 11], jpeg[sof + 14], jpeg[sof + 17]]).toEqual([0x22, 0x11, 0x11]);
+  });
+
+  it('grows with the quality', () => {
+    const image = gradient(64, 64);
+    const sizes = [10, 50, 90].map(q => encodeJpeg(image, q).length);
+    expect(sizes[0]!).toBeLessThan(sizes[1]!);
+    expect(sizes[1]!).toBeLessThan(sizes[2]!);
+  });
+});
+
+describe('decodeJpeg', () => {
+  it.each([[1, 1], [17, 9], [64, 48], [100, 3]])('round-trips a %ix%i image', (width, height) => {
+    const image = gradient(width, height);
+    const decoded = decodeJpeg(encodeJpeg(image, 90));
+    expect([decoded.width, decoded.height]).toEqual([width, height]);
+    expect(decoded.data).toHaveLength(width * height * 3);
+    expect(meanError(decoded, image)).toBeLessThan(2);
+  });
+
+  it('keeps saturated colours through chroma subsampling', () => {
+    for (const rgb of [[255, 0, 0], [0, 200, 0], [20, 40, 220], [255, 255, 255], [0, 0, 0]]) {
+      const decoded = decodeJpeg(encodeJpeg(solid(24, 24, rgb), 85));
+      const centre = (12 * 24 + 12) * 3;
+      Array.from(decoded.data.subarray(centre, centre + 3)).forEach((value, i) => expect(Math.abs(value - rgb[i]!)).toBeLessThanOrEqual(6));
+    }
+  });
+
+  it('rejects unsupported and broken files', () => {
+    const jpeg = encodeJpeg(gradient(8, 8));
+    const sof = markerAt(jpeg, 0xc0);
+
+    const twelveBit = Buffer.from(jpeg);
+    twelveBit[sof + 4] = 12;
+    expect(() => decodeJpeg(twelveBit)).toThrow('Unsupported JPEG precision 12');
+
+    const lossless = Buffer.from(jpeg);
+    lossless[sof + 1] = 0xc3;
+    expect(() => decodeJpeg(lossless)).toThrow('Unsupported JPEG coding');
+
+    const noFrame = Buffer.concat([jpeg.subarray(0, sof), Buffer.from([0xff, 0xd9])]);
+    expect(() => decodeJpeg(noFrame)).toThrow('JPEG has no frame');
+  });
+});
+
+describe('built-in thumbnails', () => {
+  it('sniffs the format and skips ones it cannot decode', () => {
+    expect(decodeImage(encodeJpeg(gradient(4, 4)))).toMatchObject({ width: 4, height: 4 });
+    expect(decodeImage(Buffer.from('GIF89a\x01\x00\x01\x00', 'latin1'))).toBeNull();
+  });
+
+  it('renders a JPEG fitted within the box without upscaling', () => {
+    const cover = encodeJpeg(gradient(300, 450), 90);
+    const thumb = renderJpegThumbnail({ data: cover, width: 120, quality: 80 });
+    expect(decodeJpeg(thumb!)).toMatchObject({ width: 120, height: 180 });
+    expect(decodeJpeg(renderJpegThumbnail({ data: cover, width: 640, height: 120, quality: 80 })!)).toMatchObject({ width: 80, height: 120 });
+    expect(decodeJpeg(renderJpegThumbnail({ data: cover, width: 640, quality: 80 })!)).toMatchObject({ width: 300, height: 450 });
+    expect(renderJpegThumbnail({ data: Buffer.from('<svg/>'), width: 120, quality: 80 })).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from '@jest/globals';
+import { decodeJpeg } from '../jpeg';
+import { genrePalette, rasterizePlaceholderCover, renderPlaceholderCover } from '../placeholderCover';
+import { renderJpegThumbnail } from '../thumbnailWorker';
+
+const INFO = { title: 'Пробная книга', author: 'Иван Белкин', series: 'Повести', seriesNumber: 2, genre: 'sf_history' };
+
+function rgb(hex: string): number[] {
+  return [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+}
+
+function pixel(image: { width: number; data: Uint8Array }, x: number, y: number): number[] {
+  const o = (y * image.width + x) * 3;
+  return Array.from(image.data.subarray(o, o + 3));
+}
+
+function near(actual: number[], expected: number[], tolerance: number): boolean {
+  return actual.every((c, i) => Math.abs(c - expected[i]!) <= tolerance);
+}
+
+describe('renderPlaceholderCover', () => {
+  it('is deterministic and escapes the text', () => {
+    const svg = renderPlaceholderCover({ ...INFO, title: 'Tom & <Jerry>' });
+    expect(renderPlaceholderCover({ ...INFO, title: 'Tom & <Jerry>' })).toBe(svg);
+    expect(svg).toContain('Tom &amp; &lt;Jerry&gt;');
+    expect(svg).toContain('Повести · № 2');
+  });
+
+  it('colours covers by genre family', () => {
+    expect(genrePalette('sf_history')).not.toEqual(genrePalette('det_classic'));
+    expect(genrePalette('sf_history')).toEqual(genrePalette('SF_HISTORY'));
+  });
+});
+
+describe('rasterizePlaceholderCover', () => {
+  const { background, shade, accent } = genrePalette(INFO.genre);
+  const image = rasterizePlaceholderCover(renderPlaceholderCover(INFO))!;
+
+  it('paints the gradient at the SVG size', () => {
+    expect([image.width, image.height]).toEqual([400, 600]);
+    // The gradient runs from the top left corner to the bottom, slightly to the right
+    expect(near(pixel(image, 0, 0), rgb(background), 2)).toBe(true);
+    expect(near(pixel(image, 399, 599), rgb(shade), 2)).toBe(true);
+    const middle = pixel(image, 200, 250);
+    expect(middle.every((c, i) => c >= Math.min(rgb(background)[i]!, rgb(shade)[i]!) - 1)).toBe(true);
+  });
+
+  it('draws the frame in the accent colour', () => {
+    const inside = pixel(image, 30, 300);
+    const frame = pixel(image, 18, 300);
+    const accentRgb = rgb(accent);
+    // 45% accent over the background
+    frame.forEach((c, i) => expect(Math.abs(c - (inside[i]! * 0.55 + accentRgb[i]! * 0.45))).toBeLessThanOrEqual(6));
+  });
+
+  it('draws the title, author and series in the bitmap font', () => {
+    // Pixels of a band that are (nearly) the given colour
+    const inked = (target: number[], top: number, bottom: number, tolerance: number) => {
+      let count = 0;
+      for (let y = top; y < bottom; y++) for (let x = 0; x < image.width; x++) if (near(pixel(image, x, y), target, tolerance)) count++;
+      return count;
+    };
+    // One title line with its baseline at the middle, the author at 78 and the series at 516
+    expect(inked([255, 255, 255], 266, 310, 8)).toBeGreaterThan(1500);
+    expect(inked(rgb(accent), 55, 90, 12)).toBeGreaterThan(300);
+    expect(inked([255, 255, 255], 496, 530, 40)).toBeGreaterThan(300);
+    expect(inked([255, 255, 255], 120, 240, 40)).toBe(0);
+
+    const other = rasterizePlaceholderCover(renderPlaceholderCover({ ...INFO, title: 'Другая книга' }))!;
+    expect(Buffer.from(other.data).equals(Buffer.from(image.data))).toBe(false);
+  });
+
+  it('ignores SVGs it did not generate', () => {
+    expect(rasterizePlaceholderCover('<svg xmlns="http://www.w3.org/2000/svg"><circle r="5"/></svg>')).toBeNull();
+  });
+
+  it('renders JPEG thumbnails of generated covers', () => {
+    const thumb = renderJpegThumbnail({ data: Buffer.from(renderPlaceholderCover(INFO)), width: 240, quality: 80 });
+    const decoded = decodeJpeg(thumb!);
+    expect([decoded.width, decoded.height]).toEqual([240, 360]);
+    expect(near(pixel(decoded, 120, 3), pixel(image, 200, 5), 12)).toBe(true);
+  });
+});
@@ -0,0 +1,167 @@
+import zlib from 'zlib';
+import { describe, expect, it } from '@jest/globals';
+import { decodePng } from '../png';
+
+// Minimal PNG writer for the specs: every filter type in turn, optional Adam7 interlacing
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, body: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(body.length, 0);
+  head.write(type, 4, 'latin1');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([head.subarray(4), body])), 0);
+  return Buffer.concat([head, body, crc]);
+}
+
+interface PngSpec {
+  colorType: number;
+  depth: number;
+  /** Samples of each pixel (1 for grey/palette, 2 grey+alpha, 3 RGB, 4 RGBA), rows of pixels */
+  pixels: number[][][];
+  interlace?: boolean;
+  palette?: number[];
+  trns?: number[];
+}
+
+const ADAM7 = [[0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4], [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2]];
+
+function packRow(row: number[][], depth: number): Buffer {
+  const samples = row.flat();
+  if (depth === 16) return Buffer.from(samples.flatMap(s => [s >> 8, s & 0xff]));
+  if (depth === 8) return Buffer.from(samples);
+  const out = Buffer.alloc(Math.ceil(samples.length * depth / 8));
+  samples.forEach((s, i) => { out[(i * depth) >> 3]! |= s << (8 - depth - ((i * depth) & 7)); });
+  return out;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+// Filter rows of one (sub)image, cycling through None, Sub, Up, Average and Paeth
+function filterRows(rows: Buffer[], bpp: number): Buffer[] {
+  return rows.map((row, y) => {
+    const filter = y % 5;
+    const prev = y > 0 ? rows[y - 1]! : Buffer.alloc(row.length);
+    const out = Buffer.alloc(row.length + 1);
+    out[0] = filter;
+    for (let x = 0; x < row.length; x++) {
+      const a = x >= bpp ? row[x - bpp]! : 0, b = prev[x]!, c = x >= bpp ? prev[x - bpp]! : 0;
+      const predictor = [0, a, b, (a + b) >> 1, paeth(a, b, c)][filter]!;
+      out[x + 1] = (row[x]! - predictor) & 0xff;
+    }
+    return out;
+  });
+}
+
+function encodePng(spec: PngSpec): Buffer {
+  const height = spec.pixels.length;
+  const width = spec.pixels[0]!.length;
+  const channels = spec.pixels[0]![0]!.length;
+  const bpp = Math.max(1, (channels * spec.depth) >> 3);
+  const images = spec.interlace
+    ? ADAM7.map(([x0, y0, dx, dy]) => spec.pixels.filter((_, y) => y >= y0! && (y - y0!) % dy! === 0)
+      .map(row => row.filter((_, x) => x >= x0! && (x - x0!) % dx! === 0)))
+      .filter(rows => rows.length && rows[0]!.length)
+    : [spec.pixels];
+  const raw = Buffer.concat(images.flatMap(rows => filterRows(rows.map(row => packRow(row, spec.depth)), bpp)));
+
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = spec.depth;
+  ihdr[9] = spec.colorType;
+  ihdr[12] = spec.interlace ? 1 : 0;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', ihdr),
+    ...(spec.palette ? [chunk('PLTE', Buffer.from(spec.palette))] : []),
+    ...(spec.trns ? [chunk('tRNS', Buffer.from(spec.trns))] : []),
+    // Split IDAT to check the chunks are joined before inflating
+    ...(() => {
+      const z = zlib.deflateSync(raw);
+      const half = z.length >> 1;
+      return [chunk('IDAT', z.subarray(0, half)), chunk('IDAT', z.subarray(half))];
+    })(),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+function rgbAt(image: { width: number; data: Uint8Array }, x: number, y: number): number[] {
+  const o = (y * image.width + x) * 3;
+  return Array.from(image.data.subarray(o, o + 3));
+}
+
+// A 9x7 RGB gradient: odd sizes leave partial Adam7 blocks
+const GRADIENT = Array.from({ length: 7 }, (_, y) => Array.from({ length: 9 }, (_, x) => [x * 28, y * 40, (x * y * 5) & 0xff]));
+
+describe('decodePng', () => {
+  it('decodes 8-bit RGB through every scanline filter', () => {
+    const image = decodePng(encodePng({ colorType: 2, depth: 8, pixels: GRADIENT }));
+    expect([image.width, image.height]).toEqual([9, 7]);
+    expect(Array.from(image.data)).toEqual(GRADIENT.flat(2));
+  });
+
+  it('decodes Adam7 interlaced images', () => {
+    const image = decodePng(encodePng({ colorType: 2, depth: 8, pixels: GRADIENT, interlace: true }));
+    expect(Array.from(image.data)).toEqual(GRADIENT.flat(2));
+  });
+
+  it('scales low and high bit depth greys to 8 bits', () => {
+    const oneBit = decodePng(encodePng({ colorType: 0, depth: 1, pixels: [[[0], [1], [1], [0], [1], [0], [0], [1], [1]]] }));
+    expect(Array.from(oneBit.data).filter((_, i) => i % 3 === 0)).toEqual([0, 255, 255, 0, 255, 0, 0, 255, 255]);
+
+    const twoBit = decodePng(encodePng({ colorType: 0, depth: 2, pixels: [[[0], [1], [2], [3], [3]]] }));
+    expect(Array.from(twoBit.data).filter((_, i) => i % 3 === 0)).toEqual([0, 85, 170, 255, 255]);
+
+    const sixteen = decodePng(encodePng({ colorType: 0, depth: 16, pixels: [[[0x1234], [0xffff]]] }));
+    expect(Array.from(sixteen.data)).toEqual([0x12, 0x12, 0x12, 255, 255, 255]);
+
+    const rgb16 = decodePng(encodePng({ colorType: 2, depth: 16, pixels: [[[0xff00, 0x8000, 0x00ff]]] }));
+    expect(Array.from(rgb16.data)).toEqual([0xff, 0x80, 0x00]);
+  });
+
+  it('looks up palette colours, including 4-bit indexes', () => {
+    const palette = [255, 0, 0, 0, 255, 0, 0, 0, 255];
+    const image = decodePng(encodePng({ colorType: 3, depth: 4, palette, pixels: [[[0], [1], [2]]] }));
+    expect(Array.from(image.data)).toEqual(palette);
+  });
+
+  it('flattens transparency onto white', () => {
+    const rgba = decodePng(encodePng({ colorType: 6, depth: 8, pixels: [[[255, 0, 0, 255], [255, 0, 0, 0], [0, 0, 0, 128]]] }));
+    expect(rgbAt(rgba, 0, 0)).toEqual([255, 0, 0]);
+    expect(rgbAt(rgba, 1, 0)).toEqual([255, 255, 255]);
+    expect(rgbAt(rgba, 2, 0)).toEqual([127, 127, 127]);
+
+    const greyAlpha = decodePng(encodePng({ colorType: 4, depth: 8, pixels: [[[0, 0], [0, 255]]] }));
+    expect(Array.from(greyAlpha.data)).toEqual([255, 255, 255, 0, 0, 0]);
+
+    const palette = decodePng(encodePng({ colorType: 3, depth: 8, palette: [0, 0, 0, 0, 0, 255], trns: [0], pixels: [[[0], [1]]] }));
+    expect(Array.from(palette.data)).toEqual([255, 255, 255, 0, 0, 255]);
+
+    // tRNS on grey and RGB images names one transparent colour
+    const keyed = decodePng(encodePng({ colorType: 2, depth: 8, trns: [0, 0, 0, 10, 0, 20], pixels: [[[0, 10, 20], [0, 10, 21]]] }));
+    expect(Array.from(keyed.data)).toEqual([255, 255, 255, 0, 10, 21]);
+  });
+
+  it('rejects broken headers', () => {
+    const png = encodePng({ colorType: 2, depth: 8, pixels: GRADIENT });
+    const noHeader = Buffer.concat([png.subarray(0, 8), png.subarray(8 + 25)]);
+    expect(() => decodePng(noHeader)).toThrow('Invalid PNG header');
+    expect(() => decodePng(encodePng({ colorType: 3, depth: 8, pixels: [[[0]]] }))).toThrow('PNG palette missing');
+  });
+});
@@ -0,0 +1,253 @@
+import net from 'net';
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { MailMessage, SmtpConfig, buildMessage, sendMail, smtpConfigFromEnv } from '../smtp';
+
+interface StubOptions {
+  extensions?: string[];
+  greet?: boolean;
+  rejectRcpt?: boolean;
+}
+
+interface StubSession {
+  commands: string[];
+  // DATA as received on the wire (still dot-stuffed) and after removing the stuffing
+  raw: string | null;
+  data: string | null;
+}
+
+// In-process SMTP server: answers one client per connection and records what it sent
+function startStub(options: StubOptions = {}): Promise<{ port: number; session: StubSession; close: () => Promise<void> }> {
+  const session: StubSession = { commands: [], raw: null, data: null };
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer(socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.on('error', () => undefined);
+    const reply = (line: string): void => { socket.write(`${line}\r\n`); };
+    let buffer = '';
+    let dataLines: string[] | null = null;
+    let login = 0;
+
+    const onLine = (line: string): void => {
+      if (dataLines) {
+        if (line !== '.') {
+          dataLines.push(line);
+          return;
+        }
+        session.raw = dataLines.join('\r\n');
+        session.data = dataLines.map(l => (l.startsWith('.') ? l.slice(1) : l)).join('\r\n');
+        dataLines = null;
+        reply('250 2.0.0 Ok: queued as STUB1');
+        return;
+      }
+      session.commands.push(line);
+      if (login === 1) {
+        login = 2;
+        reply('334 UGFzc3dvcmQ6');
+        return;
+      }
+      if (login === 2) {
+        login = 0;
+        reply('235 2.7.0 Authentication successful');
+        return;
+      }
+      const verb = line.split(' ')[0]!.toUpperCase();
+      if (verb === 'EHLO') {
+        const lines = ['stub.local', ...(options.extensions || [])];
+        lines.forEach((text, i) => reply(`250${i === lines.length - 1 ? ' ' : '-'}${text}`));
+      } else if (line.startsWith('AUTH PLAIN ')) {
+        reply('235 2.7.0 Authentication successful');
+      } else if (line === 'AUTH LOGIN') {
+        login = 1;
+        reply('334 VXNlcm5hbWU6');
+      } else if (verb === 'MAIL') {
+        reply('250 2.1.0 Ok');
+      } else if (verb === 'RCPT') {
+        reply(options.rejectRcpt ? '550 5.1.1 Recipient address rejected: User unknown' : '250 2.1.5 Ok');
+      } else if (verb === 'DATA') {
+        dataLines = [];
+        reply('354 End data with <CR><LF>.<CR><LF>');
+      } else if (verb === 'QUIT') {
+        reply('221 2.0.0 Bye');
+        socket.end();
+      } else {
+        reply('502 5.5.2 Command not recognized');
+      }
+    };
+
+    socket.on('data', (chunk: Buffer) => {
+      buffer += chunk.toString('utf8');
+      let newline: number;
+      while ((newline = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        onLine(line);
+      }
+    });
+    if (options.greet !== false) reply('220 stub.local ESMTP');
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      resolve({
+        port,
+        session,
+        close: () => new Promise<void>(done => {
+          for (const socket of sockets) socket.destroy();
+          server.close(() => done());
+        })
+      });
+    });
+  });
+}
+
+function configFor(port: number, overrides: Partial<SmtpConfig> = {}): SmtpConfig {
+  return {
+    host: '127.0.0.1',
+    port,
+    secure: false,
+    starttls: true,
+    rejectUnauthorized: true,
+    allowPlaintextAuth: false,
+    from: 'library@example.org',
+    timeoutMs: 2000,
+    ...overrides
+  };
+}
+
+const MESSAGE: MailMessage = {
+  from: 'Library <library@example.org>',
+  to: 'reader@kindle.com',
+  subject: 'Пробная книга',
+  text: 'Book attached\n',
+  attachments: [{ filename: 'Белкин - Повести.epub', contentType: 'application/epub+zip', content: Buffer.from('epub bytes') }]
+};
+
+// Body of the MIME part whose headers contain the marker, base64-decoded
+function decodePart(data: string, marker: string): string {
+  const part = data.split(/\r\n--/).find(p => p.includes(marker));
+  if (!part) throw new Error(`no part with ${marker}`);
+  const body = part.slice(part.indexOf('\r\n\r\n') + 4);
+  return Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8');
+}
+
+describe('buildMessage', () => {
+  it('writes MIME headers with encoded non-ASCII values', () => {
+    const { data, messageId } = buildMessage(MESSAGE, 'example.org');
+    const [head] = data.split('\r\n\r\n');
+    expect(messageId).toMatch(/^<[0-9a-f-]{36}@example\.org>$/);
+    expect(head).toContain('From: Library <library@example.org>');
+    expect(head).toContain('To: reader@kindle.com');
+    expect(head).toContain(`Subject: =?UTF-8?B?${Buffer.from('Пробная книга').toString('base64')}?=`);
+    expect(head).toContain(`Message-ID: ${messageId}`);
+    expect(head).toMatch(/\r\nDate: \w{3}, \d{2} \w{3} \d{4} \d{2}:\d{2}:\d{2} \+0000\r\n/);
+    expect(head).toMatch(/Content-Type: multipart\/mixed; boundary="(----=_flb_[0-9a-f]{24})"$/);
+  });
+
+  it('base64-encodes the text and attachments with both filename forms', () => {
+    const { data } = buildMessage(MESSAGE, 'example.org');
+    const boundary = /boundary="([^"]+)"/.exec(data)![1]!;
+    expect(data.endsWith(`--${boundary}--\r\n`)).toBe(true);
+    expect(decodePart(data, 'text/plain; charset=utf-8')).toBe('Book attached\n');
+    expect(decodePart(data, 'application/epub+zip')).toBe('epub bytes');
+    const encodedName = `=?UTF-8?B?${Buffer.from('Белкин - Повести.epub').toString('base64')}?=`;
+    expect(data).toContain(`Content-Disposition: attachment; filename="${encodedName}"; filename*=UTF-8''${encodeURIComponent('Белкин - Повести.epub').replace(/'/g, '%27')}`);
+    expect(data.split('\r\n').every(line => line.length <= 998)).toBe(true);
+  });
+
+  it('wraps base64 at 76 columns', () => {
+    const { data } = buildMessage({ ...MESSAGE, attachments: [{ filename: 'a.bin', contentType: 'application/octet-stream', content: Buffer.alloc(300, 7) }] });
+    // 300 bytes are 400 base64 characters: five full lines and a short one
+    const lines = data.slice(data.indexOf('filename="a.bin"')).split('\r\n').slice(2, 8);
+    expect(lines.map(line => line.length)).toEqual([76, 76, 76, 76, 76, 20]);
+  });
+});
+
+describe('smtpConfigFromEnv', () => {
+  it('is disabled without a host and defaults to STARTTLS on 587', () => {
+    expect(smtpConfigFromEnv({})).toBeNull();
+    expect(smtpConfigFromEnv({ SMTP_HOST: 'mail.example.org', SMTP_USER: 'lib@example.org' })).toEqual({
+      host: 'mail.example.org', port: 587, secure: false, starttls: true, rejectUnauthorized: true, allowPlaintextAuth: false,
+      from: 'lib@example.org', timeoutMs: 60000, user: 'lib@example.org'
+    });
+    expect(smtpConfigFromEnv({ SMTP_HOST: 'mail.example.org', SMTP_SECURE: 'true' })?.port).toBe(465);
+  });
+});
+
+describe('sendMail', () => {
+  let stub: Awaited<ReturnType<typeof startStub>> | null = null;
+  afterEach(async () => {
+    await stub?.close();
+    stub = null;
+  });
+
+  it('runs EHLO, MAIL, RCPT and DATA and returns the final reply', async () => {
+    stub = await startStub({ extensions: ['SIZE 10485760', '8BITMIME'] });
+    const result = await sendMail(configFor(stub.port), MESSAGE);
+
+    expect(result.response).toBe('250 2.0.0 Ok: queued as STUB1');
+    expect(result.messageId).toMatch(/@example\.org>$/);
+    expect(stub.session.commands.map(c => c.split(/[ :]/)[0])).toEqual(['EHLO', 'MAIL', 'RCPT', 'DATA', 'QUIT']);
+    expect(stub.session.commands).toContain('MAIL FROM:<library@example.org>');
+    expect(stub.session.commands).toContain('RCPT TO:<reader@kindle.com>');
+    expect(stub.session.data).toContain(`Message-ID: ${result.messageId}`);
+    expect(decodePart(stub.session.data!, 'application/epub+zip')).toBe('epub bytes');
+  });
+
+  it('dot-stuffs lines that start with a period', async () => {
+    stub = await startStub();
+    // buildMessage never starts a line with a period itself; a multi-line From header forces one
+    await sendMail(configFor(stub.port), { ...MESSAGE, from: 'Library\r\n.dotted <library@example.org>' });
+
+    expect(stub.session.raw).toContain('\r\n..dotted <library@example.org>\r\n');
+    expect(stub.session.data).toContain('\r\n.dotted <library@example.org>\r\n');
+    expect(stub.session.data).not.toContain('\r\n..dotted');
+  });
+
+  it('authenticates with AUTH PLAIN when allowed', async () => {
+    stub = await startStub({ extensions: ['AUTH PLAIN LOGIN'] });
+    await sendMail(configFor(stub.port, { user: 'lib', pass: 'secret', allowPlaintextAuth: true }), MESSAGE);
+
+    const auth = stub.session.commands.find(c => c.startsWith('AUTH'));
+    expect(auth).toBe(`AUTH PLAIN ${Buffer.from('\0lib\0secret').toString('base64')}`);
+  });
+
+  it('falls back to AUTH LOGIN when PLAIN is not offered', async () => {
+    stub = await startStub({ extensions: ['AUTH LOGIN'] });
+    await sendMail(configFor(stub.port, { user: 'lib', pass: 'secret', allowPlaintextAuth: true }), MESSAGE);
+
+    const start = stub.session.commands.indexOf('AUTH LOGIN');
+    expect(stub.session.commands.slice(start, start + 3)).toEqual([
+      'AUTH LOGIN', Buffer.from('lib').toString('base64'), Buffer.from('secret').toString('base64')
+    ]);
+  });
+
+  it('refuses to send credentials over an unencrypted connection', async () => {
+    stub = await startStub({ extensions: ['AUTH PLAIN LOGIN'] });
+    await expect(sendMail(configFor(stub.port, { user: 'lib', pass: 'secret' }), MESSAGE))
+      .rejects.toThrow('SMTP_ALLOW_PLAINTEXT_AUTH');
+    expect(stub.session.commands.some(c => c.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('fails on a rejected recipient without sending data', async () => {
+    stub = await startStub({ rejectRcpt: true });
+    await expect(sendMail(configFor(stub.port), MESSAGE))
+      .rejects.toThrow('SMTP RCPT TO:<reader@kindle.com> failed: 550 5.1.1 Recipient address rejected: User unknown');
+    expect(stub.session.commands).not.toContain('DATA');
+    expect(stub.session.data).toBeNull();
+  });
+
+  it('refuses messages over the advertised SIZE', async () => {
+    stub = await startStub({ extensions: ['SIZE 100'] });
+    await expect(sendMail(configFor(stub.port), MESSAGE)).rejects.toThrow('exceeds the server limit of 100 bytes');
+    expect(stub.session.commands.some(c => c.startsWith('MAIL'))).toBe(false);
+  });
+
+  it('times out when the server stops answering', async () => {
+    stub = await startStub({ greet: false });
+    const started = Date.now();
+    await expect(sendMail(configFor(stub.port, { timeoutMs: 200 }), MESSAGE)).rejects.toThrow('SMTP connection timed out');
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+});
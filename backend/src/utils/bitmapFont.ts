@@ -0,0 +1,66 @@
+// Bitmap font for text drawn without a font engine (the built-in cover rasterizer): Latin, Cyrillic,
+// digits and common punctuation in a 5x10 cell. Rows 1-7 hold capitals and ascenders, 3-7 the x-height,
+// 8-9 descenders; the baseline runs under row 7.
+
+export const GLYPH_COLUMNS = 5;
+export const GLYPH_ROWS = 10;
+export const GLYPH_BASELINE = 8;
+
+// One base-32 digit per row from the top, bit 4 is the leftmost column; missing trailing rows are blank
+const GLYPHS: Record<string, string> = {
+  A: '0ehhvhhh', B: '0uhhuhhu', C: '0ehggghe', D: '0uhhhhhu', E: '0vgguggv', F: '0vgguggg', G: '0ehgnhhf',
+  H: '0hhhvhhh', I: '0e44444e', J: '072222ic', K: '0hikokih', L: '0ggggggv', M: '0hrllhhh', N: '0hhpljhh',
+  O: '0ehhhhhe', P: '0uhhuggg', Q: '0ehhhlid', R: '0uhhukih', S: '0fgge11u', T: '0v444444', U: '0hhhhhhe',
+  V: '0hhhhha4', W: '0hhhllla', X: '0hha4ahh', Y: '0hha4444', Z: '0v1248gv', a: '000e1fhf', b: '0gguhhhu',
+  c: '000egghe', d: '011fhhhf', e: '000ehvge', f: '068u8888', g: '000fhhhf1e', h: '0ggmphhh', i: '040c444e',
+  j: '02062222ic', k: '0ggikoki', l: '0c44444e', m: '000qllll', n: '000mphhh', o: '000ehhhe', p: '000uhhhugg',
+  q: '000fhhhf11', r: '000mpggg', s: '000fge1u', t: '088u8896', u: '000hhhjd', v: '000hhha4', w: '000hhlla',
+  x: '000ha4ah', y: '000hhhhf1e', z: '000v248v', 0: '0ehjlphe', 1: '04c4444e', 2: '0eh1248v', 3: '0u11e11u',
+  4: '026aiv22', 5: '0vgu11he', 6: '068guhhe', 7: '0v124888', 8: '0ehhehhe', 9: '0ehhf12c', Б: '0vgguhhu',
+  Г: '0vgggggg', Д: '079999hvh', Ж: '0lle4ell', З: '0eh161he', И: '0hhjlphh', Й: 'ehhjlphh', Л: '0799999h',
+  П: '0vhhhhhh', У: '0hhhf1he', Ф: '04ellle4', Ц: '0iiiiiiv1', Ч: '0hhhf111', Ш: '0llllllv', Щ: '0llllllv1',
+  Ъ: '0o88e99e', Ы: '0hhhpllp', Ь: '0ggguhhu', Э: '0eh171he', Ю: '0illtlli', Я: '0fhhf59h', Ё: 'avgguggv',
+  Є: '0ehgughe', б: '03cguhhe', в: '000uhuhu', г: '000vgggg', д: '000eaahvh', ё: '0a0ehvge', ж: '000llell',
+  з: '000u1e1u', и: '000hjlph', й: '0e0hjlph', к: '000ikoki', л: '0007999h', м: '000hrlhh', н: '000hhvhh',
+  п: '000vhhhh', т: '000v4444', ф: '044ellle44', ц: '000iiiiv1', ч: '000hhf11', ш: '000llllv', щ: '000llllv1',
+  ъ: '000o8e9e', ы: '000hhplp', ь: '000gguhu', э: '000e1f1e', ю: '000iltli', я: '000fhf9h', є: '000eguge',
+  ' ': '0', '.': '00000004', ',': '000000448', ':': '0004004', ';': '00040048', '!': '04444404', '?': '0eh12404',
+  '-': '0000e', '–': '0000v', '—': '0000v', "'": '044', '‘': '048', '’': '048', '"': '0aa', '“': '0aa',
+  '”': '0aa', '„': '0000000aa', '«': '0005aka5', '»': '000ka5ak', '(': '02488842', ')': '08422248',
+  '[': '0e88888e', ']': '0e22222e', '/': '011248gg', '\\': '0gg84211', '|': '044444444', '&': '0cik8lid',
+  '+': '0044v44', '=': '000v0v', '*': '004lel4', '#': '00avava', '%': '0pq248bj', '_': '0000000v',
+  '@': '0ehnlngf', '$': '04fke5u4', '<': '0024842', '>': '0084248', '~': '0008l2', '·': '00004', '…': '0000000l',
+  '°': '0cic'
+};
+
+// Cyrillic (and Ukrainian, Serbian) letters drawn like their Latin twins
+const SAME_AS: Record<string, string> = {
+  А: 'A', В: 'B', Е: 'E', К: 'K', М: 'M', Н: 'H', О: 'O', Р: 'P', С: 'C', Т: 'T', Х: 'X', І: 'I', Ј: 'J', Ѕ: 'S',
+  а: 'a', е: 'e', о: 'o', р: 'p', с: 'c', у: 'y', х: 'x', і: 'i', ј: 'j', ѕ: 's', Ґ: 'Г', ґ: 'г'
+};
+
+const decoded = new Map<string, number[]>();
+
+function decode(code: string): number[] {
+  return Array.from({ length: GLYPH_ROWS }, (_, row) => parseInt(code[row] || '0', 32));
+}
+
+/**
+ * Row bitmasks of a character. Accented letters fall back to the base letter (é -> e, ї -> і),
+ * anything else the font lacks is drawn as '?'.
+ */
+export function glyphRows(char: string): number[] {
+  let rows = decoded.get(char);
+  if (!rows) {
+    const base = char.normalize('NFD')[0] || char;
+    const code = GLYPHS[char] ?? GLYPHS[SAME_AS[char] ?? ''] ?? GLYPHS[base] ?? GLYPHS[SAME_AS[base] ?? ''] ?? GLYPHS['?']!;
+    rows = decode(code);
+    decoded.set(char, rows);
+  }
+  return rows;
+}
+
+/** Characters to draw for a text; signs the cell is too narrow for are spelled out */
+export function glyphText(text: string): string[] {
+  return Array.from(text.replace(/№/g, 'No'));
+}
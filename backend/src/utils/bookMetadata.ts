@@ -0,0 +1,251 @@
+import AdmZip from 'adm-zip';
+import { decodeEntities, decodeFb2, Fb2Author, fb2AuthorName } from './fb2';
+import { escapeHtml } from './fb2Render';
+import { buildZip, ZipWriteEntry } from './zip';
+
+// Library metadata written over the <title-info> of FB2 files and the OPF of EPUBs
+
+export interface BookMetadata {
+  bookId: number;
+  title: string;
+  authors: Fb2Author[];
+  series: Array<{ name: string; number: number | null }>;
+  genres: Array<{ code: string; name: string }>;
+  lang: string;
+  /** Annotation as plain-text paragraphs */
+  annotation: string[];
+}
+
+export interface MetadataCover {
+  data: Buffer;
+  contentType: string;
+}
+
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+const DC_NS = 'http://purl.org/dc/elements/1.1/';
+const COVER_EXTENSIONS: Record<string, string> = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/gif': 'gif', 'image/webp': 'webp' };
+// Already compressed, so stored as is when the EPUB is repacked
+const STORED_ENTRIES = /\.(jpe?g|png|gif|webp|mp3|mp4|m4a|woff2?|otf|ttf)$/i;
+
+interface ChildElement {
+  name: string;
+  local: string;
+  xml: string;
+}
+
+/**
+ * Top-level child elements of an XML fragment, verbatim and in document order
+ */
+function childElements(fragment: string): ChildElement[] {
+  const result: ChildElement[] = [];
+  const tags = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<(\/?)([\w:.-]+)(?:\s[^>]*?)?(\/?)>/g;
+  let depth = 0;
+  let start = -1;
+  let name = '';
+  for (const match of fragment.matchAll(tags)) {
+    if (!match[2]) continue;
+    const closing = match[1] === '/';
+    const selfClosing = match[3] === '/';
+    if (!closing && depth === 0) {
+      start = match.index;
+      name = match[2];
+    }
+    if (!closing && !selfClosing) { depth++; continue; }
+    if (closing) depth = Math.max(0, depth - 1);
+    if (depth === 0 && start >= 0) {
+      const colon = name.indexOf(':');
+      result.push({ name, local: (colon >= 0 ? name.slice(colon + 1) : name).toLowerCase(), xml: fragment.slice(start, match.index + match[0].length) });
+      start = -1;
+    }
+  }
+  return result;
+}
+
+/**
+ * Turn an HTML annotation from the database into plain-text paragraphs
+ */
+export function annotationParagraphs(html: string | null | undefined): string[] {
+  return decodeEntities(String(html || '')
+    .replace(/<br\s*\/?>|<\/p>|<\/div>|<\/li>/gi, '\n')
+    .replace(/<[^>]*>/g, ''))
+    .split(/\n+/)
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+function fileAs(author: Fb2Author): string {
+  const given = [author.firstName, author.middleName].filter(Boolean).join(' ');
+  if (!author.lastName) return fb2AuthorName(author);
+  return given ? `${author.lastName}, ${given}` : author.lastName;
+}
+
+function fb2Author(author: Fb2Author): string {
+  const field = (tag: string, value: string | undefined) => value ? `<${tag}>${escapeHtml(value)}</${tag}>` : '';
+  return `<author>${field('first-name', author.firstName)}${field('middle-name', author.middleName)}` +
+    `${field('last-name', author.lastName)}${field('nickname', author.nickname)}</author>`;
+}
+
+/**
+ * Whether a book file already carries a cover (FB2 coverpage, EPUB cover meta or cover-image item)
+ */
+export function hasEmbeddedCover(raw: Buffer, format: string): boolean {
+  if (format === 'epub') {
+    const opf = readOpf(new AdmZip(raw));
+    return !opf || /<meta[^>]*name=["']cover["']|properties=["'][^"']*cover-image/i.test(opf.text);
+  }
+  return /<(?:\w+:)?coverpage[\s>]/i.test(decodeFb2(raw));
+}
+
+/**
+ * Rewrite the FB2 <title-info> with library metadata. Fields the library knows nothing about keep
+ * their original values; the file is re-encoded as UTF-8. A cover is added only when there is none.
+ */
+export function embedFb2Metadata(raw: Buffer, meta: BookMetadata, cover?: MetadataCover | null): Buffer {
+  let xml = decodeFb2(raw);
+  const titleInfo = /<title-info(\s[^>]*)?>([\s\S]*?)<\/title-info>/i.exec(xml);
+  if (!titleInfo) return raw;
+
+  const children = childElements(titleInfo[2] || '');
+  const original = (...names: string[]) => children.filter(c => names.includes(c.local)).map(c => c.xml);
+  let coverpage = original('coverpage');
+  let binary = '';
+  const coverExt = cover && COVER_EXTENSIONS[cover.contentType];
+  if (!coverpage.length && cover && coverExt) {
+    // The coverpage link needs the document's own xlink prefix
+    const root = /<FictionBook\b[^>]*>/i.exec(xml);
+    let prefix = root && new RegExp(`xmlns:([\\w.-]+)=["']${XLINK_NS.replace(/[./]/g, '\\$&')}["']`).exec(root[0])?.[1];
+    if (!prefix) prefix = 'l';
+    const id = `cover-${meta.bookId}.${coverExt}`;
+    coverpage = [`<coverpage><image ${prefix}:href="#${id}"/></coverpage>`];
+    binary = `<binary id="${id}" content-type="${cover.contentType}">${cover.data.toString('base64')}</binary>\n`;
+  }
+
+  const seriesTag = (s: { name: string; number: number | null }) =>
+    `<sequence name="${escapeHtml(s.name)}"${s.number ? ` number="${s.number}"` : ''}/>`;
+  // Schema order: genre, author, book-title, annotation, keywords, date, coverpage, lang, src-lang, translator, sequence
+  const managed = ['genre', 'author', 'book-title', 'annotation', 'keywords', 'date', 'coverpage', 'lang', 'src-lang', 'translator', 'sequence'];
+  const parts = [
+    ...(meta.genres.length ? meta.genres.map(g => `<genre>${escapeHtml(g.code)}</genre>`) : original('genre')),
+    ...(meta.authors.length ? meta.authors.map(fb2Author) : original('author')),
+    ...(meta.title ? [`<book-title>${escapeHtml(meta.title)}</book-title>`] : original('book-title')),
+    ...(meta.annotation.length ? [`<annotation>${meta.annotation.map(p => `<p>${escapeHtml(p)}</p>`).join('')}</annotation>`] : original('annotation')),
+    ...original('keywords', 'date'),
+    ...coverpage,
+    ...(meta.lang ? [`<lang>${escapeHtml(meta.lang)}</lang>`] : original('lang')),
+    ...original('src-lang', 'translator'),
+    ...(meta.series.length ? meta.series.map(seriesTag) : original('sequence')),
+    ...children.filter(c => !managed.includes(c.local)).map(c => c.xml)
+  ];
+  const rebuilt = `<title-info${titleInfo[1] || ''}>\n${parts.map(p => `   ${p}\n`).join('')}  </title-info>`;
+  xml = xml.slice(0, titleInfo.index) + rebuilt + xml.slice(titleInfo.index + titleInfo[0].length);
+
+  if (binary) {
+    if (!new RegExp(`xmlns:[\\w.-]+=["']${XLINK_NS.replace(/[./]/g, '\\$&')}["']`).test(/<FictionBook\b[^>]*>/i.exec(xml)?.[0] || '')) {
+      xml = xml.replace(/<FictionBook\b/i, `$& xmlns:l="${XLINK_NS}"`);
+    }
+    const end = xml.search(/<\/FictionBook>\s*$/i);
+    xml = end >= 0 ? `${xml.slice(0, end)}${binary}${xml.slice(end)}` : `${xml}${binary}`;
+  }
+
+  const declaration = '<?xml version="1.0" encoding="utf-8"?>';
+  xml = /^\uFEFF?<\?xml[^>]*\?>/.test(xml) ? xml.replace(/^\uFEFF?<\?xml[^>]*\?>/, declaration) : `${declaration}\n${xml}`;
+  return Buffer.from(xml, 'utf8');
+}
+
+function readOpf(zip: AdmZip): { path: string; text: string } | null {
+  const container = zip.getEntry('META-INF/container.xml');
+  const opfPath = container ? /full-path=["']([^"']+)["']/i.exec(container.getData().toString('utf8'))?.[1] : undefined;
+  const opf = opfPath ? zip.getEntry(opfPath) : null;
+  return opfPath && opf ? { path: opfPath, text: opf.getData().toString('utf8') } : null;
+}
+
+/**
+ * Rewrite the EPUB package metadata (dc:title, dc:creator, dc:subject, dc:language, dc:description and
+ * the series as calibre and EPUB 3 collection metadata). Other entries are copied unchanged.
+ * Entries are dated by the source package's OPF, so the same input always repacks to the same bytes:
+ * downloads are tagged by the source md5 and the metadata version, not by the rebuilt body.
+ */
+export function embedEpubMetadata(raw: Buffer, meta: BookMetadata, cover?: MetadataCover | null): Buffer {
+  const zip = new AdmZip(raw);
+  const opf = readOpf(zip);
+  if (!opf) return raw;
+  let text = opf.text;
+  const metadata = /<((?:[\w.-]+:)?metadata)(\s[^>]*)?>([\s\S]*?)<\/\1>/i.exec(text);
+  if (!metadata) return raw;
+  const epub3 = /<(?:[\w.-]+:)?package\b[^>]*\sversion=["']3/i.test(text);
+  const opfAttributes = /xmlns:opf=/.test(text);
+
+  const children = childElements(metadata[3] || '');
+  const replaced = new Set<string>();
+  if (meta.title) replaced.add('title');
+  if (meta.authors.length) replaced.add('creator');
+  if (meta.genres.length) replaced.add('subject');
+  if (meta.lang) replaced.add('language');
+  if (meta.annotation.length) replaced.add('description');
+  const isSeriesMeta = (xml: string) => /name=["']calibre:series(_index)?["']|property=["']belongs-to-collection["']/i.test(xml);
+  const removed = children.filter(c => (c.local !== 'meta' && replaced.has(c.local)) || (meta.series.length && c.local === 'meta' && isSeriesMeta(c.xml)));
+  // EPUB 3 refinements of removed elements go with them
+  const removedIds = new Set(removed.map(c => /\sid=["']([^"']+)["']/.exec(c.xml)?.[1]).filter(Boolean).map(id => `#${id}`));
+  const kept = children.filter(c => !removed.includes(c) &&
+    !(c.local === 'meta' && removedIds.has(/\srefines=["']([^"']+)["']/.exec(c.xml)?.[1] || '')));
+
+  const added: string[] = [];
+  if (meta.title) added.push(`<dc:title id="flb-title">${escapeHtml(meta.title)}</dc:title>`);
+  meta.authors.forEach((author, i) => {
+    const id = `flb-creator${i + 1}`;
+    if (epub3) {
+      added.push(`<dc:creator id="${id}">${escapeHtml(fb2AuthorName(author))}</dc:creator>`,
+        `<meta refines="#${id}" property="role" scheme="marc:relators">aut</meta>`,
+        `<meta refines="#${id}" property="file-as">${escapeHtml(fileAs(author))}</meta>`);
+    } else {
+      const attrs = opfAttributes ? ` opf:role="aut" opf:file-as="${escapeHtml(fileAs(author))}"` : '';
+      added.push(`<dc:creator${attrs}>${escapeHtml(fb2AuthorName(author))}</dc:creator>`);
+    }
+  });
+  meta.genres.forEach(g => added.push(`<dc:subject>${escapeHtml(g.name || g.code)}</dc:subject>`));
+  if (meta.lang) added.push(`<dc:language>${escapeHtml(meta.lang)}</dc:language>`);
+  if (meta.annotation.length) added.push(`<dc:description>${escapeHtml(meta.annotation.join('\n'))}</dc:description>`);
+  const [first] = meta.series;
+  if (first) {
+    added.push(`<meta name="calibre:series" content="${escapeHtml(first.name)}"/>`);
+    if (first.number) added.push(`<meta name="calibre:series_index" content="${first.number}"/>`);
+  }
+  if (epub3) {
+    meta.series.forEach((s, i) => {
+      const id = `flb-series${i + 1}`;
+      added.push(`<meta property="belongs-to-collection" id="${id}">${escapeHtml(s.name)}</meta>`,
+        `<meta refines="#${id}" property="collection-type">series</meta>`);
+      if (s.number) added.push(`<meta refines="#${id}" property="group-position">${s.number}</meta>`);
+    });
+  }
+
+  let coverEntry: ZipWriteEntry | null = null;
+  let coverItem = '';
+  const coverExt = cover && COVER_EXTENSIONS[cover.contentType];
+  const hasCover = /<meta[^>]*name=["']cover["']|properties=["'][^"']*cover-image/i.test(text);
+  if (!hasCover && cover && coverExt) {
+    const href = `flibusta-cover.${coverExt}`;
+    const dir = opf.path.includes('/') ? opf.path.slice(0, opf.path.lastIndexOf('/') + 1) : '';
+    coverEntry = { name: `${dir}${href}`, data: cover.data, store: true };
+    coverItem = `<item id="flb-cover" href="${href}" media-type="${cover.contentType}"${epub3 ? ' properties="cover-image"' : ''}/>`;
+    added.push('<meta name="cover" content="flb-cover"/>');
+  }
+
+  let openTag = `<${metadata[1]}${metadata[2] || ''}>`;
+  if (!/xmlns:dc=/.test(text)) openTag = openTag.replace(/>$/, ` xmlns:dc="${DC_NS}">`);
+  const body = [...added, ...kept.map(c => c.xml)].map(x => `\n    ${x}`).join('');
+  const rebuilt = `${openTag}${body}\n  </${metadata[1]}>`;
+  text = text.slice(0, metadata.index) + rebuilt + text.slice(metadata.index + metadata[0].length);
+  if (coverItem) text = text.replace(/<\/((?:[\w.-]+:)?manifest)>/i, `  ${coverItem}\n  $&`);
+
+  const entries: ZipWriteEntry[] = [];
+  for (const entry of zip.getEntries()) {
+    if (entry.isDirectory) continue;
+    const data = entry.entryName === opf.path ? Buffer.from(text, 'utf8') : entry.getData();
+    entries.push({ name: entry.entryName, data, store: entry.entryName === 'mimetype' || STORED_ENTRIES.test(entry.entryName) });
+  }
+  if (coverEntry) entries.push(coverEntry);
+  // The mimetype entry must come first and uncompressed
+  entries.sort((a, b) => Number(b.name === 'mimetype') - Number(a.name === 'mimetype'));
+  return buildZip(entries, zip.getEntry(opf.path)?.header.time || new Date(1980, 0, 1));
+}
@@ -0,0 +1,246 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { encodeRfc5987, toSafeChars, transliterate } from './fileName';
+
+// Requests asking for more ranges than this are served whole (RFC 9110 allows ignoring Range)
+const MAX_RANGES = 16;
+
+export interface DownloadValidators {
+  etag: string;
+  lastModified?: Date | null;
+}
+
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Build a strong ETag from stable parts such as an md5, a format or a file mtime
+export function strongEtag(...parts: Array<string | number>): string {
+  const joined = parts.join(':');
+  // Hex digests can be used verbatim; anything else is hashed to keep the tag short and opaque
+  if (parts.length === 1 && /^[a-f0-9]{16,64}$/i.test(joined)) return `"${joined.toLowerCase()}"`;
+  return `"${crypto.createHash('sha1').update(joined).digest('hex')}"`;
+}
+
+// Strong ETag of a buffer's content, for files without an md5 in the database
+export function contentEtag(body: Buffer): string {
+  return `"${crypto.createHash('md5').update(body).digest('hex')}"`;
+}
+
+// Content-Disposition with a plain ASCII filename for old clients and the exact UTF-8 name in filename* (RFC 6266 / 5987)
+export function contentDisposition(fileName: string, type: 'attachment' | 'inline' = 'attachment'): string {
+  const fallback = toSafeChars(transliterate(fileName, 'icao')) || 'download';
+  if (fallback === fileName) return `${type}; filename="${fallback}"`;
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeRfc5987(fileName)}`;
+}
+
+// True when the client's cached copy matches (If-None-Match wins over If-Modified-Since)
+export function isNotModified(req: Request, validators: DownloadValidators): boolean {
+  const ifNoneMatch = req.get('If-None-Match');
+  if (ifNoneMatch) {
+    if (ifNoneMatch.trim() === '*') return true;
+    // Weak comparison is what RFC 9110 prescribes for If-None-Match
+    const strip = (tag: string) => tag.trim().replace(/^W\//, '');
+    return ifNoneMatch.split(',').map(strip).includes(strip(validators.etag));
+  }
+
+  const ifModifiedSince = req.get('If-Modified-Since');
+  if (ifModifiedSince && validators.lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    if (!Number.isNaN(since)) {
+      return Math.floor(validators.lastModified.getTime() / 1000) <= Math.floor(since / 1000);
+    }
+  }
+  return false;
+}
+
+// If-Range only lets the Range through when the client's validator still matches
+function ifRangeMatches(req: Request, validators: DownloadValidators): boolean {
+  const ifRange = req.get('If-Range');
+  if (!ifRange) return true;
+  const value = ifRange.trim();
+  if (value.startsWith('"') || value.startsWith('W/')) {
+    return value === validators.etag;
+  }
+  const date = Date.parse(value);
+  return !!validators.lastModified && !Number.isNaN(date)
+    && Math.floor(validators.lastModified.getTime() / 1000) <= Math.floor(date / 1000);
+}
+
+/**
+ * Parse a `Range: bytes=...` header against a body size.
+ * Returns null when the header is absent, malformed or not worth honouring (serve the full body),
+ * 'unsatisfiable' when no requested range overlaps the body, otherwise the sorted, merged ranges.
+ */
+export function parseRange(header: string | undefined, size: number): ByteRange[] | 'unsatisfiable' | null {
+  if (!header) return null;
+  const match = /^\s*bytes\s*=\s*(.+)$/i.exec(header);
+  if (!match) return null;
+
+  const specs = match[1]!.split(',').map(s => s.trim()).filter(Boolean);
+  if (specs.length === 0 || specs.length > MAX_RANGES) return null;
+
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const m = /^(\d*)-(\d*)$/.exec(spec);
+    if (!m || (m[1] === '' && m[2] === '')) return null;
+
+    let start: number;
+    let end: number;
+    if (m[1] === '') {
+      // Suffix range: the last N bytes
+      const suffix = parseInt(m[2]!, 10);
+      if (suffix === 0) continue;
+      start = Math.max(0, size - suffix);
+      end = size - 1;
+    } else {
+      start = parseInt(m[1]!, 10);
+      end = m[2] === '' ? size - 1 : Math.min(parseInt(m[2]!, 10), size - 1);
+      if (m[2] !== '' && parseInt(m[2]!, 10) < start) return null;
+    }
+    if (start >= size || start > end) continue;
+    ranges.push({ start, end });
+  }
+
+  if (ranges.length === 0) return 'unsatisfiable';
+
+  // Merge overlapping or adjacent ranges so clients cannot make us repeat bytes
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: ByteRange[] = [ranges[0]!];
+  for (const range of ranges.slice(1)) {
+    const last = merged[merged.length - 1]!;
+    if (range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push(range);
+    }
+  }
+  return merged;
+}
+
+// Shared validator/range negotiation. Returns undefined when the response (304/416) is already sent,
+// null for a full 200 response, otherwise the ranges to serve with 206.
+function negotiate(req: Request, res: Response, size: number, validators: DownloadValidators): ByteRange[] | null | undefined {
+  res.setHeader('ETag', validators.etag);
+  if (validators.lastModified) res.setHeader('Last-Modified', validators.lastModified.toUTCString());
+  res.setHeader('Accept-Ranges', 'bytes');
+
+  if (isNotModified(req, validators)) {
+    res.status(304).end();
+    return undefined;
+  }
+
+  const ranges = ifRangeMatches(req, validators) ? parseRange(req.get('Range'), size) : null;
+  if (ranges === 'unsatisfiable') {
+    res.setHeader('Content-Range', `bytes */${size}`);
+    res.status(416).end();
+    return undefined;
+  }
+  return ranges;
+}
+
+function partHeader(boundary: string, contentType: string, range: ByteRange, size: number): Buffer {
+  return Buffer.from(`\r\n--${boundary}\r\nContent-Type: ${contentType}\r\nContent-Range: bytes ${range.start}-${range.end}/${size}\r\n\r\n`);
+}
+
+/**
+ * Send a file body with ETag/Last-Modified validators, answering conditional GETs with 304
+ * and Range requests with 206 (single part or multipart/byteranges) or 416.
+ * Content-Disposition and Cache-Control are left to the caller.
+ */
+export function sendDownload(req: Request, res: Response, body: Buffer, contentType: string, validators: DownloadValidators): void {
+  const size = body.length;
+  const ranges = negotiate(req, res, size, validators);
+  if (ranges === undefined) return;
+
+  if (ranges && ranges.length === 1) {
+    const { start, end } = ranges[0]!;
+    res.status(206);
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Range', `bytes ${start}-${end}/${size}`);
+    res.setHeader('Content-Length', end - start + 1);
+    res.end(body.subarray(start, end + 1));
+    return;
+  }
+
+  if (ranges && ranges.length > 1) {
+    const boundary = crypto.randomBytes(12).toString('hex');
+    const parts: Buffer[] = [];
+    for (const range of ranges) {
+      parts.push(partHeader(boundary, contentType, range, size));
+      parts.push(body.subarray(range.start, range.end + 1));
+    }
+    parts.push(Buffer.from(`\r\n--${boundary}--\r\n`));
+    const multipart = Buffer.concat(parts);
+
+    res.status(206);
+    res.setHeader('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+    res.setHeader('Content-Length', multipart.length);
+    res.end(multipart);
+    return;
+  }
+
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Length', size);
+  res.end(body);
+}
+
+/**
+ * Streaming counterpart of sendDownload for bodies too large to buffer. `open` is called once
+ * per range (or once without a range for the full body) and must yield exactly those bytes.
+ */
+export async function sendDownloadStream(
+  req: Request,
+  res: Response,
+  size: number,
+  contentType: string,
+  validators: DownloadValidators,
+  open: (range?: ByteRange) => Promise<Readable>
+): Promise<void> {
+  const ranges = negotiate(req, res, size, validators);
+  if (ranges === undefined) return;
+
+  let boundary = '';
+  if (ranges && ranges.length === 1) {
+    const { start, end } = ranges[0]!;
+    res.status(206);
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Range', `bytes ${start}-${end}/${size}`);
+    res.setHeader('Content-Length', end - start + 1);
+  } else if (ranges && ranges.length > 1) {
+    boundary = crypto.randomBytes(12).toString('hex');
+    const closing = `\r\n--${boundary}--\r\n`.length;
+    const length = ranges.reduce((sum, r) => sum + partHeader(boundary, contentType, r, size).length + (r.end - r.start + 1), closing);
+    res.status(206);
+    res.setHeader('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+    res.setHeader('Content-Length', length);
+  } else {
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Length', size);
+  }
+
+  if (req.method === 'HEAD') {
+    res.end();
+    return;
+  }
+
+  try {
+    if (ranges && ranges.length > 1) {
+      for (const range of ranges) {
+        res.write(partHeader(boundary, contentType, range, size));
+        await pipeline(await open(range), res, { end: false });
+      }
+      res.end(`\r\n--${boundary}--\r\n`);
+    } else {
+      await pipeline(await open(ranges ? ranges[0]! : undefined), res);
+    }
+  } catch (error) {
+    // Once headers are out all we can do is cut the connection so the client sees a short read;
+    // before that the caller can still answer with an error status
+    if (res.headersSent) res.destroy(error as Error);
+    throw error;
+  }
+}
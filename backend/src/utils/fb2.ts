@@ -0,0 +1,647 @@
+import { TextDecoder } from 'util';
+
+// Minimal tolerant XML tree: element names lose their namespace prefix, attributes keep theirs
+export interface XmlElement {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+export type Fb2Inline =
+  | { type: 'text'; text: string }
+  | { type: 'emphasis' | 'strong' | 'strikethrough' | 'sub' | 'sup' | 'code'; children: Fb2Inline[] }
+  | { type: 'link'; href: string; note: boolean; children: Fb2Inline[] }
+  | { type: 'image'; href: string; alt?: string };
+
+export interface Fb2Title {
+  paragraphs: Fb2Inline[][];
+}
+
+export interface Fb2TableCell {
+  header: boolean;
+  colspan?: number;
+  rowspan?: number;
+  align?: string;
+  children: Fb2Inline[];
+}
+
+export interface Fb2Stanza {
+  title?: Fb2Title;
+  lines: Fb2Inline[][];
+}
+
+export type Fb2Block =
+  | { type: 'p' | 'subtitle'; id?: string; children: Fb2Inline[] }
+  | { type: 'empty-line' }
+  | { type: 'image'; href: string; id?: string; alt?: string; title?: string }
+  | { type: 'epigraph' | 'cite'; id?: string; blocks: Fb2Block[]; authors: Fb2Inline[][] }
+  | { type: 'poem'; id?: string; title?: Fb2Title; epigraphs: Fb2Block[]; stanzas: Fb2Stanza[]; authors: Fb2Inline[][]; date?: string }
+  | { type: 'table'; id?: string; rows: Fb2TableCell[][] };
+
+export interface Fb2Section {
+  type: 'section';
+  id?: string;
+  title?: Fb2Title;
+  epigraphs: Fb2Block[];
+  image?: Fb2Block;
+  annotation: Fb2Block[];
+  children: Array<Fb2Block | Fb2Section>;
+}
+
+export interface Fb2Body {
+  name?: string;
+  title?: Fb2Title;
+  epigraphs: Fb2Block[];
+  image?: Fb2Block;
+  sections: Fb2Section[];
+}
+
+export interface Fb2Note {
+  id: string;
+  title: string;
+  blocks: Fb2Block[];
+}
+
+export interface Fb2Binary {
+  contentType: string;
+  data: Buffer;
+}
+
+export interface Fb2Author {
+  firstName?: string;
+  middleName?: string;
+  lastName?: string;
+  nickname?: string;
+}
+
+export interface Fb2Metadata {
+  title?: string;
+  authors: Fb2Author[];
+  translators: Fb2Author[];
+  genres: string[];
+  keywords: string[];
+  lang?: string;
+  srcLang?: string;
+  date?: string;
+  annotation: Fb2Block[];
+  sequences: { name: string; number?: string }[];
+  coverImage?: string;
+  documentId?: string;
+}
+
+export interface Fb2Document {
+  meta: Fb2Metadata;
+  bodies: Fb2Body[];
+  notesTitle?: string;
+  notes: Map<string, Fb2Note>;
+  binaries: Map<string, Fb2Binary>;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'",
+  // HTML entities that slip into hand-made FB2 files
+  nbsp: ' ', mdash: '—', ndash: '–', hellip: '…', laquo: '«', raquo: '»',
+  bdquo: '„', ldquo: '“', rdquo: '”', lsquo: '‘', rsquo: '’', shy: '­', copy: '©'
+};
+
+const INLINE_TAGS: Record<string, 'emphasis' | 'strong' | 'strikethrough' | 'sub' | 'sup' | 'code'> = {
+  emphasis: 'emphasis', strong: 'strong', strikethrough: 'strikethrough', sub: 'sub', sup: 'sup', code: 'code',
+  // Non-standard spellings seen in the wild
+  em: 'emphasis', i: 'emphasis', b: 'strong', s: 'strikethrough'
+};
+
+export function decodeEntities(text: string): string {
+  if (!text.includes('&')) return text;
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (whole, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : whole;
+    }
+    return XML_ENTITIES[ref.toLowerCase()] ?? whole;
+  });
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return (colon >= 0 ? name.slice(colon + 1) : name).toLowerCase();
+}
+
+/**
+ * Parse XML into a tree without validation. Unclosed elements are closed by their ancestors'
+ * end tags and stray end tags are ignored, so broken FB2 files still yield their content.
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attrs: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let pos = 0;
+
+  while (pos < xml.length) {
+    const lt = xml.indexOf('<', pos);
+    const top = stack[stack.length - 1]!;
+    if (lt < 0) {
+      top.children.push(decodeEntities(xml.slice(pos)));
+      break;
+    }
+    if (lt > pos) top.children.push(decodeEntities(xml.slice(pos, lt)));
+
+    if (xml.startsWith('<!--', lt)) {
+      const end = xml.indexOf('-->', lt + 4);
+      pos = end < 0 ? xml.length : end + 3;
+      continue;
+    }
+    if (xml.startsWith('<![CDATA[', lt)) {
+      const end = xml.indexOf(']]>', lt + 9);
+      top.children.push(xml.slice(lt + 9, end < 0 ? xml.length : end));
+      pos = end < 0 ? xml.length : end + 3;
+      continue;
+    }
+    if (xml.startsWith('<?', lt)) {
+      const end = xml.indexOf('?>', lt + 2);
+      pos = end < 0 ? xml.length : end + 2;
+      continue;
+    }
+    if (xml.startsWith('<!', lt)) {
+      // DOCTYPE, possibly with an internal subset
+      const bracket = xml.indexOf('[', lt);
+      const close = xml.indexOf('>', lt);
+      const end = bracket >= 0 && bracket < close ? xml.indexOf(']>', bracket) + 1 : close;
+      pos = end <= 0 ? xml.length : end + 1;
+      continue;
+    }
+
+    // Find the end of the tag, skipping '>' inside quoted attribute values
+    let end = lt + 1;
+    let quote = '';
+    for (; end < xml.length; end++) {
+      const c = xml[end];
+      if (quote) {
+        if (c === quote) quote = '';
+      } else if (c === '"' || c === "'") {
+        quote = c;
+      } else if (c === '>') {
+        break;
+      }
+    }
+    const tag = xml.slice(lt + 1, end);
+    pos = end + 1;
+
+    if (tag.startsWith('/')) {
+      const name = localName(tag.slice(1).trim());
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i]!.name === name) {
+          stack.length = i;
+          break;
+        }
+      }
+      continue;
+    }
+
+    const selfClosing = tag.endsWith('/');
+    const body = selfClosing ? tag.slice(0, -1) : tag;
+    const nameMatch = /^\s*([^\s/>]+)/.exec(body);
+    if (!nameMatch) {
+      top.children.push(decodeEntities(`<${tag}>`));
+      continue;
+    }
+    const element: XmlElement = { name: localName(nameMatch[1]!), attrs: {}, children: [] };
+    const attrRx = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"']+))/g;
+    const rest = body.slice(nameMatch[0].length);
+    let m: RegExpExecArray | null;
+    while ((m = attrRx.exec(rest))) {
+      element.attrs[m[1]!] = decodeEntities(m[2] ?? m[3] ?? m[4] ?? '');
+    }
+    top.children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+  return root;
+}
+
+/** Attribute value by local name, so `l:href`, `xlink:href` and `href` all match 'href' */
+export function xmlAttr(el: XmlElement, name: string): string | undefined {
+  if (el.attrs[name] !== undefined) return el.attrs[name];
+  for (const [key, value] of Object.entries(el.attrs)) {
+    if (localName(key) === name) return value;
+  }
+  return undefined;
+}
+
+export function xmlChild(el: XmlElement | undefined, name: string): XmlElement | undefined {
+  return el?.children.find((c): c is XmlElement => typeof c !== 'string' && c.name === name);
+}
+
+export function xmlChildren(el: XmlElement | undefined, name: string): XmlElement[] {
+  return (el?.children || []).filter((c): c is XmlElement => typeof c !== 'string' && c.name === name);
+}
+
+export function xmlText(node: XmlNode | undefined): string {
+  if (node === undefined) return '';
+  if (typeof node === 'string') return node;
+  return node.children.map(xmlText).join('');
+}
+
+/**
+ * Decode FB2 bytes using the BOM or the encoding named in the XML declaration
+ * (windows-1251 and koi8-r are common in older files).
+ */
+export function decodeFb2(buf: Buffer): string {
+  if (buf[0] === 0xef && buf[1] === 0xbb && buf[2] === 0xbf) return buf.subarray(3).toString('utf8');
+  if (buf[0] === 0xff && buf[1] === 0xfe) return new TextDecoder('utf-16le').decode(buf.subarray(2));
+  if (buf[0] === 0xfe && buf[1] === 0xff) return new TextDecoder('utf-16be').decode(buf.subarray(2));
+  const declared = /^<\?xml[^>]*encoding\s*=\s*["']([\w.:-]+)["']/i.exec(buf.subarray(0, 200).toString('latin1'));
+  const encoding = (declared?.[1] || 'utf-8').toLowerCase();
+  if (encoding === 'utf-8' || encoding === 'utf8') return buf.toString('utf8');
+  try {
+    return new TextDecoder(encoding).decode(buf);
+  } catch {
+    return buf.toString('utf8');
+  }
+}
+
+function normalizeInlines(nodes: Fb2Inline[]): Fb2Inline[] {
+  // XML line breaks inside paragraphs are plain spaces; trim the paragraph edges
+  const collapse = (list: Fb2Inline[]): Fb2Inline[] => list.map(n => {
+    if (n.type === 'text') return { type: 'text', text: n.text.replace(/\s+/g, ' ') };
+    if (n.type === 'image') return n;
+    return { ...n, children: collapse(n.children) };
+  });
+  const out = collapse(nodes);
+  const trimEdge = (list: Fb2Inline[], start: boolean): void => {
+    const node = start ? list[0] : list[list.length - 1];
+    if (!node) return;
+    if (node.type === 'text') {
+      node.text = start ? node.text.replace(/^ /, '') : node.text.replace(/ $/, '');
+      if (!node.text) {
+        if (start) list.shift(); else list.pop();
+        trimEdge(list, start);
+      }
+    } else if (node.type !== 'image') {
+      trimEdge(node.children, start);
+    }
+  };
+  trimEdge(out, true);
+  trimEdge(out, false);
+  return out;
+}
+
+function parseInlines(nodes: XmlNode[]): Fb2Inline[] {
+  const out: Fb2Inline[] = [];
+  for (const node of nodes) {
+    if (typeof node === 'string') {
+      if (node) out.push({ type: 'text', text: node });
+      continue;
+    }
+    const style = INLINE_TAGS[node.name];
+    if (style) {
+      out.push({ type: style, children: parseInlines(node.children) });
+    } else if (node.name === 'a') {
+      const href = xmlAttr(node, 'href') || '';
+      out.push({ type: 'link', href, note: xmlAttr(node, 'type') === 'note', children: parseInlines(node.children) });
+    } else if (node.name === 'image') {
+      const image: Fb2Inline = { type: 'image', href: xmlAttr(node, 'href') || '' };
+      const alt = xmlAttr(node, 'alt');
+      if (alt) image.alt = alt;
+      out.push(image);
+    } else {
+      // Unknown inline markup (style, br, span ...) keeps its text
+      out.push(...parseInlines(node.children));
+    }
+  }
+  return out;
+}
+
+function paragraphInlines(el: XmlElement): Fb2Inline[] {
+  return normalizeInlines(parseInlines(el.children));
+}
+
+function parseTitle(el: XmlElement | undefined): Fb2Title | undefined {
+  if (!el) return undefined;
+  const paragraphs = xmlChildren(el, 'p').map(paragraphInlines).filter(p => p.length > 0);
+  if (paragraphs.length === 0) {
+    const loose = normalizeInlines(parseInlines(el.children));
+    if (loose.length) paragraphs.push(loose);
+  }
+  return paragraphs.length ? { paragraphs } : undefined;
+}
+
+function withId<T extends object>(block: T, el: XmlElement): T {
+  const id = xmlAttr(el, 'id');
+  return id ? { ...block, id } : block;
+}
+
+function parseImageBlock(el: XmlElement): Fb2Block {
+  const image: Fb2Block = { type: 'image', href: xmlAttr(el, 'href') || '' };
+  const alt = xmlAttr(el, 'alt');
+  const title = xmlAttr(el, 'title');
+  if (alt) image.alt = alt;
+  if (title) image.title = title;
+  return withId(image, el);
+}
+
+function parseTable(el: XmlElement): Fb2Block {
+  const rows = xmlChildren(el, 'tr').map(tr => tr.children
+    .filter((c): c is XmlElement => typeof c !== 'string' && (c.name === 'td' || c.name === 'th'))
+    .map(cell => {
+      const parsed: Fb2TableCell = { header: cell.name === 'th', children: paragraphInlines(cell) };
+      const colspan = parseInt(xmlAttr(cell, 'colspan') || '', 10);
+      const rowspan = parseInt(xmlAttr(cell, 'rowspan') || '', 10);
+      const align = xmlAttr(cell, 'align');
+      if (colspan > 1) parsed.colspan = colspan;
+      if (rowspan > 1) parsed.rowspan = rowspan;
+      if (align) parsed.align = align;
+      return parsed;
+    }));
+  return withId({ type: 'table', rows }, el);
+}
+
+function parsePoem(el: XmlElement): Fb2Block {
+  const stanzas: Fb2Stanza[] = xmlChildren(el, 'stanza').map(st => {
+    const stanza: Fb2Stanza = { lines: xmlChildren(st, 'v').map(paragraphInlines) };
+    const title = parseTitle(xmlChild(st, 'title'));
+    if (title) stanza.title = title;
+    return stanza;
+  });
+  // Poems without stanzas put their lines directly under <poem>
+  const looseLines = xmlChildren(el, 'v').map(paragraphInlines);
+  if (looseLines.length) stanzas.push({ lines: looseLines });
+
+  const poem: Fb2Block = {
+    type: 'poem',
+    epigraphs: xmlChildren(el, 'epigraph').map(parseQuote),
+    stanzas,
+    authors: xmlChildren(el, 'text-author').map(paragraphInlines)
+  };
+  const title = parseTitle(xmlChild(el, 'title'));
+  if (title) poem.title = title;
+  const date = xmlText(xmlChild(el, 'date')).trim();
+  if (date) poem.date = date;
+  return withId(poem, el);
+}
+
+function parseQuote(el: XmlElement): Fb2Block {
+  return withId({
+    type: el.name === 'cite' ? 'cite' : 'epigraph',
+    blocks: parseBlocks(el.children.filter(c => typeof c === 'string' || c.name !== 'text-author')),
+    authors: xmlChildren(el, 'text-author').map(paragraphInlines)
+  }, el);
+}
+
+function parseBlock(el: XmlElement): Fb2Block | null {
+  switch (el.name) {
+    case 'p':
+    case 'subtitle':
+      return withId({ type: el.name, children: paragraphInlines(el) }, el);
+    case 'empty-line':
+      return { type: 'empty-line' };
+    case 'image':
+      return parseImageBlock(el);
+    case 'epigraph':
+    case 'cite':
+      return parseQuote(el);
+    case 'poem':
+      return parsePoem(el);
+    case 'table':
+      return parseTable(el);
+    case 'text-author':
+      return { type: 'p', children: paragraphInlines(el) };
+    default:
+      return null;
+  }
+}
+
+function parseBlocks(nodes: XmlNode[]): Fb2Block[] {
+  const out: Fb2Block[] = [];
+  for (const node of nodes) {
+    if (typeof node === 'string') {
+      // Text loose in a container becomes its own paragraph
+      const children = normalizeInlines([{ type: 'text', text: node }]);
+      if (children.length) out.push({ type: 'p', children });
+      continue;
+    }
+    const block = parseBlock(node);
+    if (block) out.push(block);
+  }
+  return out;
+}
+
+function parseSection(el: XmlElement): Fb2Section {
+  const section: Fb2Section = { type: 'section', epigraphs: [], annotation: [], children: [] };
+  let headerDone = false;
+  for (const node of el.children) {
+    if (typeof node !== 'string') {
+      if (node.name === 'title' && !section.title) {
+        const title = parseTitle(node);
+        if (title) section.title = title;
+        continue;
+      }
+      // Epigraphs, image and annotation before the first content block belong to the section header
+      if (!headerDone && node.name === 'epigraph') {
+        section.epigraphs.push(parseQuote(node));
+        continue;
+      }
+      if (!headerDone && node.name === 'image' && !section.image && section.children.length === 0) {
+        section.image = parseImageBlock(node);
+        continue;
+      }
+      if (!headerDone && node.name === 'annotation') {
+        section.annotation = parseBlocks(node.children);
+        continue;
+      }
+      if (node.name === 'section') {
+        headerDone = true;
+        section.children.push(parseSection(node));
+        continue;
+      }
+    }
+    const blocks = parseBlocks([node]);
+    if (blocks.length) headerDone = true;
+    section.children.push(...blocks);
+  }
+  const id = xmlAttr(el, 'id');
+  if (id) section.id = id;
+  return section;
+}
+
+function parseAuthor(el: XmlElement): Fb2Author {
+  const author: Fb2Author = {};
+  const field = (name: string) => xmlText(xmlChild(el, name)).replace(/\s+/g, ' ').trim();
+  const first = field('first-name');
+  const middle = field('middle-name');
+  const last = field('last-name');
+  const nick = field('nickname');
+  if (first) author.firstName = first;
+  if (middle) author.middleName = middle;
+  if (last) author.lastName = last;
+  if (nick) author.nickname = nick;
+  return author;
+}
+
+/** "First Middle Last", falling back to the nickname */
+export function fb2AuthorName(author: Fb2Author): string {
+  const full = [author.firstName, author.middleName, author.lastName].filter(Boolean).join(' ');
+  return full || author.nickname || '';
+}
+
+function parseMetadata(description: XmlElement | undefined): Fb2Metadata {
+  const titleInfo = xmlChild(description, 'title-info');
+  const meta: Fb2Metadata = {
+    authors: xmlChildren(titleInfo, 'author').map(parseAuthor).filter(a => fb2AuthorName(a)),
+    translators: xmlChildren(titleInfo, 'translator').map(parseAuthor).filter(a => fb2AuthorName(a)),
+    genres: xmlChildren(titleInfo, 'genre').map(g => xmlText(g).trim()).filter(Boolean),
+    keywords: xmlText(xmlChild(titleInfo, 'keywords')).split(',').map(k => k.trim()).filter(Boolean),
+    annotation: parseBlocks(xmlChild(titleInfo, 'annotation')?.children || []),
+    sequences: []
+  };
+  const text = (el: XmlElement | undefined) => xmlText(el).replace(/\s+/g, ' ').trim();
+  const title = text(xmlChild(titleInfo, 'book-title'));
+  if (title) meta.title = title;
+  const lang = text(xmlChild(titleInfo, 'lang'));
+  if (lang) meta.lang = lang;
+  const srcLang = text(xmlChild(titleInfo, 'src-lang'));
+  if (srcLang) meta.srcLang = srcLang;
+  const dateEl = xmlChild(titleInfo, 'date');
+  const date = (dateEl && xmlAttr(dateEl, 'value')) || text(dateEl);
+  if (date) meta.date = date;
+  for (const seq of xmlChildren(titleInfo, 'sequence')) {
+    const name = (xmlAttr(seq, 'name') || '').trim();
+    if (!name) continue;
+    const number = (xmlAttr(seq, 'number') || '').trim();
+    meta.sequences.push(number ? { name, number } : { name });
+  }
+  const coverImage = xmlChild(xmlChild(titleInfo, 'coverpage'), 'image');
+  const coverHref = coverImage && xmlAttr(coverImage, 'href');
+  if (coverHref) meta.coverImage = coverHref.replace(/^#/, '');
+  const documentId = text(xmlChild(xmlChild(description, 'document-info'), 'id'));
+  if (documentId) meta.documentId = documentId;
+  return meta;
+}
+
+/** Title paragraphs joined into one line, for TOC labels */
+export function fb2TitleText(title: Fb2Title | undefined): string {
+  if (!title) return '';
+  return title.paragraphs.map(p => inlineText(p)).join(' ').replace(/\s+/g, ' ').trim();
+}
+
+/** Plain text of inline content */
+export function inlineText(nodes: Fb2Inline[]): string {
+  return nodes.map(n => {
+    if (n.type === 'text') return n.text;
+    if (n.type === 'image') return '';
+    return inlineText(n.children);
+  }).join('');
+}
+
+function collectNotes(sections: Fb2Section[], notes: Map<string, Fb2Note>): void {
+  for (const section of sections) {
+    const nested = section.children.filter((c): c is Fb2Section => c.type === 'section');
+    if (section.id) {
+      notes.set(section.id, {
+        id: section.id,
+        title: fb2TitleText(section.title),
+        blocks: section.children.filter((c): c is Fb2Block => c.type !== 'section')
+      });
+    }
+    collectNotes(nested, notes);
+  }
+}
+
+/**
+ * Parse an FB2 file into metadata, bodies, footnotes and embedded binaries.
+ * Bodies named "notes" or "comments" become the footnote map keyed by section id.
+ */
+export function parseFb2(source: Buffer | string): Fb2Document {
+  const xml = typeof source === 'string' ? source : decodeFb2(source);
+  const root = parseXml(xml);
+  const book = xmlChild(root, 'fictionbook') || root;
+
+  const doc: Fb2Document = {
+    meta: parseMetadata(xmlChild(book, 'description')),
+    bodies: [],
+    notes: new Map(),
+    binaries: new Map()
+  };
+
+  for (const bodyEl of xmlChildren(book, 'body')) {
+    const name = xmlAttr(bodyEl, 'name');
+    const sections: Fb2Section[] = [];
+    // Content placed directly in <body> (no sections) is wrapped into one untitled section
+    const loose: XmlNode[] = [];
+    for (const child of bodyEl.children) {
+      if (typeof child !== 'string' && child.name === 'section') sections.push(parseSection(child));
+      else if (typeof child === 'string' || !['title', 'epigraph', 'image'].includes(child.name)) loose.push(child);
+    }
+    if (loose.some(n => typeof n !== 'string' || n.trim())) {
+      sections.unshift(parseSection({ name: 'section', attrs: {}, children: loose }));
+    }
+
+    if (name === 'notes' || name === 'comments') {
+      collectNotes(sections, doc.notes);
+      const notesTitle = fb2TitleText(parseTitle(xmlChild(bodyEl, 'title')));
+      if (notesTitle && !doc.notesTitle) doc.notesTitle = notesTitle;
+      continue;
+    }
+
+    const body: Fb2Body = {
+      epigraphs: xmlChildren(bodyEl, 'epigraph').map(parseQuote),
+      sections
+    };
+    if (name) body.name = name;
+    const title = parseTitle(xmlChild(bodyEl, 'title'));
+    if (title) body.title = title;
+    const image = xmlChild(bodyEl, 'image');
+    if (image) body.image = parseImageBlock(image);
+    doc.bodies.push(body);
+  }
+
+  for (const bin of xmlChildren(book, 'binary')) {
+    const id = xmlAttr(bin, 'id');
+    if (!id) continue;
+    doc.binaries.set(id, {
+      contentType: (xmlAttr(bin, 'content-type') || 'application/octet-stream').toLowerCase(),
+      data: Buffer.from(xmlText(bin).replace(/\s+/g, ''), 'base64')
+    });
+  }
+
+  // Notes can also be referenced without type="note"; mark links that point into the notes body
+  const markNotes = (nodes: Fb2Inline[]): void => {
+    for (const n of nodes) {
+      if (n.type === 'link' && n.href.startsWith('#') && doc.notes.has(n.href.slice(1))) n.note = true;
+      if (n.type !== 'text' && n.type !== 'image') markNotes(n.children);
+    }
+  };
+  if (doc.notes.size) walkInlines(doc, markNotes);
+
+  return doc;
+}
+
+/** Visit every inline run of the document's bodies, in document order */
+export function walkInlines(doc: Fb2Document, visit: (nodes: Fb2Inline[]) => void): void {
+  const title = (t: Fb2Title | undefined) => t?.paragraphs.forEach(visit);
+  const blocks = (list: Fb2Block[]): void => {
+    for (const b of list) {
+      if (b.type === 'p' || b.type === 'subtitle') visit(b.children);
+      else if (b.type === 'epigraph' || b.type === 'cite') { blocks(b.blocks); b.authors.forEach(visit); }
+      else if (b.type === 'poem') {
+        title(b.title);
+        blocks(b.epigraphs);
+        b.stanzas.forEach(s => { title(s.title); s.lines.forEach(visit); });
+        b.authors.forEach(visit);
+      } else if (b.type === 'table') b.rows.forEach(r => r.forEach(c => visit(c.children)));
+    }
+  };
+  const section = (s: Fb2Section): void => {
+    title(s.title);
+    blocks(s.epigraphs);
+    blocks(s.annotation);
+    for (const c of s.children) {
+      if (c.type === 'section') section(c);
+      else blocks([c]);
+    }
+  };
+  for (const body of doc.bodies) {
+    title(body.title);
+    blocks(body.epigraphs);
+    body.sections.forEach(section);
+  }
+}
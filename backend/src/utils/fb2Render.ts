@@ -0,0 +1,616 @@
+import {
+  Fb2Block, Fb2Body, Fb2Document, Fb2Inline, Fb2Section, Fb2Title,
+  fb2AuthorName, fb2TitleText, inlineText
+} from './fb2';
+import { buildZip, ZipWriteEntry } from './zip';
+
+// Sections nested deeper than this stay inside their parent's chapter
+const CHAPTER_SPLIT_DEPTH = 2;
+
+export const FB2_STYLESHEET = `body { margin: 0 5%; line-height: 1.4; }
+h1, h2, h3, h4, h5, h6 { text-align: center; page-break-after: avoid; }
+p { margin: 0; text-indent: 1.5em; text-align: justify; }
+.subtitle { text-align: center; font-weight: bold; text-indent: 0; margin: 1em 0; }
+.epigraph { margin: 1em 0 1em 30%; font-style: italic; }
+.cite { margin: 1em 5%; }
+.text-author { text-align: right; font-style: italic; text-indent: 0; }
+.poem { margin: 1em 10%; }
+.poem p, .stanza p { text-indent: 0; text-align: left; }
+.stanza { margin: 0.5em 0; }
+.poem-title { font-weight: bold; }
+.date { text-align: right; }
+.image { text-align: center; margin: 1em 0; text-indent: 0; }
+.image img { max-width: 100%; }
+.empty-line { height: 1em; }
+table { border-collapse: collapse; margin: 1em auto; }
+td, th { border: 1px solid #888; padding: 0.2em 0.5em; }
+.noteref { font-size: 0.75em; vertical-align: super; line-height: 0; text-decoration: none; }
+.note { margin-bottom: 1em; }
+.note-title { font-weight: bold; text-indent: 0; }
+.title-page { text-align: center; }
+.title-page p { text-indent: 0; text-align: center; }
+.annotation { margin: 2em 0; font-style: italic; }
+`;
+
+export interface Fb2Chapter {
+  index: number;
+  title: string;
+  level: number;
+  body: Fb2Body;
+  /** Undefined for a body's own title page (title, epigraphs and image of <body>) */
+  section?: Fb2Section;
+  /** Nested sections are separate chapters and are not rendered here */
+  shallow: boolean;
+}
+
+export interface Fb2TocEntry {
+  title: string;
+  chapter: number;
+  anchor: string;
+  children: Fb2TocEntry[];
+}
+
+export interface Fb2Outline {
+  chapters: Fb2Chapter[];
+  toc: Fb2TocEntry[];
+  /** Element id (as used in FB2 links) -> chapter index */
+  targets: Map<string, number>;
+  sectionAnchors: Map<Fb2Section, string>;
+}
+
+export interface Fb2HtmlOptions {
+  /** Emit XHTML (self-closed void elements, epub:type semantics) */
+  xhtml?: boolean;
+  /** URL for an embedded binary, or null to drop the image */
+  imageSrc: (binaryId: string) => string | null;
+  /** File part of a link to a chapter ('' when everything is in one document) */
+  chapterHref: (index: number) => string;
+  /** File part of a link to the footnotes */
+  notesHref: string;
+}
+
+export function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c] as string));
+}
+
+/** FB2 ids may start with digits or contain characters that are invalid in XML ids */
+export function safeAnchor(id: string): string {
+  const cleaned = id.replace(/[^A-Za-z0-9_.-]/g, '_');
+  return /^[A-Za-z_]/.test(cleaned) ? cleaned : `id-${cleaned}`;
+}
+
+function blockIds(blocks: Fb2Block[], out: string[]): void {
+  for (const b of blocks) {
+    if ('id' in b && b.id) out.push(b.id);
+    if (b.type === 'epigraph' || b.type === 'cite') blockIds(b.blocks, out);
+    if (b.type === 'poem') blockIds(b.epigraphs, out);
+  }
+}
+
+function isSection(node: Fb2Block | Fb2Section): node is Fb2Section {
+  return node.type === 'section';
+}
+
+/**
+ * Split the main bodies into chapters: sections down to CHAPTER_SPLIT_DEPTH get their own chapter,
+ * deeper ones are rendered inline. Untitled sections add no TOC entry of their own.
+ */
+export function buildOutline(doc: Fb2Document): Fb2Outline {
+  const outline: Fb2Outline = { chapters: [], toc: [], targets: new Map(), sectionAnchors: new Map() };
+  let counter = 0;
+
+  const anchorFor = (section: Fb2Section): string => {
+    let anchor = outline.sectionAnchors.get(section);
+    if (!anchor) {
+      anchor = section.id ? safeAnchor(section.id) : `section-${++counter}`;
+      outline.sectionAnchors.set(section, anchor);
+    }
+    return anchor;
+  };
+
+  // Register a section rendered inside `chapter`; deep sections bring their nested sections along
+  const register = (section: Fb2Section, chapter: number, deep: boolean, toc: Fb2TocEntry[]): void => {
+    anchorFor(section);
+    if (section.id) outline.targets.set(section.id, chapter);
+    const ids: string[] = [];
+    blockIds(section.epigraphs, ids);
+    blockIds(section.children.filter((c): c is Fb2Block => !isSection(c)), ids);
+    ids.forEach(id => outline.targets.set(id, chapter));
+    if (!deep) return;
+    for (const sub of section.children.filter(isSection)) {
+      const title = fb2TitleText(sub.title);
+      const entry: Fb2TocEntry = { title, chapter, anchor: anchorFor(sub), children: [] };
+      if (title) toc.push(entry);
+      register(sub, chapter, true, title ? entry.children : toc);
+    }
+  };
+
+  const visit = (body: Fb2Body, section: Fb2Section, level: number, toc: Fb2TocEntry[]): void => {
+    const subsections = section.children.filter(isSection);
+    const shallow = level < CHAPTER_SPLIT_DEPTH && subsections.length > 0;
+    const title = fb2TitleText(section.title);
+    const hasOwnContent = !!title || section.epigraphs.length > 0 || !!section.image
+      || section.annotation.length > 0 || section.children.some(c => !isSection(c));
+
+    // An empty wrapper section gets no chapter; links to it land on its first child's chapter
+    const chapter = outline.chapters.length;
+    if (hasOwnContent || !shallow) {
+      outline.chapters.push({ index: chapter, title, level, body, section, shallow });
+    }
+    const entry: Fb2TocEntry = { title, chapter, anchor: anchorFor(section), children: [] };
+    if (title) toc.push(entry);
+    const childToc = title ? entry.children : toc;
+    register(section, chapter, !shallow, childToc);
+    if (shallow) subsections.forEach(sub => visit(body, sub, level + 1, childToc));
+  };
+
+  for (const body of doc.bodies) {
+    if (body.title || body.epigraphs.length || body.image) {
+      outline.chapters.push({
+        index: outline.chapters.length,
+        title: fb2TitleText(body.title) || doc.meta.title || '',
+        level: 0,
+        body,
+        shallow: true
+      });
+    }
+    body.sections.forEach(section => visit(body, section, 1, outline.toc));
+  }
+  return outline;
+}
+
+/**
+ * Renders FB2 content to HTML or XHTML. Keeps track of footnote references so the notes
+ * can link back to the first place each one was cited.
+ */
+export class Fb2HtmlRenderer {
+  private noteRefs: Map<string, { chapter: number; anchor: string }> = new Map();
+  private currentChapter = 0;
+
+  constructor(private doc: Fb2Document, private outline: Fb2Outline, private options: Fb2HtmlOptions) {}
+
+  private voidTag(tag: string, attrs: string): string {
+    return this.options.xhtml ? `<${tag}${attrs} />` : `<${tag}${attrs}>`;
+  }
+
+  private imageTag(href: string, alt: string | undefined): string {
+    if (!href.startsWith('#')) return '';
+    const src = this.options.imageSrc(href.slice(1));
+    if (!src) return '';
+    return this.voidTag('img', ` src="${escapeHtml(src)}" alt="${escapeHtml(alt || '')}"`);
+  }
+
+  private linkHref(href: string): string {
+    if (!href.startsWith('#')) return /^(https?|mailto):/i.test(href) ? href : '#';
+    const id = href.slice(1);
+    if (this.doc.notes.has(id)) return `${this.options.notesHref}#${safeAnchor(id)}`;
+    const chapter = this.outline.targets.get(id);
+    return chapter === undefined ? href : `${this.options.chapterHref(chapter)}#${safeAnchor(id)}`;
+  }
+
+  inlines(nodes: Fb2Inline[]): string {
+    return nodes.map(n => {
+      switch (n.type) {
+        case 'text': return escapeHtml(n.text);
+        case 'emphasis': return `<em>${this.inlines(n.children)}</em>`;
+        case 'strong': return `<strong>${this.inlines(n.children)}</strong>`;
+        case 'strikethrough': return `<del>${this.inlines(n.children)}</del>`;
+        case 'sub': return `<sub>${this.inlines(n.children)}</sub>`;
+        case 'sup': return `<sup>${this.inlines(n.children)}</sup>`;
+        case 'code': return `<code>${this.inlines(n.children)}</code>`;
+        case 'image': return this.imageTag(n.href, n.alt);
+        case 'link': {
+          if (!n.note) {
+            return `<a href="${escapeHtml(this.linkHref(n.href))}">${this.inlines(n.children)}</a>`;
+          }
+          const noteId = n.href.replace(/^#/, '');
+          let idAttr = '';
+          if (!this.noteRefs.has(noteId)) {
+            const anchor = `ref-${safeAnchor(noteId)}`;
+            this.noteRefs.set(noteId, { chapter: this.currentChapter, anchor });
+            idAttr = ` id="${anchor}"`;
+          }
+          const type = this.options.xhtml ? ' epub:type="noteref"' : '';
+          const label = this.inlines(n.children).replace(/^\[(.*)\]$/, '$1') || '*';
+          return `<a class="noteref"${idAttr}${type} href="${escapeHtml(this.linkHref(n.href))}">${label}</a>`;
+        }
+      }
+      return '';
+    }).join('');
+  }
+
+  private idAttr(id: string | undefined): string {
+    return id ? ` id="${escapeHtml(safeAnchor(id))}"` : '';
+  }
+
+  private authors(lines: Fb2Inline[][]): string {
+    return lines.map(l => `<p class="text-author">${this.inlines(l)}</p>`).join('\n');
+  }
+
+  private title(title: Fb2Title | undefined, tag: string, cls?: string): string {
+    if (!title) return '';
+    const attr = cls ? ` class="${cls}"` : '';
+    return `<${tag}${attr}>${title.paragraphs.map(p => this.inlines(p)).join(this.voidTag('br', ''))}</${tag}>`;
+  }
+
+  blocks(blocks: Fb2Block[]): string {
+    return blocks.map(b => this.block(b)).filter(Boolean).join('\n');
+  }
+
+  block(b: Fb2Block): string {
+    switch (b.type) {
+      case 'p':
+        return `<p${this.idAttr(b.id)}>${this.inlines(b.children)}</p>`;
+      case 'subtitle':
+        return `<p class="subtitle"${this.idAttr(b.id)}>${this.inlines(b.children)}</p>`;
+      case 'empty-line':
+        return '<div class="empty-line"></div>';
+      case 'image': {
+        const img = this.imageTag(b.href, b.alt || b.title);
+        return img ? `<div class="image"${this.idAttr(b.id)}>${img}</div>` : '';
+      }
+      case 'epigraph':
+      case 'cite':
+        return `<blockquote class="${b.type}"${this.idAttr(b.id)}>\n${this.blocks(b.blocks)}\n${this.authors(b.authors)}\n</blockquote>`;
+      case 'poem': {
+        const stanzas = b.stanzas.map(s => `<div class="stanza">\n${this.title(s.title, 'p', 'poem-title')}` +
+          s.lines.map(l => `<p>${this.inlines(l)}</p>`).join('\n') + '\n</div>').join('\n');
+        return `<div class="poem"${this.idAttr(b.id)}>\n${this.title(b.title, 'p', 'poem-title')}${this.blocks(b.epigraphs)}\n` +
+          `${stanzas}\n${this.authors(b.authors)}${b.date ? `\n<p class="date">${escapeHtml(b.date)}</p>` : ''}\n</div>`;
+      }
+      case 'table': {
+        const rows = b.rows.map(row => '<tr>' + row.map(cell => {
+          const tag = cell.header ? 'th' : 'td';
+          const attrs = (cell.colspan ? ` colspan="${cell.colspan}"` : '') + (cell.rowspan ? ` rowspan="${cell.rowspan}"` : '')
+            + (cell.align ? ` style="text-align: ${escapeHtml(cell.align)}"` : '');
+          return `<${tag}${attrs}>${this.inlines(cell.children)}</${tag}>`;
+        }).join('') + '</tr>').join('\n');
+        return `<table${this.idAttr(b.id)}>\n${rows}\n</table>`;
+      }
+    }
+    return '';
+  }
+
+  private section(section: Fb2Section, level: number, shallow: boolean): string {
+    const anchor = this.outline.sectionAnchors.get(section) || '';
+    const heading = Math.min(6, level + 1);
+    const parts = [
+      this.title(section.title, `h${heading}`),
+      section.image ? this.block(section.image) : '',
+      this.blocks(section.epigraphs),
+      section.annotation.length ? `<div class="annotation">\n${this.blocks(section.annotation)}\n</div>` : ''
+    ];
+    for (const child of section.children) {
+      if (isSection(child)) {
+        if (!shallow) parts.push(this.section(child, level + 1, false));
+      } else {
+        parts.push(this.block(child));
+      }
+    }
+    return `<section id="${anchor}">\n${parts.filter(Boolean).join('\n')}\n</section>`;
+  }
+
+  /** HTML of one chapter (a <section> element, or the body title page) */
+  chapter(index: number): string {
+    const chapter = this.outline.chapters[index];
+    if (!chapter) return '';
+    this.currentChapter = index;
+    if (!chapter.section) {
+      const { body } = chapter;
+      const parts = [
+        this.title(body.title, 'h1'),
+        body.image ? this.block(body.image) : '',
+        this.blocks(body.epigraphs)
+      ];
+      return `<section class="title-page">\n${parts.filter(Boolean).join('\n')}\n</section>`;
+    }
+    return this.section(chapter.section, chapter.level, chapter.shallow);
+  }
+
+  /** Footnotes in document order, each linking back to its first reference */
+  notes(): string {
+    const items = [...this.doc.notes.values()].map(note => {
+      const anchor = safeAnchor(note.id);
+      const ref = this.noteRefs.get(note.id);
+      const back = ref ? ` <a href="${this.options.chapterHref(ref.chapter)}#${ref.anchor}">↩</a>` : '';
+      const tag = this.options.xhtml ? 'aside' : 'div';
+      const type = this.options.xhtml ? ' epub:type="footnote"' : '';
+      const title = note.title ? `<p class="note-title">${escapeHtml(note.title)}${back}</p>\n` : '';
+      const body = this.blocks(note.blocks);
+      return `<${tag} class="note" id="${anchor}"${type}>\n${title}${body}${note.title ? '' : back}\n</${tag}>`;
+    });
+    return items.join('\n');
+  }
+}
+
+function metaAuthors(doc: Fb2Document): string[] {
+  return doc.meta.authors.map(fb2AuthorName).filter(Boolean);
+}
+
+function seriesLabel(doc: Fb2Document): string {
+  return doc.meta.sequences.map(s => (s.number ? `${s.name} #${s.number}` : s.name)).join(', ');
+}
+
+function tocHtml(entries: Fb2TocEntry[], href: (e: Fb2TocEntry) => string, list: 'ol' | 'ul'): string {
+  if (!entries.length) return '';
+  const items = entries.map(e => `<li><a href="${escapeHtml(href(e))}">${escapeHtml(e.title)}</a>${tocHtml(e.children, href, list)}</li>`);
+  return `<${list}>\n${items.join('\n')}\n</${list}>`;
+}
+
+/** Single self-contained HTML file; images are inlined as data URIs */
+export function fb2ToHtml(doc: Fb2Document): string {
+  const outline = buildOutline(doc);
+  const renderer = new Fb2HtmlRenderer(doc, outline, {
+    imageSrc: id => {
+      const bin = doc.binaries.get(id);
+      return bin && bin.contentType.startsWith('image/') ? `data:${bin.contentType};base64,${bin.data.toString('base64')}` : null;
+    },
+    chapterHref: () => '',
+    notesHref: ''
+  });
+
+  const title = doc.meta.title || 'Untitled';
+  const authors = metaAuthors(doc);
+  const series = seriesLabel(doc);
+  const cover = doc.meta.coverImage ? renderer.block({ type: 'image', href: `#${doc.meta.coverImage}` }) : '';
+  const chapters = outline.chapters.map(c => renderer.chapter(c.index)).join('\n');
+  const notes = renderer.notes();
+  const toc = tocHtml(outline.toc, e => `#${e.anchor}`, 'ul');
+
+  return '<!DOCTYPE html>\n' +
+    `<html lang="${escapeHtml(doc.meta.lang || 'ru')}">\n<head>\n<meta charset="utf-8">\n` +
+    `<title>${escapeHtml(title)}</title>\n` +
+    (authors.length ? `<meta name="author" content="${escapeHtml(authors.join(', '))}">\n` : '') +
+    `<style>\n${FB2_STYLESHEET}</style>\n</head>\n<body>\n` +
+    `<header class="title-page">\n${cover}\n<h1>${escapeHtml(title)}</h1>\n` +
+    (authors.length ? `<p>${escapeHtml(authors.join(', '))}</p>\n` : '') +
+    (series ? `<p>${escapeHtml(series)}</p>\n` : '') +
+    (doc.meta.annotation.length ? `<div class="annotation">\n${renderer.blocks(doc.meta.annotation)}\n</div>\n` : '') +
+    '</header>\n' +
+    (toc ? `<nav class="toc">\n${toc}\n</nav>\n` : '') +
+    `<main>\n${chapters}\n</main>\n` +
+    (notes ? `<section class="notes">\n<h2>${escapeHtml(doc.notesTitle || 'Notes')}</h2>\n${notes}\n</section>\n` : '') +
+    '</body>\n</html>\n';
+}
+
+function textBlocks(blocks: Fb2Block[], indent = ''): string[] {
+  const out: string[] = [];
+  for (const b of blocks) {
+    switch (b.type) {
+      case 'p':
+      case 'subtitle':
+        out.push(indent + inlineText(b.children), '');
+        break;
+      case 'empty-line':
+        out.push('');
+        break;
+      case 'epigraph':
+      case 'cite':
+        out.push(...textBlocks(b.blocks, indent + '    '));
+        b.authors.forEach(a => out.push(`${indent}        ${inlineText(a)}`, ''));
+        break;
+      case 'poem':
+        b.title?.paragraphs.forEach(p => out.push(indent + '    ' + inlineText(p)));
+        if (b.title) out.push('');
+        out.push(...textBlocks(b.epigraphs, indent + '    '));
+        for (const stanza of b.stanzas) {
+          stanza.title?.paragraphs.forEach(p => out.push(indent + '    ' + inlineText(p)));
+          stanza.lines.forEach(l => out.push(indent + '    ' + inlineText(l)));
+          out.push('');
+        }
+        b.authors.forEach(a => out.push(`${indent}        ${inlineText(a)}`));
+        if (b.date) out.push(`${indent}        ${b.date}`);
+        if (b.authors.length || b.date) out.push('');
+        break;
+      case 'table':
+        b.rows.forEach(row => out.push(indent + row.map(c => inlineText(c.children)).join(' | ')));
+        out.push('');
+        break;
+      case 'image':
+        break;
+    }
+  }
+  return out;
+}
+
+function textTitle(title: Fb2Title | undefined): string[] {
+  if (!title) return [];
+  return [...title.paragraphs.map(inlineText), ''];
+}
+
+function textSection(section: Fb2Section): string[] {
+  const out = ['', ...textTitle(section.title), ...textBlocks(section.epigraphs), ...textBlocks(section.annotation)];
+  for (const child of section.children) {
+    out.push(...(isSection(child) ? textSection(child) : textBlocks([child])));
+  }
+  return out;
+}
+
+/** Plain text with titles on their own lines, indented verse and footnotes collected at the end */
+export function fb2ToText(doc: Fb2Document): string {
+  const lines: string[] = [];
+  const authors = metaAuthors(doc);
+  if (authors.length) lines.push(authors.join(', '));
+  lines.push(doc.meta.title || 'Untitled');
+  const series = seriesLabel(doc);
+  if (series) lines.push(`(${series})`);
+  lines.push('');
+  if (doc.meta.annotation.length) lines.push(...textBlocks(doc.meta.annotation));
+
+  for (const body of doc.bodies) {
+    lines.push(...textTitle(body.title), ...textBlocks(body.epigraphs));
+    body.sections.forEach(s => lines.push(...textSection(s)));
+  }
+
+  if (doc.notes.size) {
+    lines.push('', doc.notesTitle || 'Notes', '');
+    for (const note of doc.notes.values()) {
+      const [first, ...rest] = textBlocks(note.blocks);
+      lines.push(`${note.title ? `[${note.title}] ` : ''}${first || ''}`, ...rest);
+    }
+  }
+
+  // Collapse runs of blank lines left by nested containers
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg', 'image/jpg': 'jpg', 'image/png': 'png', 'image/gif': 'gif',
+  'image/svg+xml': 'svg', 'image/webp': 'webp'
+};
+
+function xhtmlDocument(lang: string, title: string, body: string, extraHead = ''): string {
+  return '<?xml version="1.0" encoding="utf-8"?>\n<!DOCTYPE html>\n' +
+    `<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${lang}" xml:lang="${lang}">\n` +
+    `<head>\n<meta charset="utf-8" />\n<title>${escapeHtml(title)}</title>\n` +
+    `<link rel="stylesheet" type="text/css" href="style.css" />\n${extraHead}</head>\n<body>\n${body}\n</body>\n</html>\n`;
+}
+
+// EPUB dates must be W3C dates; FB2 often has free text like "лето 2005"
+function w3cDate(date: string | undefined): string | null {
+  const m = /^(\d{4})(-\d{2}(-\d{2})?)?/.exec((date || '').trim());
+  return m ? m[0] : null;
+}
+
+/**
+ * EPUB 3 package with an XHTML file per chapter, nav document and NCX (for EPUB 2 readers),
+ * footnotes as epub:type="footnote" asides and the FB2 binaries as images.
+ */
+export function fb2ToEpub(doc: Fb2Document, options: { identifier: string; modified?: Date }): Buffer {
+  const outline = buildOutline(doc);
+  const lang = escapeHtml(doc.meta.lang || 'ru');
+  const title = doc.meta.title || 'Untitled';
+  const authors = metaAuthors(doc);
+
+  const images = new Map<string, { itemId: string; file: string; mediaType: string }>();
+  for (const [id, bin] of doc.binaries) {
+    const ext = IMAGE_EXTENSIONS[bin.contentType];
+    if (!ext) continue;
+    const n = images.size + 1;
+    images.set(id, { itemId: `img${n}`, file: `images/img-${n}.${ext}`, mediaType: bin.contentType === 'image/jpg' ? 'image/jpeg' : bin.contentType });
+  }
+  const chapterFile = (index: number) => `chapter-${String(index + 1).padStart(3, '0')}.xhtml`;
+  const renderer = new Fb2HtmlRenderer(doc, outline, {
+    xhtml: true,
+    imageSrc: id => images.get(id)?.file || null,
+    chapterHref: chapterFile,
+    notesHref: 'notes.xhtml'
+  });
+
+  const files: ZipWriteEntry[] = [];
+  const addFile = (name: string, data: Buffer) => files.push({ name, data });
+  // mimetype must be the first entry and stored uncompressed
+  files.push({ name: 'mimetype', data: Buffer.from('application/epub+zip'), store: true });
+  addFile('META-INF/container.xml', Buffer.from('<?xml version="1.0" encoding="utf-8"?>\n' +
+    '<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">\n' +
+    '<rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>\n</container>\n'));
+  addFile('OEBPS/style.css', Buffer.from(FB2_STYLESHEET));
+
+  const manifest: string[] = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>',
+    '<item id="css" href="style.css" media-type="text/css"/>'
+  ];
+  const spine: string[] = [];
+
+  const cover = doc.meta.coverImage ? images.get(doc.meta.coverImage) : undefined;
+  for (const [id, image] of images) {
+    addFile(`OEBPS/${image.file}`, doc.binaries.get(id)!.data);
+    const props = image === cover ? ' properties="cover-image"' : '';
+    manifest.push(`<item id="${image.itemId}" href="${image.file}" media-type="${image.mediaType}"${props}/>`);
+  }
+  if (cover) {
+    addFile('OEBPS/cover.xhtml', Buffer.from(xhtmlDocument(lang, title,
+      `<div class="image"><img src="${cover.file}" alt="${escapeHtml(title)}" /></div>`)));
+    manifest.push('<item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>');
+    spine.push('<itemref idref="cover"/>');
+  }
+
+  const series = seriesLabel(doc);
+  const titlePage = `<section class="title-page" epub:type="titlepage">\n` +
+    (authors.length ? `<p>${escapeHtml(authors.join(', '))}</p>\n` : '') +
+    `<h1>${escapeHtml(title)}</h1>\n` +
+    (series ? `<p>${escapeHtml(series)}</p>\n` : '') +
+    (doc.meta.annotation.length ? `<div class="annotation">\n${renderer.blocks(doc.meta.annotation)}\n</div>\n` : '') +
+    '</section>';
+  addFile('OEBPS/title.xhtml', Buffer.from(xhtmlDocument(lang, title, titlePage)));
+  manifest.push('<item id="title" href="title.xhtml" media-type="application/xhtml+xml"/>');
+  spine.push('<itemref idref="title"/>');
+
+  for (const chapter of outline.chapters) {
+    const file = chapterFile(chapter.index);
+    addFile(`OEBPS/${file}`, Buffer.from(xhtmlDocument(lang, chapter.title || title, renderer.chapter(chapter.index))));
+    manifest.push(`<item id="ch${chapter.index + 1}" href="${file}" media-type="application/xhtml+xml"/>`);
+    spine.push(`<itemref idref="ch${chapter.index + 1}"/>`);
+  }
+
+  // Rendered last so every note reference has been seen
+  const notesTitle = doc.notesTitle || 'Notes';
+  if (doc.notes.size) {
+    addFile('OEBPS/notes.xhtml', Buffer.from(xhtmlDocument(lang, notesTitle,
+      `<section epub:type="footnotes">\n<h2>${escapeHtml(notesTitle)}</h2>\n${renderer.notes()}\n</section>`)));
+    manifest.push('<item id="notes" href="notes.xhtml" media-type="application/xhtml+xml"/>');
+    spine.push('<itemref idref="notes" linear="no"/>');
+  }
+
+  // Chapters without any titled section still need a way in
+  const toc: Fb2TocEntry[] = outline.toc.length
+    ? [...outline.toc]
+    : outline.chapters.map(c => ({ title: c.title || title, chapter: c.index, anchor: '', children: [] }));
+  const tocHref = (e: Fb2TocEntry) => `${chapterFile(e.chapter)}${e.anchor ? `#${e.anchor}` : ''}`;
+  if (doc.notes.size) toc.push({ title: notesTitle, chapter: -1, anchor: '', children: [] });
+  const entryHref = (e: Fb2TocEntry) => (e.chapter < 0 ? 'notes.xhtml' : tocHref(e));
+
+  const nav = `<nav epub:type="toc" id="toc">\n<h1>${escapeHtml(title)}</h1>\n${tocHtml(toc, entryHref, 'ol') || '<ol><li><a href="title.xhtml">' + escapeHtml(title) + '</a></li></ol>'}\n</nav>`;
+  addFile('OEBPS/nav.xhtml', Buffer.from(xhtmlDocument(lang, title, nav)));
+
+  let playOrder = 0;
+  const navPoints = (entries: Fb2TocEntry[]): string => entries.map(e => {
+    playOrder++;
+    return `<navPoint id="np${playOrder}" playOrder="${playOrder}"><navLabel><text>${escapeHtml(e.title)}</text></navLabel>` +
+      `<content src="${escapeHtml(entryHref(e))}"/>${navPoints(e.children)}</navPoint>`;
+  }).join('\n');
+  const ncxPoints = navPoints(toc) || '<navPoint id="np1" playOrder="1"><navLabel><text>' + escapeHtml(title) + '</text></navLabel><content src="title.xhtml"/></navPoint>';
+  addFile('OEBPS/toc.ncx', Buffer.from('<?xml version="1.0" encoding="utf-8"?>\n' +
+    '<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">\n' +
+    `<head><meta name="dtb:uid" content="${escapeHtml(options.identifier)}"/></head>\n` +
+    `<docTitle><text>${escapeHtml(title)}</text></docTitle>\n<navMap>\n${ncxPoints}\n</navMap>\n</ncx>\n`));
+
+  const modified = (options.modified || new Date()).toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const metadata: string[] = [
+    `<dc:identifier id="BookId">${escapeHtml(options.identifier)}</dc:identifier>`,
+    `<dc:title>${escapeHtml(title)}</dc:title>`,
+    `<dc:language>${lang}</dc:language>`,
+    `<meta property="dcterms:modified">${modified}</meta>`
+  ];
+  authors.forEach((a, i) => {
+    metadata.push(`<dc:creator id="creator${i + 1}">${escapeHtml(a)}</dc:creator>`,
+      `<meta refines="#creator${i + 1}" property="role" scheme="marc:relators">aut</meta>`);
+  });
+  const date = w3cDate(doc.meta.date);
+  if (date) metadata.push(`<dc:date>${date}</dc:date>`);
+  if (doc.meta.annotation.length) {
+    metadata.push(`<dc:description>${escapeHtml(textBlocks(doc.meta.annotation).filter(Boolean).join('\n'))}</dc:description>`);
+  }
+  doc.meta.genres.forEach(g => metadata.push(`<dc:subject>${escapeHtml(g)}</dc:subject>`));
+  doc.meta.sequences.forEach((s, i) => {
+    metadata.push(`<meta property="belongs-to-collection" id="series${i + 1}">${escapeHtml(s.name)}</meta>`,
+      `<meta refines="#series${i + 1}" property="collection-type">series</meta>`);
+    if (s.number) metadata.push(`<meta refines="#series${i + 1}" property="group-position">${escapeHtml(s.number)}</meta>`);
+  });
+  const firstSeries = doc.meta.sequences[0];
+  if (firstSeries) {
+    // Calibre-style series tags are what most reading apps still read
+    metadata.push(`<meta name="calibre:series" content="${escapeHtml(firstSeries.name)}"/>`);
+    if (firstSeries.number) metadata.push(`<meta name="calibre:series_index" content="${escapeHtml(firstSeries.number)}"/>`);
+  }
+  if (cover) metadata.push(`<meta name="cover" content="${cover.itemId}"/>`);
+
+  addFile('OEBPS/content.opf', Buffer.from('<?xml version="1.0" encoding="utf-8"?>\n' +
+    `<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="BookId" xml:lang="${lang}">\n` +
+    `<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">\n${metadata.join('\n')}\n</metadata>\n` +
+    `<manifest>\n${manifest.join('\n')}\n</manifest>\n` +
+    `<spine toc="ncx">\n${spine.join('\n')}\n</spine>\n</package>\n`));
+
+  return buildZip(files, options.modified);
+}
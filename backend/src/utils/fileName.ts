@@ -0,0 +1,155 @@
+// File names for downloaded books, built from a template such as `{author} - {series} {n} - {title}.{ext}`
+
+export const DEFAULT_FILENAME_TEMPLATE = '{author} - {series} {n} - {title}.{ext}';
+
+export type Transliteration = 'none' | 'gost' | 'icao';
+export const TRANSLITERATIONS: Transliteration[] = ['none', 'gost', 'icao'];
+
+export interface FileNameFields {
+  author?: string | null;
+  title?: string | null;
+  series?: string | null;
+  n?: string | number | null;
+  year?: string | number | null;
+  id?: string | number | null;
+  ext: string;
+}
+
+export interface FileNameOptions {
+  transliterate?: Transliteration;
+  /** Keep only portable ASCII characters (FAT32 readers, old archivers) */
+  safeChars?: boolean;
+}
+
+// {number}, {bookid} and {format} are aliases of {n}, {id} and {ext}
+const PLACEHOLDER = /\{(author|title|series|n|number|year|id|bookid|ext|format)\}/g;
+const ALIASES: Record<string, string> = { number: 'n', bookid: 'id', format: 'ext' };
+const MAX_NAME_LENGTH = 180;
+
+// GOST 7.79-2000 system B (ц is handled separately: "c" before i, e, y, j, "cz" otherwise)
+const GOST: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ё: 'yo', ж: 'zh', з: 'z', и: 'i', й: 'j', к: 'k', л: 'l', м: 'm',
+  н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u', ф: 'f', х: 'x', ч: 'ch', ш: 'sh', щ: 'shh', ъ: '``',
+  ы: "y'", ь: "'", э: "e'", ю: 'yu', я: 'ya', і: "i'", ї: 'yi', є: 'ye', ґ: 'g`', ў: 'u`'
+};
+
+// ICAO Doc 9303, as used in Russian and Ukrainian passports
+const ICAO: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ё: 'e', ж: 'zh', з: 'z', и: 'i', й: 'i', к: 'k', л: 'l', м: 'm',
+  н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u', ф: 'f', х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch',
+  ъ: 'ie', ы: 'y', ь: '', э: 'e', ю: 'iu', я: 'ia', і: 'i', ї: 'i', є: 'ie', ґ: 'g', ў: 'u'
+};
+
+/**
+ * Transliterate Cyrillic to Latin; other characters pass through unchanged
+ */
+export function transliterate(text: string, system: Transliteration): string {
+  if (system === 'none') return text;
+  const table = system === 'gost' ? GOST : ICAO;
+  const chars = Array.from(text);
+  let result = '';
+  chars.forEach((char, i) => {
+    const lower = char.toLowerCase();
+    let latin = table[lower];
+    if (system === 'gost' && lower === 'ц') {
+      latin = /^[ieyj]/.test(GOST[(chars[i + 1] || '').toLowerCase()] || '') ? 'c' : 'cz';
+    }
+    if (latin === undefined) { result += char; return; }
+    if (lower === char) { result += latin; return; }
+    // Upper case: whole word in capitals stays in capitals ("ЩИ" -> "SHHI"), otherwise capitalize ("Щи" -> "Shhi")
+    const neighbour = chars[i + 1] || chars[i - 1] || '';
+    const shouting = neighbour !== neighbour.toLowerCase();
+    result += shouting ? latin.toUpperCase() : latin.charAt(0).toUpperCase() + latin.slice(1);
+  });
+  return result;
+}
+
+/**
+ * Drop characters that are invalid in Windows/macOS/Linux file names and tidy whitespace
+ */
+export function sanitizeFileName(name: string): string {
+  return name
+    .replace(/[\\/:*?"<>|\x00-\x1f]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s.]+|[\s.]+$/g, '')
+    .trim();
+}
+
+/**
+ * Reduce a name to portable ASCII: accents are stripped, anything else outside [A-Za-z0-9 ._-'()&+,!] becomes "_"
+ */
+export function toSafeChars(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[`]/g, "'")
+    .replace(/[^A-Za-z0-9 ._\-'()&+,!]+/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Percent-encode a value for RFC 5987 / RFC 2231 extended parameters (`filename*=UTF-8''...`)
+ */
+export function encodeRfc5987(value: string): string {
+  return encodeURIComponent(value).replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Sanitize a name and apply the transliteration and safe-character options
+ */
+export function normalizeFileName(name: string, options: FileNameOptions = {}): string {
+  // Safe characters alone would turn Cyrillic into underscores, so they bring ICAO transliteration along
+  const system = options.transliterate && options.transliterate !== 'none' ? options.transliterate : options.safeChars ? 'icao' : 'none';
+  const base = sanitizeFileName(transliterate(name, system));
+  return options.safeChars ? sanitizeFileName(toSafeChars(base)) : base;
+}
+
+/**
+ * Render a file name template. Segments separated by " - " whose placeholders are all empty are
+ * dropped, so a book outside a series becomes "{author} - {title}.{ext}".
+ */
+export function renderFileName(template: string, fields: FileNameFields, options: FileNameOptions = {}): string {
+  const values: Record<string, string> = {
+    author: sanitizeFileName(String(fields.author ?? '')),
+    title: sanitizeFileName(String(fields.title ?? '')),
+    series: sanitizeFileName(String(fields.series ?? '')),
+    n: fields.n === null || fields.n === undefined || Number(fields.n) === 0 ? '' : String(fields.n),
+    year: fields.year === null || fields.year === undefined || Number(fields.year) === 0 ? '' : String(fields.year),
+    id: fields.id === null || fields.id === undefined ? '' : String(fields.id),
+    ext: fields.ext
+  };
+  // A number without its series means nothing
+  if (!values.series) values.n = '';
+  const valueOf = (placeholder: string): string => {
+    const key = placeholder.slice(1, -1);
+    return values[ALIASES[key] || key] || '';
+  };
+
+  // The extension is appended separately so it survives truncation
+  const stem = template.replace(/\.\{(ext|format)\}$/, '');
+  const segments = stem.split(' - ').map(segment => {
+    const placeholders = segment.match(PLACEHOLDER) || [];
+    if (placeholders.length && placeholders.every(p => !valueOf(p))) return '';
+    return segment.replace(PLACEHOLDER, valueOf).replace(/\s+/g, ' ').trim();
+  }).filter(Boolean);
+
+  let base = normalizeFileName(segments.join(' - '), options);
+  if (!base) base = `book-${values.id || 'unknown'}`;
+  if (base.length > MAX_NAME_LENGTH) base = base.slice(0, MAX_NAME_LENGTH).trim();
+  return `${base}.${fields.ext}`;
+}
+
+/**
+ * Keep names unique within an archive: "name.ext", "name (2).ext", ...
+ */
+export function uniqueFileName(name: string, taken: Set<string>): string {
+  let candidate = name;
+  const dot = name.lastIndexOf('.');
+  const stem = dot > 0 ? name.slice(0, dot) : name;
+  const ext = dot > 0 ? name.slice(dot) : '';
+  for (let i = 2; taken.has(candidate.toLowerCase()); i++) candidate = `${stem} (${i})${ext}`;
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
@@ -0,0 +1,87 @@
+import { decodeJpeg } from './jpeg';
+import { decodePng } from './png';
+
+// Pure-TypeScript image handling for cover thumbnails (no native modules)
+
+/** 8-bit RGB pixels, row by row */
+export interface RgbImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/**
+ * Decode a JPEG or PNG; null for formats the built-in decoders do not handle (GIF, WebP, ...)
+ */
+export function decodeImage(buf: Buffer): RgbImage | null {
+  if (buf.length > 3 && buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff) return decodeJpeg(buf);
+  if (buf.length > 8 && buf.readUInt32BE(0) === 0x89504e47) return decodePng(buf);
+  return null;
+}
+
+/**
+ * Size of an image scaled down to fit the given width and/or height, keeping its aspect ratio.
+ * Never upscales.
+ */
+export function fitWithin(width: number, height: number, maxWidth?: number, maxHeight?: number): { width: number; height: number } {
+  const scale = Math.min(1, maxWidth ? maxWidth / width : 1, maxHeight ? maxHeight / height : 1);
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+// For each target pixel, the source pixels it covers and how much of each
+function areaWeights(source: number, target: number): Array<{ first: number; weights: number[] }> {
+  const scale = source / target;
+  const result: Array<{ first: number; weights: number[] }> = [];
+  for (let i = 0; i < target; i++) {
+    const start = i * scale;
+    const end = Math.min(source, start + Math.max(scale, 1));
+    const first = Math.min(source - 1, Math.floor(start));
+    const weights: number[] = [];
+    for (let s = first; s < end; s++) weights.push(Math.min(end, s + 1) - Math.max(start, s));
+    const total = weights.reduce((sum, w) => sum + w, 0) || 1;
+    result.push({ first, weights: weights.map(w => w / total) });
+  }
+  return result;
+}
+
+/**
+ * Resize by area averaging: every source pixel contributes in proportion to the share it covers,
+ * which keeps downscaled covers smooth without moiré
+ */
+export function resizeImage(image: RgbImage, width: number, height: number): RgbImage {
+  if (width === image.width && height === image.height) return image;
+  const columns = areaWeights(image.width, width);
+  const rows = areaWeights(image.height, height);
+
+  // Horizontal pass into floats, then vertical pass into bytes
+  const horizontal = new Float32Array(width * image.height * 3);
+  for (let y = 0; y < image.height; y++) {
+    const src = y * image.width * 3;
+    const dst = y * width * 3;
+    for (let x = 0; x < width; x++) {
+      const { first, weights } = columns[x]!;
+      let r = 0, g = 0, b = 0;
+      for (let i = 0; i < weights.length; i++) {
+        const p = src + (first + i) * 3;
+        const w = weights[i]!;
+        r += image.data[p]! * w;
+        g += image.data[p + 1]! * w;
+        b += image.data[p + 2]! * w;
+      }
+      horizontal[dst + x * 3] = r;
+      horizontal[dst + x * 3 + 1] = g;
+      horizontal[dst + x * 3 + 2] = b;
+    }
+  }
+
+  const data = new Uint8Array(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    const { first, weights } = rows[y]!;
+    for (let x = 0; x < width * 3; x++) {
+      let v = 0;
+      for (let i = 0; i < weights.length; i++) v += horizontal[(first + i) * width * 3 + x]! * weights[i]!;
+      data[y * width * 3 + x] = v < 0 ? 0 : v > 255 ? 255 : Math.round(v);
+    }
+  }
+  return { width, height, data };
+}
@@ -0,0 +1,664 @@
+import { RgbImage } from './image';
+
+// Baseline/progressive JPEG decoding and baseline encoding (ITU T.81), enough for cover thumbnails
+
+// Natural (row-major) index of the n-th coefficient in zig-zag order
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63
+];
+
+// Orthonormal 8-point DCT basis: COSINES[x * 8 + u] = C(u)/2 * cos((2x+1)uπ/16)
+const COSINES = new Float64Array(64);
+for (let x = 0; x < 8; x++) {
+  for (let u = 0; u < 8; u++) COSINES[x * 8 + u] = (u === 0 ? Math.SQRT1_2 : 1) / 2 * Math.cos((2 * x + 1) * u * Math.PI / 16);
+}
+
+const clamp = (v: number) => v < 0 ? 0 : v > 255 ? 255 : Math.round(v);
+
+// ---------------------------------------------------------------- decoding
+
+interface HuffmanTable {
+  maxCode: Int32Array;
+  minCode: Int32Array;
+  valuePointer: Int32Array;
+  values: Uint8Array;
+}
+
+interface FrameComponent {
+  id: number;
+  h: number;
+  v: number;
+  tq: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  stride: number; // blocks per line including MCU padding
+  coefficients: Int16Array;
+  dcTable?: HuffmanTable;
+  acTable?: HuffmanTable;
+  pred: number;
+}
+
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+  const maxCode = new Int32Array(18).fill(-1);
+  const minCode = new Int32Array(17);
+  const valuePointer = new Int32Array(17);
+  let code = 0, k = 0;
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1]!;
+    valuePointer[length] = k;
+    minCode[length] = code;
+    code += count;
+    k += count;
+    if (count) maxCode[length] = code - 1;
+    code <<= 1;
+  }
+  maxCode[17] = 0x7fffffff;
+  return { maxCode, minCode, valuePointer, values };
+}
+
+// Entropy-coded segment reader; a marker inside the data reads as zero bits and stops the scan
+class BitReader {
+  private bits = 0;
+  private count = 0;
+  constructor(private data: Buffer, public pos: number) {}
+
+  bit(): number {
+    if (this.count === 0) {
+      let byte = this.data[this.pos] ?? 0xff;
+      if (byte === 0xff) {
+        const next = this.data[this.pos + 1];
+        if (next === 0x00) this.pos += 2;
+        else byte = 0; // marker: do not consume
+      } else this.pos++;
+      this.bits = byte;
+      this.count = 8;
+    }
+    this.count--;
+    return (this.bits >> this.count) & 1;
+  }
+
+  receive(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) value = (value << 1) | this.bit();
+    return value;
+  }
+
+  // Value of `length` bits as a signed DCT coefficient
+  receiveExtend(length: number): number {
+    if (length === 0) return 0;
+    const value = this.receive(length);
+    return value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = this.bit();
+    let length = 1;
+    while (code > table.maxCode[length]!) {
+      code = (code << 1) | this.bit();
+      if (++length > 16) throw new Error('Invalid Huffman code in JPEG');
+    }
+    return table.values[table.valuePointer[length]! + code - table.minCode[length]!] ?? 0;
+  }
+
+  /** Drop buffered bits and skip to the next marker; returns it (0 at the end of data) */
+  nextMarker(): number {
+    this.count = 0;
+    while (this.pos < this.data.length - 1) {
+      if (this.data[this.pos] === 0xff && this.data[this.pos + 1] !== 0x00 && this.data[this.pos + 1] !== 0xff) {
+        return this.data[this.pos + 1]!;
+      }
+      this.pos++;
+    }
+    this.pos = this.data.length;
+    return 0;
+  }
+}
+
+interface ScanParams {
+  components: FrameComponent[];
+  progressive: boolean;
+  spectralStart: number;
+  spectralEnd: number;
+  approximationHigh: number;
+  approximationLow: number;
+  restartInterval: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+}
+
+function decodeScan(data: Buffer, offset: number, scan: ScanParams): number {
+  const reader = new BitReader(data, offset);
+  const { components, spectralStart: ss, spectralEnd: se, approximationLow: al } = scan;
+  let eobRun = 0;
+
+  const decodeBaseline = (c: FrameComponent, o: number) => {
+    c.pred += reader.receiveExtend(reader.decode(c.dcTable!));
+    c.coefficients[o] = c.pred;
+    for (let k = 1; k < 64;) {
+      const rs = reader.decode(c.acTable!);
+      const s = rs & 15, r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) break;
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      c.coefficients[o + ZIGZAG[k]!] = reader.receiveExtend(s);
+      k++;
+    }
+  };
+
+  const decodeDcFirst = (c: FrameComponent, o: number) => {
+    c.pred += reader.receiveExtend(reader.decode(c.dcTable!));
+    c.coefficients[o] = c.pred * (1 << al);
+  };
+
+  const decodeDcRefine = (c: FrameComponent, o: number) => {
+    if (reader.bit()) c.coefficients[o]! |= 1 << al;
+  };
+
+  const decodeAcFirst = (c: FrameComponent, o: number) => {
+    if (eobRun > 0) {
+      eobRun--;
+      return;
+    }
+    for (let k = ss; k <= se;) {
+      const rs = reader.decode(c.acTable!);
+      const s = rs & 15, r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) {
+          eobRun = reader.receive(r) + (1 << r) - 1;
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      c.coefficients[o + ZIGZAG[k]!] = reader.receiveExtend(s) * (1 << al);
+      k++;
+    }
+  };
+
+  // Successive approximation of AC coefficients, following libjpeg's decode_mcu_AC_refine
+  const decodeAcRefine = (c: FrameComponent, o: number) => {
+    const p1 = 1 << al, m1 = -1 << al;
+    const refine = (z: number) => {
+      const value = c.coefficients[z]!;
+      if (reader.bit() && (value & p1) === 0) c.coefficients[z] = value + (value >= 0 ? p1 : m1);
+    };
+    let k = ss;
+    if (eobRun <= 0) {
+      for (; k <= se; k++) {
+        const rs = reader.decode(c.acTable!);
+        let r = rs >> 4;
+        let value = 0;
+        if (rs & 15) value = reader.bit() ? p1 : m1;
+        else if (r !== 15) {
+          eobRun = 1 << r;
+          if (r) eobRun += reader.receive(r);
+          break;
+        }
+        for (; k <= se; k++) {
+          const z = o + ZIGZAG[k]!;
+          if (c.coefficients[z] !== 0) refine(z);
+          else if (--r < 0) break;
+        }
+        if (value && k <= se) c.coefficients[o + ZIGZAG[k]!] = value;
+      }
+    }
+    if (eobRun > 0) {
+      for (; k <= se; k++) {
+        const z = o + ZIGZAG[k]!;
+        if (c.coefficients[z] !== 0) refine(z);
+      }
+      eobRun--;
+    }
+  };
+
+  const decodeBlock = !scan.progressive ? decodeBaseline
+    : ss === 0 ? (scan.approximationHigh === 0 ? decodeDcFirst : decodeDcRefine)
+    : (scan.approximationHigh === 0 ? decodeAcFirst : decodeAcRefine);
+
+  const single = components.length === 1 ? components[0]! : null;
+  const total = single ? single.blocksPerLine * single.blocksPerColumn : scan.mcusPerLine * scan.mcusPerColumn;
+  const interval = scan.restartInterval || total;
+
+  for (let mcu = 0; mcu < total;) {
+    for (const c of components) c.pred = 0;
+    eobRun = 0;
+    for (let n = 0; n < interval && mcu < total; n++, mcu++) {
+      if (single) {
+        // Non-interleaved scans cover only the component's real blocks, not the MCU padding
+        const row = Math.floor(mcu / single.blocksPerLine), col = mcu % single.blocksPerLine;
+        decodeBlock(single, (row * single.stride + col) * 64);
+      } else {
+        const mcuRow = Math.floor(mcu / scan.mcusPerLine), mcuCol = mcu % scan.mcusPerLine;
+        for (const c of components) {
+          for (let v = 0; v < c.v; v++) {
+            for (let h = 0; h < c.h; h++) {
+              decodeBlock(c, ((mcuRow * c.v + v) * c.stride + mcuCol * c.h + h) * 64);
+            }
+          }
+        }
+      }
+    }
+    const marker = reader.nextMarker();
+    if (marker >= 0xd0 && marker <= 0xd7) reader.pos += 2;
+    else break;
+  }
+  return reader.pos;
+}
+
+// Dequantize and inverse-transform every block of a component into 8-bit samples
+function componentSamples(c: FrameComponent, quant: Uint16Array): Uint8Array {
+  const lineWidth = c.stride * 8;
+  const rows = c.coefficients.length / 64 / c.stride;
+  const out = new Uint8Array(lineWidth * rows * 8);
+  const block = new Float64Array(64);
+  const temp = new Float64Array(64);
+  for (let by = 0; by < rows; by++) {
+    for (let bx = 0; bx < c.stride; bx++) {
+      const o = (by * c.stride + bx) * 64;
+      for (let i = 0; i < 64; i++) block[i] = c.coefficients[o + i]! * quant[i]!;
+      // Rows: temp[v][x] = Σu COS[x][u]·F[v][u]
+      for (let v = 0; v < 8; v++) {
+        for (let x = 0; x < 8; x++) {
+          let sum = 0;
+          for (let u = 0; u < 8; u++) sum += COSINES[x * 8 + u]! * block[v * 8 + u]!;
+          temp[v * 8 + x] = sum;
+        }
+      }
+      // Columns: f[y][x] = Σv COS[y][v]·temp[v][x]
+      for (let y = 0; y < 8; y++) {
+        const line = (by * 8 + y) * lineWidth + bx * 8;
+        for (let x = 0; x < 8; x++) {
+          let sum = 0;
+          for (let v = 0; v < 8; v++) sum += COSINES[y * 8 + v]! * temp[v * 8 + x]!;
+          out[line + x] = clamp(sum + 128);
+        }
+      }
+    }
+  }
+  return out;
+}
+
+const MAX_PIXELS = 60_000_000;
+
+export function decodeJpeg(data: Buffer): RgbImage {
+  const quantTables: Uint16Array[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let components: FrameComponent[] = [];
+  let width = 0, height = 0, progressive = false;
+  let maxH = 1, maxV = 1, mcusPerLine = 0, mcusPerColumn = 0;
+  let restartInterval = 0;
+  let adobeTransform: number | null = null;
+
+  let pos = 2;
+  while (pos < data.length) {
+    if (data[pos] !== 0xff) {
+      pos++;
+      continue;
+    }
+    const marker = data[pos + 1]!;
+    pos += 2;
+    if (marker === 0xd9) break;
+    if (marker === 0xff || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      if (marker === 0xff) pos--;
+      continue;
+    }
+    const length = data.readUInt16BE(pos);
+    const segment = data.subarray(pos + 2, pos + length);
+    pos += length;
+
+    switch (marker) {
+      case 0xdb: // DQT
+        for (let i = 0; i < segment.length;) {
+          const sixteenBit = segment[i]! >> 4, id = segment[i]! & 15;
+          const table = new Uint16Array(64);
+          for (let k = 0; k < 64; k++) {
+            table[ZIGZAG[k]!] = sixteenBit ? segment.readUInt16BE(i + 1 + k * 2) : segment[i + 1 + k]!;
+          }
+          quantTables[id] = table;
+          i += 1 + (sixteenBit ? 128 : 64);
+        }
+        break;
+      case 0xc4: // DHT
+        for (let i = 0; i < segment.length;) {
+          const tableClass = segment[i]! >> 4, id = segment[i]! & 15;
+          const counts = segment.subarray(i + 1, i + 17);
+          const total = counts.reduce((sum, n) => sum + n, 0);
+          const table = buildHuffmanTable(counts, segment.subarray(i + 17, i + 17 + total));
+          (tableClass === 0 ? dcTables : acTables)[id] = table;
+          i += 17 + total;
+        }
+        break;
+      case 0xdd: // DRI
+        restartInterval = segment.readUInt16BE(0);
+        break;
+      case 0xee: // APP14 Adobe: colour transform flag
+        if (segment.toString('latin1', 0, 5) === 'Adobe' && segment.length >= 12) adobeTransform = segment[11]!;
+        break;
+      case 0xc0: case 0xc1: case 0xc2: { // SOF: baseline, extended, progressive (Huffman, 8-bit)
+        if (segment[0] !== 8) throw new Error(`Unsupported JPEG precision ${segment[0]}`);
+        progressive = marker === 0xc2;
+        height = segment.readUInt16BE(1);
+        width = segment.readUInt16BE(3);
+        if (!width || !height || width * height > MAX_PIXELS) throw new Error(`Unsupported JPEG size ${width}x${height}`);
+        const count = segment[5]!;
+        components = [];
+        for (let i = 0; i < count; i++) {
+          const b = 6 + i * 3;
+          components.push({
+            id: segment[b]!, h: segment[b + 1]! >> 4 || 1, v: segment[b + 1]! & 15 || 1, tq: segment[b + 2]!,
+            blocksPerLine: 0, blocksPerColumn: 0, stride: 0, coefficients: new Int16Array(0), pred: 0
+          });
+        }
+        maxH = Math.max(...components.map(c => c.h));
+        maxV = Math.max(...components.map(c => c.v));
+        mcusPerLine = Math.ceil(width / (8 * maxH));
+        mcusPerColumn = Math.ceil(height / (8 * maxV));
+        for (const c of components) {
+          c.blocksPerLine = Math.ceil(Math.ceil(width * c.h / maxH) / 8);
+          c.blocksPerColumn = Math.ceil(Math.ceil(height * c.v / maxV) / 8);
+          c.stride = mcusPerLine * c.h;
+          c.coefficients = new Int16Array(c.stride * mcusPerColumn * c.v * 64);
+        }
+        break;
+      }
+      case 0xda: { // SOS
+        if (!components.length) throw new Error('JPEG scan before frame header');
+        const count = segment[0]!;
+        const scanComponents: FrameComponent[] = [];
+        for (let i = 0; i < count; i++) {
+          const c = components.find(fc => fc.id === segment[1 + i * 2]);
+          if (!c) throw new Error('JPEG scan references unknown component');
+          const tables = segment[2 + i * 2]!;
+          const dc = dcTables[tables >> 4], ac = acTables[tables & 15];
+          if (dc) c.dcTable = dc;
+          if (ac) c.acTable = ac;
+          scanComponents.push(c);
+        }
+        const b = 1 + count * 2;
+        pos = decodeScan(data, pos, {
+          components: scanComponents, progressive, restartInterval, mcusPerLine, mcusPerColumn,
+          spectralStart: segment[b]!, spectralEnd: segment[b + 1]!,
+          approximationHigh: segment[b + 2]! >> 4, approximationLow: segment[b + 2]! & 15
+        });
+        break;
+      }
+      default:
+        if (marker >= 0xc3 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+          throw new Error('Unsupported JPEG coding (lossless or arithmetic)');
+        }
+    }
+  }
+  if (!components.length) throw new Error('JPEG has no frame');
+
+  const planes = components.map(c => {
+    const quant = quantTables[c.tq];
+    if (!quant) throw new Error('JPEG quantization table missing');
+    return { samples: componentSamples(c, quant), lineWidth: c.stride * 8, h: c.h, v: c.v };
+  });
+
+  // Nearest-neighbour upsampling of subsampled planes, then colour conversion
+  const out = new Uint8Array(width * height * 3);
+  const value = new Array<number>(planes.length).fill(0);
+  const rgbComponents = adobeTransform === 0 || (adobeTransform === null && components.map(c => c.id).join() === '82,71,66');
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let i = 0; i < planes.length; i++) {
+        const p = planes[i]!;
+        value[i] = p.samples[Math.floor(y * p.v / maxV) * p.lineWidth + Math.floor(x * p.h / maxH)]!;
+      }
+      const o = (y * width + x) * 3;
+      if (planes.length < 3) {
+        out[o] = out[o + 1] = out[o + 2] = value[0]!;
+        continue;
+      }
+      let r = value[0]!, g = value[1]!, b = value[2]!;
+      if (!(planes.length === 3 && rgbComponents) && !(planes.length === 4 && adobeTransform !== 2)) {
+        const [yy, cb, cr] = [r, g - 128, b - 128];
+        r = yy + 1.402 * cr;
+        g = yy - 0.344136 * cb - 0.714136 * cr;
+        b = yy + 1.772 * cb;
+      }
+      if (planes.length === 4) {
+        // Adobe stores CMYK inverted; YCCK decodes to the inverted ink values
+        const k = value[3]! / 255;
+        if (adobeTransform === 2) {
+          r = (255 - clamp(r)) * k;
+          g = (255 - clamp(g)) * k;
+          b = (255 - clamp(b)) * k;
+        } else {
+          r *= k;
+          g *= k;
+          b *= k;
+        }
+      }
+      out[o] = clamp(r);
+      out[o + 1] = clamp(g);
+      out[o + 2] = clamp(b);
+    }
+  }
+  return { width, height, data: out };
+}
+
+// ---------------------------------------------------------------- encoding
+
+// Annex K tables: quantization in zig-zag order, Huffman as code counts per length and values
+const LUMINANCE_QUANT = [
+  16, 11, 12, 14, 12, 10, 16, 14, 13, 14, 18, 17, 16, 19, 24, 40,
+  26, 24, 22, 22, 24, 49, 35, 37, 29, 40, 58, 51, 61, 60, 57, 51,
+  56, 55, 64, 72, 92, 78, 64, 68, 87, 69, 55, 56, 80, 109, 81, 87,
+  95, 98, 103, 104, 103, 62, 77, 113, 121, 112, 100, 120, 92, 101, 103, 99
+];
+const CHROMINANCE_QUANT = [
+  17, 18, 18, 24, 21, 24, 47, 26, 26, 47, 99, 66, 56, 66, 99, 99,
+  ...new Array<number>(48).fill(99)
+];
+
+interface HuffmanSpec { counts: number[]; values: Buffer }
+
+const DC_VALUES = Buffer.from([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
+const HUFFMAN_SPECS: Record<'lumaDc' | 'lumaAc' | 'chromaDc' | 'chromaAc', HuffmanSpec> = {
+  lumaDc: { counts: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0], values: DC_VALUES },
+  lumaAc: {
+    counts: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 125],
+    values: Buffer.from(
+      '01020300041105122131410613516107227114328191a1082342b1c11552d1f0' +
+      '2433627282090a161718191a25262728292a3435363738393a434445464748494a' +
+      '535455565758595a636465666768696a737475767778797a838485868788898a' +
+      '92939495969798999aa2a3a4a5a6a7a8a9aab2b3b4b5b6b7b8b9bac2c3c4c5c6' +
+      'c7c8c9cad2d3d4d5d6d7d8d9dae1e2e3e4e5e6e7e8e9eaf1f2f3f4f5f6f7f8f9fa', 'hex')
+  },
+  chromaDc: { counts: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0], values: DC_VALUES },
+  chromaAc: {
+    counts: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 119],
+    values: Buffer.from(
+      '000102031104052131061241510761711322328108144291a1b1c109233352f0' +
+      '156272d10a162434e125f11718191a262728292a35363738393a434445464748' +
+      '494a535455565758595a636465666768696a737475767778797a828384858687' +
+      '88898a92939495969798999aa2a3a4a5a6a7a8a9aab2b3b4b5b6b7b8b9bac2c3' +
+      'c4c5c6c7c8c9cad2d3d4d5d6d7d8d9dae2e3e4e5e6e7e8e9eaf2f3f4f5f6f7f8f9fa', 'hex')
+  }
+};
+
+// Code and length per symbol, assigned canonically from the spec
+function huffmanCodes(spec: HuffmanSpec): Array<[number, number]> {
+  const codes: Array<[number, number]> = [];
+  let code = 0, k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < spec.counts[length - 1]!; i++) codes[spec.values[k++]!] = [code++, length];
+    code <<= 1;
+  }
+  return codes;
+}
+
+// IJG quality scaling of a base table
+function scaleQuant(base: number[], quality: number): number[] {
+  const q = Math.min(100, Math.max(1, Math.round(quality)));
+  const scale = q < 50 ? 5000 / q : 200 - q * 2;
+  return base.map(v => Math.min(255, Math.max(1, Math.floor((v * scale + 50) / 100))));
+}
+
+class BitWriter {
+  private bytes: number[] = [];
+  private buffer = 0;
+  private count = 0;
+
+  write(value: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.buffer = (this.buffer << 1) | ((value >> i) & 1);
+      if (++this.count === 8) {
+        this.bytes.push(this.buffer);
+        if (this.buffer === 0xff) this.bytes.push(0x00);
+        this.buffer = 0;
+        this.count = 0;
+      }
+    }
+  }
+
+  /** Pad the last byte with 1-bits */
+  finish(): Buffer {
+    if (this.count) this.write(0xff, 8 - this.count);
+    return Buffer.from(this.bytes);
+  }
+}
+
+// Bit length and bit pattern of a coefficient (category + magnitude bits)
+function magnitude(value: number): [number, number] {
+  const abs = Math.abs(value);
+  const size = abs === 0 ? 0 : 32 - Math.clz32(abs);
+  return [size, value < 0 ? value + (1 << size) - 1 : value];
+}
+
+function segment(marker: number, body: number[] | Buffer): Buffer {
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(body.length + 2, 2);
+  return Buffer.concat([header, Buffer.from(body)]);
+}
+
+/**
+ * Encode RGB pixels as a baseline JFIF JPEG with 4:2:0 chroma subsampling
+ */
+export function encodeJpeg(image: RgbImage, quality = 80): Buffer {
+  const { width, height, data } = image;
+  const lumaQuant = scaleQuant(LUMINANCE_QUANT, quality);
+  const chromaQuant = scaleQuant(CHROMINANCE_QUANT, quality);
+  const codes = {
+    lumaDc: huffmanCodes(HUFFMAN_SPECS.lumaDc), lumaAc: huffmanCodes(HUFFMAN_SPECS.lumaAc),
+    chromaDc: huffmanCodes(HUFFMAN_SPECS.chromaDc), chromaAc: huffmanCodes(HUFFMAN_SPECS.chromaAc)
+  };
+
+  // Full-resolution YCbCr planes, level-shifted by -128
+  const planeY = new Float32Array(width * height);
+  const planeCb = new Float32Array(width * height);
+  const planeCr = new Float32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const r = data[i * 3]!, g = data[i * 3 + 1]!, b = data[i * 3 + 2]!;
+    planeY[i] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+    planeCb[i] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+    planeCr[i] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+  }
+
+  const writer = new BitWriter();
+  const block = new Float64Array(64);
+  const temp = new Float64Array(64);
+  const predictions = [0, 0, 0];
+
+  const encodeBlock = (quant: number[], dc: Array<[number, number]>, ac: Array<[number, number]>, component: number) => {
+    // Forward DCT: F[v][u] = Σy Σx COS[y][v]·COS[x][u]·f[y][x]
+    for (let y = 0; y < 8; y++) {
+      for (let u = 0; u < 8; u++) {
+        let sum = 0;
+        for (let x = 0; x < 8; x++) sum += COSINES[x * 8 + u]! * block[y * 8 + x]!;
+        temp[y * 8 + u] = sum;
+      }
+    }
+    const quantized = new Int32Array(64);
+    for (let v = 0; v < 8; v++) {
+      for (let u = 0; u < 8; u++) {
+        let sum = 0;
+        for (let y = 0; y < 8; y++) sum += COSINES[y * 8 + v]! * temp[y * 8 + u]!;
+        block[v * 8 + u] = sum;
+      }
+    }
+    for (let k = 0; k < 64; k++) quantized[k] = Math.round(block[ZIGZAG[k]!]! / quant[k]!);
+
+    const diff = quantized[0]! - predictions[component]!;
+    predictions[component] = quantized[0]!;
+    const [dcSize, dcBits] = magnitude(diff);
+    writer.write(...dc[dcSize]!);
+    writer.write(dcBits, dcSize);
+
+    let run = 0;
+    for (let k = 1; k < 64; k++) {
+      const value = quantized[k]!;
+      if (value === 0) {
+        run++;
+        continue;
+      }
+      while (run > 15) {
+        writer.write(...ac[0xf0]!);
+        run -= 16;
+      }
+      const [size, bits] = magnitude(value);
+      writer.write(...ac[(run << 4) | size]!);
+      writer.write(bits, size);
+      run = 0;
+    }
+    if (run > 0) writer.write(...ac[0x00]!);
+  };
+
+  // Load an 8x8 block from a plane; `scale` 2 averages 2x2 pixels for the subsampled chroma
+  const load = (plane: Float32Array, left: number, top: number, scale: number) => {
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        let sum = 0;
+        for (let dy = 0; dy < scale; dy++) {
+          for (let dx = 0; dx < scale; dx++) {
+            const px = Math.min(width - 1, left + x * scale + dx);
+            const py = Math.min(height - 1, top + y * scale + dy);
+            sum += plane[py * width + px]!;
+          }
+        }
+        block[y * 8 + x] = sum / (scale * scale);
+      }
+    }
+  };
+
+  for (let top = 0; top < height; top += 16) {
+    for (let left = 0; left < width; left += 16) {
+      for (const [dx, dy] of [[0, 0], [8, 0], [0, 8], [8, 8]] as const) {
+        load(planeY, left + dx, top + dy, 1);
+        encodeBlock(lumaQuant, codes.lumaDc, codes.lumaAc, 0);
+      }
+      load(planeCb, left, top, 2);
+      encodeBlock(chromaQuant, codes.chromaDc, codes.chromaAc, 1);
+      load(planeCr, left, top, 2);
+      encodeBlock(chromaQuant, codes.chromaDc, codes.chromaAc, 2);
+    }
+  }
+
+  const sof = [8, height >> 8, height & 255, width >> 8, width & 255, 3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1];
+  const dht = (tableClass: number, id: number, spec: HuffmanSpec) => [(tableClass << 4) | id, ...spec.counts, ...spec.values];
+  return Buffer.concat([
+    Buffer.from([0xff, 0xd8]),
+    segment(0xe0, [...Buffer.from('JFIF\0', 'latin1'), 1, 1, 0, 0, 1, 0, 1, 0, 0]),
+    segment(0xdb, [0, ...lumaQuant, 1, ...chromaQuant]),
+    segment(0xc0, sof),
+    segment(0xc4, [
+      ...dht(0, 0, HUFFMAN_SPECS.lumaDc), ...dht(1, 0, HUFFMAN_SPECS.lumaAc),
+      ...dht(0, 1, HUFFMAN_SPECS.chromaDc), ...dht(1, 1, HUFFMAN_SPECS.chromaAc)
+    ]),
+    segment(0xda, [3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0]),
+    writer.finish(),
+    Buffer.from([0xff, 0xd9])
+  ]);
+}
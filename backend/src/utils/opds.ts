@@ -0,0 +1,48 @@
+import { Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { buildErrorResponse } from '../types/api';
+import { ExtendedRequest } from '../types';
+
+// Helpers shared by the OPDS 1.2 (Atom) and OPDS 2.0 (JSON) feeds
+
+// Author shape as returned by the book services (rows or pre-joined names)
+export type OpdsAuthor = string | { avtorid?: number; lastname?: string; firstname?: string; nickname?: string };
+
+const MEDIA_TYPES: Record<string, string> = {
+  'fb2': 'application/x-fictionbook+xml',
+  'epub': 'application/epub+zip',
+  'pdf': 'application/pdf',
+  'mobi': 'application/x-mobipocket-ebook',
+  'azw3': 'application/vnd.amazon.ebook',
+  'txt': 'text/plain',
+  'html': 'text/html',
+  'htm': 'text/html',
+  'rtf': 'application/rtf',
+  'docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'djvu': 'image/vnd.djvu',
+  'djv': 'image/vnd.djvu'
+};
+
+// Validation middleware
+export const validate = (req: ExtendedRequest, res: Response, next: NextFunction): Response | void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json(buildErrorResponse('Validation failed'));
+  }
+  next();
+};
+
+/** Entries per feed page (OPDS_FEED_COUNT) */
+export const feedLimit = (): number => parseInt(process.env.OPDS_FEED_COUNT || '100') || 100;
+
+/** "Lastname Firstname", or the nickname when the author has no name */
+export function authorName(author: OpdsAuthor): string {
+  if (typeof author === 'string') return author.trim();
+  const name = [author.lastname, author.firstname].filter(Boolean).join(' ').trim();
+  return name || (author.nickname || '').trim();
+}
+
+/** Media type of an acquisition link for a book file type */
+export function mediaType(fileType: string): string {
+  return MEDIA_TYPES[fileType.toLowerCase()] || 'application/octet-stream';
+}
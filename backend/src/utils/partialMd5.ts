@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+
+// KOReader identifies documents by an md5 of 1 KiB samples at offsets 256, 1K, 4K, ... 1G (1024 << 2i, i = -1..10)
+const SAMPLE_SIZE = 1024;
+const SAMPLE_OFFSETS = Array.from({ length: 12 }, (_, k) => Math.floor(1024 * 4 ** (k - 1)));
+
+/**
+ * KOReader's "partial md5" of a whole file (the kosync document id for binary matching)
+ */
+export function partialMd5(data: Buffer): string {
+  const hash = crypto.createHash('md5');
+  for (const offset of SAMPLE_OFFSETS) {
+    if (offset >= data.length) break;
+    hash.update(data.subarray(offset, offset + SAMPLE_SIZE));
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Pass-through stream computing the partial md5 of everything written through it.
+ * onDigest runs once the stream ends; a stream destroyed early never reports.
+ */
+export function createPartialMd5Stream(onDigest: (md5: string) => void): Transform {
+  const samples = SAMPLE_OFFSETS.map(offset => ({ offset, chunks: [] as Buffer[], length: 0 }));
+  let position = 0;
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+      const end = position + chunk.length;
+      for (const sample of samples) {
+        const sampleEnd = sample.offset + SAMPLE_SIZE;
+        if (sample.offset >= end || sampleEnd <= position) continue;
+        const from = Math.max(sample.offset, position) - position;
+        const to = Math.min(sampleEnd, end) - position;
+        sample.chunks.push(chunk.subarray(from, to));
+        sample.length += to - from;
+      }
+      position = end;
+      callback(null, chunk);
+    },
+    flush(callback: TransformCallback) {
+      const hash = crypto.createHash('md5');
+      for (const sample of samples) {
+        if (sample.offset >= position) break;
+        hash.update(Buffer.concat(sample.chunks, sample.length));
+      }
+      onDigest(hash.digest('hex'));
+      callback();
+    }
+  });
+}
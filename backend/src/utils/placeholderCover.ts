@@ -0,0 +1,268 @@
+import { RgbImage } from './image';
+import { GLYPH_BASELINE, GLYPH_COLUMNS, glyphRows, glyphText } from './bitmapFont';
+
+// Generated covers for books without an image: deterministic SVG with title, author and series number
+
+export interface PlaceholderCoverInfo {
+  title: string;
+  author?: string | null;
+  series?: string | null;
+  seriesNumber?: number | null;
+  genre?: string | null;
+}
+
+const WIDTH = 400;
+const HEIGHT = 600;
+
+// Base hue per genre family (the part of the code before the first underscore)
+const GENRE_HUES: Record<string, number> = {
+  sf: 215, det: 0, thriller: 350, prose: 28, love: 330, adv: 120, child: 48, poetry: 275, dramaturgy: 300,
+  antique: 38, sci: 185, science: 185, comp: 200, ref: 160, nonf: 145, nonfiction: 145, religion: 260,
+  religi: 260, humor: 60, home: 15, military: 90, fantasy: 245, other: 210
+};
+
+function hash(text: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 16777619);
+  return h >>> 0;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' })[c]!);
+}
+
+function unescapeXml(text: string): string {
+  return text.replace(/&(amp|lt|gt|quot|apos);/g, (_, name: string) => ({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" })[name]!);
+}
+
+// hsl() as #rrggbb: not every SVG rasterizer understands CSS colour functions
+function hsl(hue: number, saturation: number, lightness: number): string {
+  const s = saturation / 100, l = lightness / 100;
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const value = l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+}
+
+/** Colours derived from the genre code: same genre, same palette */
+export function genrePalette(genre?: string | null): { background: string; shade: string; accent: string } {
+  const code = (genre || '').toLowerCase();
+  const family = code.split('_')[0] || '';
+  const base = GENRE_HUES[family || 'other'] ?? hash(family) % 360;
+  // Sub-genres drift a little around the family hue
+  const hue = (base + (code ? hash(code) % 31 - 15 : 0) + 360) % 360;
+  return {
+    background: hsl(hue, 42, 30),
+    shade: hsl(hue, 48, 14),
+    accent: hsl((hue + 35) % 360, 70, 72)
+  };
+}
+
+// Greedy word wrap by character count; overflowing text ends with an ellipsis
+function wrap(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (candidate.length <= maxChars || !line) {
+      line = candidate.length > maxChars ? `${candidate.slice(0, maxChars - 1)}…` : candidate;
+      continue;
+    }
+    lines.push(line);
+    line = word.length > maxChars ? `${word.slice(0, maxChars - 1)}…` : word;
+  }
+  if (line) lines.push(line);
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] = `${lines[maxLines - 1]!.replace(/…$/, '').slice(0, maxChars - 1)}…`;
+  }
+  return lines;
+}
+
+function textBlock(lines: string[], y: number, fontSize: number, attrs: string): string {
+  const spans = lines.map((line, i) => `<tspan x="${WIDTH / 2}" dy="${i === 0 ? 0 : Math.round(fontSize * 1.2)}">${escapeXml(line)}</tspan>`);
+  return `<text y="${y}" font-size="${fontSize}" ${attrs}>${spans.join('')}</text>`;
+}
+
+/**
+ * Render a placeholder cover. The output depends only on the input, so it can be cached and ETagged.
+ */
+export function renderPlaceholderCover(info: PlaceholderCoverInfo): string {
+  const { background, shade, accent } = genrePalette(info.genre);
+  const title = (info.title || '').replace(/\s+/g, ' ').trim() || 'Без названия';
+  const fontSize = title.length > 60 ? 30 : title.length > 28 ? 36 : 44;
+  const titleLines = wrap(title, Math.floor(620 / fontSize), 6);
+  const titleHeight = (titleLines.length - 1) * Math.round(fontSize * 1.2);
+  const titleTop = Math.round(HEIGHT / 2 - titleHeight / 2);
+  const font = `font-family="'DejaVu Sans', 'Liberation Sans', Arial, sans-serif" text-anchor="middle"`;
+
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">`,
+    `<defs><linearGradient id="bg" x1="0" y1="0" x2="0.4" y2="1"><stop offset="0" stop-color="${background}"/><stop offset="1" stop-color="${shade}"/></linearGradient></defs>`,
+    `<rect width="${WIDTH}" height="${HEIGHT}" fill="url(#bg)"/>`,
+    `<rect x="18" y="18" width="${WIDTH - 36}" height="${HEIGHT - 36}" fill="none" stroke="${accent}" stroke-opacity="0.45" stroke-width="2"/>`,
+    `<rect x="18" y="${titleTop - fontSize - 22}" width="${WIDTH - 36}" height="3" fill="${accent}" fill-opacity="0.8"/>`,
+    `<rect x="18" y="${titleTop + titleHeight + 30}" width="${WIDTH - 36}" height="3" fill="${accent}" fill-opacity="0.8"/>`
+  ];
+  if (info.author) parts.push(textBlock(wrap(info.author, 26, 2), 78, 24, `${font} fill="${accent}"`));
+  parts.push(textBlock(titleLines, titleTop, fontSize, `${font} font-weight="bold" fill="#ffffff"`));
+  if (info.series || info.seriesNumber) {
+    const series = [info.series, info.seriesNumber ? `№ ${info.seriesNumber}` : ''].filter(Boolean).join(' · ');
+    parts.push(textBlock(wrap(series, 30, 2), HEIGHT - 84, 22, `${font} fill="#ffffff" fill-opacity="0.85"`));
+  }
+  parts.push('</svg>');
+  return parts.join('\n');
+}
+
+interface Gradient {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  stops: Array<{ offset: number; rgb: number[] }>;
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  return new RegExp(`\\s${name}="([^"]*)"`).exec(tag)?.[1];
+}
+
+function hexRgb(color: string): number[] | null {
+  const match = /^#([0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) return null;
+  const value = parseInt(match[1]!, 16);
+  return [value >> 16, (value >> 8) & 0xff, value & 0xff];
+}
+
+// Paint at a point of a shape's bounding box (u, v in 0..1)
+type Paint = (u: number, v: number) => number[];
+
+function paintOf(value: string | undefined, gradients: Map<string, Gradient>): Paint | null {
+  if (!value || value === 'none') return null;
+  const ref = /^url\(#([^)]+)\)$/.exec(value);
+  if (!ref) {
+    const rgb = hexRgb(value);
+    return rgb ? () => rgb : null;
+  }
+  const gradient = gradients.get(ref[1]!);
+  const [first, last] = [gradient?.stops[0], gradient?.stops[gradient.stops.length - 1]];
+  if (!gradient || !first || !last) return null;
+  // objectBoundingBox units: project the point onto the gradient vector in box space
+  const dx = gradient.x2 - gradient.x1, dy = gradient.y2 - gradient.y1;
+  const length = dx * dx + dy * dy || 1;
+  return (u, v) => {
+    const t = ((u - gradient.x1) * dx + (v - gradient.y1) * dy) / length;
+    if (t <= first.offset) return first.rgb;
+    if (t >= last.offset) return last.rgb;
+    const i = gradient.stops.findIndex(stop => stop.offset >= t);
+    const a = gradient.stops[i - 1]!, b = gradient.stops[i]!;
+    const k = (t - a.offset) / ((b.offset - a.offset) || 1);
+    return a.rgb.map((c, n) => c + (b.rgb[n]! - c) * k);
+  };
+}
+
+/**
+ * Raster version of a generated cover for hosts without ImageMagick, at the SVG's own size: background
+ * gradient, frame and rules, and the title, author and series in the built-in bitmap font. Null for other SVGs.
+ */
+export function rasterizePlaceholderCover(svg: string): RgbImage | null {
+  const root = /<svg\b[^>]*>/.exec(svg)?.[0] || '';
+  const width = Number(attribute(root, 'width')), height = Number(attribute(root, 'height'));
+  if (!(width > 0 && height > 0 && width * height <= 4_000_000)) return null;
+
+  const gradients = new Map<string, Gradient>();
+  for (const [, attrs, body] of svg.matchAll(/<linearGradient\b([^>]*)>([\s\S]*?)<\/linearGradient>/g)) {
+    const id = attribute(attrs!, 'id');
+    const stops = [...body!.matchAll(/<stop\b[^>]*>/g)].flatMap(([tag]) => {
+      const rgb = hexRgb(attribute(tag, 'stop-color') || '');
+      return rgb ? [{ offset: Number(attribute(tag, 'offset') || 0), rgb }] : [];
+    });
+    const coordinate = (name: string, fallback: number) => Number(attribute(attrs!, name) ?? fallback);
+    if (id) gradients.set(id, { x1: coordinate('x1', 0), y1: coordinate('y1', 0), x2: coordinate('x2', 1), y2: coordinate('y2', 0), stops });
+  }
+
+  const data = new Uint8Array(width * height * 3).fill(255);
+  // Pixels a rectangle touches, with the part of each it covers
+  const cover = (x: number, y: number, w: number, h: number, visit: (px: number, py: number, coverage: number) => void) => {
+    for (let py = Math.max(0, Math.floor(y)); py < Math.min(height, Math.ceil(y + h)); py++) {
+      const coverY = Math.min(py + 1, y + h) - Math.max(py, y);
+      for (let px = Math.max(0, Math.floor(x)); px < Math.min(width, Math.ceil(x + w)); px++) {
+        visit(px, py, coverY * (Math.min(px + 1, x + w) - Math.max(px, x)));
+      }
+    }
+  };
+  const blend = (px: number, py: number, rgb: number[], alpha: number) => {
+    const o = (py * width + px) * 3;
+    for (let c = 0; c < 3; c++) data[o + c] = Math.round(data[o + c]! * (1 - alpha) + rgb[c]! * alpha);
+  };
+  // Blend a rectangle in, with partial coverage at its edges
+  const fill = (x: number, y: number, w: number, h: number, paint: Paint, opacity: number) => {
+    cover(x, y, w, h, (px, py, coverage) => blend(px, py, paint((px + 0.5 - x) / w, (py + 0.5 - y) / h), opacity * coverage));
+  };
+
+  for (const [tag] of svg.matchAll(/<rect\b[^>]*>/g)) {
+    const length = (name: string, total: number, fallback: number) => {
+      const value = attribute(tag, name);
+      if (value === undefined) return fallback;
+      return value.endsWith('%') ? total * parseFloat(value) / 100 : Number(value);
+    };
+    const x = length('x', width, 0), y = length('y', height, 0);
+    const w = length('width', width, 0), h = length('height', height, 0);
+    if (!(w > 0 && h > 0)) continue;
+    const fillPaint = paintOf(attribute(tag, 'fill') ?? '#000000', gradients);
+    if (fillPaint) fill(x, y, w, h, fillPaint, Number(attribute(tag, 'fill-opacity') ?? 1));
+    const stroke = paintOf(attribute(tag, 'stroke'), gradients);
+    if (stroke) {
+      // Centred on the outline; the sides stop short of the corners so they are not blended twice
+      const sw = Number(attribute(tag, 'stroke-width') ?? 1), opacity = Number(attribute(tag, 'stroke-opacity') ?? 1);
+      fill(x - sw / 2, y - sw / 2, w + sw, sw, stroke, opacity);
+      fill(x - sw / 2, y + h - sw / 2, w + sw, sw, stroke, opacity);
+      fill(x - sw / 2, y + sw / 2, sw, h - sw, stroke, opacity);
+      fill(x + w - sw / 2, y + sw / 2, sw, h - sw, stroke, opacity);
+    }
+  }
+
+  // Text: every line of a <text> is laid out from its <tspan>s. Glyph cells are summed into a coverage mask
+  // first, so neighbouring font pixels join without seams, and the mask is blended in once
+  for (const [, attrs, body] of svg.matchAll(/<text\b([^>]*)>([\s\S]*?)<\/text>/g)) {
+    const fontSize = Number(attribute(attrs!, 'font-size') ?? 16);
+    const rgb = hexRgb(attribute(attrs!, 'fill') ?? '#000000');
+    if (!(fontSize > 0) || !rgb) continue;
+    const opacity = Number(attribute(attrs!, 'fill-opacity') ?? 1);
+    const anchor = attribute(attrs!, 'text-anchor') || 'start';
+    // Thicker vertical strokes for bold text
+    const boldWidth = /^(bold|[6-9]00)$/.test(attribute(attrs!, 'font-weight') || '') ? 0.4 : 0;
+    const spans = [...body!.matchAll(/<tspan\b([^>]*)>([^<]*)<\/tspan>/g)];
+    const lines = spans.length ? spans.map(([, spanAttrs, text]) => ({ attrs: spanAttrs!, text: text! })) : [{ attrs: attrs!, text: body! }];
+
+    const mask = new Float32Array(width * height);
+    let baseline = Number(attribute(attrs!, 'y') ?? 0);
+    let x = Number(attribute(attrs!, 'x') ?? 0);
+    for (const line of lines) {
+      baseline += Number(attribute(line.attrs, 'dy') ?? 0);
+      x = Number(attribute(line.attrs, 'x') ?? x);
+      const chars = glyphText(unescapeXml(line.text));
+      // Cap height about two thirds of the font size; lines too wide for the image are narrowed to fit
+      const unit = Math.min(fontSize / 11, (width * 0.92) / (chars.length * (GLYPH_COLUMNS + 1)));
+      const lineWidth = chars.length * (GLYPH_COLUMNS + 1) * unit - unit;
+      let left = anchor === 'middle' ? x - lineWidth / 2 : anchor === 'end' ? x - lineWidth : x;
+      for (const char of chars) {
+        glyphRows(char).forEach((bits, row) => {
+          for (let col = 0; col < GLYPH_COLUMNS; col++) {
+            if (!(bits & (1 << (GLYPH_COLUMNS - 1 - col)))) continue;
+            cover(left + col * unit, baseline - (GLYPH_BASELINE - row) * unit, unit * (1 + boldWidth), unit, (px, py, coverage) => {
+              const index = py * width + px;
+              mask[index] = mask[index]! + coverage;
+            });
+          }
+        });
+        left += (GLYPH_COLUMNS + 1) * unit;
+      }
+    }
+    mask.forEach((coverage, index) => {
+      if (coverage > 0) blend(index % width, Math.floor(index / width), rgb, opacity * Math.min(1, coverage));
+    });
+  }
+  return { width, height, data };
+}
@@ -0,0 +1,131 @@
+import zlib from 'zlib';
+import { RgbImage } from './image';
+
+// PNG decoding to RGB: all colour types and bit depths, Adam7 interlacing; transparency is flattened onto white
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+// Adam7 passes: x start, y start, x step, y step
+const ADAM7 = [[0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4], [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2]] as const;
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+// Undo the per-scanline filters of one (sub)image in place; returns the raw rows without filter bytes
+function unfilter(data: Buffer, offset: number, width: number, height: number, bitsPerPixel: number): { rows: Uint8Array; stride: number; end: number } {
+  const stride = Math.ceil(width * bitsPerPixel / 8);
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const rows = new Uint8Array(stride * height);
+  let pos = offset;
+  for (let y = 0; y < height; y++) {
+    const filter = data[pos++];
+    const row = y * stride;
+    const prev = row - stride;
+    for (let x = 0; x < stride; x++) {
+      const raw = data[pos++] ?? 0;
+      const a = x >= bpp ? rows[row + x - bpp]! : 0;
+      const b = y > 0 ? rows[prev + x]! : 0;
+      const c = y > 0 && x >= bpp ? rows[prev + x - bpp]! : 0;
+      let value: number;
+      switch (filter) {
+        case 1: value = raw + a; break;
+        case 2: value = raw + b; break;
+        case 3: value = raw + ((a + b) >> 1); break;
+        case 4: value = raw + paeth(a, b, c); break;
+        default: value = raw;
+      }
+      rows[row + x] = value & 0xff;
+    }
+  }
+  return { rows, stride, end: pos };
+}
+
+export function decodePng(buf: Buffer): RgbImage {
+  let pos = 8;
+  let width = 0, height = 0, depth = 0, colorType = 0, interlace = 0;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+  while (pos + 8 <= buf.length) {
+    const length = buf.readUInt32BE(pos);
+    const type = buf.toString('latin1', pos + 4, pos + 8);
+    const body = buf.subarray(pos + 8, pos + 8 + length);
+    pos += 12 + length;
+    if (type === 'IHDR') {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      depth = body[8]!;
+      colorType = body[9]!;
+      interlace = body[12]!;
+    } else if (type === 'PLTE') palette = body;
+    else if (type === 'tRNS') transparency = body;
+    else if (type === 'IDAT') idat.push(body);
+    else if (type === 'IEND') break;
+  }
+  const channels = CHANNELS[colorType];
+  if (!width || !height || !channels) throw new Error('Invalid PNG header');
+  if (colorType === 3 && !palette) throw new Error('PNG palette missing');
+
+  const data = zlib.inflateSync(Buffer.concat(idat));
+  const bitsPerPixel = channels * depth;
+  const out = new Uint8Array(width * height * 3);
+  const maxValue = (1 << depth) - 1;
+  // tRNS for grey and RGB images names one fully transparent colour
+  const transparentKey = transparency && (colorType === 0 || colorType === 2)
+    ? Array.from({ length: colorType === 0 ? 1 : 3 }, (_, i) => transparency!.readUInt16BE(i * 2))
+    : null;
+
+  const sample = (rows: Uint8Array, rowStart: number, index: number): number => {
+    if (depth === 8) return rows[rowStart + index]!;
+    if (depth === 16) return (rows[rowStart + index * 2]! << 8) | rows[rowStart + index * 2 + 1]!;
+    const bit = index * depth;
+    return (rows[rowStart + (bit >> 3)]! >> (8 - depth - (bit & 7))) & maxValue;
+  };
+  const to8 = (value: number) => depth === 16 ? value >> 8 : depth === 8 ? value : Math.round(value * 255 / maxValue);
+
+  const put = (rows: Uint8Array, rowStart: number, column: number, x: number, y: number) => {
+    const s = column * channels;
+    let r: number, g: number, b: number, alpha = 255;
+    if (colorType === 3) {
+      const index = sample(rows, rowStart, s);
+      r = palette![index * 3] ?? 0;
+      g = palette![index * 3 + 1] ?? 0;
+      b = palette![index * 3 + 2] ?? 0;
+      if (transparency && index < transparency.length) alpha = transparency[index]!;
+    } else if (colorType === 0 || colorType === 4) {
+      const grey = sample(rows, rowStart, s);
+      if (transparentKey && grey === transparentKey[0]) alpha = 0;
+      r = g = b = to8(grey);
+      if (colorType === 4) alpha = to8(sample(rows, rowStart, s + 1));
+    } else {
+      const rr = sample(rows, rowStart, s), gg = sample(rows, rowStart, s + 1), bb = sample(rows, rowStart, s + 2);
+      if (transparentKey && rr === transparentKey[0] && gg === transparentKey[1] && bb === transparentKey[2]) alpha = 0;
+      r = to8(rr); g = to8(gg); b = to8(bb);
+      if (colorType === 6) alpha = to8(sample(rows, rowStart, s + 3));
+    }
+    const o = (y * width + x) * 3;
+    out[o] = (r * alpha + 255 * (255 - alpha)) / 255;
+    out[o + 1] = (g * alpha + 255 * (255 - alpha)) / 255;
+    out[o + 2] = (b * alpha + 255 * (255 - alpha)) / 255;
+  };
+
+  if (!interlace) {
+    const { rows, stride } = unfilter(data, 0, width, height, bitsPerPixel);
+    for (let y = 0; y < height; y++) for (let x = 0; x < width; x++) put(rows, y * stride, x, x, y);
+  } else {
+    let offset = 0;
+    for (const [x0, y0, dx, dy] of ADAM7) {
+      const passWidth = Math.ceil((width - x0) / dx);
+      const passHeight = Math.ceil((height - y0) / dy);
+      if (passWidth <= 0 || passHeight <= 0) continue;
+      const { rows, stride, end } = unfilter(data, offset, passWidth, passHeight, bitsPerPixel);
+      offset = end;
+      for (let y = 0; y < passHeight; y++) {
+        for (let x = 0; x < passWidth; x++) put(rows, y * stride, x, x0 + x * dx, y0 + y * dy);
+      }
+    }
+  }
+  return { width, height, data: out };
+}
@@ -0,0 +1,80 @@
+import { XmlElement, XmlNode, xmlAttr } from './fb2';
+import { escapeHtml } from './fb2Render';
+
+// Whitelist for book content shown inside the SPA; everything else is unwrapped or dropped
+const ALLOWED_TAGS = new Set([
+  'p', 'div', 'span', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'code',
+  'em', 'i', 'strong', 'b', 'u', 's', 'del', 'ins', 'sub', 'sup', 'small', 'big', 'mark', 'cite', 'q', 'abbr',
+  'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'table', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th', 'caption',
+  'figure', 'figcaption', 'section', 'article', 'aside', 'header', 'footer', 'a', 'img'
+]);
+const DROPPED_TAGS = new Set([
+  'head', 'script', 'style', 'noscript', 'template', 'iframe', 'object', 'embed', 'form', 'input',
+  'button', 'select', 'textarea', 'audio', 'video', 'canvas', 'link', 'meta', 'title', 'base'
+]);
+const VOID_TAGS = new Set(['br', 'hr', 'img']);
+const ALLOWED_ATTRS: Record<string, string[]> = {
+  '*': ['id', 'title', 'lang', 'dir'],
+  a: ['href'],
+  img: ['src', 'alt', 'width', 'height'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan'],
+  ol: ['start']
+};
+
+export interface SanitizeOptions {
+  /** Map a link target to a safe URL, or null to drop the link (its text is kept) */
+  rewriteHref: (href: string) => string | null;
+  /** Map an image source to a served URL, or null to drop the image */
+  rewriteSrc: (src: string) => string | null;
+}
+
+function sanitizeElement(el: XmlElement, options: SanitizeOptions): string {
+  if (DROPPED_TAGS.has(el.name)) return '';
+
+  // SVG wrappers are mostly used for cover images; keep the picture, drop the rest
+  if (el.name === 'svg') {
+    const image = findDescendant(el, 'image');
+    const href = image && xmlAttr(image, 'href');
+    const src = href ? options.rewriteSrc(href) : null;
+    return src ? `<img src="${escapeHtml(src)}" alt="">` : '';
+  }
+
+  const inner = sanitizeNodes(el.children, options);
+  if (el.name === 'body' || !ALLOWED_TAGS.has(el.name)) return inner;
+
+  const attrs: string[] = [];
+  const allowed = [...ALLOWED_ATTRS['*']!, ...(ALLOWED_ATTRS[el.name] || [])];
+  for (const [rawName, rawValue] of Object.entries(el.attrs)) {
+    const name = rawName.toLowerCase() === 'xml:lang' ? 'lang' : rawName.toLowerCase();
+    if (!allowed.includes(name)) continue;
+    let value: string | null = rawValue;
+    if (name === 'href') value = options.rewriteHref(rawValue);
+    else if (name === 'src') value = options.rewriteSrc(rawValue);
+    if (value === null) {
+      if (el.name === 'img' && name === 'src') return '';
+      continue;
+    }
+    attrs.push(` ${name}="${escapeHtml(value)}"`);
+  }
+  if (el.name === 'img' && !attrs.some(a => a.startsWith(' src='))) return '';
+
+  const open = `<${el.name}${attrs.join('')}>`;
+  // Content swallowed by an unclosed HTML-style void tag is kept after it
+  return VOID_TAGS.has(el.name) ? `${open}${inner}` : `${open}${inner}</${el.name}>`;
+}
+
+function findDescendant(el: XmlElement, name: string): XmlElement | undefined {
+  for (const child of el.children) {
+    if (typeof child === 'string') continue;
+    if (child.name === name) return child;
+    const found = findDescendant(child, name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/** Serialize parsed (X)HTML keeping only whitelisted tags and attributes, with URLs rewritten */
+export function sanitizeNodes(nodes: XmlNode[], options: SanitizeOptions): string {
+  return nodes.map(n => (typeof n === 'string' ? escapeHtml(n) : sanitizeElement(n, options))).join('');
+}
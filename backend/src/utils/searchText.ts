@@ -0,0 +1,86 @@
+import { transliterate } from './fileName';
+
+// Query rewriting for search: ё/е folding and Latin <-> Cyrillic transliteration
+
+/** Replace ё with е (the library spells the same word both ways) */
+export function foldYo(text: string): string {
+  return text.replace(/ё/g, 'е').replace(/Ё/g, 'Е');
+}
+
+/**
+ * POSIX regex (for `~*`) matching the text with е and ё interchangeable.
+ * pg_trgm indexes serve `~*` like ILIKE, so this keeps title lookups indexed.
+ */
+export function yoInsensitiveRegex(text: string, mode: 'contains' | 'prefix' | 'exact' = 'contains'): string {
+  const body = foldYo(text)
+    .replace(/[\\^$.*+?()[\]{}|]/g, c => `\\${c}`)
+    .replace(/[еЕ]/g, '[её]');
+  return mode === 'exact' ? `^${body}$` : mode === 'prefix' ? `^${body}` : body;
+}
+
+// Multi-letter Latin spellings first: "shch" must win over "sh" + "ch"
+const LATIN_DIGRAPHS: Array<[string, string]> = [
+  ['shch', 'щ'], ['sch', 'щ'], ['zh', 'ж'], ['kh', 'х'], ['ch', 'ч'], ['sh', 'ш'], ['ts', 'ц'], ['tz', 'ц'],
+  ['yu', 'ю'], ['iu', 'ю'], ['ju', 'ю'], ['ya', 'я'], ['ia', 'я'], ['ja', 'я'], ['yo', 'ё'], ['jo', 'ё'], ['ye', 'е'],
+  ['ck', 'к'], ['ph', 'ф'], ['th', 'т'], ['ee', 'и'], ['oo', 'у']
+];
+
+const LATIN_LETTERS: Record<string, string> = {
+  a: 'а', b: 'б', c: 'к', d: 'д', e: 'е', f: 'ф', g: 'г', h: 'х', i: 'и', j: 'й', k: 'к', l: 'л', m: 'м', n: 'н',
+  o: 'о', p: 'п', q: 'к', r: 'р', s: 'с', t: 'т', u: 'у', v: 'в', w: 'в', x: 'кс', y: 'ы', z: 'з'
+};
+
+const VOWELS = new Set(['а', 'е', 'ё', 'и', 'о', 'у', 'ы', 'э', 'ю', 'я']);
+
+// Surname endings: Dostoevsky, Strugatsky, Dostoyevskiy
+const LATIN_ENDINGS: Array<[RegExp, string]> = [
+  [/tsk(?:y|iy|ii|ij)$/, 'цкий'], [/sk(?:y|iy|ii|ij)$/, 'ский'], [/(?:iy|ij|yi)$/, 'ий']
+];
+
+function latinWordToCyrillic(word: string): string {
+  let lower = word.toLowerCase();
+  let ending = '';
+  for (const [pattern, cyr] of LATIN_ENDINGS) {
+    const match = lower.match(pattern);
+    if (match && match.index! > 0) { ending = cyr; lower = lower.slice(0, match.index); break; }
+  }
+  let out = '';
+  for (let i = 0; i < lower.length;) {
+    const digraph = LATIN_DIGRAPHS.find(([latin]) => lower.startsWith(latin, i));
+    if (digraph) { out += digraph[1]; i += digraph[0].length; continue; }
+    const char = lower[i]!;
+    const prev = out[out.length - 1];
+    let cyr = LATIN_LETTERS[char];
+    // y after a vowel is й (Tolstoy, Bayan), after a consonant at the end of a word и (Harry)
+    if (char === 'y' && prev && VOWELS.has(prev)) cyr = 'й';
+    else if (char === 'y' && i === lower.length - 1 && !ending) cyr = 'и';
+    // c before e, i, y reads as ц (Cicero)
+    if (char === 'c' && /[eiy]/.test(lower[i + 1] || '')) cyr = 'ц';
+    // A word-initial e is usually э (Ehrenburg, Eco)
+    if (char === 'e' && i === 0) cyr = 'э';
+    out += cyr ?? char;
+    i++;
+  }
+  out += ending;
+  // Keep capitalization of the original word
+  if (word === word.toUpperCase() && word.length > 1) return out.toUpperCase();
+  if (word[0] && word[0] !== word[0].toLowerCase()) return out.charAt(0).toUpperCase() + out.slice(1);
+  return out;
+}
+
+/** Latin to Cyrillic by common Russian romanizations (ICAO, BGN, everyday spellings); other characters pass through */
+export function latinToCyrillic(text: string): string {
+  return text.replace(/[A-Za-z]+/g, word => latinWordToCyrillic(word));
+}
+
+/**
+ * The query in the other script: Latin queries become Cyrillic, Cyrillic ones Latin (ICAO).
+ * Null when the query has letters of neither script or both.
+ */
+export function transliterationVariant(query: string): string | null {
+  const latin = /[A-Za-z]/.test(query);
+  const cyrillic = /[А-Яа-яЁё]/.test(query);
+  if (latin === cyrillic) return null;
+  const variant = latin ? latinToCyrillic(query) : transliterate(query, 'icao');
+  return variant !== query ? variant : null;
+}
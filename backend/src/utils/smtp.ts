@@ -0,0 +1,304 @@
+import crypto from 'crypto';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import { encodeRfc5987 } from './fileName';
+
+/**
+ * Minimal SMTP client for relaying mail through a configured server
+ * (EHLO, STARTTLS, AUTH PLAIN/LOGIN, one recipient per message).
+ */
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;           // implicit TLS (usually port 465)
+  starttls: boolean;         // upgrade plain connections when the server offers STARTTLS
+  rejectUnauthorized: boolean;
+  allowPlaintextAuth: boolean; // send credentials without TLS (local test relays such as Mailpit)
+  user?: string;
+  pass?: string;
+  from: string;
+  timeoutMs: number;
+}
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * SMTP settings from SMTP_* environment variables; null when no relay is configured
+ */
+export function smtpConfigFromEnv(env: NodeJS.ProcessEnv = process.env): SmtpConfig | null {
+  const host = (env.SMTP_HOST || '').trim();
+  if (!host) return null;
+  const secure = env.SMTP_SECURE === 'true';
+  const config: SmtpConfig = {
+    host,
+    port: parseInt(env.SMTP_PORT || (secure ? '465' : '587')),
+    secure,
+    starttls: env.SMTP_STARTTLS !== 'false',
+    rejectUnauthorized: env.SMTP_TLS_REJECT_UNAUTHORIZED !== 'false',
+    allowPlaintextAuth: env.SMTP_ALLOW_PLAINTEXT_AUTH === 'true',
+    from: (env.SMTP_FROM || env.SMTP_USER || `flibusta@${host}`).trim(),
+    timeoutMs: parseInt(env.SMTP_TIMEOUT_MS || '60000')
+  };
+  if (env.SMTP_USER) config.user = env.SMTP_USER;
+  if (env.SMTP_PASS) config.pass = env.SMTP_PASS;
+  return config;
+}
+
+// Bare address out of "Name <address>"
+function envelopeAddress(address: string): string {
+  const match = /<([^>]+)>/.exec(address);
+  return (match ? match[1]! : address).trim();
+}
+
+// RFC 2047 encoded-word for non-ASCII header values
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function wrapBase64(data: Buffer): string {
+  return (data.toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+}
+
+/**
+ * Render a message as multipart/mixed MIME with base64 attachments
+ */
+export function buildMessage(message: MailMessage, domain = os.hostname()): { data: string; messageId: string } {
+  const messageId = `<${crypto.randomUUID()}@${domain}>`;
+  const boundary = `----=_flb_${crypto.randomBytes(12).toString('hex')}`;
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${boundary}"`
+  ];
+
+  const parts = [[
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(Buffer.from(message.text, 'utf8'))
+  ].join('\r\n')];
+
+  for (const attachment of message.attachments || []) {
+    // Encoded-word name for clients that ignore RFC 2231 (the de facto form), filename* for the rest
+    const asciiName = encodeHeader(attachment.filename.replace(/["\\]/g, '_'));
+    const utf8Name = encodeRfc5987(attachment.filename);
+    parts.push([
+      `Content-Type: ${attachment.contentType}; name="${asciiName}"`,
+      'Content-Transfer-Encoding: base64',
+      `Content-Disposition: attachment; filename="${asciiName}"; filename*=UTF-8''${utf8Name}`,
+      '',
+      wrapBase64(attachment.content)
+    ].join('\r\n'));
+  }
+
+  const body = parts.map(part => `--${boundary}\r\n${part}\r\n`).join('') + `--${boundary}--\r\n`;
+  return { data: `${headers.join('\r\n')}\r\n\r\n${body}`, messageId };
+}
+
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = '';
+  private pending: string[] = [];
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket, private timeoutMs: number) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setTimeout(this.timeoutMs);
+    socket.on('data', (chunk: Buffer) => this.onData(chunk.toString('utf8')));
+    socket.on('timeout', () => this.fail(new Error('SMTP connection timed out')));
+    socket.on('error', (error: Error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private onData(text: string): void {
+    this.buffer += text;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) >= 0) {
+      this.pending.push(this.buffer.slice(0, newline).replace(/\r$/, ''));
+      this.buffer = this.buffer.slice(newline + 1);
+    }
+    this.flush();
+  }
+
+  // Hand out a reply once its last line ("250 ok" rather than "250-...") has arrived
+  private flush(): void {
+    if (!this.waiter) return;
+    const last = this.pending.findIndex(line => !/^\d{3}-/.test(line));
+    if (last < 0) return;
+    const lines = this.pending.splice(0, last + 1);
+    const waiter = this.waiter;
+    this.waiter = null;
+    waiter.resolve({ code: parseInt(lines[lines.length - 1]!.slice(0, 3)) || 0, lines: lines.map(line => line.slice(4)) });
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return;
+    this.failure = error;
+    if (this.waiter) {
+      const waiter = this.waiter;
+      this.waiter = null;
+      waiter.reject(error);
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+      this.flush();
+      if (this.waiter && this.failure) {
+        this.waiter = null;
+        reject(this.failure);
+      }
+    });
+  }
+
+  /** Send a command and require one of the expected reply codes */
+  async command(line: string, expect: number[], redact = false): Promise<SmtpReply> {
+    if (this.failure) throw this.failure;
+    this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!expect.includes(reply.code)) {
+      const shown = redact ? line.replace(/\S+$/, '***') : line;
+      throw new Error(`SMTP ${shown.slice(0, 60)} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  async upgrade(host: string, rejectUnauthorized: boolean): Promise<void> {
+    this.socket.removeAllListeners();
+    const secured = tls.connect({ socket: this.socket, servername: host, rejectUnauthorized });
+    await new Promise<void>((resolve, reject) => {
+      secured.once('secureConnect', () => resolve());
+      secured.once('error', reject);
+    });
+    this.socket = secured;
+    this.buffer = '';
+    this.pending = [];
+    this.attach(secured);
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  close(): void {
+    this.socket.end();
+    this.socket.destroy();
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host, rejectUnauthorized: config.rejectUnauthorized })
+      : net.connect({ host: config.host, port: config.port });
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(new Error(`SMTP connection to ${config.host}:${config.port} timed out`));
+    }, config.timeoutMs);
+    socket.once(config.secure ? 'secureConnect' : 'connect', () => {
+      clearTimeout(timer);
+      socket.removeAllListeners('error');
+      resolve(socket);
+    });
+    socket.once('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
+
+// EHLO keywords in upper case, e.g. { STARTTLS: '', AUTH: 'PLAIN LOGIN', SIZE: '52428800' }
+function parseExtensions(reply: SmtpReply): Record<string, string> {
+  const extensions: Record<string, string> = {};
+  for (const line of reply.lines.slice(1)) {
+    const [keyword, ...rest] = line.trim().split(/\s+/);
+    if (keyword) extensions[keyword.toUpperCase()] = rest.join(' ').toUpperCase();
+  }
+  return extensions;
+}
+
+/**
+ * Deliver one message through the relay; resolves with the Message-ID and the server's final reply
+ */
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<{ messageId: string; response: string }> {
+  const from = envelopeAddress(message.from);
+  const { data, messageId } = buildMessage(message, from.split('@')[1] || os.hostname());
+  const connection = new SmtpConnection(await connect(config), config.timeoutMs);
+  const helo = os.hostname() || 'localhost';
+
+  try {
+    const greeting = await connection.read();
+    if (greeting.code !== 220) throw new Error(`SMTP server rejected connection: ${greeting.code} ${greeting.lines.join(' ')}`);
+
+    let extensions = parseExtensions(await connection.command(`EHLO ${helo}`, [250]));
+    let encrypted = config.secure;
+    if (!config.secure && config.starttls && 'STARTTLS' in extensions) {
+      await connection.command('STARTTLS', [220]);
+      await connection.upgrade(config.host, config.rejectUnauthorized);
+      extensions = parseExtensions(await connection.command(`EHLO ${helo}`, [250]));
+      encrypted = true;
+    }
+
+    const maxSize = parseInt(extensions.SIZE || '0');
+    if (maxSize > 0 && data.length > maxSize) {
+      throw new Error(`Message of ${data.length} bytes exceeds the server limit of ${maxSize} bytes`);
+    }
+
+    if (config.user) {
+      // PLAIN and LOGIN carry the password in clear base64
+      if (!encrypted && !config.allowPlaintextAuth) {
+        throw new Error('SMTP connection is not encrypted (no TLS or STARTTLS); refusing to send credentials. '
+          + 'Set SMTP_ALLOW_PLAINTEXT_AUTH=true to allow it');
+      }
+      const methods = (extensions.AUTH || '').split(' ');
+      if (methods.includes('PLAIN') || !methods.includes('LOGIN')) {
+        const token = Buffer.from(`\0${config.user}\0${config.pass || ''}`, 'utf8').toString('base64');
+        await connection.command(`AUTH PLAIN ${token}`, [235], true);
+      } else {
+        await connection.command('AUTH LOGIN', [334]);
+        await connection.command(Buffer.from(config.user, 'utf8').toString('base64'), [334], true);
+        await connection.command(Buffer.from(config.pass || '', 'utf8').toString('base64'), [235], true);
+      }
+    }
+
+    await connection.command(`MAIL FROM:<${from}>`, [250]);
+    await connection.command(`RCPT TO:<${envelopeAddress(message.to)}>`, [250, 251]);
+    await connection.command('DATA', [354]);
+    // Dot-stuffing: lines starting with "." get a second one
+    connection.write(data.replace(/^\./gm, '..'));
+    const accepted = await connection.command('.', [250]);
+    await connection.command('QUIT', [221]).catch(() => undefined);
+    return { messageId, response: `${accepted.code} ${accepted.lines.join(' ')}` };
+  } finally {
+    connection.close();
+  }
+}
@@ -0,0 +1,40 @@
+import { parentPort } from 'worker_threads';
+import { decodeImage, fitWithin, resizeImage } from './image';
+import { encodeJpeg } from './jpeg';
+import { rasterizePlaceholderCover } from './placeholderCover';
+
+// Built-in cover thumbnails: the pure-TypeScript decode, resize and encode. Loaded by ThumbnailService
+// as a worker thread (one job per message) so big covers do not block the event loop.
+
+export interface ThumbnailJob {
+  data: Uint8Array;
+  width?: number | undefined;
+  height?: number | undefined;
+  quality: number;
+}
+
+export type ThumbnailResult = { data: Uint8Array | null } | { error: string };
+
+/**
+ * JPEG thumbnail of a JPEG or PNG image (or a generated SVG cover) fitted within the requested box;
+ * null for other formats
+ */
+export function renderJpegThumbnail(job: ThumbnailJob): Buffer | null {
+  const data = Buffer.from(job.data.buffer, job.data.byteOffset, job.data.byteLength);
+  const image = data.subarray(0, 5).toString('latin1') === '<svg '
+    ? rasterizePlaceholderCover(data.toString('utf8'))
+    : decodeImage(data);
+  if (!image) return null;
+  const target = fitWithin(image.width, image.height, job.width, job.height);
+  return encodeJpeg(resizeImage(image, target.width, target.height), job.quality);
+}
+
+parentPort?.on('message', (job: ThumbnailJob) => {
+  let result: ThumbnailResult;
+  try {
+    result = { data: renderJpegThumbnail(job) };
+  } catch (error) {
+    result = { error: (error as Error).message };
+  }
+  parentPort!.postMessage(result);
+});
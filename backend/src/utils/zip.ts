@@ -0,0 +1,375 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import zlib from 'zlib';
+import { Readable, Transform, Writable } from 'stream';
+
+// Minimal ZIP/ZIP64 reader: parses the central directory from the end of the archive and
+// streams single entries from their local header, so multi-gigabyte archives are never
+// loaded into memory (AdmZip reads the whole file and refuses anything over 2 GiB).
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+// Parsed central directories of recently used archives, keyed by path
+const DIRECTORY_CACHE_SIZE = 8;
+const directoryCache = new Map<string, { mtimeMs: number; size: number; entries: ZipEntryInfo[] }>();
+
+export interface ZipEntryInfo {
+  name: string;
+  method: number;
+  flags: number;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+async function readAt(handle: fsp.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buf = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buf, 0, length, position);
+  return bytesRead === length ? buf : buf.subarray(0, bytesRead);
+}
+
+async function locateCentralDirectory(handle: fsp.FileHandle, fileSize: number): Promise<{ offset: number; size: number; count: number }> {
+  const tailLength = Math.min(fileSize, EOCD_MIN_SIZE + MAX_COMMENT_SIZE);
+  const tailStart = fileSize - tailLength;
+  const tail = await readAt(handle, tailStart, tailLength);
+
+  let eocd = -1;
+  for (let i = tail.length - EOCD_MIN_SIZE; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === EOCD_SIGNATURE) { eocd = i; break; }
+  }
+  if (eocd < 0) throw new Error('Not a ZIP archive: end of central directory not found');
+
+  let count = tail.readUInt16LE(eocd + 10);
+  let size = tail.readUInt32LE(eocd + 12);
+  let offset = tail.readUInt32LE(eocd + 16);
+
+  // ZIP64 archives store 0xFFFF/0xFFFFFFFF here and the real values in the ZIP64 record
+  if (count === 0xffff || size === 0xffffffff || offset === 0xffffffff) {
+    const locatorPos = tailStart + eocd - 20;
+    const locator = await readAt(handle, locatorPos, 20);
+    if (locator.length < 20 || locator.readUInt32LE(0) !== ZIP64_LOCATOR_SIGNATURE) {
+      throw new Error('ZIP64 end of central directory locator not found');
+    }
+    const record = await readAt(handle, Number(locator.readBigUInt64LE(8)), 56);
+    if (record.readUInt32LE(0) !== ZIP64_EOCD_SIGNATURE) {
+      throw new Error('ZIP64 end of central directory record not found');
+    }
+    count = Number(record.readBigUInt64LE(32));
+    size = Number(record.readBigUInt64LE(40));
+    offset = Number(record.readBigUInt64LE(48));
+  }
+
+  return { offset, size, count };
+}
+
+function parseCentralDirectory(dir: Buffer, count: number): ZipEntryInfo[] {
+  const entries: ZipEntryInfo[] = [];
+  let pos = 0;
+  for (let i = 0; i < count && pos + 46 <= dir.length; i++) {
+    if (dir.readUInt32LE(pos) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt central directory at entry ${i}`);
+    }
+    const flags = dir.readUInt16LE(pos + 8);
+    const method = dir.readUInt16LE(pos + 10);
+    const crc32 = dir.readUInt32LE(pos + 16);
+    let compressedSize = dir.readUInt32LE(pos + 20);
+    let uncompressedSize = dir.readUInt32LE(pos + 24);
+    const nameLength = dir.readUInt16LE(pos + 28);
+    const extraLength = dir.readUInt16LE(pos + 30);
+    const commentLength = dir.readUInt16LE(pos + 32);
+    let localHeaderOffset = dir.readUInt32LE(pos + 42);
+
+    const nameStart = pos + 46;
+    // Bit 11 marks UTF-8 names; older archivers use the DOS code page, which is ASCII for our book ids
+    const name = dir.toString((flags & 0x800) ? 'utf8' : 'latin1', nameStart, nameStart + nameLength);
+
+    // ZIP64 extended information: present values appear in this fixed order
+    let extraPos = nameStart + nameLength;
+    const extraEnd = extraPos + extraLength;
+    while (extraPos + 4 <= extraEnd) {
+      const headerId = dir.readUInt16LE(extraPos);
+      const dataSize = dir.readUInt16LE(extraPos + 2);
+      if (headerId === 0x0001) {
+        let p = extraPos + 4;
+        if (uncompressedSize === 0xffffffff) { uncompressedSize = Number(dir.readBigUInt64LE(p)); p += 8; }
+        if (compressedSize === 0xffffffff) { compressedSize = Number(dir.readBigUInt64LE(p)); p += 8; }
+        if (localHeaderOffset === 0xffffffff) { localHeaderOffset = Number(dir.readBigUInt64LE(p)); }
+        break;
+      }
+      extraPos += 4 + dataSize;
+    }
+
+    entries.push({ name, method, flags, crc32, compressedSize, uncompressedSize, localHeaderOffset });
+    pos = extraEnd + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * List the entries of an archive by reading only its central directory.
+ */
+export async function readZipDirectory(zipPath: string): Promise<ZipEntryInfo[]> {
+  const stat = await fsp.stat(zipPath);
+  const cached = directoryCache.get(zipPath);
+  if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+    // Refresh recency
+    directoryCache.delete(zipPath);
+    directoryCache.set(zipPath, cached);
+    return cached.entries;
+  }
+
+  const handle = await fsp.open(zipPath, 'r');
+  try {
+    const { offset, size, count } = await locateCentralDirectory(handle, stat.size);
+    const entries = parseCentralDirectory(await readAt(handle, offset, size), count);
+
+    directoryCache.set(zipPath, { mtimeMs: stat.mtimeMs, size: stat.size, entries });
+    if (directoryCache.size > DIRECTORY_CACHE_SIZE) {
+      const oldest = directoryCache.keys().next().value;
+      if (oldest !== undefined) directoryCache.delete(oldest);
+    }
+    return entries;
+  } finally {
+    await handle.close();
+  }
+}
+
+// Find an entry by exact path or by trailing path component(s), case-insensitively
+export function findZipEntry(entries: ZipEntryInfo[], name: string): ZipEntryInfo | null {
+  const wanted = name.replace(/\\/g, '/').toLowerCase();
+  return entries.find(e => e.name.toLowerCase() === wanted)
+    || entries.find(e => e.name.toLowerCase().endsWith(`/${wanted}`))
+    || null;
+}
+
+async function entryDataOffset(zipPath: string, entry: ZipEntryInfo): Promise<number> {
+  const handle = await fsp.open(zipPath, 'r');
+  try {
+    const header = await readAt(handle, entry.localHeaderOffset, 30);
+    if (header.length < 30 || header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt local header for ${entry.name}`);
+    }
+    // Local name/extra lengths may differ from the central directory copy
+    return entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  } finally {
+    await handle.close();
+  }
+}
+
+// Pass through only bytes [start, end] of the inflated stream
+function sliceStream(start: number, end: number): Transform {
+  let pos = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      const chunkStart = pos;
+      pos += chunk.length;
+      if (pos <= start || chunkStart > end) { callback(); return; }
+      callback(null, chunk.subarray(Math.max(0, start - chunkStart), Math.min(chunk.length, end - chunkStart + 1)));
+    }
+  });
+}
+
+/**
+ * Open a stream of an entry's uncompressed bytes, optionally limited to an inclusive byte range.
+ * Stored entries seek straight to the range; deflated ones are inflated and skipped up to it.
+ */
+export async function createZipEntryStream(zipPath: string, entry: ZipEntryInfo, range?: { start: number; end: number }): Promise<Readable> {
+  if (entry.flags & 0x1) throw new Error(`Encrypted ZIP entries are not supported: ${entry.name}`);
+  if (entry.method !== 0 && entry.method !== 8) {
+    throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}`);
+  }
+
+  if (entry.uncompressedSize === 0) return Readable.from([]);
+
+  const dataStart = await entryDataOffset(zipPath, entry);
+
+  if (entry.method === 0) {
+    const start = dataStart + (range ? range.start : 0);
+    const end = dataStart + (range ? range.end : entry.compressedSize - 1);
+    return fs.createReadStream(zipPath, { start, end });
+  }
+
+  const raw = fs.createReadStream(zipPath, { start: dataStart, end: dataStart + Math.max(0, entry.compressedSize - 1) });
+  const inflate = zlib.createInflateRaw();
+  raw.on('error', err => inflate.destroy(err));
+  const inflated = raw.pipe(inflate);
+  if (!range) return inflated;
+
+  const slice = sliceStream(range.start, range.end);
+  inflated.on('error', err => slice.destroy(err));
+  return inflated.pipe(slice);
+}
+
+/**
+ * Read a whole entry into memory. Only for consumers that need the full file (conversion, cover parsing).
+ */
+export async function readZipEntry(zipPath: string, entry: ZipEntryInfo): Promise<Buffer> {
+  const stream = await createZipEntryStream(zipPath, entry);
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Read an entry by its path inside the archive (e.g. images in lib.b.attached.zip).
+ */
+export async function readZipEntryByName(zipPath: string, name: string): Promise<Buffer> {
+  const entry = findZipEntry(await readZipDirectory(zipPath), name);
+  if (!entry) throw new Error(`Entry not found in zip: ${name}`);
+  return readZipEntry(zipPath, entry);
+}
+
+let crcTable: Uint32Array | null = null;
+
+export function crc32(buf: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) crc = crcTable[(crc ^ buf[i]!) & 0xff]! ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export interface ZipWriteEntry {
+  name: string;
+  data: Buffer;
+  /** Store without compression (e.g. the EPUB mimetype entry) */
+  store?: boolean;
+}
+
+function dosDateTime(modified: Date): { time: number; date: number } {
+  return {
+    time: (modified.getHours() << 11) | (modified.getMinutes() << 5) | (modified.getSeconds() >> 1),
+    date: ((modified.getFullYear() - 1980) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate()
+  };
+}
+
+// Local header, central directory record and compressed body of one entry written at `offset`
+function encodeEntry(entry: ZipWriteEntry, offset: number, stamp: { time: number; date: number }): { local: Buffer; central: Buffer } {
+  const UTF8_NAMES = 0x0800;
+  const name = Buffer.from(entry.name, 'utf8');
+  const method = entry.store ? 0 : 8;
+  const body = entry.store ? entry.data : zlib.deflateRawSync(entry.data);
+  const crc = crc32(entry.data);
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+  local.writeUInt16LE(20, 4);
+  local.writeUInt16LE(UTF8_NAMES, 6);
+  local.writeUInt16LE(method, 8);
+  local.writeUInt16LE(stamp.time, 10);
+  local.writeUInt16LE(stamp.date, 12);
+  local.writeUInt32LE(crc, 14);
+  local.writeUInt32LE(body.length, 18);
+  local.writeUInt32LE(entry.data.length, 22);
+  local.writeUInt16LE(name.length, 26);
+  local.writeUInt16LE(0, 28);
+
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(20, 4);
+  header.writeUInt16LE(20, 6);
+  header.writeUInt16LE(UTF8_NAMES, 8);
+  header.writeUInt16LE(method, 10);
+  header.writeUInt16LE(stamp.time, 12);
+  header.writeUInt16LE(stamp.date, 14);
+  header.writeUInt32LE(crc, 16);
+  header.writeUInt32LE(body.length, 20);
+  header.writeUInt32LE(entry.data.length, 24);
+  header.writeUInt16LE(name.length, 28);
+  header.writeUInt32LE(offset, 42);
+
+  return { local: Buffer.concat([local, name, body]), central: Buffer.concat([header, name]) };
+}
+
+function endOfCentralDirectory(count: number, directorySize: number, directoryOffset: number): Buffer {
+  const eocd = Buffer.alloc(EOCD_MIN_SIZE);
+  eocd.writeUInt32LE(EOCD_SIGNATURE, 0);
+  eocd.writeUInt16LE(count, 8);
+  eocd.writeUInt16LE(count, 10);
+  eocd.writeUInt32LE(directorySize, 12);
+  eocd.writeUInt32LE(directoryOffset, 16);
+  return eocd;
+}
+
+/**
+ * Build a small in-memory ZIP keeping entries in the given order. AdmZip sorts entries by name,
+ * which breaks formats like EPUB whose first entry is fixed. No ZIP64, so keep packages under 4 GiB.
+ */
+export function buildZip(entries: ZipWriteEntry[], modified = new Date()): Buffer {
+  const stamp = dosDateTime(modified);
+  const parts: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const encoded = encodeEntry(entry, offset, stamp);
+    parts.push(encoded.local);
+    central.push(encoded.central);
+    offset += encoded.local.length;
+  }
+
+  const directory = Buffer.concat(central);
+  return Buffer.concat([...parts, directory, endOfCentralDirectory(entries.length, directory.length, offset)]);
+}
+
+/**
+ * Write a ZIP to a stream one entry at a time, so only the current entry is held in memory.
+ * Same limits as buildZip: no ZIP64, under 65535 entries and 4 GiB.
+ */
+export class ZipStreamWriter {
+  private central: Buffer[] = [];
+  private offset = 0;
+  private stamp: { time: number; date: number };
+
+  constructor(private out: Writable, modified = new Date()) {
+    this.stamp = dosDateTime(modified);
+  }
+
+  /** Bytes written so far */
+  get size(): number {
+    return this.offset;
+  }
+
+  get count(): number {
+    return this.central.length;
+  }
+
+  async add(entry: ZipWriteEntry): Promise<void> {
+    const encoded = encodeEntry(entry, this.offset, this.stamp);
+    this.central.push(encoded.central);
+    this.offset += encoded.local.length;
+    await this.write(encoded.local);
+  }
+
+  async finish(): Promise<void> {
+    const directory = Buffer.concat(this.central);
+    await this.write(Buffer.concat([directory, endOfCentralDirectory(this.central.length, directory.length, this.offset)]));
+    this.out.end();
+  }
+
+  // Respect backpressure so slow clients do not make us buffer the whole archive
+  private write(chunk: Buffer): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (this.out.destroyed) return reject(new Error('Output stream closed'));
+      if (this.out.write(chunk)) return resolve();
+      const cleanup = () => { this.out.off('drain', onDrain); this.out.off('close', onClose); };
+      const onDrain = () => { cleanup(); resolve(); };
+      const onClose = () => { cleanup(); reject(new Error('Output stream closed')); };
+      this.out.once('drain', onDrain);
+      this.out.once('close', onClose);
+    });
+  }
+}